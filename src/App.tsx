@@ -1,20 +1,84 @@
 import { useState, useEffect } from 'react';
-import { ZoomLevel } from './types';
-import { useProject } from './hooks/useProject';
+import { Project, SubPackage } from './types';
+import { useProject, ProjectWorkspace } from './hooks/useProject';
+import { useViewport } from './hooks/useViewport';
 import { Toolbar } from './components/Toolbar';
 import { WorkPackageTree } from './components/WorkPackageTree';
 import { Timeline } from './components/Timeline';
 import { ToastContainer } from './components/ToastContainer';
+import { CalendarSettings } from './components/CalendarSettings';
+import { ImportPreviewDialog } from './components/ImportPreviewDialog';
+import { CsvImportDialog } from './components/CsvImportDialog';
+import { IcsImportDialog } from './components/IcsImportDialog';
+import { PdfExportDialog } from './components/PdfExportDialog';
+import { ProjectSwitcher } from './components/ProjectSwitcher';
+import { VersionsPanel } from './components/VersionsPanel';
+import { BaselinePanel } from './components/BaselinePanel';
+import { SelectionBar } from './components/SelectionBar';
+import { ItemEditor } from './components/ItemEditor';
+import { ShortcutsDialog } from './components/ShortcutsDialog';
+import { computeVariances } from './utils/baselines';
+import { projectProgress, statusDateOf } from './utils/progress';
+import { GERMAN_STATES } from './utils/holidays';
+import {
+  Selection,
+  SelectionModifier,
+  EMPTY_SELECTION,
+  orderedItemIds,
+  selectItem,
+  selectItems,
+  pruneSelection,
+  selectedSubPackageIds,
+  copySubPackages,
+} from './utils/selection';
+import { analyzeProjectJson, ProjectAnalysis } from './utils/schema';
+import { analyzeMspdi, exportToMspdi } from './utils/mspdi';
+import { exportToCsv } from './utils/csv';
+import { exportToXlsx } from './utils/xlsx';
+import { IcsAnalysis, analyzeIcs, exportToIcs } from './utils/ics';
+import { tickUnitFor } from './utils/timeScale';
+import { PdfExportOptions, generateTimelinePdf } from './utils/pdfUtils';
 import { runDevChecks } from './utils/devChecks';
+import { benchmarkSizeFromUrl, generateBenchmarkProject } from './utils/benchmark';
+import { workPackageOf, findSubPackage } from './utils/wbs';
 
-function App() {
-  const [zoomLevel, setZoomLevel] = useState<ZoomLevel>('month');
+interface AppProps {
+  workspace: ProjectWorkspace;
+}
+
+function App({ workspace }: AppProps) {
+  const [showCalendarSettings, setShowCalendarSettings] = useState(false);
+  const [showProjects, setShowProjects] = useState(false);
+  const [showVersions, setShowVersions] = useState(false);
+  const [showBaselines, setShowBaselines] = useState(false);
+  const [importPreview, setImportPreview] = useState<(ProjectAnalysis & { project: Project }) | null>(null);
+  const [csvImportText, setCsvImportText] = useState<string | null>(null); // Table import dialog ('' = paste)
+  const [icsImport, setIcsImport] = useState<IcsAnalysis | null>(null);
+  const [showPdfExport, setShowPdfExport] = useState(false);
+  const [selection, setSelection] = useState<Selection>(EMPTY_SELECTION);
+  const [clipboard, setClipboard] = useState<SubPackage[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [gridMode, setGridMode] = useState(false);
+  const [showCriticalPath, setShowCriticalPath] = useState(false);
+  const [collapsedIds, setCollapsedIds] = useState<ReadonlySet<string>>(new Set());
 
   const {
     project,
+    projects,
+    openProject,
+    createProject,
+    duplicateProject,
+    renameProject,
+    archiveProject,
+    deleteProject,
+    loadSnapshots,
+    saveSnapshot,
+    restoreSnapshot,
     updateProject,
     addWorkPackage,
     updateWorkPackage,
+    rescheduleWorkPackage,
     deleteWorkPackage,
     addSubPackage,
     updateSubPackage,
@@ -22,33 +86,233 @@ function App() {
     addMilestone,
     updateMilestone,
     deleteMilestone,
+    addDependency,
+    updateDependency,
+    deleteDependency,
+    addBaseline,
+    deleteBaseline,
+    setActiveBaseline,
+    moveItems,
+    recolorSelection,
+    assignSelection,
+    deleteSelection,
+    indentItems,
+    outdentItems,
+    moveInTree,
+    moveInTreeBy,
+    pasteIntoWorkPackage,
     exportToJson,
-    importFromJson,
+    importProject,
+    mergeTableRows,
+    mergeCalendarEvents,
+    beginGesture,
+    endGesture,
+    undo,
+    redo,
+    undoLabel,
+    redoLabel,
     toasts,
     addToast,
     removeToast,
-  } = useProject();
+    storeViewport,
+  } = useProject(workspace);
+  const { viewport, setViewport } = useViewport(workspace.store, project, storeViewport);
+
+  // Active baseline and per-item variance against it
+  const activeBaseline = project.baselines.find(b => b.id === project.activeBaselineId);
+  const variances = activeBaseline
+    ? new Map(computeVariances(project, activeBaseline).map(variance => [variance.id, variance]))
+    : undefined;
+  const progress = projectProgress(project);
+
+  // Selected items that were deleted (or undone) drop out of the selection
+  useEffect(() => {
+    setSelection(prev => pruneSelection(prev, project));
+  }, [project]);
+
+  const selectedIds = selection.ids;
+  const handleSelect = (id: string, modifier: SelectionModifier) => {
+    setSelection(prev => selectItem(prev, id, modifier, orderedItemIds(project)));
+  };
+  const handleSelectMany = (ids: string[], additive: boolean) => {
+    setSelection(prev => selectItems(prev, ids, additive));
+  };
+  const clearSelection = () => setSelection(EMPTY_SELECTION);
+
+  // Expanding and collapsing is shared by the tree and the grid beside the timeline
+  const toggleCollapsed = (id: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleCopySelection = () => {
+    const copied = copySubPackages(project, selectedIds);
+    if (copied.length === 0) {
+      addToast('Nur UAPs können kopiert werden', 'info');
+      return;
+    }
+    setClipboard(copied);
+    addToast(`${copied.length} UAP${copied.length === 1 ? '' : 's'} kopiert`, 'success');
+  };
+
+  const handlePaste = (apId: string) => {
+    if (clipboard.length === 0) return;
+    const pastedIds = pasteIntoWorkPackage(apId, clipboard);
+    setSelection(selectItems(EMPTY_SELECTION, pastedIds, false));
+  };
+
+  const handleDeleteSelection = () => {
+    if (window.confirm(`${selectedIds.size} ausgewählte Element${selectedIds.size === 1 ? '' : 'e'} löschen?`)) {
+      deleteSelection(selectedIds);
+    }
+  };
+
+  // Deletes a single item focused in the timeline
+  const handleDeleteItem = (id: string) => {
+    const ap = project.workPackages.find(wp => wp.id === id);
+    const parent = workPackageOf(project.workPackages, id);
+    const uap = parent && findSubPackage(parent.subPackages, id);
+    const ms = project.milestones.find(m => m.id === id);
+    const title = ap?.title ?? uap?.title ?? ms?.title;
+    if (title === undefined || !window.confirm(`Wirklich "${title}" löschen?`)) return;
+
+    if (ap) deleteWorkPackage(id);
+    else if (parent) deleteSubPackage(parent.id, id);
+    else deleteMilestone(id);
+  };
+
+  // Returns keyboard focus to the edited item in the timeline
+  const closeEditor = () => {
+    const id = editingId;
+    setEditingId(null);
+    requestAnimationFrame(() => {
+      document.querySelector<SVGElement>(`[data-item-id="${id}"]`)?.focus();
+    });
+  };
+
+  // Selection shortcuts: Esc, Entf, Strg+C and Strg+V (into the selected AP)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target;
+      if (target instanceof HTMLElement && target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (selectedIds.size === 0 || e.defaultPrevented || editingId || showShortcuts) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'escape') {
+        clearSelection();
+      } else if (key === 'delete' || key === 'backspace') {
+        e.preventDefault();
+        handleDeleteSelection();
+      } else if (key === 'c' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        handleCopySelection();
+      } else if (key === 'v' && (e.ctrlKey || e.metaKey)) {
+        const targetAp = project.workPackages.filter(wp => selectedIds.has(wp.id));
+        if (clipboard.length === 0 || targetAp.length !== 1) return;
+        e.preventDefault();
+        handlePaste(targetAp[0].id);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // ?benchmark[=<UAPs>] opens a generated test project (see utils/benchmark.ts)
+  useEffect(() => {
+    const size = benchmarkSizeFromUrl(window.location.search);
+    if (size === null) return;
+    window.history.replaceState(null, '', window.location.pathname);
+    createProject(generateBenchmarkProject(size));
+  }, []);
+
+  // "?" opens the shortcut cheat sheet
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== '?') return;
+      const target = e.target;
+      if (target instanceof HTMLElement && target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      e.preventDefault();
+      setShowShortcuts(true);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   // Run dev checks on mount
   useEffect(() => {
     runDevChecks();
   }, []);
 
+  // Undo/redo shortcuts (text fields keep their native undo)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target;
+      if (target instanceof HTMLElement && target.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
   // Export handlers
-  const handleExportJson = () => {
-    const json = exportToJson();
-    const blob = new Blob([json], { type: 'application/json' });
+  const downloadFile = (content: string | Uint8Array, filename: string, type: string) => {
+    const blob = new Blob([content as BlobPart], { type });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `${project.name}.json`;
+    link.download = filename;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
+  };
+
+  const handleExportJson = () => {
+    downloadFile(exportToJson(), `${project.name}.json`, 'application/json');
     addToast('JSON exportiert', 'success');
   };
 
+  const handleExportCsv = () => {
+    downloadFile(exportToCsv(project), `${project.name}.csv`, 'text/csv');
+    addToast('Tabelle exportiert', 'success');
+  };
+
+  // The Gantt sheet uses the tick unit of the current zoom
+  const handleExportXlsx = () => {
+    downloadFile(
+      exportToXlsx(project, tickUnitFor(viewport.pixelsPerDay)),
+      `${project.name}.xlsx`,
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    );
+    addToast('Excel-Datei exportiert', 'success');
+  };
+
+  const handleExportIcs = (includeSubPackages: boolean) => {
+    downloadFile(exportToIcs(project, { includeSubPackages }), `${project.name}.ics`, 'text/calendar');
+    addToast('Kalender exportiert', 'success');
+  };
+
+  const handleExportMspdi = () => {
+    downloadFile(exportToMspdi(project), `${project.name}.xml`, 'application/xml');
+    addToast('MS-Project-XML exportiert', 'success');
+  };
+
   const handleCopyJson = async () => {
     const json = exportToJson();
     try {
@@ -59,8 +323,34 @@ function App() {
     }
   };
 
-  const handleImportJson = (json: string) => {
-    importFromJson(json);
+  // Imports are validated and shown in a preview before replacing the project
+  const previewImport = (analysis: ProjectAnalysis) => {
+    if (!analysis.project) {
+      addToast(`Import fehlgeschlagen: ${analysis.error}`, 'error');
+      return;
+    }
+    setImportPreview({ ...analysis, project: analysis.project });
+  };
+
+  const handleImportJson = (json: string) => previewImport(analyzeProjectJson(json));
+
+  const handleImportMspdi = (xml: string) => previewImport(analyzeMspdi(xml));
+
+  const handleImportIcs = (text: string) => {
+    const analysis = analyzeIcs(text, project);
+    if (analysis.error) addToast(`Import fehlgeschlagen: ${analysis.error}`, 'error');
+    else setIcsImport(analysis);
+  };
+
+  const handleExportPdfFile = (options: PdfExportOptions) => {
+    setShowPdfExport(false);
+    try {
+      generateTimelinePdf(project, options, `${project.name}-timeline.pdf`);
+      addToast('PDF exportiert', 'success');
+    } catch (error) {
+      console.error('PDF export failed', error);
+      addToast('PDF-Export fehlgeschlagen', 'error');
+    }
   };
 
   const handleExportPdf = () => {
@@ -75,7 +365,11 @@ function App() {
     const reader = new FileReader();
     reader.onload = (event) => {
       const text = event.target?.result as string;
-      handleImportJson(text);
+      const name = file.name.toLowerCase();
+      if (name.endsWith('.xml')) handleImportMspdi(text);
+      else if (name.endsWith('.ics')) handleImportIcs(text);
+      else if (/\.(csv|tsv|txt)$/.test(name)) setCsvImportText(text);
+      else handleImportJson(text);
     };
     reader.readAsText(file);
   };
@@ -85,14 +379,25 @@ function App() {
       {/* Toolbar */}
       <Toolbar
         projectName={project.name}
-        zoomLevel={zoomLevel}
-        onZoomChange={setZoomLevel}
         onAddWorkPackage={addWorkPackage}
         onAddMilestone={addMilestone}
         onExportJson={handleExportJson}
         onCopyJson={handleCopyJson}
         onImportJson={handleImportJson}
+        onExportMspdi={handleExportMspdi}
+        onImportMspdi={handleImportMspdi}
+        onExportCsv={handleExportCsv}
+        onExportXlsx={handleExportXlsx}
+        onExportIcs={handleExportIcs}
+        onImportIcs={handleImportIcs}
+        onImportCsv={setCsvImportText}
+        onExportPdfFile={() => setShowPdfExport(true)}
         onExportPdf={handleExportPdf}
+        undoLabel={undoLabel}
+        redoLabel={redoLabel}
+        onUndo={undo}
+        onRedo={redo}
+        onShowProjects={() => setShowProjects(true)}
       />
 
       {/* Main Content */}
@@ -116,7 +421,41 @@ function App() {
                 rows={2}
               />
             )}
+            {progress !== null && (
+              <div className="mt-3 px-0.5" title="Fortschritt aller UAPs (nach Dauer gewichtet)">
+                <div className="flex items-center justify-between text-xs mb-1">
+                  <span className="text-gray-600 font-medium">Fortschritt</span>
+                  <span className="text-gray-500 tabular-nums">{progress} %</span>
+                </div>
+                <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                  <div className="h-full bg-gray-700 rounded-full" style={{ width: `${progress}%` }} />
+                </div>
+              </div>
+            )}
             <div className="mt-3 flex items-center gap-2 p-2.5 bg-gray-50 rounded-lg">
+              <label htmlFor="statusDate" className="text-xs text-gray-600 font-medium">Stichtag</label>
+              <input
+                type="date"
+                id="statusDate"
+                value={statusDateOf(project)}
+                onChange={e =>
+                  updateProject({
+                    settings: { ...project.settings, statusDate: e.target.value || undefined },
+                  })
+                }
+                className="ml-auto text-xs bg-white border border-gray-200 rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-gray-400"
+              />
+              {project.settings.statusDate && (
+                <button
+                  onClick={() => updateProject({ settings: { ...project.settings, statusDate: undefined } })}
+                  className="text-xs text-gray-400 hover:text-gray-700"
+                  title="Stichtag auf heute zurücksetzen"
+                >
+                  Heute
+                </button>
+              )}
+            </div>
+            <div className="mt-2 flex items-center gap-2 p-2.5 bg-gray-50 rounded-lg">
               <input
                 type="checkbox"
                 id="clampUap"
@@ -135,19 +474,77 @@ function App() {
                 UAPs in manuellen APs begrenzen
               </label>
             </div>
+            <button
+              onClick={() => setShowCalendarSettings(true)}
+              className="mt-2 w-full flex items-center gap-2 p-2.5 bg-gray-50 hover:bg-gray-100 rounded-lg text-left transition-colors"
+            >
+              <svg className="w-3.5 h-3.5 text-gray-500 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+              </svg>
+              <span className="text-xs text-gray-600 font-medium">Arbeitskalender</span>
+              <span className="ml-auto text-xs text-gray-400 truncate">
+                {project.settings.calendar.holidayRegion
+                  ? GERMAN_STATES[project.settings.calendar.holidayRegion]
+                  : `${project.settings.calendar.workingDays.length} Tage/Woche`}
+              </span>
+            </button>
+            <button
+              onClick={() => setShowVersions(true)}
+              className="mt-2 w-full flex items-center gap-2 p-2.5 bg-gray-50 hover:bg-gray-100 rounded-lg text-left transition-colors"
+            >
+              <svg className="w-3.5 h-3.5 text-gray-500 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <span className="text-xs text-gray-600 font-medium">Versionen</span>
+            </button>
+            <button
+              onClick={() => setShowBaselines(true)}
+              className="mt-2 w-full flex items-center gap-2 p-2.5 bg-gray-50 hover:bg-gray-100 rounded-lg text-left transition-colors"
+            >
+              <svg className="w-3.5 h-3.5 text-gray-500 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h10M4 18h6" />
+              </svg>
+              <span className="text-xs text-gray-600 font-medium">Basispläne</span>
+              <span className="ml-auto text-xs text-gray-400 truncate">{activeBaseline?.name ?? 'Keiner'}</span>
+            </button>
           </div>
 
-          <WorkPackageTree
-            workPackages={project.workPackages}
-            milestones={project.milestones}
-            onUpdateWorkPackage={updateWorkPackage}
-            onDeleteWorkPackage={deleteWorkPackage}
-            onAddSubPackage={addSubPackage}
-            onUpdateSubPackage={updateSubPackage}
-            onDeleteSubPackage={deleteSubPackage}
-            onUpdateMilestone={updateMilestone}
-            onDeleteMilestone={deleteMilestone}
-          />
+          {gridMode ? (
+            <div className="px-5 py-5 space-y-3">
+              <p className="text-xs text-gray-500">
+                Rasteransicht: Die Gliederung steht zeilengenau neben der Timeline. Doppelklick auf eine Zeile öffnet
+                den Editor.
+              </p>
+              <button
+                onClick={() => setGridMode(false)}
+                className="px-3 py-1.5 text-xs font-medium text-white bg-gray-900 hover:bg-gray-800 rounded-lg"
+              >
+                Rasteransicht beenden
+              </button>
+            </div>
+          ) : (
+            <WorkPackageTree
+              workPackages={project.workPackages}
+              milestones={project.milestones}
+              calendar={project.settings.calendar}
+              variances={variances}
+              selectedIds={selectedIds}
+              collapsedIds={collapsedIds}
+              onToggleCollapsed={toggleCollapsed}
+              onSelect={handleSelect}
+              onUpdateWorkPackage={updateWorkPackage}
+              onDeleteWorkPackage={deleteWorkPackage}
+              onAddSubPackage={addSubPackage}
+              onUpdateSubPackage={updateSubPackage}
+              onDeleteSubPackage={deleteSubPackage}
+              onIndent={id => indentItems(new Set([id]))}
+              onOutdent={id => outdentItems(new Set([id]))}
+              onMoveItem={moveInTree}
+              onMoveItemBy={moveInTreeBy}
+              onUpdateMilestone={updateMilestone}
+              onDeleteMilestone={deleteMilestone}
+            />
+          )}
         </div>
 
         {/* Right Panel: Timeline */}
@@ -155,14 +552,170 @@ function App() {
           <Timeline
             workPackages={project.workPackages}
             milestones={project.milestones}
-            zoomLevel={zoomLevel}
+            dependencies={project.dependencies}
+            calendar={project.settings.calendar}
             clampUapInsideManualAp={project.settings.clampUapInsideManualAp}
+            baseline={activeBaseline}
+            statusDate={statusDateOf(project)}
+            viewport={viewport}
+            onViewportChange={setViewport}
+            selectedIds={selectedIds}
+            onSelect={handleSelect}
+            onSelectMany={handleSelectMany}
+            onClearSelection={clearSelection}
+            onMoveSelection={days => moveItems(selectedIds, days)}
+            onOpenEditor={setEditingId}
+            onDeleteItem={handleDeleteItem}
+            onShowShortcuts={() => setShowShortcuts(true)}
+            gridMode={gridMode}
+            onToggleGridMode={() => setGridMode(prev => !prev)}
+            showCriticalPath={showCriticalPath}
+            onToggleCriticalPath={() => setShowCriticalPath(prev => !prev)}
+            collapsedIds={collapsedIds}
+            onToggleCollapsed={toggleCollapsed}
+            onAddSubPackage={addSubPackage}
+            onIndent={indentItems}
+            onOutdent={outdentItems}
+            onMoveInOutline={moveInTreeBy}
+            onRescheduleWorkPackage={rescheduleWorkPackage}
             onUpdateSubPackage={updateSubPackage}
+            onUpdateMilestone={updateMilestone}
+            onAddDependency={addDependency}
+            onUpdateDependency={updateDependency}
+            onDeleteDependency={deleteDependency}
+            onDragStart={beginGesture}
+            onDragEnd={endGesture}
             onDrop={handleDrop}
           />
         </div>
       </div>
 
+      {/* Bulk actions for the multi-selection */}
+      {selectedIds.size > 0 && (
+        <SelectionBar
+          count={selectedIds.size}
+          subPackageCount={selectedSubPackageIds(project, selectedIds).length}
+          workPackages={project.workPackages}
+          clipboardCount={clipboard.length}
+          onMove={days => moveItems(selectedIds, days)}
+          onRecolor={color => recolorSelection(selectedIds, color)}
+          onAssign={(person, assign) => assignSelection(selectedIds, person, assign)}
+          onCopy={handleCopySelection}
+          onPaste={handlePaste}
+          onIndent={() => indentItems(selectedIds)}
+          onOutdent={() => outdentItems(selectedIds)}
+          onDelete={handleDeleteSelection}
+          onClear={clearSelection}
+        />
+      )}
+
+      {editingId && (
+        <ItemEditor
+          itemId={editingId}
+          workPackages={project.workPackages}
+          milestones={project.milestones}
+          onUpdateWorkPackage={updateWorkPackage}
+          onUpdateSubPackage={updateSubPackage}
+          onUpdateMilestone={updateMilestone}
+          onClose={closeEditor}
+        />
+      )}
+
+      {showShortcuts && <ShortcutsDialog onClose={() => setShowShortcuts(false)} />}
+
+      {/* Calendar Settings */}
+      {showCalendarSettings && (
+        <CalendarSettings
+          calendar={project.settings.calendar}
+          onChange={calendar => updateProject({ settings: { ...project.settings, calendar } })}
+          onClose={() => setShowCalendarSettings(false)}
+        />
+      )}
+
+      {showProjects && (
+        <ProjectSwitcher
+          projects={projects}
+          currentProjectId={project.id}
+          onOpen={async id => {
+            if (await openProject(id)) setShowProjects(false);
+          }}
+          onCreate={async () => {
+            await createProject();
+            setShowProjects(false);
+          }}
+          onDuplicate={duplicateProject}
+          onRename={renameProject}
+          onArchive={archiveProject}
+          onDelete={deleteProject}
+          onClose={() => setShowProjects(false)}
+        />
+      )}
+
+      {showVersions && (
+        <VersionsPanel
+          project={project}
+          loadSnapshots={loadSnapshots}
+          onSaveSnapshot={saveSnapshot}
+          onRestore={restoreSnapshot}
+          onClose={() => setShowVersions(false)}
+        />
+      )}
+
+      {showBaselines && (
+        <BaselinePanel
+          project={project}
+          onAdd={addBaseline}
+          onDelete={deleteBaseline}
+          onSelect={setActiveBaseline}
+          onClose={() => setShowBaselines(false)}
+        />
+      )}
+
+      {importPreview && (
+        <ImportPreviewDialog
+          analysis={importPreview}
+          currentProjectName={project.name}
+          onConfirm={imported => {
+            importProject(imported);
+            setImportPreview(null);
+          }}
+          onCancel={() => setImportPreview(null)}
+        />
+      )}
+
+      {csvImportText !== null && (
+        <CsvImportDialog
+          project={project}
+          initialText={csvImportText}
+          onImport={rows => {
+            mergeTableRows(rows);
+            setCsvImportText(null);
+          }}
+          onCancel={() => setCsvImportText(null)}
+        />
+      )}
+
+      {icsImport && (
+        <IcsImportDialog
+          analysis={icsImport}
+          onImport={events => {
+            mergeCalendarEvents(events);
+            setIcsImport(null);
+          }}
+          onCancel={() => setIcsImport(null)}
+        />
+      )}
+
+      {showPdfExport && (
+        <PdfExportDialog
+          project={project}
+          pixelsPerDay={viewport.pixelsPerDay}
+          showCriticalPath={showCriticalPath}
+          onExport={handleExportPdfFile}
+          onCancel={() => setShowPdfExport(false)}
+        />
+      )}
+
       {/* Toast Notifications */}
       <ToastContainer toasts={toasts} onRemove={removeToast} />
     </div>
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { Project, Baseline } from '../types';
+import { formatDate, formatTimestamp } from '../utils/dateUtils';
+import { computeVariances, formatVariance, varianceColor } from '../utils/baselines';
+
+interface BaselinePanelProps {
+  project: Project;
+  onAdd: (name: string) => void;
+  onDelete: (id: string) => void;
+  onSelect: (id: string | undefined) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS = { ap: 'AP', uap: 'UAP', ms: 'Meilenstein' } as const;
+
+export function BaselinePanel({ project, onAdd, onDelete, onSelect, onClose }: BaselinePanelProps) {
+  const [name, setName] = useState(`Basisplan ${project.baselines.length + 1}`);
+
+  const active = project.baselines.find(b => b.id === project.activeBaselineId);
+  const variances = active ? computeVariances(project, active) : [];
+
+  const handleAdd = () => {
+    if (!name.trim()) return;
+    onAdd(name.trim());
+    setName(`Basisplan ${project.baselines.length + 2}`);
+  };
+
+  const confirmDelete = (baseline: Baseline) => {
+    if (window.confirm(`Basisplan „${baseline.name}“ löschen?`)) {
+      onDelete(baseline.id);
+    }
+  };
+
+  const renderVariance = (days: number | null) => (
+    <td className={`px-2 py-1.5 text-right font-medium tabular-nums ${varianceColor(days)}`}>
+      {days === null ? '–' : formatVariance(days)}
+    </td>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 no-print">
+      <div className="bg-white rounded-2xl p-8 max-w-4xl w-full mx-4 shadow-strong max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-semibold mb-6">Basispläne</h2>
+
+        {/* New baseline */}
+        <section className="mb-6">
+          <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Aktuellen Plan einfrieren</h3>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleAdd()}
+              className="flex-1 text-sm bg-white border border-gray-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-gray-400"
+              placeholder="Name des Basisplans"
+            />
+            <button
+              onClick={handleAdd}
+              disabled={!name.trim()}
+              className="px-3 py-1.5 text-xs font-medium text-white bg-gray-900 hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-40"
+            >
+              Basisplan speichern
+            </button>
+          </div>
+        </section>
+
+        {/* Baseline list */}
+        <section className="mb-6">
+          <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Angezeigter Basisplan</h3>
+          <div className="space-y-1">
+            <label className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-gray-50 cursor-pointer">
+              <input type="radio" checked={!active} onChange={() => onSelect(undefined)} />
+              <span className="text-sm text-gray-700">Keiner</span>
+            </label>
+            {project.baselines.map(baseline => (
+              <div key={baseline.id} className="group flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-gray-50">
+                <label className="flex-1 flex items-center gap-3 cursor-pointer min-w-0">
+                  <input
+                    type="radio"
+                    checked={baseline.id === active?.id}
+                    onChange={() => onSelect(baseline.id)}
+                  />
+                  <span className="text-sm font-medium text-gray-900 truncate">{baseline.name}</span>
+                  <span className="text-xs text-gray-400">{formatTimestamp(baseline.createdAt)}</span>
+                </label>
+                <button
+                  onClick={() => confirmDelete(baseline)}
+                  className="w-6 h-6 flex items-center justify-center rounded text-gray-400 hover:bg-red-50 hover:text-red-500 transition-colors opacity-0 group-hover:opacity-100"
+                  title="Löschen"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        {/* Variance report */}
+        {active && (
+          <section>
+            <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">
+              Abweichungen gegenüber „{active.name}“
+            </h3>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="px-2 py-1.5 font-medium">Element</th>
+                  <th className="px-2 py-1.5 font-medium">Basis Start</th>
+                  <th className="px-2 py-1.5 font-medium">Start</th>
+                  <th className="px-2 py-1.5 font-medium text-right">Abw.</th>
+                  <th className="px-2 py-1.5 font-medium">Basis Ende</th>
+                  <th className="px-2 py-1.5 font-medium">Ende</th>
+                  <th className="px-2 py-1.5 font-medium text-right">Abw.</th>
+                </tr>
+              </thead>
+              <tbody>
+                {variances.map(item => (
+                  <tr key={item.id} className="border-b border-gray-100">
+                    <td className={`px-2 py-1.5 text-gray-900 ${item.kind === 'uap' ? 'pl-6' : 'font-medium'}`}>
+                      <span className="text-gray-400 mr-1.5">{KIND_LABELS[item.kind]}</span>
+                      {item.title}
+                    </td>
+                    <td className="px-2 py-1.5 text-gray-500">{item.baseline ? formatDate(item.baseline.start) : '–'}</td>
+                    <td className="px-2 py-1.5 text-gray-700">{formatDate(item.start)}</td>
+                    {renderVariance(item.startVariance)}
+                    <td className="px-2 py-1.5 text-gray-500">{item.baseline ? formatDate(item.baseline.end) : '–'}</td>
+                    <td className="px-2 py-1.5 text-gray-700">{formatDate(item.end)}</td>
+                    {renderVariance(item.finishVariance)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-gray-400">
+              Abweichungen in Kalendertagen; positiv = später als geplant. „–“ = nach dem Basisplan hinzugefügt.
+            </p>
+          </section>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <button onClick={onClose} className="btn-secondary">
+            Schließen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { ProjectCalendar, GermanState } from '../types';
+import { WEEKDAY_LABELS } from '../utils/calendar';
+import { GERMAN_STATES, germanHolidays } from '../utils/holidays';
+import { formatDate, formatDateRange } from '../utils/dateUtils';
+
+interface CalendarSettingsProps {
+  calendar: ProjectCalendar;
+  onChange: (calendar: ProjectCalendar) => void;
+  onClose: () => void;
+}
+
+// Monday first, as in German calendars
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export function CalendarSettings({ calendar, onChange, onClose }: CalendarSettingsProps) {
+  const [newHoliday, setNewHoliday] = useState({ date: '', name: '' });
+  const [newShutdown, setNewShutdown] = useState({ start: '', end: '', name: '' });
+
+  const currentYear = new Date().getFullYear();
+  const regionHolidays = calendar.holidayRegion
+    ? germanHolidays(currentYear, calendar.holidayRegion)
+    : [];
+
+  const toggleWeekday = (day: number) => {
+    const workingDays = calendar.workingDays.includes(day)
+      ? calendar.workingDays.filter(d => d !== day)
+      : [...calendar.workingDays, day].sort((a, b) => a - b);
+    onChange({ ...calendar, workingDays });
+  };
+
+  const handleAddHoliday = () => {
+    if (!newHoliday.date) return;
+    onChange({
+      ...calendar,
+      holidays: [...calendar.holidays, { date: newHoliday.date, name: newHoliday.name.trim() || 'Feiertag' }]
+        .sort((a, b) => a.date.localeCompare(b.date)),
+    });
+    setNewHoliday({ date: '', name: '' });
+  };
+
+  const handleAddShutdown = () => {
+    if (!newShutdown.start || !newShutdown.end || newShutdown.end < newShutdown.start) return;
+    onChange({
+      ...calendar,
+      shutdowns: [
+        ...calendar.shutdowns,
+        {
+          id: crypto.randomUUID(),
+          name: newShutdown.name.trim() || 'Betriebsruhe',
+          start: newShutdown.start,
+          end: newShutdown.end,
+        },
+      ],
+    });
+    setNewShutdown({ start: '', end: '', name: '' });
+  };
+
+  const inputClass =
+    'text-xs bg-white border border-gray-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-gray-400 focus:border-gray-400';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 no-print">
+      <div className="bg-white rounded-2xl p-8 max-w-2xl w-full mx-4 shadow-strong max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-semibold mb-6">Arbeitskalender</h2>
+
+        {/* Working weekdays */}
+        <section className="mb-6">
+          <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Arbeitstage</h3>
+          <div className="flex gap-2">
+            {WEEKDAY_ORDER.map(day => {
+              const active = calendar.workingDays.includes(day);
+              return (
+                <button
+                  key={day}
+                  onClick={() => toggleWeekday(day)}
+                  className={`w-10 h-8 text-xs font-medium rounded-md border transition-colors ${
+                    active
+                      ? 'bg-gray-900 text-white border-gray-900'
+                      : 'bg-white text-gray-500 border-gray-200 hover:border-gray-400'
+                  }`}
+                >
+                  {WEEKDAY_LABELS[day]}
+                </button>
+              );
+            })}
+          </div>
+        </section>
+
+        {/* Built-in public holidays */}
+        <section className="mb-6">
+          <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Gesetzliche Feiertage</h3>
+          <select
+            value={calendar.holidayRegion ?? ''}
+            onChange={e =>
+              onChange({ ...calendar, holidayRegion: (e.target.value || undefined) as GermanState | undefined })
+            }
+            className={`${inputClass} w-full`}
+          >
+            <option value="">Keine</option>
+            {(Object.keys(GERMAN_STATES) as GermanState[]).map(state => (
+              <option key={state} value={state}>
+                {GERMAN_STATES[state]}
+              </option>
+            ))}
+          </select>
+          {regionHolidays.length > 0 && (
+            <div className="mt-2 text-xs text-gray-500 grid grid-cols-2 gap-x-4 gap-y-0.5">
+              {regionHolidays.map(holiday => (
+                <div key={holiday.date} className="flex justify-between gap-2">
+                  <span>{holiday.name}</span>
+                  <span className="text-gray-400">{formatDate(holiday.date)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {/* Custom holidays */}
+        <section className="mb-6">
+          <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Weitere Feiertage</h3>
+          <div className="space-y-1.5 mb-2">
+            {calendar.holidays.map((holiday, idx) => (
+              <div key={`${holiday.date}-${idx}`} className="flex items-center justify-between gap-2 bg-gray-50 rounded px-2 py-1.5">
+                <span className="text-sm text-gray-900">{holiday.name}</span>
+                <span className="text-xs text-gray-500 ml-auto">{formatDate(holiday.date)}</span>
+                <button
+                  onClick={() => onChange({ ...calendar, holidays: calendar.holidays.filter((_, i) => i !== idx) })}
+                  className="text-gray-400 hover:text-red-500 transition-colors"
+                  title="Entfernen"
+                >
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="date"
+              value={newHoliday.date}
+              onChange={e => setNewHoliday({ ...newHoliday, date: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={newHoliday.name}
+              onChange={e => setNewHoliday({ ...newHoliday, name: e.target.value })}
+              onKeyDown={e => e.key === 'Enter' && handleAddHoliday()}
+              className={`${inputClass} flex-1`}
+              placeholder="Bezeichnung"
+            />
+            <button
+              onClick={handleAddHoliday}
+              className="px-3 py-1.5 bg-blue-500 text-white text-sm rounded hover:bg-blue-600 transition-colors"
+            >
+              +
+            </button>
+          </div>
+        </section>
+
+        {/* Company shutdowns */}
+        <section className="mb-6">
+          <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Betriebsruhe</h3>
+          <div className="space-y-1.5 mb-2">
+            {calendar.shutdowns.map(shutdown => (
+              <div key={shutdown.id} className="flex items-center justify-between gap-2 bg-gray-50 rounded px-2 py-1.5">
+                <span className="text-sm text-gray-900">{shutdown.name}</span>
+                <span className="text-xs text-gray-500 ml-auto">{formatDateRange(shutdown.start, shutdown.end)}</span>
+                <button
+                  onClick={() =>
+                    onChange({ ...calendar, shutdowns: calendar.shutdowns.filter(s => s.id !== shutdown.id) })
+                  }
+                  className="text-gray-400 hover:text-red-500 transition-colors"
+                  title="Entfernen"
+                >
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="date"
+              value={newShutdown.start}
+              onChange={e => setNewShutdown({ ...newShutdown, start: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="date"
+              value={newShutdown.end}
+              onChange={e => setNewShutdown({ ...newShutdown, end: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={newShutdown.name}
+              onChange={e => setNewShutdown({ ...newShutdown, name: e.target.value })}
+              onKeyDown={e => e.key === 'Enter' && handleAddShutdown()}
+              className={`${inputClass} flex-1`}
+              placeholder="Bezeichnung"
+            />
+            <button
+              onClick={handleAddShutdown}
+              className="px-3 py-1.5 bg-blue-500 text-white text-sm rounded hover:bg-blue-600 transition-colors"
+            >
+              +
+            </button>
+          </div>
+        </section>
+
+        <div className="flex gap-3">
+          <button onClick={onClose} className="btn-primary">
+            Fertig
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useMemo, useState } from 'react';
+import { Project } from '../types';
+import {
+  CsvField,
+  CsvMapping,
+  CsvRow,
+  CSV_FIELDS,
+  CSV_FIELD_LABELS,
+  CSV_KIND_LABELS,
+  DATE_FORMATS,
+  detectDelimiter,
+  parseDelimited,
+  looksLikeHeader,
+  guessMapping,
+  guessDateFormat,
+  readCsvRows,
+} from '../utils/csv';
+
+interface CsvImportDialogProps {
+  project: Project;
+  initialText: string; // File content, empty to paste from the clipboard
+  onImport: (rows: CsvRow[]) => void;
+  onCancel: () => void;
+}
+
+const DELIMITERS: { value: string; label: string }[] = [
+  { value: '\t', label: 'Tabulator' },
+  { value: ';', label: 'Semikolon' },
+  { value: ',', label: 'Komma' },
+];
+
+const PREVIEW_ROWS = 200;
+
+const INPUT_CLASS =
+  'w-40 text-xs bg-white border border-gray-200 rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-gray-400';
+
+/**
+ * Maps columns of pasted or loaded CSV/TSV to item fields and previews the
+ * rows with their validation errors before they are merged into the project
+ */
+export function CsvImportDialog({ project, initialText, onImport, onCancel }: CsvImportDialogProps) {
+  const [text, setText] = useState(initialText);
+  const [delimiter, setDelimiter] = useState<string | null>(null); // null = detected
+  const [hasHeader, setHasHeader] = useState<boolean | null>(null);
+  const [dateFormat, setDateFormat] = useState<string | null>(null);
+  const [mappingChanges, setMappingChanges] = useState<Partial<CsvMapping>>({});
+
+  const table = useMemo(() => parseDelimited(text, delimiter ?? detectDelimiter(text)), [text, delimiter]);
+  const firstRow = table[0] ?? [];
+  const header = hasHeader ?? looksLikeHeader(firstRow);
+  const mapping: CsvMapping = { ...guessMapping(firstRow, header), ...mappingChanges };
+  const columnCount = Math.max(0, ...table.map(row => row.length));
+
+  const dataRows = header ? table.slice(1) : table;
+  const startColumn = mapping.start;
+  const format = dateFormat ?? guessDateFormat(startColumn === null ? [] : dataRows.map(row => row[startColumn] ?? ''));
+
+  const rows = readCsvRows(table, { mapping, dateFormat: format, hasHeader: header }, project);
+  const validCount = rows.filter(row => row.errors.length === 0).length;
+  const errorCount = rows.length - validCount;
+
+  const columnLabel = (column: number) =>
+    header && firstRow[column]?.trim() ? `${column + 1}: ${firstRow[column].trim()}` : `Spalte ${column + 1}`;
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    setMappingChanges({});
+    setHasHeader(null);
+    setDateFormat(null);
+  };
+
+  const renderField = (field: CsvField) => (
+    <label key={field} className="flex items-center justify-between gap-2 text-xs text-gray-600">
+      {CSV_FIELD_LABELS[field]}
+      <select
+        value={mapping[field] ?? ''}
+        onChange={e => setMappingChanges({ ...mappingChanges, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+        className={INPUT_CLASS}
+      >
+        <option value="">– nicht importieren –</option>
+        {Array.from({ length: columnCount }, (_, column) => (
+          <option key={column} value={column}>
+            {columnLabel(column)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 no-print">
+      <div className="bg-white rounded-2xl p-8 max-w-5xl w-full mx-4 shadow-strong max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-semibold mb-2">Tabelle importieren</h2>
+        <p className="text-sm text-gray-500 mb-6">
+          Zeilen mit bekannter ID aktualisieren das Element, neue Zeilen werden unter ihrem übergeordneten Element
+          angelegt. Zeilen mit Fehlern werden übersprungen.
+        </p>
+
+        <textarea
+          value={text}
+          onChange={e => handleTextChange(e.target.value)}
+          className="input w-full h-32 font-mono text-xs mb-4"
+          placeholder="Zellen aus Excel kopieren und hier einfügen (Strg+V) …"
+        />
+
+        {table.length > 0 && (
+          <>
+            {/* Format and column mapping */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-4 p-4 bg-gray-50 rounded-lg">
+              <div className="space-y-2">
+                <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Format</div>
+                <label className="flex items-center justify-between gap-2 text-xs text-gray-600">
+                  Trennzeichen
+                  <select
+                    value={delimiter ?? detectDelimiter(text)}
+                    onChange={e => setDelimiter(e.target.value)}
+                    className={INPUT_CLASS}
+                  >
+                    {DELIMITERS.map(option => (
+                      <option key={option.label} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center justify-between gap-2 text-xs text-gray-600">
+                  Datumsformat
+                  <select value={format} onChange={e => setDateFormat(e.target.value)} className={INPUT_CLASS}>
+                    {DATE_FORMATS.map(option => (
+                      <option key={option} value={option}>
+                        {option}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={header}
+                    onChange={e => {
+                      setHasHeader(e.target.checked);
+                      setMappingChanges({});
+                    }}
+                    className="rounded text-indigo-600 focus:ring-indigo-500 w-3.5 h-3.5"
+                  />
+                  Erste Zeile enthält Spaltennamen
+                </label>
+              </div>
+              <div className="md:col-span-2">
+                <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Spalten</div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">{CSV_FIELDS.map(renderField)}</div>
+              </div>
+            </div>
+
+            {/* Preview */}
+            <div className="text-xs text-gray-600 mb-2">
+              {validCount} von {rows.length} Zeilen werden übernommen
+              {errorCount > 0 && <span className="text-red-600"> · {errorCount} mit Fehlern</span>}
+            </div>
+            <div className="border border-gray-200 rounded-lg overflow-auto max-h-72">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                  <tr>
+                    <th className="px-2 py-1.5 text-left font-medium">Zeile</th>
+                    <th className="px-2 py-1.5 text-left font-medium">Typ</th>
+                    <th className="px-2 py-1.5 text-left font-medium">Titel</th>
+                    <th className="px-2 py-1.5 text-left font-medium">Übergeordnet</th>
+                    <th className="px-2 py-1.5 text-left font-medium">Start</th>
+                    <th className="px-2 py-1.5 text-left font-medium">Ende</th>
+                    <th className="px-2 py-1.5 text-left font-medium">Ergebnis</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.slice(0, PREVIEW_ROWS).map(row => (
+                    <tr key={row.line} className={`border-t border-gray-100 ${row.errors.length > 0 ? 'bg-red-50' : ''}`}>
+                      <td className="px-2 py-1 text-gray-400 tabular-nums">{row.line}</td>
+                      <td className="px-2 py-1">{CSV_KIND_LABELS[row.kind]}</td>
+                      <td className="px-2 py-1 text-gray-900">{row.title}</td>
+                      <td className="px-2 py-1 text-gray-500">{row.parentId}</td>
+                      <td className="px-2 py-1 tabular-nums">{row.start}</td>
+                      <td className="px-2 py-1 tabular-nums">{row.end}</td>
+                      <td className="px-2 py-1">
+                        {row.errors.length > 0 ? (
+                          <span className="text-red-700">{row.errors.join('; ')}</span>
+                        ) : (
+                          <span className="text-gray-500">{row.existing ? 'aktualisieren' : 'neu'}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {rows.length > PREVIEW_ROWS && (
+              <div className="text-xs text-gray-400 mt-1">Vorschau zeigt die ersten {PREVIEW_ROWS} Zeilen</div>
+            )}
+          </>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <button onClick={() => onImport(rows)} disabled={validCount === 0} className="btn-primary disabled:opacity-50">
+            {validCount === 1 ? '1 Zeile übernehmen' : `${validCount} Zeilen übernehmen`}
+          </button>
+          <button onClick={onCancel} className="btn-secondary">
+            Abbrechen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { IcsAnalysis, IcsEvent } from '../utils/ics';
+import { formatDate } from '../utils/dateUtils';
+
+interface IcsImportDialogProps {
+  analysis: IcsAnalysis;
+  onImport: (events: IcsEvent[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Lists the events of a calendar file; the checked ones become milestones
+ * (or update the milestones they were exported from)
+ */
+export function IcsImportDialog({ analysis, onImport, onCancel }: IcsImportDialogProps) {
+  const { events, skipped } = analysis;
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set(events.map(event => event.id)));
+  const selected = events.filter(event => selectedIds.has(event.id));
+
+  const toggle = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedIds(next);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 no-print">
+      <div className="bg-white rounded-2xl p-8 max-w-2xl w-full mx-4 shadow-strong max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-semibold mb-2">Kalender importieren</h2>
+        <p className="text-sm text-gray-500 mb-6">
+          Ausgewählte Termine werden als Meilensteine am Tag ihres Beginns übernommen. Termine aus einem früheren
+          Export aktualisieren ihren Meilenstein.
+        </p>
+
+        {skipped.length > 0 && (
+          <div className="mb-4 p-4 bg-gray-50 border border-gray-200 rounded-lg text-xs text-gray-700">
+            <div className="font-semibold mb-1">Nicht übernommen:</div>
+            <ul className="list-disc pl-4 space-y-0.5 max-h-32 overflow-y-auto">
+              {skipped.map((entry, idx) => (
+                <li key={idx}>{entry}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {events.length === 0 ? (
+          <div className="text-sm text-gray-500">Die Datei enthält keine Termine.</div>
+        ) : (
+          <>
+            <div className="flex items-center gap-3 text-xs text-gray-600 mb-2">
+              {selected.length} von {events.length} Terminen ausgewählt
+              <button onClick={() => setSelectedIds(new Set(events.map(event => event.id)))} className="text-indigo-600 hover:underline">
+                Alle
+              </button>
+              <button onClick={() => setSelectedIds(new Set())} className="text-indigo-600 hover:underline">
+                Keine
+              </button>
+            </div>
+            <div className="border border-gray-200 rounded-lg overflow-auto max-h-72">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                  <tr>
+                    <th className="px-2 py-1.5 w-6" />
+                    <th className="px-2 py-1.5 text-left font-medium">Datum</th>
+                    <th className="px-2 py-1.5 text-left font-medium">Titel</th>
+                    <th className="px-2 py-1.5 text-left font-medium">Ergebnis</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {events.map(event => (
+                    <tr key={event.id} className="border-t border-gray-100">
+                      <td className="px-2 py-1">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(event.id)}
+                          onChange={() => toggle(event.id)}
+                          aria-label={event.title}
+                          className="rounded text-indigo-600 focus:ring-indigo-500 w-3.5 h-3.5"
+                        />
+                      </td>
+                      <td className="px-2 py-1 tabular-nums whitespace-nowrap">{formatDate(event.date)}</td>
+                      <td className="px-2 py-1 text-gray-900">
+                        {event.title}
+                        {event.note && <span className="text-gray-400"> · {event.note}</span>}
+                      </td>
+                      <td className="px-2 py-1 text-gray-500">{event.existing ? 'aktualisieren' : 'neu'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <button onClick={() => onImport(selected)} disabled={selected.length === 0} className="btn-primary disabled:opacity-50">
+            {selected.length === 1 ? '1 Meilenstein übernehmen' : `${selected.length} Meilensteine übernehmen`}
+          </button>
+          <button onClick={onCancel} className="btn-secondary">
+            Abbrechen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { Project } from '../types';
+import { ProjectAnalysis, formatIssue } from '../utils/schema';
+import { allSubPackages } from '../utils/wbs';
+
+interface ImportPreviewDialogProps {
+  analysis: ProjectAnalysis & { project: Project };
+  currentProjectName: string;
+  onConfirm: (project: Project) => void;
+  onCancel: () => void;
+}
+
+export function ImportPreviewDialog({ analysis, currentProjectName, onConfirm, onCancel }: ImportPreviewDialogProps) {
+  const { project, issues, fromVersion, migrations, unsupported } = analysis;
+  const subPackageCount = project.workPackages.reduce((sum, wp) => sum + allSubPackages(wp.subPackages).length, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 no-print">
+      <div className="bg-white rounded-2xl p-8 max-w-2xl w-full mx-4 shadow-strong max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-semibold mb-6">Projekt importieren</h2>
+
+        {/* Summary of the imported project */}
+        <div className="mb-4 p-4 bg-gray-50 rounded-lg">
+          <div className="font-semibold text-gray-900">{project.name || 'Unbenanntes Projekt'}</div>
+          <div className="text-xs text-gray-500 mt-1">
+            {project.workPackages.length} Arbeitspakete · {subPackageCount} UAPs · {project.milestones.length} Meilensteine ·{' '}
+            {project.dependencies.length} Abhängigkeiten
+          </div>
+        </div>
+
+        {migrations.length > 0 && (
+          <div className="mb-4 p-4 bg-blue-50 border border-blue-100 rounded-lg text-xs text-blue-800">
+            <div className="font-semibold mb-1">Ältere Dateiversion (v{fromVersion}) wird aktualisiert:</div>
+            <ul className="list-disc pl-4 space-y-0.5">
+              {migrations.map(migration => (
+                <li key={migration}>{migration}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {unsupported.length > 0 && (
+          <div className="mb-4 p-4 bg-gray-50 border border-gray-200 rounded-lg text-xs text-gray-700">
+            <div className="font-semibold mb-1">Nicht übernommen:</div>
+            <ul className="list-disc pl-4 space-y-0.5 max-h-48 overflow-y-auto">
+              {unsupported.map((entry, idx) => (
+                <li key={idx}>{entry}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {issues.length > 0 && (
+          <div className="mb-4 p-4 bg-amber-50 border border-amber-100 rounded-lg text-xs text-amber-900">
+            <div className="font-semibold mb-1">
+              {issues.length === 1 ? '1 Problem gefunden' : `${issues.length} Probleme gefunden`}
+            </div>
+            <ul className="font-mono space-y-0.5 max-h-48 overflow-y-auto mb-2">
+              {issues.map((issue, idx) => (
+                <li key={idx}>{formatIssue(issue)}</li>
+              ))}
+            </ul>
+            <div>
+              Beim Reparieren werden ungültige Werte durch Standardwerte ersetzt, vertauschte Zeiträume
+              korrigiert und fehlerhafte Abhängigkeiten entfernt.
+            </div>
+          </div>
+        )}
+
+        <p className="text-sm text-gray-600">
+          Das aktuelle Projekt „{currentProjectName}“ wird ersetzt. Der Import kann rückgängig gemacht werden.
+        </p>
+
+        <div className="flex gap-3 mt-6">
+          <button onClick={() => onConfirm(project)} className="btn-primary">
+            {issues.length > 0 ? 'Reparieren und importieren' : 'Importieren'}
+          </button>
+          <button onClick={onCancel} className="btn-secondary">
+            Abbrechen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { useEffect, useRef } from 'react';
+import { WorkPackage, SubPackage, SubPackageStatus, Milestone } from '../types';
+import { SUB_PACKAGE_STATUSES, STATUS_LABELS } from '../utils/progress';
+import { workPackageOf, findSubPackage, isSummary } from '../utils/wbs';
+
+interface ItemEditorProps {
+  itemId: string;
+  workPackages: WorkPackage[];
+  milestones: Milestone[];
+  onUpdateWorkPackage: (id: string, updates: Partial<WorkPackage>) => void;
+  onUpdateSubPackage: (apId: string, uapId: string, updates: Partial<SubPackage>) => void;
+  onUpdateMilestone: (id: string, updates: Partial<Milestone>) => void;
+  onClose: () => void;
+}
+
+const INPUT_CLASS =
+  'flex-1 text-sm bg-white border border-gray-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-gray-400';
+
+/**
+ * Dialog for editing the AP, UAP or milestone focused in the timeline
+ * (opened with Enter). Changes apply immediately, like in the tree.
+ */
+export function ItemEditor({
+  itemId,
+  workPackages,
+  milestones,
+  onUpdateWorkPackage,
+  onUpdateSubPackage,
+  onUpdateMilestone,
+  onClose,
+}: ItemEditorProps) {
+  const titleRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    titleRef.current?.focus();
+  }, []);
+
+  const ap = workPackages.find(wp => wp.id === itemId);
+  const parent = workPackageOf(workPackages, itemId);
+  const uap = parent && findSubPackage(parent.subPackages, itemId);
+  const ms = milestones.find(m => m.id === itemId);
+
+  const heading = ap ? 'Arbeitspaket bearbeiten' : uap ? 'Unterarbeitspaket bearbeiten' : 'Meilenstein bearbeiten';
+  const title = ap?.title ?? uap?.title ?? ms?.title ?? '';
+
+  const setTitle = (value: string) => {
+    if (ap) onUpdateWorkPackage(ap.id, { title: value });
+    else if (parent && uap) onUpdateSubPackage(parent.id, uap.id, { title: value });
+    else if (ms) onUpdateMilestone(ms.id, { title: value });
+  };
+
+  const renderField = (label: string, field: JSX.Element, htmlFor: string) => (
+    <div className="flex items-center gap-3">
+      <label htmlFor={htmlFor} className="text-xs text-gray-500 w-24">
+        {label}
+      </label>
+      {field}
+    </div>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 no-print"
+      onKeyDown={e => {
+        if (e.key !== 'Escape') return;
+        // Blur first so the person list (saved on blur) is not lost
+        if (document.activeElement instanceof HTMLElement) document.activeElement.blur();
+        onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="item-editor-title"
+        className="bg-white rounded-2xl p-8 max-w-md w-full mx-4 shadow-strong max-h-[90vh] overflow-y-auto"
+      >
+        <h2 id="item-editor-title" className="text-2xl font-semibold mb-6">{heading}</h2>
+
+        {!ap && !uap && !ms ? (
+          <p className="text-sm text-gray-500">Das Element existiert nicht mehr.</p>
+        ) : (
+          <div className="space-y-3">
+            {renderField(
+              'Titel',
+              <input
+                id="item-title"
+                ref={titleRef}
+                type="text"
+                value={title}
+                onChange={e => setTitle(e.target.value)}
+                className={INPUT_CLASS}
+              />,
+              'item-title'
+            )}
+
+            {ap && ap.subPackages.length > 0 && (
+              <p className="text-xs text-gray-500">Der Zeitraum wird aus den UAPs berechnet.</p>
+            )}
+            {ap && ap.subPackages.length === 0 && (
+              <>
+                {renderField(
+                  'Start',
+                  <input
+                    id="item-start"
+                    type="date"
+                    value={ap.start}
+                    onChange={e => e.target.value && onUpdateWorkPackage(ap.id, { start: e.target.value })}
+                    className={INPUT_CLASS}
+                  />,
+                  'item-start'
+                )}
+                {renderField(
+                  'Ende',
+                  <input
+                    id="item-end"
+                    type="date"
+                    value={ap.end}
+                    onChange={e => e.target.value && onUpdateWorkPackage(ap.id, { end: e.target.value })}
+                    className={INPUT_CLASS}
+                  />,
+                  'item-end'
+                )}
+              </>
+            )}
+
+            {parent && uap && (
+              <>
+                {isSummary(uap) ? (
+                  <p className="text-xs text-gray-500">
+                    Zeitraum, Status und Fortschritt werden aus den Unterpaketen berechnet.
+                  </p>
+                ) : (
+                  <>
+                    {renderField(
+                      'Start',
+                      <input
+                        id="item-start"
+                        type="date"
+                        value={uap.start}
+                        onChange={e => e.target.value && onUpdateSubPackage(parent.id, uap.id, { start: e.target.value })}
+                        className={INPUT_CLASS}
+                      />,
+                      'item-start'
+                    )}
+                    {renderField(
+                      'Ende',
+                      <input
+                        id="item-end"
+                        type="date"
+                        value={uap.end}
+                        onChange={e => e.target.value && onUpdateSubPackage(parent.id, uap.id, { end: e.target.value })}
+                        className={INPUT_CLASS}
+                      />,
+                      'item-end'
+                    )}
+                    {renderField(
+                      'Status',
+                      <select
+                        id="item-status"
+                        value={uap.status}
+                        onChange={e => onUpdateSubPackage(parent.id, uap.id, { status: e.target.value as SubPackageStatus })}
+                        className={INPUT_CLASS}
+                      >
+                        {SUB_PACKAGE_STATUSES.map(status => (
+                          <option key={status} value={status}>
+                            {STATUS_LABELS[status]}
+                          </option>
+                        ))}
+                      </select>,
+                      'item-status'
+                    )}
+                    {renderField(
+                      'Fertig (%)',
+                      <input
+                        id="item-percent"
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={uap.percentComplete}
+                        onChange={e => onUpdateSubPackage(parent.id, uap.id, { percentComplete: Number(e.target.value) })}
+                        className={INPUT_CLASS}
+                      />,
+                      'item-percent'
+                    )}
+                  </>
+                )}
+                {renderField(
+                  'Personen',
+                  <input
+                    id="item-assignees"
+                    type="text"
+                    defaultValue={(uap.assignedTo ?? []).join(', ')}
+                    onBlur={e =>
+                      onUpdateSubPackage(parent.id, uap.id, {
+                        assignedTo: e.target.value.split(',').map(name => name.trim()).filter(Boolean),
+                      })
+                    }
+                    placeholder="Namen, durch Komma getrennt"
+                    className={INPUT_CLASS}
+                  />,
+                  'item-assignees'
+                )}
+              </>
+            )}
+
+            {ms &&
+              renderField(
+                'Datum',
+                <input
+                  id="item-date"
+                  type="date"
+                  value={ms.date}
+                  onChange={e => e.target.value && onUpdateMilestone(ms.id, { date: e.target.value })}
+                  className={INPUT_CLASS}
+                />,
+                'item-date'
+              )}
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <button onClick={onClose} className="btn-secondary">
+            Schließen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
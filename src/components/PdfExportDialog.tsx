@@ -0,0 +1,113 @@
+import { useMemo, useState } from 'react';
+import { Project } from '../types';
+import { PageSize, PageOrientation, PAGE_SIZES } from '../utils/pdfWriter';
+import { PdfExportOptions, POINTS_PER_PIXEL, pdfLayout } from '../utils/pdfUtils';
+import { TICK_UNIT_LABELS } from '../utils/timeScale';
+
+interface PdfExportDialogProps {
+  project: Project;
+  pixelsPerDay: number; // Zoom of the timeline
+  showCriticalPath: boolean; // Preset of the highlighting, as in the timeline
+  onExport: (options: PdfExportOptions) => void;
+  onCancel: () => void;
+}
+
+const ORIENTATIONS: { value: PageOrientation; label: string }[] = [
+  { value: 'landscape', label: 'Querformat' },
+  { value: 'portrait', label: 'Hochformat' },
+];
+
+const INPUT_CLASS =
+  'w-48 text-xs bg-white border border-gray-200 rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-gray-400';
+
+/**
+ * Page setup of the PDF export with the resulting number of pages
+ */
+export function PdfExportDialog({ project, pixelsPerDay, showCriticalPath, onExport, onCancel }: PdfExportDialogProps) {
+  const [pageSize, setPageSize] = useState<PageSize>('a4');
+  const [orientation, setOrientation] = useState<PageOrientation>('landscape');
+  const [fitToWidth, setFitToWidth] = useState(false);
+  const [highlightCriticalPath, setHighlightCriticalPath] = useState(showCriticalPath);
+
+  const pointsPerDay = fitToWidth ? null : pixelsPerDay * POINTS_PER_PIXEL;
+  const options: PdfExportOptions = { pageSize, orientation, pointsPerDay, highlightCriticalPath };
+  const layout = useMemo(
+    () => pdfLayout(project, { pageSize, orientation, pointsPerDay }),
+    [project, pageSize, orientation, pointsPerDay]
+  );
+  const pageCount = layout.columns * layout.bands;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 no-print">
+      <div className="bg-white rounded-2xl p-8 max-w-md w-full mx-4 shadow-strong max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-semibold mb-2">PDF exportieren</h2>
+        <p className="text-sm text-gray-500 mb-6">
+          Die Timeline wird als Vektorgrafik mit durchsuchbarem Text gezeichnet. Große Pläne werden auf mehrere Seiten
+          verteilt, jede mit Kopfzeile und Vorgangsnamen.
+        </p>
+
+        <div className="space-y-3 p-4 bg-gray-50 rounded-lg">
+          <label className="flex items-center justify-between gap-2 text-xs text-gray-600">
+            Papierformat
+            <select value={pageSize} onChange={e => setPageSize(e.target.value as PageSize)} className={INPUT_CLASS}>
+              {(Object.keys(PAGE_SIZES) as PageSize[]).map(size => (
+                <option key={size} value={size}>
+                  {PAGE_SIZES[size].label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-2 text-xs text-gray-600">
+            Ausrichtung
+            <select
+              value={orientation}
+              onChange={e => setOrientation(e.target.value as PageOrientation)}
+              className={INPUT_CLASS}
+            >
+              {ORIENTATIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-2 text-xs text-gray-600">
+            Zeitmaßstab
+            <select
+              value={fitToWidth ? 'fit' : 'view'}
+              onChange={e => setFitToWidth(e.target.value === 'fit')}
+              className={INPUT_CLASS}
+            >
+              <option value="view">Wie in der Ansicht</option>
+              <option value="fit">Auf Seitenbreite</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={highlightCriticalPath}
+              onChange={e => setHighlightCriticalPath(e.target.checked)}
+              className="rounded text-indigo-600 focus:ring-indigo-500 w-3.5 h-3.5"
+            />
+            Kritischen Pfad rot hervorheben
+          </label>
+        </div>
+
+        <div className="text-xs text-gray-600 mt-4">
+          {pageCount === 1 ? '1 Seite' : `${pageCount} Seiten`}
+          {pageCount > 1 && ` (${layout.columns} nebeneinander × ${layout.bands} untereinander)`} · Einteilung:{' '}
+          {TICK_UNIT_LABELS[layout.unit]}
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button onClick={() => onExport(options)} className="btn-primary">
+            PDF erstellen
+          </button>
+          <button onClick={onCancel} className="btn-secondary">
+            Abbrechen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
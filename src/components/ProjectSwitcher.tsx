@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { ProjectMeta } from '../types';
+import { formatTimestamp } from '../utils/dateUtils';
+
+interface ProjectSwitcherProps {
+  projects: ProjectMeta[];
+  currentProjectId: string;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onArchive: (id: string, archived: boolean) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const ICONS = {
+  rename: 'M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z',
+  duplicate: 'M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z',
+  archive: 'M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4',
+  restore: 'M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15',
+  delete: 'M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16',
+};
+
+function IconButton({ icon, title, danger, onClick }: {
+  icon: keyof typeof ICONS;
+  title: string;
+  danger?: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={e => {
+        e.stopPropagation();
+        onClick();
+      }}
+      className={`w-6 h-6 flex items-center justify-center rounded text-gray-400 transition-colors ${
+        danger ? 'hover:bg-red-50 hover:text-red-500' : 'hover:bg-gray-100 hover:text-gray-700'
+      }`}
+      title={title}
+    >
+      <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={ICONS[icon]} />
+      </svg>
+    </button>
+  );
+}
+
+export function ProjectSwitcher({
+  projects,
+  currentProjectId,
+  onOpen,
+  onCreate,
+  onDuplicate,
+  onRename,
+  onArchive,
+  onDelete,
+  onClose,
+}: ProjectSwitcherProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [showArchive, setShowArchive] = useState(false);
+
+  // Most recently changed first
+  const sorted = [...projects].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  const active = sorted.filter(meta => !meta.archived);
+  const archived = sorted.filter(meta => meta.archived);
+
+  const startRename = (meta: ProjectMeta) => {
+    setEditingId(meta.id);
+    setDraftName(meta.name);
+  };
+
+  const finishRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  const confirmDelete = (meta: ProjectMeta) => {
+    if (window.confirm(`Projekt „${meta.name}“ endgültig löschen?`)) {
+      onDelete(meta.id);
+    }
+  };
+
+  const renderRow = (meta: ProjectMeta) => {
+    const isCurrent = meta.id === currentProjectId;
+    return (
+      <div
+        key={meta.id}
+        onClick={() => !meta.archived && editingId !== meta.id && onOpen(meta.id)}
+        className={`group flex items-center gap-3 px-3 py-2.5 rounded-lg transition-colors ${
+          meta.archived ? '' : 'cursor-pointer hover:bg-gray-50'
+        } ${isCurrent ? 'bg-gray-50 ring-1 ring-gray-200' : ''}`}
+      >
+        <div className="flex-1 min-w-0">
+          {editingId === meta.id ? (
+            <input
+              autoFocus
+              value={draftName}
+              onChange={e => setDraftName(e.target.value)}
+              onBlur={finishRename}
+              onClick={e => e.stopPropagation()}
+              onKeyDown={e => {
+                if (e.key === 'Enter') finishRename();
+                if (e.key === 'Escape') setEditingId(null);
+              }}
+              className="w-full text-sm font-medium bg-white border border-gray-200 rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-gray-400"
+            />
+          ) : (
+            <div className="text-sm font-medium text-gray-900 truncate">{meta.name || 'Unbenanntes Projekt'}</div>
+          )}
+          <div className="text-xs text-gray-400">Geändert: {formatTimestamp(meta.updatedAt)}</div>
+        </div>
+        {isCurrent && (
+          <span className="text-[10px] font-semibold uppercase tracking-wider text-gray-500 bg-gray-200 rounded px-1.5 py-0.5">
+            Geöffnet
+          </span>
+        )}
+        <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+          {meta.archived ? (
+            <IconButton icon="restore" title="Wiederherstellen" onClick={() => onArchive(meta.id, false)} />
+          ) : (
+            <>
+              <IconButton icon="rename" title="Umbenennen" onClick={() => startRename(meta)} />
+              <IconButton icon="duplicate" title="Duplizieren" onClick={() => onDuplicate(meta.id)} />
+              <IconButton icon="archive" title="Archivieren" onClick={() => onArchive(meta.id, true)} />
+            </>
+          )}
+          <IconButton icon="delete" title="Löschen" danger onClick={() => confirmDelete(meta)} />
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 no-print">
+      <div className="bg-white rounded-2xl p-8 max-w-2xl w-full mx-4 shadow-strong max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-semibold">Projekte</h2>
+          <button
+            onClick={onCreate}
+            className="px-3 py-1.5 text-xs font-medium text-white bg-gray-900 hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            + Neues Projekt
+          </button>
+        </div>
+
+        <div className="space-y-1">{active.map(renderRow)}</div>
+
+        {archived.length > 0 && (
+          <section className="mt-6">
+            <button
+              onClick={() => setShowArchive(!showArchive)}
+              className="flex items-center gap-1.5 text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2"
+            >
+              <svg className={`w-3 h-3 transition-transform ${showArchive ? 'rotate-90' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+              Archiv ({archived.length})
+            </button>
+            {showArchive && <div className="space-y-1 opacity-75">{archived.map(renderRow)}</div>}
+          </section>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <button onClick={onClose} className="btn-secondary">
+            Schließen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { WorkPackage } from '../types';
+
+interface SelectionBarProps {
+  count: number;
+  subPackageCount: number; // UAPs affected by recolor and assignment
+  workPackages: WorkPackage[]; // Paste targets
+  clipboardCount: number;
+  onMove: (days: number) => void;
+  onRecolor: (color: string) => void;
+  onAssign: (person: string, assign: boolean) => void;
+  onCopy: () => void;
+  onPaste: (apId: string) => void;
+  onIndent: () => void;
+  onOutdent: () => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+const COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#06B6D4'];
+
+const INPUT_CLASS =
+  'text-xs bg-white border border-gray-200 rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-gray-400';
+const BUTTON_CLASS =
+  'px-3 py-1.5 text-xs font-medium text-white bg-gray-900 hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-40';
+
+/**
+ * Floating bar with bulk actions for the current multi-selection
+ */
+export function SelectionBar({
+  count,
+  subPackageCount,
+  workPackages,
+  clipboardCount,
+  onMove,
+  onRecolor,
+  onAssign,
+  onCopy,
+  onPaste,
+  onIndent,
+  onOutdent,
+  onDelete,
+  onClear,
+}: SelectionBarProps) {
+  const [days, setDays] = useState(7);
+  const [person, setPerson] = useState('');
+  const [pasteTarget, setPasteTarget] = useState('');
+
+  const assign = (value: boolean) => {
+    if (!person.trim()) return;
+    onAssign(person.trim(), value);
+  };
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 no-print bg-white rounded-2xl shadow-strong border border-gray-200 px-4 py-3 flex items-center gap-4 text-xs">
+      <span className="font-semibold text-gray-900 whitespace-nowrap">{count} ausgewählt</span>
+
+      {/* Move by N days */}
+      <div className="flex items-center gap-1.5">
+        <input
+          type="number"
+          value={days}
+          onChange={e => setDays(Math.round(Number(e.target.value)) || 0)}
+          className={`${INPUT_CLASS} w-16`}
+          title="Tage (negativ = früher)"
+        />
+        <button onClick={() => onMove(days)} disabled={days === 0} className={BUTTON_CLASS}>
+          Tage verschieben
+        </button>
+      </div>
+
+      {/* Recolor */}
+      <div className="flex items-center gap-1" title={subPackageCount === 0 ? 'Keine UAPs ausgewählt' : 'Farbe der UAPs'}>
+        {COLORS.map(color => (
+          <button
+            key={color}
+            onClick={() => onRecolor(color)}
+            disabled={subPackageCount === 0}
+            className="w-5 h-5 rounded-full border-2 border-white shadow-sm hover:scale-110 transition-transform disabled:opacity-40"
+            style={{ backgroundColor: color }}
+          />
+        ))}
+      </div>
+
+      {/* Assign / unassign */}
+      <div className="flex items-center gap-1.5">
+        <input
+          type="text"
+          value={person}
+          onChange={e => setPerson(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && assign(true)}
+          placeholder="Person"
+          className={`${INPUT_CLASS} w-28`}
+        />
+        <button onClick={() => assign(true)} disabled={!person.trim() || subPackageCount === 0} className={BUTTON_CLASS}>
+          Zuweisen
+        </button>
+        <button
+          onClick={() => assign(false)}
+          disabled={!person.trim() || subPackageCount === 0}
+          className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-40"
+        >
+          Entfernen
+        </button>
+      </div>
+
+      {/* Copy / paste UAPs */}
+      <div className="flex items-center gap-1.5">
+        <button
+          onClick={onCopy}
+          className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+          title="Ausgewählte UAPs kopieren (Strg+C)"
+        >
+          Kopieren
+        </button>
+        {clipboardCount > 0 && (
+          <>
+            <select value={pasteTarget} onChange={e => setPasteTarget(e.target.value)} className={`${INPUT_CLASS} max-w-[140px]`}>
+              <option value="">Einfügen in …</option>
+              {workPackages.map(wp => (
+                <option key={wp.id} value={wp.id}>
+                  {wp.title}
+                </option>
+              ))}
+            </select>
+            <button onClick={() => onPaste(pasteTarget)} disabled={!pasteTarget} className={BUTTON_CLASS}>
+              {clipboardCount} einfügen
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* Outline level */}
+      <div className="flex items-center gap-1.5">
+        <button
+          onClick={onOutdent}
+          className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+          title="Eine Ebene höher (Strg+←)"
+        >
+          Ausrücken
+        </button>
+        <button
+          onClick={onIndent}
+          className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+          title="Unter das Element darüber (Strg+→)"
+        >
+          Einrücken
+        </button>
+      </div>
+
+      <button
+        onClick={onDelete}
+        className="px-3 py-1.5 text-xs font-medium text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+      >
+        Löschen
+      </button>
+      <button onClick={onClear} className="text-gray-400 hover:text-gray-700" title="Auswahl aufheben (Esc)">
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+interface ShortcutsDialogProps {
+  onClose: () => void;
+}
+
+const SHORTCUT_GROUPS: { title: string; shortcuts: [string, string][] }[] = [
+  {
+    title: 'Timeline (Element fokussiert)',
+    shortcuts: [
+      ['Tab', 'In die Timeline springen'],
+      ['↑ / ↓', 'Vorheriges / nächstes Element'],
+      ['Alt + ↑ / ↓', 'In der Gliederung nach oben / unten verschieben (auch im Baum)'],
+      ['Pos1 / Ende', 'Erstes / letztes Element'],
+      ['← / →', 'Um einen Tag verschieben'],
+      ['Umschalt + ← / →', 'Um eine Woche verschieben'],
+      ['Alt + ← / →', 'Ende um einen Tag ändern (mit Umschalt: eine Woche)'],
+      ['Strg + → / Strg + ←', 'Einrücken / ausrücken (Gliederungsebene ändern)'],
+      ['Eingabe', 'Editor öffnen'],
+      ['Leertaste', 'Zur Auswahl hinzufügen / entfernen'],
+      ['Entf', 'Element löschen'],
+    ],
+  },
+  {
+    title: 'Auswahl',
+    shortcuts: [
+      ['Strg + Klick', 'Element zur Auswahl hinzufügen / entfernen'],
+      ['Umschalt + Klick', 'Bereich auswählen'],
+      ['Umschalt + Ziehen', 'Elemente im Rechteck auswählen'],
+      ['Strg + C / Strg + V', 'UAPs kopieren / in ausgewähltes AP einfügen'],
+      ['Entf', 'Auswahl löschen'],
+      ['Esc', 'Auswahl aufheben'],
+    ],
+  },
+  {
+    title: 'Ansicht & Bearbeiten',
+    shortcuts: [
+      ['Strg + Mausrad', 'Zoomen'],
+      ['Umschalt + Mausrad', 'Zeitraum verschieben'],
+      ['Alt beim Ziehen', 'Auf ganze Tage einrasten'],
+      ['Strg + Z', 'Rückgängig'],
+      ['Strg + Umschalt + Z / Strg + Y', 'Wiederholen'],
+      ['?', 'Diese Übersicht'],
+    ],
+  },
+];
+
+/**
+ * Cheat sheet of all keyboard and mouse shortcuts (opened with "?")
+ */
+export function ShortcutsDialog({ onClose }: ShortcutsDialogProps) {
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 no-print"
+      onKeyDown={e => e.key === 'Escape' && onClose()}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcuts-title"
+        className="bg-white rounded-2xl p-8 max-w-2xl w-full mx-4 shadow-strong max-h-[90vh] overflow-y-auto"
+      >
+        <h2 id="shortcuts-title" className="text-2xl font-semibold mb-6">Tastenkürzel</h2>
+
+        <div className="space-y-6">
+          {SHORTCUT_GROUPS.map(group => (
+            <section key={group.title}>
+              <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">{group.title}</h3>
+              <dl className="divide-y divide-gray-100">
+                {group.shortcuts.map(([keys, description]) => (
+                  <div key={keys + description} className="flex items-center justify-between gap-4 py-1.5">
+                    <dt>
+                      <kbd className="px-1.5 py-0.5 text-xs font-mono text-gray-700 bg-gray-100 border border-gray-200 rounded">
+                        {keys}
+                      </kbd>
+                    </dt>
+                    <dd className="text-sm text-gray-600 text-right">{description}</dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          ))}
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button onClick={onClose} className="btn-secondary" autoFocus>
+            Schließen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
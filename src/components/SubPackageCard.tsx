@@ -1,10 +1,27 @@
-import { SubPackage } from '../types';
+import { SubPackage, SubPackageStatus, ProjectCalendar } from '../types';
 import { useState } from 'react';
+import { daysBetween, formatDate } from '../utils/dateUtils';
+import { workingDaysBetween } from '../utils/calendar';
+import { ItemVariance } from '../utils/baselines';
+import { SUB_PACKAGE_STATUSES, STATUS_LABELS, STATUS_COLORS, subPackageProgress } from '../utils/progress';
+import { isSummary } from '../utils/wbs';
+import { SelectionModifier, selectionModifier } from '../utils/selection';
+import { VarianceBadge } from './VarianceBadge';
 
 interface SubPackageCardProps {
   uap: SubPackage;
+  code: string; // WBS code, e.g. 1.2.3
+  calendar: ProjectCalendar;
+  variance?: ItemVariance;
+  selected: boolean;
+  collapsed: boolean; // Only relevant for summaries (UAPs with nested UAPs)
+  onToggleCollapsed: () => void;
+  onSelect: (modifier: SelectionModifier) => void;
   onUpdate: (updates: Partial<SubPackage>) => void;
+  onIndent: () => void;
+  onOutdent: () => void;
   onDelete: () => void;
+  dragHandle: JSX.Element; // Grip for reordering in the tree
 }
 
 const DEFAULT_COLORS = [
@@ -33,7 +50,21 @@ function getColorForInitials(initials: string): string {
   return DEFAULT_COLORS[index];
 }
 
-export function SubPackageCard({ uap, onUpdate, onDelete }: SubPackageCardProps) {
+export function SubPackageCard({
+  uap,
+  code,
+  calendar,
+  variance,
+  selected,
+  collapsed,
+  onToggleCollapsed,
+  onSelect,
+  onUpdate,
+  onIndent,
+  onOutdent,
+  onDelete,
+  dragHandle,
+}: SubPackageCardProps) {
   const [showMenu, setShowMenu] = useState(false);
   const [isEditingCategory, setIsEditingCategory] = useState(false);
   const [isEditingAssignees, setIsEditingAssignees] = useState(false);
@@ -41,6 +72,11 @@ export function SubPackageCard({ uap, onUpdate, onDelete }: SubPackageCardProps)
 
   const color = uap.color || DEFAULT_COLORS[0];
   const assignedTo = uap.assignedTo || [];
+  const workingDays = workingDaysBetween(uap.start, uap.end, calendar);
+  const calendarDays = daysBetween(uap.start, uap.end);
+  // Dates, status and progress of a summary are rolled up from the UAPs below it
+  const summary = isSummary(uap);
+  const summaryProgress = summary ? subPackageProgress(uap, calendar) : uap.percentComplete;
 
   const handleAddAssignee = () => {
     if (newAssignee.trim()) {
@@ -60,13 +96,25 @@ export function SubPackageCard({ uap, onUpdate, onDelete }: SubPackageCardProps)
   };
 
   const confirmDelete = () => {
-    if (window.confirm(`Wirklich "${uap.title}" löschen?`)) {
+    const message = summary
+      ? `Wirklich "${uap.title}" mit allen Unterpaketen löschen?`
+      : `Wirklich "${uap.title}" löschen?`;
+    if (window.confirm(message)) {
       onDelete();
     }
   };
 
   return (
-    <div className="group/card relative bg-white rounded-xl shadow-sm border border-gray-100 hover:shadow-md transition-all duration-200 overflow-hidden">
+    <div
+      className={`group/card relative bg-white rounded-xl shadow-sm border hover:shadow-md transition-all duration-200 overflow-hidden ${
+        selected ? 'border-blue-400 ring-2 ring-blue-100' : 'border-gray-100'
+      }`}
+      onClick={e => {
+        // Clicks outside the fields select the card
+        if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select, button')) return;
+        onSelect(selectionModifier(e));
+      }}
+    >
       {/* Colored left bar */}
       <div className="absolute left-0 top-0 bottom-0 w-1" style={{ backgroundColor: color }} />
 
@@ -74,7 +122,20 @@ export function SubPackageCard({ uap, onUpdate, onDelete }: SubPackageCardProps)
       <div className="pl-5 pr-4 py-4">
         {/* Header row */}
         <div className="flex items-start justify-between gap-3 mb-2">
-          <div className="flex-1 min-w-0">
+          {dragHandle}
+          {summary && (
+            <button
+              onClick={onToggleCollapsed}
+              className="mt-0.5 w-5 h-5 flex items-center justify-center rounded hover:bg-gray-100 transition-colors flex-shrink-0"
+              title={collapsed ? 'Aufklappen' : 'Zuklappen'}
+            >
+              <svg className={`w-3 h-3 text-gray-500 transition-transform ${collapsed ? '' : 'rotate-90'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M9 5l7 7-7 7" />
+              </svg>
+            </button>
+          )}
+          <div className="flex-1 min-w-0 flex items-baseline gap-2">
+            <span className="text-xs font-medium text-gray-400 tabular-nums flex-shrink-0">{code}</span>
             <input
               type="text"
               value={uap.title}
@@ -126,7 +187,7 @@ export function SubPackageCard({ uap, onUpdate, onDelete }: SubPackageCardProps)
               {/* Dropdown menu */}
               {showMenu && (
                 <>
-                  <div className="fixed inset-0 z-10" onClick={() => setShowMenu(false)} />
+                  <div className="fixed inset-0 z-10" onClick={e => { e.stopPropagation(); setShowMenu(false); }} />
                   <div className="absolute right-0 top-8 z-20 w-48 bg-white rounded-lg shadow-lg border border-gray-200 py-1">
                     <button
                       onClick={() => {
@@ -147,6 +208,25 @@ export function SubPackageCard({ uap, onUpdate, onDelete }: SubPackageCardProps)
                       Kategorie bearbeiten
                     </button>
                     <div className="border-t border-gray-100 my-1" />
+                    <button
+                      onClick={() => {
+                        onIndent();
+                        setShowMenu(false);
+                      }}
+                      className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                    >
+                      Einrücken
+                    </button>
+                    <button
+                      onClick={() => {
+                        onOutdent();
+                        setShowMenu(false);
+                      }}
+                      className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                    >
+                      Ausrücken
+                    </button>
+                    <div className="border-t border-gray-100 my-1" />
                     <div className="px-4 py-2">
                       <div className="text-xs text-gray-500 mb-2">Farbe ändern</div>
                       <div className="flex flex-wrap gap-2">
@@ -241,27 +321,101 @@ export function SubPackageCard({ uap, onUpdate, onDelete }: SubPackageCardProps)
           </div>
         )}
 
-        {/* Date inputs */}
-        <div className="space-y-2">
-          <div className="flex items-center gap-2">
-            <label className="text-xs text-gray-500 w-12">Start</label>
-            <input
-              type="date"
-              value={uap.start}
-              onChange={e => onUpdate({ start: e.target.value })}
-              className="flex-1 text-xs bg-gray-50 border border-gray-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-gray-400 focus:border-gray-400"
-            />
+
+        {/* Rolled-up range, status and progress */}
+        {summary ? (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-gray-500 w-12">Start</span>
+              <span className="text-xs text-gray-700 font-medium">{formatDate(uap.start)}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-gray-500 w-12">Ende</span>
+              <span className="text-xs text-gray-700 font-medium">{formatDate(uap.end)}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-gray-500 w-12">Status</span>
+              <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: STATUS_COLORS[uap.status] }} />
+              <span className="text-xs text-gray-700">{STATUS_LABELS[uap.status]}</span>
+            </div>
+            <div className="flex items-center gap-2" title="Fortschritt (nach Dauer gewichtet)">
+              <span className="text-xs text-gray-500 w-12">Fertig</span>
+              <div className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                <div className="h-full bg-gray-600 rounded-full" style={{ width: `${summaryProgress}%` }} />
+              </div>
+              <span className="text-xs text-gray-500 tabular-nums">{summaryProgress} %</span>
+            </div>
+            <div className="flex items-center gap-2 px-2 py-1.5 bg-blue-50 rounded-md">
+              <span className="text-xs text-blue-700">Werte werden aus {uap.children!.length} Unterpaketen berechnet</span>
+            </div>
+            <VarianceBadge variance={variance} />
           </div>
-          <div className="flex items-center gap-2">
-            <label className="text-xs text-gray-500 w-12">Ende</label>
-            <input
-              type="date"
-              value={uap.end}
-              onChange={e => onUpdate({ end: e.target.value })}
-              className="flex-1 text-xs bg-gray-50 border border-gray-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-gray-400 focus:border-gray-400"
-            />
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <label className="text-xs text-gray-500 w-12">Start</label>
+              <input
+                type="date"
+                value={uap.start}
+                onChange={e => onUpdate({ start: e.target.value })}
+                className="flex-1 text-xs bg-gray-50 border border-gray-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-gray-400 focus:border-gray-400"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-xs text-gray-500 w-12">Ende</label>
+              <input
+                type="date"
+                value={uap.end}
+                onChange={e => onUpdate({ end: e.target.value })}
+                className="flex-1 text-xs bg-gray-50 border border-gray-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-gray-400 focus:border-gray-400"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-gray-500 w-12">Dauer</span>
+              <span className="text-xs text-gray-700 font-medium">
+                {workingDays} {workingDays === 1 ? 'Arbeitstag' : 'Arbeitstage'}
+              </span>
+              {calendarDays !== workingDays && (
+                <span className="text-xs text-gray-400">({calendarDays} Kalendertage)</span>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-xs text-gray-500 w-12">Status</label>
+              <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: STATUS_COLORS[uap.status] }} />
+              <select
+                value={uap.status}
+                onChange={e => onUpdate({ status: e.target.value as SubPackageStatus })}
+                className="flex-1 text-xs bg-gray-50 border border-gray-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-gray-400 focus:border-gray-400"
+              >
+                {SUB_PACKAGE_STATUSES.map(status => (
+                  <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-xs text-gray-500 w-12">Fertig</label>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={5}
+                value={uap.percentComplete}
+                onChange={e => onUpdate({ percentComplete: Number(e.target.value) })}
+                className="flex-1 accent-gray-700"
+              />
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={uap.percentComplete}
+                onChange={e => onUpdate({ percentComplete: Number(e.target.value) })}
+                className="w-14 text-xs bg-gray-50 border border-gray-200 rounded-md px-2 py-1 text-right focus:outline-none focus:ring-1 focus:ring-gray-400"
+              />
+              <span className="text-xs text-gray-500">%</span>
+            </div>
+            <VarianceBadge variance={variance} />
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
@@ -1,141 +1,400 @@
-import { useRef, useState, useEffect } from 'react';
-import { WorkPackage, SubPackage, Milestone, ZoomLevel } from '../types';
-import { toIso, addDays, daysBetween, parseIso } from '../utils/dateUtils';
+import { useRef, useState, useEffect, useMemo } from 'react';
+import {
+  WorkPackage,
+  SubPackage,
+  Milestone,
+  Dependency,
+  DependencyType,
+  ProjectCalendar,
+  Baseline,
+  TimelineViewport
+} from '../types';
+import { toIso, addDays, daysBetween, parseIso, formatDate, formatDateRange, minDate, maxDate } from '../utils/dateUtils';
+import {
+  DependencySide,
+  DEPENDENCY_LABELS,
+  dependencyTypeFromSides,
+  sidesFromDependencyType,
+  routeDependencyPath,
+} from '../utils/dependencyUtils';
+import { computeCriticalPath } from '../utils/criticalPath';
+import {
+  HEADER_HEIGHT,
+  BAR_HEIGHT,
+  SUBBAR_HEIGHT,
+  computeRowLayout,
+  uapTop,
+  milestoneTop,
+  apLine,
+  uapLine,
+  milestoneLine,
+  visibleRowRange,
+  spanVisible,
+} from '../utils/timelineLayout';
+import { nonWorkingReason } from '../utils/calendar';
+import { STATUS_COLORS, STATUS_LABELS, isWorkPackageDone, workPackageProgress, subPackageProgress } from '../utils/progress';
+import { allSubPackages, flattenSubPackages, findSubPackage, isSummary, wbsCodes } from '../utils/wbs';
+import {
+  TICK_UNITS,
+  TICK_UNIT_LABELS,
+  TICK_UNIT_DAYS,
+  tickUnitFor,
+  gridOpacity,
+  unitTicks,
+  formatTickLabel,
+  panViewport,
+  zoomViewport,
+  pinchViewport,
+  fitViewport,
+  viewportWithDateAt,
+  DragMode,
+  snapUnitFor,
+  dragRange,
+  dateOffsetPx,
+  dateAtPx,
+} from '../utils/timeScale';
+import { SelectionModifier, selectionModifier } from '../utils/selection';
+import { TimelineMinimap } from './TimelineMinimap';
+import { TreeGrid, TREE_GRID_WIDTH } from './TreeGrid';
 
 interface TimelineProps {
   workPackages: WorkPackage[];
   milestones: Milestone[];
-  zoomLevel: ZoomLevel;
+  dependencies: Dependency[];
+  calendar: ProjectCalendar;
   clampUapInsideManualAp: boolean;
+  baseline?: Baseline; // Drawn as ghost bars beneath the live bars
+  statusDate: string; // Progress is reported as of this date
+  viewport: TimelineViewport;
+  onViewportChange: (viewport: TimelineViewport) => void;
+  selectedIds: ReadonlySet<string>;
+  onSelect: (id: string, modifier: SelectionModifier) => void;
+  onSelectMany: (ids: string[], additive: boolean) => void;
+  onClearSelection: () => void;
+  onMoveSelection: (days: number) => void; // Relative to the start of the drag
+  onOpenEditor: (id: string) => void;
+  onDeleteItem: (id: string) => void;
+  onShowShortcuts: () => void;
+  gridMode: boolean; // Outline left of the bars, one line per bar
+  onToggleGridMode: () => void;
+  showCriticalPath: boolean; // Items without float in red, everything else dimmed
+  onToggleCriticalPath: () => void;
+  collapsedIds: ReadonlySet<string>; // APs and UAPs whose rows below are hidden in grid mode
+  onToggleCollapsed: (id: string) => void;
+  onAddSubPackage: (apId: string) => void;
+  onIndent: (ids: ReadonlySet<string>) => void;
+  onOutdent: (ids: ReadonlySet<string>) => void;
+  onMoveInOutline: (id: string, direction: -1 | 1) => void;
+  onRescheduleWorkPackage: (id: string, start: string, end: string) => void;
   onUpdateSubPackage: (apId: string, uapId: string, updates: Partial<SubPackage>) => void;
+  onUpdateMilestone: (id: string, updates: Partial<Milestone>) => void;
+  onAddDependency: (fromId: string, toId: string, type: DependencyType) => void;
+  onUpdateDependency: (id: string, updates: Partial<Dependency>) => void;
+  onDeleteDependency: (id: string) => void;
+  onDragStart: (label: string) => void;
+  onDragEnd: () => void;
   onDrop?: (e: React.DragEvent) => void;
 }
 
-// Zoom configurations
-const ZOOM_CONFIG = {
-  week: { label: 'Tag', tickDays: 1, viewDays: 14, format: 'day' },
-  month: { label: 'Woche', tickDays: 7, viewDays: 90, format: 'week' },
-  quarter: { label: 'Monat', tickDays: 30, viewDays: 180, format: 'month' },
-  year: { label: 'Quartal', tickDays: 90, viewDays: 365, format: 'quarter' },
-} as const;
-
-// Format tick label based on zoom level
-const formatTickLabel = (dateStr: string, format: 'day' | 'week' | 'month' | 'quarter'): string => {
-  const date = new Date(dateStr);
-
-  switch (format) {
-    case 'day':
-      // Show day and short month name: "23. Dez"
-      return date.toLocaleDateString('de-DE', {
-        day: '2-digit',
-        month: 'short',
-      });
-
-    case 'week':
-      // Show calendar week: "KW 52"
-      // Calculate ISO week number
-      const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
-      const dayNum = d.getUTCDay() || 7;
-      d.setUTCDate(d.getUTCDate() + 4 - dayNum);
-      const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
-      const weekNo = Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
-      return `KW ${weekNo}`;
-
-    case 'month':
-      // Show month name and year: "Dez 2024"
-      return date.toLocaleDateString('de-DE', {
-        month: 'short',
-        year: 'numeric',
-      });
-
-    case 'quarter':
-      // Show quarter and year: "Q4 2024"
-      const quarter = Math.floor(date.getMonth() / 3) + 1;
-      return `Q${quarter} ${date.getFullYear()}`;
-
-    default:
-      return dateStr;
-  }
-};
-
-// Sophisticated spacing system - complex visual hierarchy
-const BASE_ROW_HEIGHT = 70; // Base height for AP with more breathing room
-const HEADER_HEIGHT = 90;
-const BAR_HEIGHT = 36;
-const SUBBAR_HEIGHT = 28;
-const UAP_SPACING = 10; // Generous spacing between UAPs
-const ROW_PADDING = 35; // Padding at bottom of each row
 const TIMELINE_PADDING_LEFT = 80; // Left padding so APs don't start at edge
 const TIMELINE_PADDING_RIGHT = 60; // Right padding for balance
+const MIN_UAP_WIDTH = 120; // UAP cards never get narrower than this
+const CONNECTOR_OFFSET = 10; // Distance of the dependency handle from the bar edge
+const CRITICAL_COLOR = '#EF4444';
+const DIMMED_OPACITY = '0.3'; // Opacity of non-critical items in critical path mode
+const DONE_OPACITY = '0.25'; // Opacity of completed work while "Erledigte" is off
+const STATUS_DATE_COLOR = '#8B5CF6';
+const BASELINE_COLOR = '#94A3B8';
+const BASELINE_HEIGHT = 4; // Ghost bars sit in the gap below each live bar
+const AP_HANDLE_WIDTH = 6;
+const TOUCH_HANDLE_WIDTH = 24; // Invisible resize grip on touch screens
+const TOUCH_CONNECTOR_RADIUS = 12;
+const LONG_PRESS_MS = 400; // Touch and pen presses on a bar start dragging after this delay
+const LONG_PRESS_TOLERANCE = 8; // Movement (px) that turns a press into a pan or scroll
+const SELECTION_COLOR = '#2563EB';
+const CLICK_TOLERANCE = 3; // Pointer movement (px) that still counts as a click
+const KEYBOARD_HELP_ID = 'timeline-keyboard-help';
+const ZOOM_STEP = 1.5; // Factor of the zoom buttons
+const WHEEL_ZOOM_SPEED = 0.0015; // Ctrl + wheel (and trackpad pinch) zoom per wheel delta unit
+const MIN_NON_WORKING_PX = 3; // Non-working day columns are hidden when days get narrower
+const OVERSCAN_PX = 600; // Rows and bars this far outside the visible area are still rendered
+const HOVER_COLOR = '#EFF6FF'; // Line of the item hovered in the tree grid or on the timeline
+const NO_COLLAPSED: ReadonlySet<string> = new Set();
+const SUMMARY_COLOR = '#64748B'; // Accent of UAPs that roll up nested UAPs, like the AP bars
+
+// Bar or marker being dragged on the timeline
+type DragTarget =
+  | { kind: 'uap'; apId: string; uapId: string }
+  | { kind: 'ap'; apId: string }
+  | { kind: 'ms'; msId: string };
+
+const DRAG_LABELS: Record<DragTarget['kind'], Record<DragMode, string>> = {
+  uap: { move: 'UAP verschieben', 'resize-left': 'UAP-Dauer ändern', 'resize-right': 'UAP-Dauer ändern' },
+  ap: { move: 'AP verschieben', 'resize-left': 'AP-Dauer ändern', 'resize-right': 'AP-Dauer ändern' },
+  ms: { move: 'Meilenstein verschieben', 'resize-left': '', 'resize-right': '' },
+};
+
+// Item under a touch or pen press; becomes a drag after a long press
+interface PressedItem {
+  type: DragMode;
+  target: DragTarget;
+  start: string;
+  end: string;
+}
+
+const targetId = (target: DragTarget): string =>
+  target.kind === 'uap' ? target.uapId : target.kind === 'ap' ? target.apId : target.msId;
 
 export function Timeline({
   workPackages,
   milestones,
-  zoomLevel,
+  dependencies,
+  calendar,
   clampUapInsideManualAp,
+  baseline,
+  statusDate,
+  viewport,
+  onViewportChange,
+  selectedIds,
+  onSelect,
+  onSelectMany,
+  onClearSelection,
+  onMoveSelection,
+  onOpenEditor,
+  onDeleteItem,
+  onShowShortcuts,
+  gridMode,
+  onToggleGridMode,
+  showCriticalPath,
+  onToggleCriticalPath,
+  collapsedIds,
+  onToggleCollapsed,
+  onAddSubPackage,
+  onIndent,
+  onOutdent,
+  onMoveInOutline,
+  onRescheduleWorkPackage,
   onUpdateSubPackage,
+  onUpdateMilestone,
+  onAddDependency,
+  onUpdateDependency,
+  onDeleteDependency,
+  onDragStart,
+  onDragEnd,
   onDrop,
 }: TimelineProps) {
   const svgRef = useRef<SVGSVGElement>(null);
-  const [viewStart] = useState<string>(() => {
-    // Start from earliest date in project
-    const allDates = [
-      ...workPackages.map(wp => wp.start),
-      ...workPackages.flatMap(wp => wp.subPackages.map(sp => sp.start)),
-      ...milestones.map(ms => ms.date),
-    ];
-    if (allDates.length === 0) return toIso(new Date());
-    return allDates.reduce((min, curr) => curr < min ? curr : min);
-  });
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pixelsPerDay = viewport.pixelsPerDay;
+
+  // Width of the scroll container; the SVG always fills it exactly
+  const [containerWidth, setContainerWidth] = useState(0);
+  const [containerHeight, setContainerHeight] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  // Keyboard focus: only one item at a time is in the tab order (roving tabindex)
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const [hasFocus, setHasFocus] = useState(false);
+  const [announcedId, setAnnouncedId] = useState<string | null>(null); // Read out after keyboard edits
+
+  // Shift + drag on empty canvas selects the items inside the rectangle (SVG coordinates)
+  const [rubberBand, setRubberBand] = useState<{
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+    additive: boolean;
+  } | null>(null);
+
+  // Empty-canvas drag that pans the viewport (touch and pen presses on a bar pan too)
+  const [panState, setPanState] = useState<{
+    pointerId: number;
+    initialX: number;
+    initialY: number;
+    initialViewport: TimelineViewport;
+    pressed?: PressedItem;
+  } | null>(null);
+  const longPressTimer = useRef<number>();
 
   const [dragState, setDragState] = useState<{
-    type: 'move' | 'resize-left' | 'resize-right';
-    apId: string;
-    uapId: string;
+    pointerId: number;
+    type: DragMode;
+    target: DragTarget;
+    group: boolean; // Moves the whole selection
     initialX: number;
     initialStart: string;
     initialEnd: string;
   } | null>(null);
 
+  // Dependency being drawn from a bar's edge handle
+  const [linkDrag, setLinkDrag] = useState<{
+    fromId: string;
+    fromSide: DependencySide;
+    x: number;
+    y: number;
+  } | null>(null);
+
+  // Dependency whose edit popover is open (screen coordinates)
+  const [selectedDependency, setSelectedDependency] = useState<{
+    id: string;
+    x: number;
+    y: number;
+  } | null>(null);
+
+  // Fingers on the timeline; two of them pinch-zoom
+  const touchPoints = useRef(new Map<number, { x: number; y: number }>());
+  const pinchRef = useRef<{ initialViewport: TimelineViewport; initialDistance: number; initialMidPx: number } | null>(null);
+
+  // Native touch scrolling is blocked while a bar or dependency is dragged
+  const scrollLockRef = useRef(false);
+
+  // Touch screens get wider resize grips and handles on selected bars
+  const [coarsePointer] = useState(() => window.matchMedia?.('(any-pointer: coarse)').matches ?? false);
+
+  const [showDone, setShowDone] = useState(true);
+
   const [tooltip, setTooltip] = useState<{
     x: number;
     y: number;
     content: string;
   } | null>(null);
 
-  const config = ZOOM_CONFIG[zoomLevel];
-  const viewDays = config.viewDays;
-  const tickDays = config.tickDays;
+  // Item under the pointer; its line is highlighted in the tree grid and on the timeline
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const hoverItem = (id: string | null) => gridMode && setHoveredId(id);
 
-  // Calculate dynamic row heights based on UAP count (Apple-style precise spacing)
-  const getRowHeight = (wp: WorkPackage) => {
-    const uapCount = wp.subPackages.length;
-    if (uapCount === 0) return BASE_ROW_HEIGHT;
-    return BASE_ROW_HEIGHT + (uapCount * (SUBBAR_HEIGHT + UAP_SPACING)) + ROW_PADDING;
-  };
+  const tickUnit = tickUnitFor(pixelsPerDay);
 
-  // Calculate cumulative Y positions for each work package
-  const rowPositions = workPackages.reduce((acc, wp, index) => {
-    const prevY = index === 0 ? HEADER_HEIGHT : acc[index - 1].y + acc[index - 1].height;
-    acc.push({
-      y: prevY,
-      height: getRowHeight(wp),
-    });
-    return acc;
-  }, [] as { y: number; height: number }[]);
-
-  // Calculate SVG dimensions - wider for more spacious design with padding
-  const width = 2000;
-  const totalRowsHeight = rowPositions.length > 0
-    ? rowPositions[rowPositions.length - 1].y + rowPositions[rowPositions.length - 1].height
-    : HEADER_HEIGHT;
+  // Collapsing only hides rows in grid mode, where the outline sits beside the bars
+  const hiddenIds = gridMode ? collapsedIds : NO_COLLAPSED;
+
+  // Row positions only change with the work packages, not with scrolling or zooming
+  const rowLayout = useMemo(() => computeRowLayout(workPackages, hiddenIds), [workPackages, hiddenIds]);
+  const rowPositions = rowLayout.rows;
+
+  // Visible UAP lines of every AP (nested UAPs below their parent) and the WBS codes shown on the bars
+  const uapLines = useMemo(
+    () => workPackages.map(ap => (hiddenIds.has(ap.id) ? [] : flattenSubPackages(ap.subPackages, hiddenIds))),
+    [workPackages, hiddenIds]
+  );
+  const codes = useMemo(() => wbsCodes(workPackages), [workPackages]);
+
+  // SVG dimensions: as wide as the container minus the tree grid (a fixed width until it is measured)
+  const width = (containerWidth > 0 ? containerWidth : 2000) - (gridMode ? TREE_GRID_WIDTH : 0);
+  const plotWidth = width - TIMELINE_PADDING_LEFT - TIMELINE_PADDING_RIGHT;
+  const totalRowsHeight = rowLayout.totalHeight;
   const height = totalRowsHeight + 180; // Extra space for milestones
 
+  // Vertical band that is rendered (virtualization); everything else stays out of the DOM
+  const bandTop = scrollTop - OVERSCAN_PX;
+  const bandBottom = scrollTop + (containerHeight > 0 ? containerHeight : 1000) + OVERSCAN_PX;
+  const inBandX = (x1: number, x2: number) => spanVisible(x1, x2, -OVERSCAN_PX, width + OVERSCAN_PX);
+
   // Convert date to X position (with left/right padding)
-  const dateToX = (date: string): number => {
-    const days = daysBetween(viewStart, date);
-    const availableWidth = width - TIMELINE_PADDING_LEFT - TIMELINE_PADDING_RIGHT;
-    return TIMELINE_PADDING_LEFT + (days / viewDays) * availableWidth;
+  const dateToX = (date: string): number => TIMELINE_PADDING_LEFT + dateOffsetPx(viewport, date);
+  const xToDate = (x: number): string => dateAtPx(viewport, x - TIMELINE_PADDING_LEFT);
+
+  // Dates at the edges of the plot area (padding excluded)
+  const visibleStart = xToDate(TIMELINE_PADDING_LEFT);
+  const visibleEnd = xToDate(width - TIMELINE_PADDING_RIGHT - 1);
+
+  // Project range for "Alles anzeigen" and the minimap
+  const projectStart = minDate([...workPackages.map(wp => wp.start), ...milestones.map(ms => ms.date)]);
+  const projectEnd = maxDate([...workPackages.map(wp => wp.end), ...milestones.map(ms => addDays(ms.date, 1))]);
+
+  // Navigation: arrows step by one tick, jumps center the date, zoom keeps the center in place
+  const stepDays = Math.round(TICK_UNIT_DAYS[tickUnit]);
+  const jumpTo = (date: string) => onViewportChange(viewportWithDateAt(viewport, date, plotWidth / 2));
+  const zoomBy = (factor: number) => onViewportChange(zoomViewport(viewport, factor, plotWidth / 2));
+  const fitToProject = () => {
+    // A little air on both sides so the outermost bars are not cut
+    const margin = Math.max(Math.round(daysBetween(projectStart, projectEnd) * 0.02), 1);
+    onViewportChange(fitViewport(addDays(projectStart, -margin), addDays(projectEnd, margin), plotWidth));
+  };
+
+  // Float and critical items, only while the critical path is shown: the analysis is too slow
+  // to repeat on every drag step of a large project (the tooltip computes it on demand)
+  const criticalPath = useMemo(
+    () => (showCriticalPath ? computeCriticalPath(workPackages, milestones, dependencies, calendar) : null),
+    [showCriticalPath, workPackages, milestones, dependencies, calendar]
+  );
+  const isCritical = (id: string) => criticalPath?.timings.get(id)?.isCritical ?? false;
+  const dimUnlessCritical = (critical: boolean) =>
+    showCriticalPath && !critical ? DIMMED_OPACITY : '1';
+
+  // Thin ghost bar with the baseline dates of an item (nothing if it is new)
+  const renderBaselineBar = (id: string, barY: number) => {
+    const planned = baseline?.dates[id];
+    if (!planned) return null;
+    const x1 = dateToX(planned.start);
+    return (
+      <rect
+        x={x1}
+        y={barY}
+        width={Math.max(dateToX(planned.end) - x1, 2)}
+        height={BASELINE_HEIGHT}
+        fill={BASELINE_COLOR}
+        opacity="0.6"
+        rx="2"
+        pointerEvents="none"
+      >
+        <title>Basisplan: {formatDateRange(planned.start, planned.end)}</title>
+      </rect>
+    );
+  };
+
+  // Bar geometry per UAP (used to route dependency connectors) and bounding boxes of all
+  // selectable items (rubber band, outlines); cached because the scroll position does not matter
+  const { uapBars, itemBoxes } = useMemo(() => {
+    const uapBars = new Map<string, { x1: number; x2: number; y: number }>();
+    const hiddenUaps = new Set<string>();
+    workPackages.forEach((ap, apIndex) => {
+      // Hidden UAPs lie on the bar of their collapsed AP or UAP, so their dependencies still point somewhere sensible
+      let line = 0;
+      const place = (subPackages: SubPackage[], hiddenY: number | null) => {
+        subPackages.forEach(uap => {
+          const x1 = dateToX(uap.start);
+          const uapWidth = Math.max(dateToX(uap.end) - x1, MIN_UAP_WIDTH);
+          const y = hiddenY ?? uapTop(rowPositions[apIndex], line++) + SUBBAR_HEIGHT / 2;
+          uapBars.set(uap.id, { x1, x2: x1 + uapWidth, y });
+          if (hiddenY !== null) hiddenUaps.add(uap.id);
+          place(uap.children ?? [], hiddenY ?? (hiddenIds.has(uap.id) ? y : null));
+        });
+      };
+      place(ap.subPackages, hiddenIds.has(ap.id) ? rowPositions[apIndex].y + 8 + BAR_HEIGHT / 2 : null);
+    });
+
+    const itemBoxes: { id: string; x1: number; y1: number; x2: number; y2: number }[] = [
+      ...workPackages.map((ap, apIndex) => ({
+        id: ap.id,
+        x1: dateToX(ap.start),
+        y1: rowPositions[apIndex].y + 8,
+        x2: dateToX(ap.end),
+        y2: rowPositions[apIndex].y + 8 + BAR_HEIGHT,
+      })),
+      ...[...uapBars].filter(([id]) => !hiddenUaps.has(id)).map(([id, bar]) => ({
+        id,
+        x1: bar.x1,
+        y1: bar.y - SUBBAR_HEIGHT / 2,
+        x2: bar.x2,
+        y2: bar.y + SUBBAR_HEIGHT / 2,
+      })),
+      ...milestones.map((ms, msIndex) => {
+        const x = dateToX(ms.date);
+        const y = milestoneTop(rowLayout, msIndex);
+        return { id: ms.id, x1: x - 10, y1: y - 10, x2: x + 10, y2: y + 10 };
+      }),
+    ];
+    return { uapBars, itemBoxes };
+  }, [workPackages, milestones, rowLayout, viewport, hiddenIds]);
+
+  // Convert a mouse position to SVG coordinates
+  const toSvgPoint = (e: { clientX: number; clientY: number }) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    return {
+      x: e.clientX - (rect?.left ?? 0),
+      y: e.clientY - (rect?.top ?? 0),
+    };
   };
 
   // Clamp UAP inside AP if needed
@@ -155,77 +414,564 @@ export function Timeline({
     return { start: clampedStart, end: clampedEnd };
   };
 
-  // Mouse handlers
-  const handleMouseDown = (
-    e: React.MouseEvent,
-    type: 'move' | 'resize-left' | 'resize-right',
-    apId: string,
-    uapId: string,
-    start: string,
-    end: string
-  ) => {
-    e.preventDefault();
+  // Starts moving or resizing an item (milestones pass their date as start and end)
+  const startDrag = (pointerId: number, clientX: number, { type, target, start, end }: PressedItem) => {
+    // Dragging an item of a multi-selection moves all selected items
+    const id = targetId(target);
+    const group = type === 'move' && selectedIds.has(id) && selectedIds.size > 1;
+    if (!selectedIds.has(id)) onSelect(id, 'replace');
+
+    // Keep receiving the pointer even when it leaves the timeline
+    svgRef.current?.setPointerCapture(pointerId);
+    onDragStart(group ? 'Auswahl verschieben' : DRAG_LABELS[target.kind][type]);
     setDragState({
+      pointerId,
       type,
-      apId,
-      uapId,
-      initialX: e.clientX,
+      target,
+      group,
+      initialX: clientX,
       initialStart: start,
       initialEnd: end,
     });
   };
 
-  const handleMouseMove = (e: MouseEvent) => {
-    if (!dragState || !svgRef.current) return;
-
-    const rect = svgRef.current.getBoundingClientRect();
-    const deltaX = e.clientX - dragState.initialX;
-    const deltaDays = Math.round((deltaX / rect.width) * viewDays);
-
-    let newStart = dragState.initialStart;
-    let newEnd = dragState.initialEnd;
-
-    if (dragState.type === 'move') {
-      newStart = addDays(dragState.initialStart, deltaDays);
-      newEnd = addDays(dragState.initialEnd, deltaDays);
-    } else if (dragState.type === 'resize-left') {
-      newStart = addDays(dragState.initialStart, deltaDays);
-      // Ensure start doesn't go past end
-      if (newStart > newEnd) newStart = newEnd;
-    } else if (dragState.type === 'resize-right') {
-      newEnd = addDays(dragState.initialEnd, deltaDays);
-      // Ensure end doesn't go before start
-      if (newEnd < newStart) newEnd = newStart;
+  const handleItemPointerDown = (
+    e: React.PointerEvent,
+    type: DragMode,
+    target: DragTarget,
+    start: string,
+    end: string
+  ) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    setTooltip(null);
+    const id = targetId(target);
+    setFocusedId(id);
+
+    // Touch and pen presses on a bar pan (or scroll) until held still long enough
+    if (e.pointerType !== 'mouse' && type === 'move') {
+      startPan(e, { type, target, start, end });
+      return;
     }
 
-    // Clamp if needed
-    const clamped = clampUap(dragState.apId, newStart, newEnd);
+    // Ctrl/Shift-click only changes the selection
+    const modifier = selectionModifier(e);
+    if (modifier !== 'replace') {
+      onSelect(id, modifier);
+      return;
+    }
 
-    onUpdateSubPackage(dragState.apId, dragState.uapId, {
-      start: clamped.start,
-      end: clamped.end,
-    });
+    startDrag(e.pointerId, e.clientX, { type, target, start, end });
   };
 
-  const handleMouseUp = () => {
+  const endDrag = () => {
     setDragState(null);
+    onDragEnd();
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    if (!dragState || e.pointerId !== dragState.pointerId) return;
+
+    // Dates snap to days, weeks or months depending on the zoom; Alt snaps to days
+    const deltaX = e.clientX - dragState.initialX;
+    const deltaDays = Math.round(deltaX / pixelsPerDay);
+    const unit = e.altKey ? 'day' : snapUnitFor(pixelsPerDay);
+    const { start, end } = dragRange(dragState.initialStart, dragState.initialEnd, dragState.type, deltaDays, unit);
+
+    const target = dragState.target;
+    if (dragState.group) {
+      onMoveSelection(daysBetween(dragState.initialStart, start));
+    } else if (target.kind === 'uap') {
+      // Clamp if needed
+      const clamped = clampUap(target.apId, start, end);
+      onUpdateSubPackage(target.apId, target.uapId, {
+        start: clamped.start,
+        end: clamped.end,
+      });
+    } else if (target.kind === 'ap') {
+      onRescheduleWorkPackage(target.apId, start, end);
+    } else {
+      onUpdateMilestone(target.msId, { date: start });
+    }
+  };
+
+  const handlePointerUp = (e: PointerEvent) => {
+    if (dragState && e.pointerId === dragState.pointerId) endDrag();
   };
 
   useEffect(() => {
     if (dragState) {
-      window.addEventListener('mousemove', handleMouseMove);
-      window.addEventListener('mouseup', handleMouseUp);
+      window.addEventListener('pointermove', handlePointerMove);
+      window.addEventListener('pointerup', handlePointerUp);
+      window.addEventListener('pointercancel', handlePointerUp);
       return () => {
-        window.removeEventListener('mousemove', handleMouseMove);
-        window.removeEventListener('mouseup', handleMouseUp);
+        window.removeEventListener('pointermove', handlePointerMove);
+        window.removeEventListener('pointerup', handlePointerUp);
+        window.removeEventListener('pointercancel', handlePointerUp);
       };
     }
   }, [dragState]);
 
-  // Generate time ticks
-  const ticks: string[] = [];
-  for (let i = 0; i <= viewDays; i += tickDays) {
-    ticks.push(addDays(viewStart, i));
+  // Track the container width so the SVG always fills it
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const update = () => {
+      setContainerWidth(container.clientWidth);
+      setContainerHeight(container.clientHeight);
+    };
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Ctrl + wheel zooms at the cursor (trackpad pinch arrives as ctrl + wheel),
+  // shift + wheel and horizontal wheel deltas pan (non-passive to stop native scrolling)
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (e.ctrlKey || e.metaKey) {
+        e.preventDefault();
+        const rect = svgRef.current?.getBoundingClientRect();
+        const anchorPx = e.clientX - (rect?.left ?? 0) - TIMELINE_PADDING_LEFT;
+        onViewportChange(zoomViewport(viewport, Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED), anchorPx));
+      } else if (e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+        e.preventDefault();
+        onViewportChange(panViewport(viewport, e.deltaX !== 0 ? e.deltaX : e.deltaY));
+      }
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [viewport, onViewportChange]);
+
+  // Pans the viewport; a pressed bar starts dragging if the pointer is held still
+  const startPan = (e: React.PointerEvent, pressed?: PressedItem) => {
+    setPanState({ pointerId: e.pointerId, initialX: e.clientX, initialY: e.clientY, initialViewport: viewport, pressed });
+    window.clearTimeout(longPressTimer.current);
+    if (!pressed) return;
+
+    const { pointerId, clientX } = e;
+    longPressTimer.current = window.setTimeout(() => {
+      setPanState(null);
+      startDrag(pointerId, clientX, pressed);
+    }, LONG_PRESS_MS);
+  };
+
+  // Bars and handles call preventDefault on pointerdown, so only empty canvas starts panning
+  // (or, with Shift, a rubber band selection)
+  const handlePanStart = (e: React.PointerEvent) => {
+    if (e.button !== 0 || e.defaultPrevented) return;
+    e.preventDefault();
+    setTooltip(null);
+    if (e.shiftKey) {
+      const { x, y } = toSvgPoint(e);
+      setRubberBand({ x0: x, y0: y, x1: x, y1: y, additive: e.ctrlKey || e.metaKey });
+      return;
+    }
+    startPan(e);
+  };
+
+  useEffect(() => {
+    if (!panState) return;
+
+    const handlePanMove = (e: PointerEvent) => {
+      if (e.pointerId !== panState.pointerId) return;
+      if (Math.hypot(e.clientX - panState.initialX, e.clientY - panState.initialY) > LONG_PRESS_TOLERANCE) {
+        window.clearTimeout(longPressTimer.current);
+      }
+      onViewportChange(panViewport(panState.initialViewport, panState.initialX - e.clientX));
+    };
+    // A click on empty canvas clears the selection, a tap on a bar selects it.
+    // pointercancel means the browser took over (vertical touch scrolling).
+    const handlePanEnd = (e: PointerEvent) => {
+      if (e.pointerId !== panState.pointerId) return;
+      window.clearTimeout(longPressTimer.current);
+      if (e.type === 'pointerup' && Math.abs(e.clientX - panState.initialX) <= CLICK_TOLERANCE) {
+        if (panState.pressed) onSelect(targetId(panState.pressed.target), 'replace');
+        else onClearSelection();
+      }
+      setPanState(null);
+    };
+
+    window.addEventListener('pointermove', handlePanMove);
+    window.addEventListener('pointerup', handlePanEnd);
+    window.addEventListener('pointercancel', handlePanEnd);
+    return () => {
+      window.removeEventListener('pointermove', handlePanMove);
+      window.removeEventListener('pointerup', handlePanEnd);
+      window.removeEventListener('pointercancel', handlePanEnd);
+    };
+  }, [panState, onViewportChange]);
+
+  useEffect(() => () => window.clearTimeout(longPressTimer.current), []);
+
+  // A second finger turns a pan, pending long press or drag into a pinch zoom.
+  // Runs in the capture phase so the bar under the finger does not react.
+  const handleTouchPointerDown = (e: React.PointerEvent) => {
+    if (e.pointerType !== 'touch') return;
+    const points = touchPoints.current;
+    points.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (points.size < 2) return;
+
+    e.stopPropagation();
+    if (pinchRef.current) return;
+    window.clearTimeout(longPressTimer.current);
+    setPanState(null);
+    setLinkDrag(null);
+    if (dragState) endDrag();
+
+    const [a, b] = [...points.values()];
+    const left = (svgRef.current?.getBoundingClientRect().left ?? 0) + TIMELINE_PADDING_LEFT;
+    pinchRef.current = {
+      initialViewport: viewport,
+      initialDistance: Math.hypot(a.x - b.x, a.y - b.y),
+      initialMidPx: (a.x + b.x) / 2 - left,
+    };
+  };
+
+  useEffect(() => {
+    const handleTouchMove = (e: PointerEvent) => {
+      const points = touchPoints.current;
+      if (!points.has(e.pointerId)) return;
+      points.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+      const pinch = pinchRef.current;
+      if (!pinch) return;
+      const [a, b] = [...points.values()];
+      const left = (svgRef.current?.getBoundingClientRect().left ?? 0) + TIMELINE_PADDING_LEFT;
+      onViewportChange(
+        pinchViewport(
+          pinch.initialViewport,
+          pinch.initialDistance,
+          pinch.initialMidPx,
+          Math.hypot(a.x - b.x, a.y - b.y),
+          (a.x + b.x) / 2 - left
+        )
+      );
+    };
+    // Lifting any finger ends the pinch
+    const handleTouchEnd = (e: PointerEvent) => {
+      if (touchPoints.current.delete(e.pointerId)) pinchRef.current = null;
+    };
+
+    window.addEventListener('pointermove', handleTouchMove);
+    window.addEventListener('pointerup', handleTouchEnd);
+    window.addEventListener('pointercancel', handleTouchEnd);
+    return () => {
+      window.removeEventListener('pointermove', handleTouchMove);
+      window.removeEventListener('pointerup', handleTouchEnd);
+      window.removeEventListener('pointercancel', handleTouchEnd);
+    };
+  }, [onViewportChange]);
+
+  // Vertical touch scrolling stays native (touch-action: pan-y) except while dragging or pinching
+  scrollLockRef.current = dragState !== null || linkDrag !== null;
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleTouchMove = (e: TouchEvent) => {
+      if (scrollLockRef.current || pinchRef.current) e.preventDefault();
+    };
+    container.addEventListener('touchmove', handleTouchMove, { passive: false });
+    return () => container.removeEventListener('touchmove', handleTouchMove);
+  }, []);
+
+  // Keyboard order: each AP followed by its visible UAPs in tree order, then the milestones.
+  // UAPs keep their line within the AP row and whether they roll up nested UAPs.
+  const items = useMemo(() => {
+    const items = new Map<string, { target: DragTarget; start: string; end: string; line?: number; summary?: boolean }>();
+    workPackages.forEach((ap, apIndex) => {
+      items.set(ap.id, { target: { kind: 'ap', apId: ap.id }, start: ap.start, end: ap.end });
+      uapLines[apIndex].forEach(({ uap }, line) => {
+        items.set(uap.id, {
+          target: { kind: 'uap', apId: ap.id, uapId: uap.id },
+          start: uap.start,
+          end: uap.end,
+          line,
+          summary: isSummary(uap),
+        });
+      });
+    });
+    milestones.forEach(ms => {
+      items.set(ms.id, { target: { kind: 'ms', msId: ms.id }, start: ms.date, end: ms.date });
+    });
+    return items;
+  }, [workPackages, milestones, uapLines]);
+
+  // Screen reader description, built only for rendered items
+  const itemLabel = (id: string): string => {
+    const target = items.get(id)?.target;
+    if (!target) return '';
+    if (target.kind === 'ms') {
+      const ms = milestones.find(m => m.id === target.msId);
+      return ms ? `${ms.title}, ${formatDate(ms.date)}` : '';
+    }
+
+    const ap = workPackages.find(wp => wp.id === target.apId);
+    if (!ap) return '';
+    if (target.kind === 'ap') {
+      const progress = workPackageProgress(ap, calendar);
+      return `${ap.title}, ${formatDateRange(ap.start, ap.end)}` +
+        (progress !== null ? `, ${progress} % erledigt` : '') +
+        (ap.subPackages.length > 0 ? `, ${allSubPackages(ap.subPackages).length} UAPs` : '');
+    }
+
+    const uap = findSubPackage(ap.subPackages, target.uapId);
+    if (!uap) return '';
+    if (isSummary(uap)) {
+      return `${codes.get(uap.id)} ${uap.title}, ${formatDateRange(uap.start, uap.end)}, ${STATUS_LABELS[uap.status]}, ` +
+        `${subPackageProgress(uap, calendar)} %, ${uap.children!.length} Unterpakete`;
+    }
+    const assignees = uap.assignedTo ?? [];
+    return `${codes.get(uap.id)} ${uap.title}, ${formatDateRange(uap.start, uap.end)}, ${STATUS_LABELS[uap.status]}, ${uap.percentComplete} %` +
+      (assignees.length > 0 ? `, zugewiesen: ${assignees.join(', ')}` : ', niemand zugewiesen');
+  };
+  const itemOrder = [...items.keys()];
+  const tabbableId = focusedId !== null && items.has(focusedId) ? focusedId : itemOrder[0];
+
+  // Rows in the visible band, plus the rows of items that must stay in the DOM
+  // (tab stop, dragged bar, dependency source) even when scrolled out of view
+  const pinnedIds = new Set(
+    [tabbableId, dragState && targetId(dragState.target), linkDrag?.fromId].filter((id): id is string => !!id)
+  );
+  const { first: firstRow, last: lastRow } = visibleRowRange(rowPositions, bandTop, bandBottom);
+  const renderedRows = workPackages.map((_, index) => index).slice(firstRow, lastRow);
+  pinnedIds.forEach(id => {
+    const target = items.get(id)?.target;
+    if (!target || target.kind === 'ms') return;
+    const index = workPackages.findIndex(wp => wp.id === target.apId);
+    if (index !== -1 && (index < firstRow || index >= lastRow)) renderedRows.push(index);
+  });
+
+  // Strip of the hovered item, highlighted across the timeline (grid mode only)
+  const hoveredLine = (() => {
+    const item = gridMode && hoveredId !== null ? items.get(hoveredId) : undefined;
+    if (!item) return null;
+    const target = item.target;
+    if (target.kind === 'ms') return milestoneLine(rowLayout, milestones.findIndex(ms => ms.id === target.msId));
+    const apIndex = workPackages.findIndex(wp => wp.id === target.apId);
+    if (target.kind === 'ap') return apLine(rowPositions[apIndex]);
+    return uapLine(rowPositions[apIndex], item.line!);
+  })();
+
+  // Attributes that make an item focusable and describe it to screen readers
+  const focusProps = (id: string, roleDescription: string) => ({
+    tabIndex: id === tabbableId ? 0 : -1,
+    role: 'button',
+    'aria-roledescription': roleDescription,
+    'aria-label': `${itemLabel(id)}${selectedIds.has(id) ? ', ausgewählt' : ''}`,
+    'aria-describedby': KEYBOARD_HELP_ID,
+    'data-item-id': id,
+    onFocus: () => setFocusedId(id),
+    style: { outline: 'none' },
+  });
+
+  // Resize handles show on hover, for the focused bar and (on touch screens) for selected bars
+  const showHandles = (id: string) => (hasFocus && focusedId === id) || (coarsePointer && selectedIds.has(id));
+
+  // Wide invisible resize grip for fingers; touch-action none lets the drag start without a long press
+  const renderTouchGrip = (edgeX: number, y: number, height: number, onPointerDown: (e: React.PointerEvent) => void) =>
+    coarsePointer && (
+      <rect
+        x={edgeX - TOUCH_HANDLE_WIDTH / 2}
+        y={y}
+        width={TOUCH_HANDLE_WIDTH}
+        height={height}
+        fill="transparent"
+        style={{ touchAction: 'none' }}
+        onPointerDown={onPointerDown}
+      />
+    );
+
+  // Items outside the rendered band only exist after the next render, so focus may have to wait
+  const pendingFocus = useRef<string | null>(null);
+  const focusItem = (id: string) => {
+    setFocusedId(id);
+    const element = svgRef.current?.querySelector<SVGElement>(`[data-item-id="${id}"]`);
+    if (element) element.focus();
+    else pendingFocus.current = id;
+  };
+
+  useEffect(() => {
+    const id = pendingFocus.current;
+    if (id === null) return;
+    pendingFocus.current = null;
+    svgRef.current?.querySelector<SVGElement>(`[data-item-id="${id}"]`)?.focus();
+  });
+
+  // Arrow keys move by a day (Shift: a week), with Alt they move the end instead
+  const nudgeItem = (id: string, days: number, resize: boolean) => {
+    const item = items.get(id);
+    if (!item) return;
+
+    if (!resize && selectedIds.has(id) && selectedIds.size > 1) {
+      onMoveSelection(days);
+      return;
+    }
+
+    const target = item.target;
+    if (target.kind === 'ms') {
+      if (!resize) onUpdateMilestone(target.msId, { date: addDays(item.start, days) });
+      return;
+    }
+
+    // Summary UAPs can only be moved; their range is rolled up
+    if (resize && item.summary) return;
+    const { start, end } = dragRange(item.start, item.end, resize ? 'resize-right' : 'move', days, 'day');
+    if (target.kind === 'uap') {
+      const clamped = clampUap(target.apId, start, end);
+      onUpdateSubPackage(target.apId, target.uapId, { start: clamped.start, end: clamped.end });
+    } else if (!resize || workPackages.find(wp => wp.id === target.apId)?.subPackages.length === 0) {
+      onRescheduleWorkPackage(target.apId, start, end);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (focusedId === null || !items.has(focusedId)) return;
+    const index = itemOrder.indexOf(focusedId);
+
+    switch (e.key) {
+      case 'ArrowUp':
+      case 'ArrowDown':
+        e.preventDefault();
+        // Alt moves the item up or down in the outline instead
+        if (e.altKey) {
+          onMoveInOutline(focusedId, e.key === 'ArrowDown' ? 1 : -1);
+          focusItem(focusedId);
+          break;
+        }
+        focusItem(itemOrder[Math.min(Math.max(index + (e.key === 'ArrowDown' ? 1 : -1), 0), itemOrder.length - 1)]);
+        break;
+      case 'Home':
+      case 'End':
+        e.preventDefault();
+        focusItem(itemOrder[e.key === 'Home' ? 0 : itemOrder.length - 1]);
+        break;
+      case 'ArrowLeft':
+      case 'ArrowRight':
+        e.preventDefault();
+        // Ctrl/Cmd changes the level in the outline (the whole selection if the item is part of it)
+        if (e.ctrlKey || e.metaKey) {
+          if (items.get(focusedId)!.target.kind === 'ms') break;
+          const ids = selectedIds.has(focusedId) ? selectedIds : new Set([focusedId]);
+          (e.key === 'ArrowRight' ? onIndent : onOutdent)(ids);
+          focusItem(focusedId);
+          break;
+        }
+        nudgeItem(focusedId, (e.key === 'ArrowRight' ? 1 : -1) * (e.shiftKey ? 7 : 1), e.altKey);
+        setAnnouncedId(focusedId);
+        break;
+      case 'Enter':
+        e.preventDefault();
+        onOpenEditor(focusedId);
+        break;
+      case ' ':
+        e.preventDefault();
+        onSelect(focusedId, 'toggle');
+        break;
+      case 'Delete':
+      case 'Backspace':
+        // A focused item inside a multi-selection deletes the whole selection (handled by the app)
+        if (selectedIds.has(focusedId) && selectedIds.size > 1) return;
+        e.preventDefault();
+        onDeleteItem(focusedId);
+        break;
+    }
+  };
+
+  useEffect(() => {
+    if (!rubberBand) return;
+
+    const handleBandMove = (e: PointerEvent) => {
+      const { x, y } = toSvgPoint(e);
+      setRubberBand(prev => (prev ? { ...prev, x1: x, y1: y } : prev));
+    };
+    const handleBandEnd = () => {
+      const left = Math.min(rubberBand.x0, rubberBand.x1);
+      const right = Math.max(rubberBand.x0, rubberBand.x1);
+      const top = Math.min(rubberBand.y0, rubberBand.y1);
+      const bottom = Math.max(rubberBand.y0, rubberBand.y1);
+      const ids = itemBoxes
+        .filter(box => box.x1 < right && box.x2 > left && box.y1 < bottom && box.y2 > top)
+        .map(box => box.id);
+      onSelectMany(ids, rubberBand.additive);
+      setRubberBand(null);
+    };
+
+    window.addEventListener('pointermove', handleBandMove);
+    window.addEventListener('pointerup', handleBandEnd);
+    return () => {
+      window.removeEventListener('pointermove', handleBandMove);
+      window.removeEventListener('pointerup', handleBandEnd);
+    };
+  }, [rubberBand]);
+
+  // Dependency drawing handlers
+  const handleLinkStart = (e: React.PointerEvent, fromId: string, fromSide: DependencySide) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setTooltip(null);
+    setLinkDrag({ fromId, fromSide, ...toSvgPoint(e) });
+  };
+
+  const handleLinkDrop = (e: { clientX: number; clientY: number }, toId: string) => {
+    if (!linkDrag) return;
+    const bar = uapBars.get(toId);
+    if (!bar || toId === linkDrag.fromId) return;
+
+    // Dropping on the left half connects to the start, right half to the end
+    const { x } = toSvgPoint(e);
+    const toSide: DependencySide = x < (bar.x1 + bar.x2) / 2 ? 'start' : 'end';
+    onAddDependency(linkDrag.fromId, toId, dependencyTypeFromSides(linkDrag.fromSide, toSide));
+  };
+
+  useEffect(() => {
+    if (!linkDrag) return;
+
+    const handleLinkMove = (e: PointerEvent) => {
+      setLinkDrag(prev => (prev ? { ...prev, ...toSvgPoint(e) } : prev));
+    };
+    // Hit-test the drop target: touch pointers stay captured by the handle they started on
+    const handleLinkEnd = (e: PointerEvent) => {
+      const toId = document.elementFromPoint(e.clientX, e.clientY)?.closest('[data-item-id]')?.getAttribute('data-item-id');
+      if (e.type === 'pointerup' && toId) handleLinkDrop(e, toId);
+      setLinkDrag(null);
+    };
+
+    window.addEventListener('pointermove', handleLinkMove);
+    window.addEventListener('pointerup', handleLinkEnd);
+    window.addEventListener('pointercancel', handleLinkEnd);
+    return () => {
+      window.removeEventListener('pointermove', handleLinkMove);
+      window.removeEventListener('pointerup', handleLinkEnd);
+      window.removeEventListener('pointercancel', handleLinkEnd);
+    };
+  }, [linkDrag !== null]);
+
+  const editedDependency = selectedDependency
+    ? dependencies.find(dep => dep.id === selectedDependency.id)
+    : undefined;
+
+  // Calendar-aligned ticks across the whole SVG (including the padding)
+  const firstDate = xToDate(0);
+  const lastDate = xToDate(width);
+  const ticks = unitTicks(firstDate, lastDate, tickUnit);
+
+  // Finer units as unlabelled grid lines that fade in while zooming in
+  const minorGrids = TICK_UNITS.slice(0, TICK_UNITS.indexOf(tickUnit))
+    .map(unit => ({ unit, opacity: gridOpacity(unit, pixelsPerDay) }))
+    .filter(grid => grid.opacity > 0);
+
+  // Non-working days (weekends, holidays, shutdowns) in the visible range
+  const nonWorkingDays: { date: string; reason: string }[] = [];
+  if (pixelsPerDay >= MIN_NON_WORKING_PX) {
+    for (let date = firstDate; date <= lastDate; date = addDays(date, 1)) {
+      const reason = nonWorkingReason(date, calendar);
+      if (reason) nonWorkingDays.push({ date, reason });
+    }
   }
 
   return (
@@ -233,37 +979,140 @@ export function Timeline({
       {/* Timeline Header */}
       <div className="border-b border-gray-100 px-6 py-4 bg-white">
         <div className="flex items-center justify-between">
-          {/* Current zoom level indicator */}
+          {/* Zoom controls with the current tick unit */}
           <div className="flex items-center gap-2">
-            <span className="text-sm font-medium text-gray-700">
-              {config.label}-Ansicht
+            <button
+              onClick={() => zoomBy(1 / ZOOM_STEP)}
+              className="w-7 h-7 flex items-center justify-center text-gray-500 hover:text-gray-900 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Herauszoomen (Strg + Mausrad)"
+            >
+              −
+            </button>
+            <span className="text-sm font-medium text-gray-700 min-w-[110px] text-center">
+              {TICK_UNIT_LABELS[tickUnit]}-Ansicht
             </span>
+            <button
+              onClick={() => zoomBy(ZOOM_STEP)}
+              className="w-7 h-7 flex items-center justify-center text-gray-500 hover:text-gray-900 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Hineinzoomen (Strg + Mausrad)"
+            >
+              +
+            </button>
+            <button
+              onClick={fitToProject}
+              className="px-2.5 py-1 text-xs font-medium text-gray-600 hover:text-gray-900 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Zoom so wählen, dass das ganze Projekt sichtbar ist"
+            >
+              Alles anzeigen
+            </button>
           </div>
 
           {/* Date Range & Controls */}
           <div className="flex items-center gap-3">
             <div className="flex items-center gap-2">
-              <button className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-50 rounded transition-colors">
+              <button
+                onClick={() => jumpTo(toIso(new Date()))}
+                className="px-2.5 py-1 text-xs font-medium text-gray-600 hover:text-gray-900 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Zum heutigen Datum springen"
+              >
+                Heute
+              </button>
+              <input
+                type="date"
+                value={visibleStart}
+                onChange={e => e.target.value && jumpTo(e.target.value)}
+                className="text-xs bg-white border border-gray-200 rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-gray-400"
+                title="Zu Datum springen"
+              />
+              <button
+                onClick={() => onViewportChange(panViewport(viewport, -stepDays * pixelsPerDay))}
+                className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-50 rounded transition-colors"
+                title="Zurück"
+              >
                 <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
                 </svg>
               </button>
-              <span className="text-sm font-medium text-gray-700 min-w-[140px] text-center">27 Dec - 4 Jan</span>
-              <button className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-50 rounded transition-colors">
+              <span className="text-sm font-medium text-gray-700 min-w-[140px] text-center">
+                {containerWidth > 0 ? formatDateRange(visibleStart, visibleEnd) : ''}
+              </span>
+              <button
+                onClick={() => onViewportChange(panViewport(viewport, stepDays * pixelsPerDay))}
+                className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-50 rounded transition-colors"
+                title="Vor"
+              >
                 <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                 </svg>
               </button>
             </div>
 
+            {/* Grid Mode Toggle */}
+            <div className="flex items-center gap-2 text-xs">
+              <span className="text-gray-600">Raster</span>
+              <button
+                onClick={onToggleGridMode}
+                className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+                  gridMode ? 'bg-blue-500 hover:bg-blue-600' : 'bg-gray-200 hover:bg-gray-300'
+                }`}
+                title="Gliederung zeilengenau neben der Timeline anzeigen"
+                aria-pressed={gridMode}
+              >
+                <span
+                  className={`inline-block h-3.5 w-3.5 transform rounded-full bg-white transition-transform ${
+                    gridMode ? 'translate-x-[18px]' : 'translate-x-1'
+                  }`}
+                />
+              </button>
+            </div>
+
+            {/* Critical Path Toggle */}
+            <div className="flex items-center gap-2 text-xs">
+              <span className="text-gray-600">Kritischer Pfad</span>
+              <button
+                onClick={onToggleCriticalPath}
+                className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+                  showCriticalPath ? 'bg-red-500 hover:bg-red-600' : 'bg-gray-200 hover:bg-gray-300'
+                }`}
+                title="Elemente ohne Puffer hervorheben"
+              >
+                <span
+                  className={`inline-block h-3.5 w-3.5 transform rounded-full bg-white transition-transform ${
+                    showCriticalPath ? 'translate-x-[18px]' : 'translate-x-1'
+                  }`}
+                />
+              </button>
+            </div>
+
             {/* Show Done Toggle */}
             <div className="flex items-center gap-2 text-xs">
-              <span className="text-gray-600">Show done</span>
-              <button className="relative inline-flex h-5 w-9 items-center rounded-full bg-gray-200 transition-colors hover:bg-gray-300">
-                <span className="inline-block h-3.5 w-3.5 transform rounded-full bg-white transition-transform translate-x-1" />
+              <span className="text-gray-600">Erledigte</span>
+              <button
+                onClick={() => setShowDone(prev => !prev)}
+                className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+                  showDone ? 'bg-green-500 hover:bg-green-600' : 'bg-gray-200 hover:bg-gray-300'
+                }`}
+                title={showDone ? 'Erledigte UAPs abblenden' : 'Erledigte UAPs normal anzeigen'}
+              >
+                <span
+                  className={`inline-block h-3.5 w-3.5 transform rounded-full bg-white transition-transform ${
+                    showDone ? 'translate-x-[18px]' : 'translate-x-1'
+                  }`}
+                />
               </button>
             </div>
 
+            <button
+              onClick={onShowShortcuts}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium text-gray-600 hover:text-gray-900 hover:bg-gray-50 rounded-lg transition-colors"
+              title="Tastenkürzel (?)"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7h16a1 1 0 011 1v8a1 1 0 01-1 1H4a1 1 0 01-1-1V8a1 1 0 011-1zm3 3h.01M11 10h.01M15 10h.01M8 14h8" />
+              </svg>
+              Tastenkürzel
+            </button>
+
             {/* Sort & Filter */}
             <button className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium text-gray-600 hover:text-gray-900 hover:bg-gray-50 rounded-lg transition-colors">
               <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -281,13 +1130,37 @@ export function Timeline({
         </div>
       </div>
 
+      {/* Overview strip: the whole project with the visible window */}
+      <TimelineMinimap
+        workPackages={workPackages}
+        milestones={milestones}
+        projectStart={projectStart}
+        projectEnd={projectEnd}
+        visibleStart={visibleStart}
+        visibleEnd={addDays(visibleEnd, 1)}
+        onNavigate={jumpTo}
+      />
+
       {/* Timeline Content */}
       <div
-        className="flex-1 overflow-auto relative"
+        ref={containerRef}
+        className="flex-1 overflow-y-auto overflow-x-hidden relative"
         style={{ backgroundColor: '#FFFFFF' }}
+        onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
         onDrop={onDrop}
         onDragOver={e => e.preventDefault()}
       >
+        {/* Screen reader help and announcements for keyboard edits */}
+        <p id={KEYBOARD_HELP_ID} className="sr-only">
+          Pfeil auf und ab wechselt das Element, mit Alt verschiebt er es in der Gliederung. Pfeil links und
+          rechts verschiebt um einen Tag, mit Umschalt um eine Woche, mit Alt ändert er das Ende, mit Steuerung rückt
+          er ein oder aus. Eingabe öffnet den Editor, Leertaste wählt aus, Entfernen löscht. Fragezeichen zeigt alle
+          Tastenkürzel.
+        </p>
+        <div aria-live="polite" className="sr-only">
+          {announcedId !== null && itemLabel(announcedId)}
+        </div>
+
         {/* Tooltip */}
         {tooltip && (
           <div
@@ -316,11 +1189,88 @@ export function Timeline({
           </div>
         )}
 
+        {/* Dependency edit popover */}
+        {selectedDependency && editedDependency && (
+          <>
+            <div className="fixed inset-0 z-10" onClick={() => setSelectedDependency(null)} />
+            <div
+              className="fixed z-20 w-56 bg-white rounded-lg shadow-lg border border-gray-200 p-3 space-y-2.5"
+              style={{ left: selectedDependency.x + 8, top: selectedDependency.y + 8 }}
+            >
+              <div className="text-xs font-medium text-gray-700">Abhängigkeit</div>
+              <div className="flex items-center gap-2">
+                <label className="text-xs text-gray-500 w-12">Typ</label>
+                <select
+                  value={editedDependency.type}
+                  onChange={e => onUpdateDependency(editedDependency.id, { type: e.target.value as DependencyType })}
+                  className="flex-1 text-xs bg-white border border-gray-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-gray-400 focus:border-gray-400"
+                >
+                  {(Object.keys(DEPENDENCY_LABELS) as DependencyType[]).map(type => (
+                    <option key={type} value={type}>
+                      {type} ({DEPENDENCY_LABELS[type]})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center gap-2">
+                <label className="text-xs text-gray-500 w-12">Versatz</label>
+                <input
+                  type="number"
+                  value={editedDependency.lag}
+                  onChange={e => onUpdateDependency(editedDependency.id, { lag: Number(e.target.value) || 0 })}
+                  className="flex-1 text-xs bg-white border border-gray-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-gray-400 focus:border-gray-400"
+                />
+                <span className="text-xs text-gray-400" title="Arbeitstage">AT</span>
+              </div>
+              <button
+                onClick={() => {
+                  onDeleteDependency(editedDependency.id);
+                  setSelectedDependency(null);
+                }}
+                className="w-full text-left px-2 py-1.5 text-xs text-red-600 hover:bg-red-50 rounded-md"
+              >
+                Löschen
+              </button>
+            </div>
+          </>
+        )}
+
+        <div className="flex items-start">
+        {gridMode && (
+          <TreeGrid
+            workPackages={workPackages}
+            milestones={milestones}
+            calendar={calendar}
+            layout={rowLayout}
+            uapLines={uapLines}
+            codes={codes}
+            renderedRows={renderedRows}
+            height={height}
+            collapsedIds={collapsedIds}
+            selectedIds={selectedIds}
+            hoveredId={hoveredId}
+            onToggleCollapsed={onToggleCollapsed}
+            onSelect={onSelect}
+            onOpenEditor={onOpenEditor}
+            onAddSubPackage={onAddSubPackage}
+            onHover={hoverItem}
+          />
+        )}
+
         <svg
         ref={svgRef}
         width={width}
         height={height}
-        style={{ backgroundColor: '#FFFFFF' }}
+        className={panState ? 'cursor-grabbing' : 'cursor-grab'}
+        style={{ backgroundColor: '#FFFFFF', touchAction: 'pan-y', userSelect: 'none', WebkitTouchCallout: 'none' }}
+        onPointerDownCapture={handleTouchPointerDown}
+        onPointerDown={handlePanStart}
+        onContextMenu={e => (panState?.pressed || dragState) && e.preventDefault()}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setHasFocus(true)}
+        onBlur={() => setHasFocus(false)}
+        role="group"
+        aria-label="Zeitplan"
         data-timeline-svg="true"
       >
         {/* Modern gradient and filter definitions - Relatel style */}
@@ -393,6 +1343,30 @@ export function Timeline({
             </feMerge>
           </filter>
 
+          {/* Arrow head for dependency connectors */}
+          <marker
+            id="dependencyArrow"
+            viewBox="0 0 10 10"
+            refX="9"
+            refY="5"
+            markerWidth="7"
+            markerHeight="7"
+            orient="auto-start-reverse"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#94A3B8" />
+          </marker>
+          <marker
+            id="dependencyArrowCritical"
+            viewBox="0 0 10 10"
+            refX="9"
+            refY="5"
+            markerWidth="7"
+            markerHeight="7"
+            orient="auto-start-reverse"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" fill={CRITICAL_COLOR} />
+          </marker>
+
           {/* Minimal glow for hover states */}
           <filter id="minimalGlow" x="-50%" y="-50%" width="200%" height="200%">
             <feGaussianBlur in="SourceAlpha" stdDeviation="1.5"/>
@@ -407,6 +1381,36 @@ export function Timeline({
           </filter>
         </defs>
 
+        {/* Non-working day columns (hover shows the reason) */}
+        <g>
+          {nonWorkingDays.map(({ date, reason }) => {
+            const x = dateToX(date);
+            return (
+              <rect
+                key={date}
+                x={x}
+                y={HEADER_HEIGHT}
+                width={dateToX(addDays(date, 1)) - x}
+                height={height - HEADER_HEIGHT}
+                fill="#F3F4F6"
+                opacity="0.7"
+              >
+                <title>{reason}</title>
+              </rect>
+            );
+          })}
+        </g>
+
+        {/* Grid lines of finer units, fading in while zooming in */}
+        {minorGrids.map(({ unit, opacity }) => (
+          <g key={unit} opacity={opacity} pointerEvents="none">
+            {unitTicks(firstDate, lastDate, unit).map(tick => {
+              const x = dateToX(tick);
+              return <line key={tick} x1={x} y1={HEADER_HEIGHT} x2={x} y2={height} stroke="#F3F4F6" strokeWidth="1" />;
+            })}
+          </g>
+        ))}
+
         {/* Header with clean, modern design */}
         <g>
           {/* Background - Light gray like YesYou */}
@@ -484,21 +1488,41 @@ export function Timeline({
                   letterSpacing="-0.2"
                   style={{ fontFamily: 'Inter, -apple-system, BlinkMacSystemFont, sans-serif' }}
                 >
-                  {formatTickLabel(tick, config.format)}
+                  {formatTickLabel(tick, tickUnit)}
                 </text>
               </g>
             );
           })}
         </g>
 
+        {/* Hovered line, matching the highlighted line of the tree grid */}
+        {hoveredLine && (
+          <rect
+            x="0"
+            y={hoveredLine.top}
+            width={width}
+            height={hoveredLine.height}
+            fill={HOVER_COLOR}
+            pointerEvents="none"
+          />
+        )}
+
         {/* Work Packages and UAPs */}
-        {workPackages.map((ap, apIndex) => {
+        {renderedRows.map(apIndex => {
+          const ap = workPackages[apIndex];
           const y = rowPositions[apIndex].y;
           const apX1 = dateToX(ap.start);
           const apX2 = dateToX(ap.end);
+          const apProgress = workPackageProgress(ap, calendar);
+          const apFaded = !showDone && isWorkPackageDone(ap);
 
           return (
-            <g key={ap.id}>
+            <g
+              key={ap.id}
+              opacity={apFaded ? DONE_OPACITY : dimUnlessCritical(allSubPackages(ap.subPackages).some(uap => isCritical(uap.id)))}
+            >
+              {renderBaselineBar(ap.id, y + 8 + BAR_HEIGHT + 2)}
+
               {/* AP Container - Clean, modern design like YesYou */}
               <g filter="url(#softShadow)">
                 {/* Base container - light gray background */}
@@ -513,6 +1537,20 @@ export function Timeline({
                   ry="8"
                 />
 
+                {/* Rolled-up progress */}
+                {apProgress !== null && apProgress > 0 && (
+                  <rect
+                    x={apX1}
+                    y={y + 8}
+                    width={((apX2 - apX1) * apProgress) / 100}
+                    height={BAR_HEIGHT}
+                    fill="#64748B"
+                    opacity="0.15"
+                    rx="8"
+                    ry="8"
+                  />
+                )}
+
                 {/* Border - subtle */}
                 <rect
                   x={apX1}
@@ -550,20 +1588,84 @@ export function Timeline({
                 letterSpacing="-0.2"
                 style={{ fontFamily: 'Inter, -apple-system, BlinkMacSystemFont, sans-serif' }}
               >
+                <tspan fill="#9CA3AF" fontWeight="500">{codes.get(ap.id)} </tspan>
                 {ap.title}
+                {apProgress !== null && <tspan fill="#6B7280" fontWeight="500"> · {apProgress} %</tspan>}
               </text>
 
+              {/* Interactive overlay: moving an AP with UAPs moves all of them */}
+              <rect
+                x={apX1}
+                y={y + 8}
+                width={apX2 - apX1}
+                height={BAR_HEIGHT}
+                fill="transparent"
+                className="cursor-grab"
+                {...focusProps(ap.id, 'Arbeitspaket')}
+                onPointerDown={e => handleItemPointerDown(e, 'move', { kind: 'ap', apId: ap.id }, ap.start, ap.end)}
+                onMouseEnter={e => {
+                  if (linkDrag || dragState) return;
+                  const rect = e.currentTarget.getBoundingClientRect();
+                  setTooltip({
+                    x: rect.left + rect.width / 2,
+                    y: rect.top - 10,
+                    content: `${ap.title}\n${formatDate(ap.start)} - ${formatDate(ap.end)}` +
+                      (ap.subPackages.length > 0 ? '\nZiehen verschiebt alle UAPs' : ''),
+                  });
+                  hoverItem(ap.id);
+                }}
+                onMouseLeave={() => {
+                  setTooltip(null);
+                  hoverItem(null);
+                }}
+              />
+
+              {/* Resize handles (only without UAPs; otherwise the range is rolled up) */}
+              {ap.subPackages.length === 0 &&
+                (['resize-left', 'resize-right'] as const).map(type => (
+                  <g
+                    key={type}
+                    opacity={showHandles(ap.id) ? '1' : '0'}
+                    style={{ transition: 'opacity 0.2s ease' }}
+                    onMouseOver={(e) => e.currentTarget.setAttribute('opacity', '1')}
+                    onMouseOut={(e) => e.currentTarget.setAttribute('opacity', '0')}
+                  >
+                    <rect
+                      x={(type === 'resize-left' ? apX1 : apX2) - AP_HANDLE_WIDTH / 2}
+                      y={y + 14}
+                      width={AP_HANDLE_WIDTH}
+                      height={BAR_HEIGHT - 12}
+                      fill="#FFFFFF"
+                      stroke="#D1D5DB"
+                      strokeWidth="1"
+                      rx="2"
+                      ry="2"
+                      className="cursor-ew-resize"
+                      onPointerDown={e => handleItemPointerDown(e, type, { kind: 'ap', apId: ap.id }, ap.start, ap.end)}
+                    />
+                    {renderTouchGrip(type === 'resize-left' ? apX1 : apX2, y + 8, BAR_HEIGHT, e =>
+                      handleItemPointerDown(e, type, { kind: 'ap', apId: ap.id }, ap.start, ap.end)
+                    )}
+                  </g>
+                ))}
+
               {/* UAPs - Modern Card Design */}
-              {ap.subPackages.map((uap, uapIndex) => {
-                const uapY = y + 50 + uapIndex * (SUBBAR_HEIGHT + UAP_SPACING);
+              {uapLines[apIndex].map(({ uap }, uapIndex) => {
+                const uapY = uapTop(rowPositions[apIndex], uapIndex);
                 const uapX1 = dateToX(uap.start);
                 const uapX2 = dateToX(uap.end);
-                const uapWidth = Math.max(uapX2 - uapX1, 120);
+                const uapWidth = Math.max(uapX2 - uapX1, MIN_UAP_WIDTH);
+                if (!inBandX(uapX1, uapX1 + uapWidth) && !pinnedIds.has(uap.id)) return null;
 
                 // Use color from UAP or default
                 const DEFAULT_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#06B6D4'];
                 const color = uap.color || DEFAULT_COLORS[uapIndex % DEFAULT_COLORS.length];
 
+                // Summary UAPs look like a small AP bar: rolled-up range and progress, no handles
+                const summary = isSummary(uap);
+                const progress = summary ? subPackageProgress(uap, calendar) : uap.percentComplete;
+                const accent = summary ? SUMMARY_COLOR : color;
+
                 // Helper to get initials
                 const getInitials = (name: string) => name.split(' ').map(p => p[0]).join('').toUpperCase().slice(0, 2);
                 const getColorForInitials = (initials: string) => DEFAULT_COLORS[initials.charCodeAt(0) % DEFAULT_COLORS.length];
@@ -571,26 +1673,47 @@ export function Timeline({
                 const assignedTo = uap.assignedTo || [];
 
                 return (
-                  <g key={uap.id}>
+                  <g
+                    key={uap.id}
+                    opacity={
+                      apFaded ? '1' : !showDone && uap.status === 'done' ? DONE_OPACITY : dimUnlessCritical(isCritical(uap.id))
+                    }
+                  >
+                    {renderBaselineBar(uap.id, uapY + SUBBAR_HEIGHT + 2)}
+
                     {/* Card Background with Shadow */}
                     <rect
                       x={uapX1}
                       y={uapY}
                       width={uapWidth}
                       height={SUBBAR_HEIGHT}
-                      fill="#FFFFFF"
+                      fill={summary ? '#F1F5F9' : '#FFFFFF'}
                       rx="10"
                       ry="10"
                       filter="url(#softShadow)"
                     />
 
+                    {/* Progress fill */}
+                    {progress > 0 && (
+                      <rect
+                        x={uapX1}
+                        y={uapY}
+                        width={(uapWidth * progress) / 100}
+                        height={SUBBAR_HEIGHT}
+                        fill={accent}
+                        opacity="0.15"
+                        rx="10"
+                        ry="10"
+                      />
+                    )}
+
                     {/* Left Color Bar */}
                     <rect
                       x={uapX1}
                       y={uapY}
                       width="4"
                       height={SUBBAR_HEIGHT}
-                      fill={color}
+                      fill={accent}
                       rx="10"
                       ry="10"
                     />
@@ -602,8 +1725,13 @@ export function Timeline({
                       width={uapWidth}
                       height={SUBBAR_HEIGHT}
                       fill="none"
-                      stroke="#E5E7EB"
-                      strokeWidth="1"
+                      stroke={
+                        showCriticalPath && isCritical(uap.id)
+                          ? CRITICAL_COLOR
+                          : uap.status === 'blocked' ? STATUS_COLORS.blocked : summary ? '#CBD5E1' : '#E5E7EB'
+                      }
+                      strokeWidth={(showCriticalPath && isCritical(uap.id)) || uap.status === 'blocked' ? '2' : '1'}
+                      strokeDasharray={uap.status === 'blocked' && !(showCriticalPath && isCritical(uap.id)) ? '4 3' : undefined}
                       rx="10"
                       ry="10"
                     />
@@ -616,16 +1744,26 @@ export function Timeline({
                       height={SUBBAR_HEIGHT}
                       fill="transparent"
                       className="cursor-grab"
-                      onMouseDown={e => handleMouseDown(e, 'move', ap.id, uap.id, uap.start, uap.end)}
+                      {...focusProps(uap.id, 'Unterarbeitspaket')}
+                      onPointerDown={e => handleItemPointerDown(e, 'move', { kind: 'uap', apId: ap.id, uapId: uap.id }, uap.start, uap.end)}
                       onMouseEnter={e => {
+                        if (linkDrag) return;
                         const rect = e.currentTarget.getBoundingClientRect();
+                        const timing = (criticalPath ?? computeCriticalPath(workPackages, milestones, dependencies, calendar)).timings.get(uap.id);
                         setTooltip({
                           x: rect.left + rect.width / 2,
                           y: rect.top - 10,
-                          content: `${uap.title}\n${new Date(uap.start).toLocaleDateString('de-DE')} - ${new Date(uap.end).toLocaleDateString('de-DE')}`
+                          content: `${uap.title}\n${new Date(uap.start).toLocaleDateString('de-DE')} - ${new Date(uap.end).toLocaleDateString('de-DE')}` +
+                            `\n${STATUS_LABELS[uap.status]} · ${progress} %` +
+                            (timing ? `\nPuffer: ${timing.totalFloat} Arbeitstage` : '') +
+                            (summary ? '\nZiehen verschiebt alle Unterpakete' : '')
                         });
+                        hoverItem(uap.id);
+                      }}
+                      onMouseLeave={() => {
+                        setTooltip(null);
+                        hoverItem(null);
                       }}
-                      onMouseLeave={() => setTooltip(null)}
                     />
 
                     {/* Foreign Object for HTML content */}
@@ -661,6 +1799,7 @@ export function Timeline({
                             textOverflow: 'ellipsis',
                             lineHeight: '1.2'
                           }}>
+                            <span style={{ color: '#9CA3AF', fontWeight: 500 }}>{codes.get(uap.id)} </span>
                             {uap.title}
                           </div>
                           {uap.category && (
@@ -731,38 +1870,82 @@ export function Timeline({
                       </div>
                     </foreignObject>
 
-                    {/* Resize handles */}
-                    <g opacity="0" style={{ transition: 'opacity 0.2s ease' }} onMouseOver={(e) => e.currentTarget.setAttribute('opacity', '1')} onMouseOut={(e) => e.currentTarget.setAttribute('opacity', '0')}>
-                      <rect
-                        x={uapX1 - 3}
-                        y={uapY + 6}
-                        width="6"
-                        height={SUBBAR_HEIGHT - 12}
-                        fill="#FFFFFF"
-                        stroke="#D1D5DB"
-                        strokeWidth="1"
-                        rx="2"
-                        ry="2"
-                        className="cursor-ew-resize"
-                        onMouseDown={e => handleMouseDown(e, 'resize-left', ap.id, uap.id, uap.start, uap.end)}
-                      />
-                    </g>
-
-                    <g opacity="0" style={{ transition: 'opacity 0.2s ease' }} onMouseOver={(e) => e.currentTarget.setAttribute('opacity', '1')} onMouseOut={(e) => e.currentTarget.setAttribute('opacity', '0')}>
-                      <rect
-                        x={uapX1 + uapWidth - 3}
-                        y={uapY + 6}
-                        width="6"
-                        height={SUBBAR_HEIGHT - 12}
-                        fill="#FFFFFF"
-                        stroke="#D1D5DB"
-                        strokeWidth="1"
-                        rx="2"
-                        ry="2"
-                        className="cursor-ew-resize"
-                        onMouseDown={e => handleMouseDown(e, 'resize-right', ap.id, uap.id, uap.start, uap.end)}
-                      />
-                    </g>
+                    {/* Resize and dependency handles (summaries only move) */}
+                    {!summary && (
+                      <>
+                        <g opacity={showHandles(uap.id) ? '1' : '0'} style={{ transition: 'opacity 0.2s ease' }} onMouseOver={(e) => e.currentTarget.setAttribute('opacity', '1')} onMouseOut={(e) => e.currentTarget.setAttribute('opacity', '0')}>
+                          <rect
+                            x={uapX1 - 3}
+                            y={uapY + 6}
+                            width="6"
+                            height={SUBBAR_HEIGHT - 12}
+                            fill="#FFFFFF"
+                            stroke="#D1D5DB"
+                            strokeWidth="1"
+                            rx="2"
+                            ry="2"
+                            className="cursor-ew-resize"
+                            onPointerDown={e => handleItemPointerDown(e, 'resize-left', { kind: 'uap', apId: ap.id, uapId: uap.id }, uap.start, uap.end)}
+                          />
+                          {renderTouchGrip(uapX1, uapY, SUBBAR_HEIGHT, e =>
+                            handleItemPointerDown(e, 'resize-left', { kind: 'uap', apId: ap.id, uapId: uap.id }, uap.start, uap.end)
+                          )}
+                        </g>
+
+                        <g opacity={showHandles(uap.id) ? '1' : '0'} style={{ transition: 'opacity 0.2s ease' }} onMouseOver={(e) => e.currentTarget.setAttribute('opacity', '1')} onMouseOut={(e) => e.currentTarget.setAttribute('opacity', '0')}>
+                          <rect
+                            x={uapX1 + uapWidth - 3}
+                            y={uapY + 6}
+                            width="6"
+                            height={SUBBAR_HEIGHT - 12}
+                            fill="#FFFFFF"
+                            stroke="#D1D5DB"
+                            strokeWidth="1"
+                            rx="2"
+                            ry="2"
+                            className="cursor-ew-resize"
+                            onPointerDown={e => handleItemPointerDown(e, 'resize-right', { kind: 'uap', apId: ap.id, uapId: uap.id }, uap.start, uap.end)}
+                          />
+                          {renderTouchGrip(uapX1 + uapWidth, uapY, SUBBAR_HEIGHT, e =>
+                            handleItemPointerDown(e, 'resize-right', { kind: 'uap', apId: ap.id, uapId: uap.id }, uap.start, uap.end)
+                          )}
+                        </g>
+
+                        {/* Dependency handles - drag from an edge onto another bar */}
+                        {(['start', 'end'] as const).map(side => {
+                          const cx = side === 'start' ? uapX1 - CONNECTOR_OFFSET : uapX1 + uapWidth + CONNECTOR_OFFSET;
+                          const isActive = linkDrag?.fromId === uap.id && linkDrag.fromSide === side;
+                          return (
+                            <g
+                              key={side}
+                              opacity={isActive || (coarsePointer && selectedIds.has(uap.id)) ? '1' : '0'}
+                              style={{ transition: 'opacity 0.2s ease' }}
+                              onMouseOver={(e) => e.currentTarget.setAttribute('opacity', '1')}
+                              onMouseOut={(e) => !isActive && e.currentTarget.setAttribute('opacity', '0')}
+                            >
+                              <circle
+                                cx={cx}
+                                cy={uapY + SUBBAR_HEIGHT / 2}
+                                r={coarsePointer ? TOUCH_CONNECTOR_RADIUS : 8}
+                                fill="transparent"
+                                className="cursor-crosshair"
+                                style={{ touchAction: 'none' }}
+                                onPointerDown={e => handleLinkStart(e, uap.id, side)}
+                              />
+                              <circle
+                                cx={cx}
+                                cy={uapY + SUBBAR_HEIGHT / 2}
+                                r="4"
+                                fill="#FFFFFF"
+                                stroke="#64748B"
+                                strokeWidth="1.5"
+                                pointerEvents="none"
+                              />
+                            </g>
+                          );
+                        })}
+                      </>
+                    )}
                   </g>
                 );
               })}
@@ -770,13 +1953,100 @@ export function Timeline({
           );
         })}
 
+        {/* Dependency connectors */}
+        <g>
+          {dependencies.map(dep => {
+            const fromBar = uapBars.get(dep.fromId);
+            const toBar = uapBars.get(dep.toId);
+            if (!fromBar || !toBar) return null;
+            if (
+              !spanVisible(fromBar.y, toBar.y, bandTop, bandBottom) ||
+              !inBandX(Math.min(fromBar.x1, toBar.x1), Math.max(fromBar.x2, toBar.x2))
+            ) {
+              return null;
+            }
+
+            const { fromSide, toSide } = sidesFromDependencyType(dep.type);
+            const path = routeDependencyPath(
+              { x: fromSide === 'end' ? fromBar.x2 : fromBar.x1, y: fromBar.y },
+              { x: toSide === 'end' ? toBar.x2 : toBar.x1, y: toBar.y },
+              fromSide,
+              toSide
+            );
+            const isSelected = selectedDependency?.id === dep.id;
+            const isCriticalLink = criticalPath?.criticalDependencyIds.has(dep.id) ?? false;
+
+            return (
+              <g key={dep.id} opacity={dimUnlessCritical(isCriticalLink)}>
+                <path
+                  d={path}
+                  fill="none"
+                  stroke={isSelected ? '#3B82F6' : isCriticalLink ? CRITICAL_COLOR : '#94A3B8'}
+                  strokeWidth={isSelected || isCriticalLink ? '2' : '1.5'}
+                  markerEnd={isCriticalLink ? 'url(#dependencyArrowCritical)' : 'url(#dependencyArrow)'}
+                  pointerEvents="none"
+                />
+                {/* Wider invisible stroke as click target */}
+                <path
+                  d={path}
+                  fill="none"
+                  stroke="transparent"
+                  strokeWidth="10"
+                  className="cursor-pointer"
+                  onClick={e => setSelectedDependency({ id: dep.id, x: e.clientX, y: e.clientY })}
+                />
+              </g>
+            );
+          })}
+
+          {/* Connector being drawn */}
+          {linkDrag && uapBars.has(linkDrag.fromId) && (() => {
+            const bar = uapBars.get(linkDrag.fromId)!;
+            return (
+              <line
+                x1={linkDrag.fromSide === 'end' ? bar.x2 : bar.x1}
+                y1={bar.y}
+                x2={linkDrag.x}
+                y2={linkDrag.y}
+                stroke="#3B82F6"
+                strokeWidth="1.5"
+                strokeDasharray="4 3"
+                markerEnd="url(#dependencyArrow)"
+                pointerEvents="none"
+              />
+            );
+          })()}
+        </g>
+
         {/* Milestones - Clean, elegant design with orange accent */}
         {milestones.map((ms, msIndex) => {
           const x = dateToX(ms.date);
-          const y = totalRowsHeight + 50 + msIndex * 50;
+          const y = milestoneTop(rowLayout, msIndex);
+          const markerColor = showCriticalPath && isCritical(ms.id) ? CRITICAL_COLOR : '#F59E0B';
+          const planned = baseline?.dates[ms.id];
+          const plannedX = planned ? dateToX(planned.start) : null;
 
           return (
-            <g key={ms.id}>
+            <g key={ms.id} opacity={dimUnlessCritical(isCritical(ms.id))}>
+              {/* Baseline ghost diamond */}
+              {planned && plannedX !== null && (
+                <rect
+                  x={plannedX - 8}
+                  y={y - 8}
+                  width="16"
+                  height="16"
+                  fill="none"
+                  stroke={BASELINE_COLOR}
+                  strokeWidth="1.5"
+                  strokeDasharray="3 2"
+                  rx="2"
+                  transform={`rotate(45 ${plannedX} ${y})`}
+                  pointerEvents="none"
+                >
+                  <title>Basisplan: {formatDate(planned.start)}</title>
+                </rect>
+              )}
+
               {/* Vertical indicator line - subtle blue */}
               <line
                 x1={x}
@@ -789,14 +2059,22 @@ export function Timeline({
                 opacity="0.3"
               />
 
-              {/* Milestone marker - clean orange diamond */}
-              <g filter="url(#softShadow)">
+              {/* Milestone marker - clean orange diamond (drag to move) */}
+              <g
+                filter="url(#softShadow)"
+                className="cursor-grab"
+                {...focusProps(ms.id, 'Meilenstein')}
+                onPointerDown={e => handleItemPointerDown(e, 'move', { kind: 'ms', msId: ms.id }, ms.date, ms.date)}
+                onMouseEnter={() => hoverItem(ms.id)}
+                onMouseLeave={() => hoverItem(null)}
+              >
+                <title>{`${ms.title}: ${formatDate(ms.date)}`}</title>
                 {/* Outer glow */}
                 <circle
                   cx={x}
                   cy={y}
                   r="12"
-                  fill="#F59E0B"
+                  fill={markerColor}
                   opacity="0.2"
                 />
 
@@ -806,7 +2084,7 @@ export function Timeline({
                   y={y - 7}
                   width="14"
                   height="14"
-                  fill="#F59E0B"
+                  fill={markerColor}
                   stroke="none"
                   rx="2"
                   transform={`rotate(45 ${x} ${y})`}
@@ -879,7 +2157,91 @@ export function Timeline({
             </g>
           );
         })}
+
+        {/* Selection outlines */}
+        <g pointerEvents="none">
+          {itemBoxes
+            .filter(box => selectedIds.has(box.id) && spanVisible(box.y1, box.y2, bandTop, bandBottom))
+            .map(box => (
+              <rect
+                key={box.id}
+                x={box.x1 - 3}
+                y={box.y1 - 3}
+                width={box.x2 - box.x1 + 6}
+                height={box.y2 - box.y1 + 6}
+                fill="none"
+                stroke={SELECTION_COLOR}
+                strokeWidth="2"
+                rx="10"
+                ry="10"
+              />
+            ))}
+          {hasFocus && focusedId !== null && (() => {
+            const box = itemBoxes.find(b => b.id === focusedId);
+            return box ? (
+              <rect
+                x={box.x1 - 5}
+                y={box.y1 - 5}
+                width={box.x2 - box.x1 + 10}
+                height={box.y2 - box.y1 + 10}
+                fill="none"
+                stroke={SELECTION_COLOR}
+                strokeWidth="2"
+                strokeDasharray="4 3"
+                rx="12"
+                ry="12"
+              />
+            ) : null;
+          })()}
+        </g>
+
+        {/* Rubber band */}
+        {rubberBand && (
+          <rect
+            x={Math.min(rubberBand.x0, rubberBand.x1)}
+            y={Math.min(rubberBand.y0, rubberBand.y1)}
+            width={Math.abs(rubberBand.x1 - rubberBand.x0)}
+            height={Math.abs(rubberBand.y1 - rubberBand.y0)}
+            fill={SELECTION_COLOR}
+            fillOpacity="0.08"
+            stroke={SELECTION_COLOR}
+            strokeDasharray="4 3"
+            pointerEvents="none"
+          />
+        )}
+
+        {/* Status date line */}
+        {(() => {
+          const x = dateToX(statusDate);
+          if (x < 0 || x > width) return null;
+          return (
+            <g pointerEvents="none">
+              <line
+                x1={x}
+                y1={HEADER_HEIGHT}
+                x2={x}
+                y2={height}
+                stroke={STATUS_DATE_COLOR}
+                strokeWidth="1.5"
+                strokeDasharray="2 3"
+              />
+              <rect x={x - 28} y={HEADER_HEIGHT - 9} width="56" height="16" rx="8" fill={STATUS_DATE_COLOR} />
+              <text
+                x={x}
+                y={HEADER_HEIGHT + 3}
+                textAnchor="middle"
+                fontSize="10"
+                fontWeight="600"
+                fill="#FFFFFF"
+                style={{ fontFamily: 'Inter, -apple-system, BlinkMacSystemFont, sans-serif' }}
+              >
+                Stichtag
+              </text>
+            </g>
+          );
+        })()}
         </svg>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,120 @@
+import { useRef, useState } from 'react';
+import { WorkPackage, Milestone } from '../types';
+import { addDays, daysBetween, minDate, maxDate } from '../utils/dateUtils';
+
+interface TimelineMinimapProps {
+  workPackages: WorkPackage[];
+  milestones: Milestone[];
+  projectStart: string;
+  projectEnd: string; // Exclusive
+  visibleStart: string;
+  visibleEnd: string; // Exclusive
+  onNavigate: (date: string) => void; // Centers the timeline on the date
+}
+
+const MINIMAP_HEIGHT = 32;
+const MINIMAP_PADDING = 4;
+
+/**
+ * Overview strip of the whole project. The highlighted window marks the
+ * visible part of the timeline; clicking or dragging moves it.
+ */
+export function TimelineMinimap({
+  workPackages,
+  milestones,
+  projectStart,
+  projectEnd,
+  visibleStart,
+  visibleEnd,
+  onNavigate,
+}: TimelineMinimapProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState(false);
+
+  // The strip always covers the project and the visible window
+  const rangeStart = minDate([projectStart, visibleStart]);
+  const rangeEnd = maxDate([projectEnd, visibleEnd]);
+  const rangeDays = Math.max(daysBetween(rangeStart, rangeEnd), 1);
+
+  // Coordinates are in days; the SVG stretches them across its width
+  const dayX = (date: string) => daysBetween(rangeStart, date);
+  const laneHeight = (MINIMAP_HEIGHT - 2 * MINIMAP_PADDING) / Math.max(workPackages.length, 1);
+
+  const dateAtClientX = (clientX: number): string => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return rangeStart;
+    const fraction = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return addDays(rangeStart, Math.round(fraction * rangeDays));
+  };
+
+  // Pointer capture keeps the drag going outside the strip (mouse, touch and pen)
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(true);
+    onNavigate(dateAtClientX(e.clientX));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragging) onNavigate(dateAtClientX(e.clientX));
+  };
+
+  return (
+    <div className="border-b border-gray-100 px-6 py-2 bg-white no-print">
+      <svg
+        ref={svgRef}
+        width="100%"
+        height={MINIMAP_HEIGHT}
+        viewBox={`0 0 ${rangeDays} ${MINIMAP_HEIGHT}`}
+        preserveAspectRatio="none"
+        className={`block rounded-md bg-gray-50 ${dragging ? 'cursor-grabbing' : 'cursor-pointer'}`}
+        style={{ touchAction: 'none' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragging(false)}
+        onPointerCancel={() => setDragging(false)}
+      >
+        <title>Übersicht – klicken oder ziehen zum Navigieren</title>
+
+        {workPackages.map((wp, index) => (
+          <rect
+            key={wp.id}
+            x={dayX(wp.start)}
+            y={MINIMAP_PADDING + index * laneHeight}
+            width={Math.max(daysBetween(wp.start, wp.end), 1)}
+            height={Math.max(laneHeight - 1, 1)}
+            fill="#94A3B8"
+            opacity="0.6"
+          />
+        ))}
+
+        {milestones.map(ms => (
+          <line
+            key={ms.id}
+            x1={dayX(ms.date) + 0.5}
+            y1={MINIMAP_PADDING}
+            x2={dayX(ms.date) + 0.5}
+            y2={MINIMAP_HEIGHT - MINIMAP_PADDING}
+            stroke="#F59E0B"
+            strokeWidth="2"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+
+        {/* Visible window */}
+        <rect
+          x={dayX(visibleStart)}
+          y="0.5"
+          width={Math.max(daysBetween(visibleStart, visibleEnd), 1)}
+          height={MINIMAP_HEIGHT - 1}
+          fill="#3B82F6"
+          fillOpacity="0.08"
+          stroke="#3B82F6"
+          strokeWidth="1.5"
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+    </div>
+  );
+}
@@ -16,6 +16,17 @@ export function ToastContainer({ toasts, onRemove }: ToastContainerProps) {
           className={`toast-${toast.type} flex items-center gap-3 min-w-[300px] animate-slide-in`}
         >
           <span className="flex-1">{toast.message}</span>
+          {toast.action && (
+            <button
+              onClick={() => {
+                toast.action!.onClick();
+                onRemove(toast.id);
+              }}
+              className="px-2.5 py-1 text-xs font-semibold rounded-lg bg-white/20 hover:bg-white/30 transition-colors"
+            >
+              {toast.action.label}
+            </button>
+          )}
           <button
             onClick={() => onRemove(toast.id)}
             className="text-white hover:text-gray-200 text-xl leading-none"
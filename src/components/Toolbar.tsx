@@ -1,33 +1,72 @@
 import { useRef, useState } from 'react';
-import { ZoomLevel } from '../types';
-import { generatePdfFromSvg, generatePngFromSvg } from '../utils/pdfUtils';
+import { generatePngFromSvg } from '../utils/pdfUtils';
+
+// Entry of the export and import menus
+interface FormatOption {
+  label: string;
+  hint: string; // File extension or target
+  onSelect: () => void;
+}
 
 interface ToolbarProps {
   projectName: string;
-  zoomLevel: ZoomLevel;
-  onZoomChange: (zoom: ZoomLevel) => void;
   onAddWorkPackage: () => void;
   onAddMilestone: () => void;
   onExportJson: () => void;
   onCopyJson: () => void;
   onImportJson: (json: string) => void;
+  onExportMspdi: () => void;
+  onImportMspdi: (xml: string) => void;
+  onExportCsv: () => void;
+  onExportXlsx: () => void;
+  onExportIcs: (includeSubPackages: boolean) => void;
+  onImportIcs: (text: string) => void;
+  onImportCsv: (text: string) => void; // Empty text opens the dialog for pasting
+  onExportPdfFile: () => void; // Opens the page setup of the vector PDF
   onExportPdf: () => void;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
+  onShowProjects: () => void;
 }
 
 export function Toolbar({
   projectName,
-  zoomLevel,
-  onZoomChange,
   onAddWorkPackage,
   onAddMilestone,
   onExportJson,
   onCopyJson,
   onImportJson,
+  onExportMspdi,
+  onImportMspdi,
+  onExportCsv,
+  onExportXlsx,
+  onExportIcs,
+  onImportIcs,
+  onImportCsv,
+  onExportPdfFile,
   onExportPdf,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
+  onShowProjects,
 }: ToolbarProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [showImportModal, setShowImportModal] = useState(false);
   const [importText, setImportText] = useState('');
+  const [openMenu, setOpenMenu] = useState<'export' | 'import' | null>(null);
+  const importHandler = useRef(onImportJson);
+
+  // The file picker is shared by all import formats
+  const pickFile = (accept: string, onImport: (text: string) => void) => {
+    importHandler.current = onImport;
+    if (fileInputRef.current) {
+      fileInputRef.current.accept = accept;
+      fileInputRef.current.click();
+    }
+  };
 
   const handleFileImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -36,7 +75,7 @@ export function Toolbar({
     const reader = new FileReader();
     reader.onload = (event) => {
       const text = event.target?.result as string;
-      onImportJson(text);
+      importHandler.current(text);
     };
     reader.readAsText(file);
 
@@ -52,17 +91,6 @@ export function Toolbar({
     setShowImportModal(false);
   };
 
-  const handlePdfTimelineExport = async () => {
-    const svgElement = document.querySelector('[data-timeline-svg="true"]') as SVGSVGElement;
-    if (!svgElement) return;
-    try {
-      await generatePdfFromSvg(svgElement, `${projectName}-timeline.pdf`);
-    } catch (error) {
-      console.error('PDF export failed', error);
-      alert('PDF-Export fehlgeschlagen');
-    }
-  };
-
   const handlePngExport = async () => {
     const svgElement = document.querySelector('[data-timeline-svg="true"]') as SVGSVGElement;
     if (!svgElement) return;
@@ -74,13 +102,76 @@ export function Toolbar({
     }
   };
 
+  const exportFormats: FormatOption[] = [
+    { label: 'JSON-Datei', hint: '.json', onSelect: onExportJson },
+    { label: 'JSON kopieren', hint: 'Zwischenablage', onSelect: onCopyJson },
+    { label: 'MS Project', hint: '.xml', onSelect: onExportMspdi },
+    { label: 'Excel mit Gantt', hint: '.xlsx', onSelect: onExportXlsx },
+    { label: 'Tabelle (Excel)', hint: '.csv', onSelect: onExportCsv },
+    { label: 'Kalender: Meilensteine', hint: '.ics', onSelect: () => onExportIcs(false) },
+    { label: 'Kalender: mit UAPs', hint: '.ics', onSelect: () => onExportIcs(true) },
+    { label: 'Bild', hint: '.png', onSelect: handlePngExport },
+    { label: 'PDF', hint: '.pdf', onSelect: onExportPdfFile },
+    { label: 'Drucken', hint: 'Browser', onSelect: onExportPdf },
+  ];
+
+  const importFormats: FormatOption[] = [
+    { label: 'JSON-Datei', hint: '.json', onSelect: () => pickFile('.json', onImportJson) },
+    { label: 'JSON einfügen', hint: 'Text', onSelect: () => setShowImportModal(true) },
+    { label: 'MS Project', hint: '.xml', onSelect: () => pickFile('.xml', onImportMspdi) },
+    { label: 'Tabelle', hint: '.csv, .tsv', onSelect: () => pickFile('.csv,.tsv,.txt', onImportCsv) },
+    { label: 'Aus Excel einfügen', hint: 'Zellen', onSelect: () => onImportCsv('') },
+    { label: 'Kalender', hint: '.ics', onSelect: () => pickFile('.ics', onImportIcs) },
+  ];
+
+  const renderFormatMenu = (menu: 'export' | 'import', label: string, icon: string, formats: FormatOption[]) => (
+    <div className="relative">
+      <button
+        onClick={() => setOpenMenu(openMenu === menu ? null : menu)}
+        className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-50 rounded-lg transition-colors flex items-center gap-0.5"
+        title={label}
+        aria-haspopup="menu"
+        aria-expanded={openMenu === menu}
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={icon} />
+        </svg>
+        <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      {openMenu === menu && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setOpenMenu(null)} />
+          <div role="menu" className="absolute right-0 top-10 z-20 w-56 bg-white rounded-lg shadow-lg border border-gray-200 py-1">
+            <div className="px-4 py-1.5 text-xs font-semibold text-gray-500 uppercase tracking-wider">{label}</div>
+            {formats.map(format => (
+              <button
+                key={format.label}
+                role="menuitem"
+                onClick={() => {
+                  setOpenMenu(null);
+                  format.onSelect();
+                }}
+                className="w-full flex items-center justify-between px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+              >
+                {format.label}
+                <span className="text-xs text-gray-400">{format.hint}</span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+
   return (
     <>
       <div className="bg-white border-b border-gray-100 no-print px-6 py-3">
         <div className="flex items-center justify-between">
           {/* Left: Breadcrumb Navigation */}
           <div className="flex items-center gap-2">
-            <button className="text-gray-400 hover:text-gray-600 transition-colors">
+            <button onClick={onShowProjects} className="text-gray-400 hover:text-gray-600 transition-colors" title="Projekte">
               <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
               </svg>
@@ -89,7 +180,9 @@ export function Toolbar({
               <svg className="w-4 h-4 text-gray-400" fill="currentColor" viewBox="0 0 20 20">
                 <path d="M3 4a1 1 0 011-1h12a1 1 0 011 1v2a1 1 0 01-1 1H4a1 1 0 01-1-1V4zM3 10a1 1 0 011-1h6a1 1 0 011 1v6a1 1 0 01-1 1H4a1 1 0 01-1-1v-6zM14 9a1 1 0 00-1 1v6a1 1 0 001 1h2a1 1 0 001-1v-6a1 1 0 00-1-1h-2z" />
               </svg>
-              <span className="text-gray-500 hover:text-gray-700 cursor-pointer font-medium">{projectName}</span>
+              <span onClick={onShowProjects} className="text-gray-500 hover:text-gray-700 cursor-pointer font-medium" title="Projekt wechseln">
+                {projectName}
+              </span>
               <svg className="w-4 h-4 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
               </svg>
@@ -106,6 +199,28 @@ export function Toolbar({
               </svg>
             </button>
 
+            {/* Undo / Redo */}
+            <button
+              onClick={onUndo}
+              disabled={!undoLabel}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-50 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-400"
+              title={undoLabel ? `Rückgängig: ${undoLabel} (Strg+Z)` : 'Nichts rückgängig zu machen'}
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+              </svg>
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={!redoLabel}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-50 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-400"
+              title={redoLabel ? `Wiederholen: ${redoLabel} (Strg+Umschalt+Z)` : 'Nichts zu wiederholen'}
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+              </svg>
+            </button>
+
             {/* Add Buttons */}
             <button onClick={onAddWorkPackage} className="px-3 py-1.5 text-xs font-medium text-white bg-gray-900 hover:bg-gray-800 rounded-lg transition-colors">
               + Arbeitspaket
@@ -114,17 +229,19 @@ export function Toolbar({
               + Meilenstein
             </button>
 
-            {/* More Actions */}
-            <button onClick={onExportJson} className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-50 rounded-lg transition-colors">
-              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-              </svg>
-            </button>
-            <button onClick={() => fileInputRef.current?.click()} className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-50 rounded-lg transition-colors">
-              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-              </svg>
-            </button>
+            {/* Export / Import format pickers */}
+            {renderFormatMenu(
+              'export',
+              'Exportieren',
+              'M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z',
+              exportFormats
+            )}
+            {renderFormatMenu(
+              'import',
+              'Importieren',
+              'M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12',
+              importFormats
+            )}
 
             {/* Share Button */}
             <button className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors flex items-center gap-1.5">
@@ -138,7 +255,7 @@ export function Toolbar({
             <input
               ref={fileInputRef}
               type="file"
-              accept=".json"
+              accept=".json,.xml,.csv,.tsv,.ics"
               onChange={handleFileImport}
               className="hidden"
             />
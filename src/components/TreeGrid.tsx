@@ -0,0 +1,180 @@
+import { WorkPackage, Milestone, ProjectCalendar } from '../types';
+import { formatDate } from '../utils/dateUtils';
+import { STATUS_COLORS, STATUS_LABELS, workPackageProgress, subPackageProgress } from '../utils/progress';
+import { SubPackageLine, isSummary } from '../utils/wbs';
+import { SelectionModifier, selectionModifier } from '../utils/selection';
+import { HEADER_HEIGHT, ItemLine, RowLayout, apLine, uapLine, milestoneLine } from '../utils/timelineLayout';
+
+export const TREE_GRID_WIDTH = 260;
+const UAP_INDENT = 16; // Per outline level
+
+interface TreeGridProps {
+  workPackages: WorkPackage[];
+  milestones: Milestone[];
+  calendar: ProjectCalendar;
+  layout: RowLayout; // Same layout as the timeline rows
+  uapLines: SubPackageLine[][]; // Visible UAP lines per AP, as laid out on the timeline
+  codes: Map<string, string>; // WBS codes
+  renderedRows: number[]; // AP indices the timeline renders (virtualization)
+  height: number;
+  collapsedIds: ReadonlySet<string>;
+  selectedIds: ReadonlySet<string>;
+  hoveredId: string | null;
+  onToggleCollapsed: (id: string) => void;
+  onSelect: (id: string, modifier: SelectionModifier) => void;
+  onOpenEditor: (id: string) => void;
+  onAddSubPackage: (apId: string) => void;
+  onHover: (id: string | null) => void;
+}
+
+/**
+ * Compact outline left of the timeline bars: every line sits at the height of
+ * its bar, so both sides scroll together inside the timeline's scroll container
+ */
+export function TreeGrid({
+  workPackages,
+  milestones,
+  calendar,
+  layout,
+  uapLines,
+  codes,
+  renderedRows,
+  height,
+  collapsedIds,
+  selectedIds,
+  hoveredId,
+  onToggleCollapsed,
+  onSelect,
+  onOpenEditor,
+  onAddSubPackage,
+  onHover,
+}: TreeGridProps) {
+  const renderChevron = (id: string, collapsed: boolean) => (
+    <button
+      onClick={() => onToggleCollapsed(id)}
+      className="w-5 h-5 flex items-center justify-center rounded hover:bg-white transition-colors flex-shrink-0"
+      title={collapsed ? 'Aufklappen' : 'Zuklappen'}
+      aria-expanded={!collapsed}
+    >
+      <svg className={`w-3 h-3 text-gray-500 transition-transform ${collapsed ? '' : 'rotate-90'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M9 5l7 7-7 7" />
+      </svg>
+    </button>
+  );
+
+  const renderCode = (id: string) => (
+    <span className="text-xs text-gray-400 tabular-nums flex-shrink-0">{codes.get(id)}</span>
+  );
+
+  const lineClass = (id: string) =>
+    selectedIds.has(id) ? 'bg-blue-100/70 text-blue-900' : hoveredId === id ? 'bg-blue-50' : '';
+
+  // Clicks select like on the timeline (Ctrl toggles, Shift selects a range), double-clicks open the editor
+  const renderLine = (id: string, line: ItemLine, indent: number, content: JSX.Element) => (
+    <div
+      key={id}
+      className={`group absolute inset-x-0 flex items-center gap-1.5 pr-3 cursor-pointer transition-colors ${lineClass(id)}`}
+      style={{ top: line.top, height: line.height, paddingLeft: indent }}
+      onMouseEnter={() => onHover(id)}
+      onMouseLeave={() => onHover(null)}
+      onClick={e => {
+        if (e.target instanceof HTMLElement && e.target.closest('button')) return;
+        onSelect(id, selectionModifier(e));
+      }}
+      onDoubleClick={e => {
+        if (e.target instanceof HTMLElement && e.target.closest('button')) return;
+        onOpenEditor(id);
+      }}
+    >
+      {content}
+    </div>
+  );
+
+  return (
+    <div className="relative flex-shrink-0 border-r border-gray-200 bg-white" style={{ width: TREE_GRID_WIDTH, height }}>
+      {/* Header beside the date scale */}
+      <div
+        className="absolute inset-x-0 top-0 flex items-end justify-between px-4 pb-3 bg-gray-50 border-b border-gray-200"
+        style={{ height: HEADER_HEIGHT }}
+      >
+        <span className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Gliederung</span>
+        <span className="text-xs text-gray-400">{workPackages.length} APs</span>
+      </div>
+
+      {renderedRows.map(apIndex => {
+        const ap = workPackages[apIndex];
+        const row = layout.rows[apIndex];
+        const hasUaps = ap.subPackages.length > 0;
+        const collapsed = collapsedIds.has(ap.id);
+        const progress = workPackageProgress(ap, calendar);
+
+        return [
+          renderLine(
+            ap.id,
+            apLine(row),
+            8,
+            <>
+              {hasUaps ? renderChevron(ap.id, collapsed) : <span className="w-5 flex-shrink-0" />}
+              {renderCode(ap.id)}
+              <span className="flex-1 min-w-0 truncate text-sm font-medium text-gray-900">{ap.title}</span>
+              <button
+                onClick={() => {
+                  onAddSubPackage(ap.id);
+                  if (collapsed) onToggleCollapsed(ap.id);
+                }}
+                className="w-5 h-5 flex items-center justify-center rounded text-gray-400 hover:text-gray-700 hover:bg-white transition-colors flex-shrink-0 opacity-0 group-hover:opacity-100"
+                title="Unterarbeitspaket hinzufügen"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+              </button>
+              {progress !== null && <span className="text-xs text-gray-500 tabular-nums">{progress} %</span>}
+            </>
+          ),
+          // Nested UAPs are indented by their depth; summaries can be collapsed like APs
+          ...uapLines[apIndex].map(({ uap, depth }, uapIndex) => {
+            const summary = isSummary(uap);
+            return renderLine(
+              uap.id,
+              uapLine(row, uapIndex),
+              8 + depth * UAP_INDENT,
+              <>
+                {summary ? renderChevron(uap.id, collapsedIds.has(uap.id)) : <span className="w-5 flex-shrink-0" />}
+                {renderCode(uap.id)}
+                <span
+                  className="w-2 h-2 rounded-full flex-shrink-0"
+                  style={{ backgroundColor: STATUS_COLORS[uap.status] }}
+                  title={STATUS_LABELS[uap.status]}
+                />
+                <span className={`flex-1 min-w-0 truncate text-sm ${summary ? 'font-medium text-gray-800' : 'text-gray-700'}`}>
+                  {uap.title}
+                </span>
+                <span className="text-xs text-gray-400 tabular-nums">
+                  {summary ? subPackageProgress(uap, calendar) : uap.percentComplete} %
+                </span>
+              </>
+            );
+          }),
+        ];
+      })}
+
+      {milestones.map((ms, msIndex) =>
+        renderLine(
+          ms.id,
+          milestoneLine(layout, msIndex),
+          8,
+          <>
+            <span className="w-5 h-5 flex items-center justify-center flex-shrink-0 bg-amber-100 rounded">
+              <svg className="w-3 h-3 text-amber-600" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z" />
+              </svg>
+            </span>
+            <span className="flex-1 min-w-0 truncate text-sm font-medium text-gray-900">{ms.title}</span>
+            <span className="text-xs text-gray-400 tabular-nums">{formatDate(ms.date)}</span>
+          </>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { ItemVariance, formatVariance, varianceColor } from '../utils/baselines';
+
+interface VarianceBadgeProps {
+  variance?: ItemVariance;
+}
+
+/**
+ * Start and finish variance of an item against the active baseline
+ */
+export function VarianceBadge({ variance }: VarianceBadgeProps) {
+  if (!variance) return null;
+
+  if (!variance.baseline) {
+    return <div className="text-xs text-gray-400">Nicht im Basisplan</div>;
+  }
+
+  const { startVariance, finishVariance, kind } = variance;
+  return (
+    <div className="flex items-center gap-1.5 text-xs text-gray-500" title="Abweichung vom Basisplan (Kalendertage)">
+      <span>Abw.</span>
+      {kind === 'ms' ? (
+        <span className={`font-medium ${varianceColor(finishVariance)}`}>{formatVariance(finishVariance ?? 0)}</span>
+      ) : (
+        <>
+          <span>Start</span>
+          <span className={`font-medium ${varianceColor(startVariance)}`}>{formatVariance(startVariance ?? 0)}</span>
+          <span className="text-gray-400">•</span>
+          <span>Ende</span>
+          <span className={`font-medium ${varianceColor(finishVariance)}`}>{formatVariance(finishVariance ?? 0)}</span>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { Project } from '../types';
+import { formatTimestamp } from '../utils/dateUtils';
+import { Snapshot, SNAPSHOT_REASON_LABELS, diffProjects, summarizeDiff } from '../utils/snapshots';
+import { allSubPackages } from '../utils/wbs';
+
+interface VersionsPanelProps {
+  project: Project;
+  loadSnapshots: () => Promise<Snapshot[]>;
+  onSaveSnapshot: () => Promise<void>;
+  onRestore: (snapshot: Snapshot) => Promise<void>;
+  onClose: () => void;
+}
+
+export function VersionsPanel({ project, loadSnapshots, onSaveSnapshot, onRestore, onClose }: VersionsPanelProps) {
+  const [snapshots, setSnapshots] = useState<Snapshot[] | null>(null);
+
+  const reload = () => {
+    loadSnapshots().then(setSnapshots);
+  };
+
+  useEffect(reload, []);
+
+  const handleSave = async () => {
+    await onSaveSnapshot();
+    reload();
+  };
+
+  const handleRestore = async (snapshot: Snapshot) => {
+    if (!window.confirm(`Version vom ${formatTimestamp(snapshot.createdAt)} wiederherstellen? Der aktuelle Stand wird vorher als Version gesichert.`)) {
+      return;
+    }
+    await onRestore(snapshot);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 no-print">
+      <div className="bg-white rounded-2xl p-8 max-w-2xl w-full mx-4 shadow-strong max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-semibold">Versionen</h2>
+          <button
+            onClick={handleSave}
+            className="px-3 py-1.5 text-xs font-medium text-white bg-gray-900 hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            Version jetzt sichern
+          </button>
+        </div>
+
+        {snapshots === null && <p className="text-sm text-gray-500">Versionen werden geladen…</p>}
+        {snapshots?.length === 0 && (
+          <p className="text-sm text-gray-500">
+            Noch keine Versionen. Beim Bearbeiten wird automatisch alle 10 Minuten eine Version gesichert.
+          </p>
+        )}
+
+        <div className="space-y-1">
+          {snapshots?.map(snapshot => {
+            const subPackageCount = snapshot.project.workPackages.reduce((sum, wp) => sum + allSubPackages(wp.subPackages).length, 0);
+            return (
+              <div key={snapshot.id} className="group flex items-center gap-3 px-3 py-2.5 rounded-lg hover:bg-gray-50 transition-colors">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900">{formatTimestamp(snapshot.createdAt)}</span>
+                    <span className="text-[10px] font-semibold uppercase tracking-wider text-gray-500 bg-gray-100 rounded px-1.5 py-0.5">
+                      {SNAPSHOT_REASON_LABELS[snapshot.reason]}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {snapshot.project.workPackages.length} APs · {subPackageCount} UAPs · {snapshot.project.milestones.length} Meilensteine
+                  </div>
+                  <div className="text-xs text-gray-400 truncate">
+                    Seitdem: {summarizeDiff(diffProjects(snapshot.project, project))}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleRestore(snapshot)}
+                  className="px-2.5 py-1 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors opacity-0 group-hover:opacity-100"
+                >
+                  Wiederherstellen
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button onClick={onClose} className="btn-secondary">
+            Schließen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
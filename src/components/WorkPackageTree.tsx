@@ -1,15 +1,35 @@
 import { useState } from 'react';
-import { WorkPackage, SubPackage, Milestone } from '../types';
+import { WorkPackage, SubPackage, Milestone, ProjectCalendar } from '../types';
 import { SubPackageCard } from './SubPackageCard';
+import { VarianceBadge } from './VarianceBadge';
+import { ItemVariance } from '../utils/baselines';
+import { workPackageProgress } from '../utils/progress';
+import { SelectionModifier, selectionModifier } from '../utils/selection';
+import { DropPosition, allSubPackages, findSubPackage, wbsCodes, workPackageOf } from '../utils/wbs';
+
+type TreeItemKind = 'ap' | 'uap' | 'ms';
+
+// Data type of tree drags (browsers only start a drag that carries data)
+const TREE_DRAG_TYPE = 'application/x-projekt-zeitplan-item';
 
 interface WorkPackageTreeProps {
   workPackages: WorkPackage[];
   milestones: Milestone[];
+  calendar: ProjectCalendar;
+  variances?: Map<string, ItemVariance>; // Set while a baseline is active
+  selectedIds: ReadonlySet<string>;
+  collapsedIds: ReadonlySet<string>;
+  onToggleCollapsed: (id: string) => void;
+  onSelect: (id: string, modifier: SelectionModifier) => void;
   onUpdateWorkPackage: (id: string, updates: Partial<WorkPackage>) => void;
   onDeleteWorkPackage: (id: string) => void;
   onAddSubPackage: (apId: string) => void;
   onUpdateSubPackage: (apId: string, uapId: string, updates: Partial<SubPackage>) => void;
   onDeleteSubPackage: (apId: string, uapId: string) => void;
+  onIndent: (id: string) => void;
+  onOutdent: (id: string) => void;
+  onMoveItem: (id: string, targetId: string, position: DropPosition) => void;
+  onMoveItemBy: (id: string, direction: -1 | 1) => void;
   onUpdateMilestone: (id: string, updates: Partial<Milestone>) => void;
   onDeleteMilestone: (id: string) => void;
 }
@@ -17,36 +37,167 @@ interface WorkPackageTreeProps {
 export function WorkPackageTree({
   workPackages,
   milestones,
+  calendar,
+  variances,
+  selectedIds,
+  collapsedIds,
+  onToggleCollapsed,
+  onSelect,
   onUpdateWorkPackage,
   onDeleteWorkPackage,
   onAddSubPackage,
   onUpdateSubPackage,
   onDeleteSubPackage,
+  onIndent,
+  onOutdent,
+  onMoveItem,
+  onMoveItemBy,
   onUpdateMilestone,
   onDeleteMilestone,
 }: WorkPackageTreeProps) {
-  const [expandedAps, setExpandedAps] = useState<Set<string>>(
-    new Set(workPackages.map(wp => wp.id))
-  );
-
-  const toggleExpand = (id: string) => {
-    setExpandedAps(prev => {
-      const next = new Set(prev);
-      if (next.has(id)) {
-        next.delete(id);
-      } else {
-        next.add(id);
-      }
-      return next;
-    });
+  // Clicking a card outside its fields selects it (Ctrl toggles, Shift selects a range)
+  const handleCardClick = (e: React.MouseEvent, id: string) => {
+    if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select, button')) return;
+    onSelect(id, selectionModifier(e));
   };
 
+  const cardClass = (id: string) =>
+    selectedIds.has(id)
+      ? 'bg-blue-50/60 rounded-lg p-3 border border-blue-400 ring-2 ring-blue-100 transition-all duration-200'
+      : 'bg-gray-50 rounded-lg p-3 border border-gray-200 hover:border-gray-300 hover:bg-gray-100/50 transition-all duration-200';
+
   const confirmDelete = (title: string, onConfirm: () => void) => {
     if (window.confirm(`Wirklich "${title}" löschen?`)) {
       onConfirm();
     }
   };
 
+  const codes = wbsCodes(workPackages);
+
+  // Reordering: items are dragged by their grip and dropped before or after an item of the
+  // same kind; a UAP can also go next to any other UAP or into an AP
+  const [dragged, setDragged] = useState<{ id: string; kind: TreeItemKind } | null>(null);
+  const [dropHint, setDropHint] = useState<{ targetId: string; position: DropPosition } | null>(null);
+
+  const endDrag = () => {
+    setDragged(null);
+    setDropHint(null);
+  };
+
+  const renderDragHandle = (id: string, kind: TreeItemKind) => (
+    <span
+      draggable
+      role="button"
+      tabIndex={0}
+      aria-label="Verschieben (Alt + Pfeil auf/ab)"
+      title="Ziehen zum Verschieben (Alt + ↑/↓)"
+      className="mt-0.5 w-4 h-5 flex items-center justify-center rounded text-gray-300 hover:text-gray-500 cursor-grab flex-shrink-0"
+      onDragStart={e => {
+        e.dataTransfer.setData(TREE_DRAG_TYPE, id);
+        e.dataTransfer.effectAllowed = 'move';
+        const card = e.currentTarget.closest('[data-tree-item]');
+        if (card) e.dataTransfer.setDragImage(card, 16, 16);
+        setDragged({ id, kind });
+      }}
+      onDragEnd={endDrag}
+    >
+      <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
+        <circle cx="9" cy="6" r="1.5" />
+        <circle cx="15" cy="6" r="1.5" />
+        <circle cx="9" cy="12" r="1.5" />
+        <circle cx="15" cy="12" r="1.5" />
+        <circle cx="9" cy="18" r="1.5" />
+        <circle cx="15" cy="18" r="1.5" />
+      </svg>
+    </span>
+  );
+
+  // Where the dragged item would land on a target (null if it cannot go there)
+  const dropPosition = (e: React.DragEvent, targetId: string, kind: TreeItemKind): DropPosition | null => {
+    if (!dragged || dragged.id === targetId) return null;
+    if (dragged.kind === 'uap') {
+      if (kind === 'ms') return null;
+      if (kind === 'ap') return 'inside';
+      // Not into its own subtree
+      const source = workPackageOf(workPackages, dragged.id);
+      const uap = source && findSubPackage(source.subPackages, dragged.id);
+      if (uap && findSubPackage([uap], targetId)) return null;
+    } else if (dragged.kind !== kind) {
+      return null;
+    }
+    const rect = e.currentTarget.getBoundingClientRect();
+    return e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+  };
+
+  const dropTargetProps = (id: string, kind: TreeItemKind) => ({
+    'data-tree-item': id,
+    onDragOver: (e: React.DragEvent) => {
+      const position = dropPosition(e, id, kind);
+      if (!position) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = 'move';
+      if (dropHint?.targetId !== id || dropHint.position !== position) setDropHint({ targetId: id, position });
+    },
+    onDrop: (e: React.DragEvent) => {
+      if (!dragged || dropHint?.targetId !== id) return;
+      e.preventDefault();
+      e.stopPropagation();
+      onMoveItem(dragged.id, id, dropHint.position);
+      endDrag();
+    },
+    // Alt + arrow keys move the item without a mouse
+    onKeyDown: (e: React.KeyboardEvent) => {
+      if (!e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return;
+      e.preventDefault();
+      e.stopPropagation();
+      onMoveItemBy(id, e.key === 'ArrowUp' ? -1 : 1);
+    },
+  });
+
+  // Line above or below the target item while dragging
+  const renderDropLine = (id: string) =>
+    dropHint?.targetId === id && dropHint.position !== 'inside' && (
+      <div
+        className={`absolute inset-x-0 h-0.5 bg-blue-500 rounded-full pointer-events-none ${
+          dropHint.position === 'before' ? '-top-1.5' : '-bottom-1.5'
+        }`}
+      />
+    );
+
+  // UAP cards of one level; nested UAPs follow their parent, indented
+  const renderSubPackages = (ap: WorkPackage, subPackages: SubPackage[]): JSX.Element[] =>
+    subPackages.map(uap => {
+      const collapsed = collapsedIds.has(uap.id);
+      return (
+        <div key={uap.id}>
+          <div className="relative" {...dropTargetProps(uap.id, 'uap')}>
+            {renderDropLine(uap.id)}
+            <SubPackageCard
+              uap={uap}
+              code={codes.get(uap.id) ?? ''}
+              calendar={calendar}
+              variance={variances?.get(uap.id)}
+              selected={selectedIds.has(uap.id)}
+              collapsed={collapsed}
+              onToggleCollapsed={() => onToggleCollapsed(uap.id)}
+              onSelect={modifier => onSelect(uap.id, modifier)}
+              onUpdate={(updates) => onUpdateSubPackage(ap.id, uap.id, updates)}
+              onIndent={() => onIndent(uap.id)}
+              onOutdent={() => onOutdent(uap.id)}
+              onDelete={() => onDeleteSubPackage(ap.id, uap.id)}
+              dragHandle={renderDragHandle(uap.id, 'uap')}
+            />
+          </div>
+          {uap.children && uap.children.length > 0 && !collapsed && (
+            <div className="mt-3 ml-4 space-y-3 border-l-2 border-gray-200 pl-4">
+              {renderSubPackages(ap, uap.children)}
+            </div>
+          )}
+        </div>
+      );
+    });
+
   return (
     <div className="h-full overflow-y-auto px-4 py-5 space-y-6">
       {/* Work Packages */}
@@ -55,20 +206,29 @@ export function WorkPackageTree({
           <h2 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Arbeitspakete</h2>
           <span className="text-xs text-gray-400">{workPackages.length}</span>
         </div>
-        {workPackages.map(ap => {
-          const isExpanded = expandedAps.has(ap.id);
+        {workPackages.map((ap, apIndex) => {
+          const isExpanded = !collapsedIds.has(ap.id);
           const hasUaps = ap.subPackages.length > 0;
           const isReadOnly = hasUaps;
+          const progress = workPackageProgress(ap, calendar);
 
           return (
             <div key={ap.id} className="group relative">
-              {/* AP Card */}
-              <div className="bg-gray-50 rounded-lg p-3 border border-gray-200 hover:border-gray-300 hover:bg-gray-100/50 transition-all duration-200">
+              {renderDropLine(ap.id)}
+              {/* AP Card (a UAP dropped on it becomes its last UAP) */}
+              <div
+                className={`${cardClass(ap.id)} ${
+                  dropHint?.targetId === ap.id && dropHint.position === 'inside' ? 'ring-2 ring-blue-300' : ''
+                }`}
+                onClick={e => handleCardClick(e, ap.id)}
+                {...dropTargetProps(ap.id, 'ap')}
+              >
                 {/* AP Header Row */}
                 <div className="flex items-start gap-2 mb-3">
+                  {renderDragHandle(ap.id, 'ap')}
                   {hasUaps && (
                     <button
-                      onClick={() => toggleExpand(ap.id)}
+                      onClick={() => onToggleCollapsed(ap.id)}
                       className="mt-0.5 w-5 h-5 flex items-center justify-center rounded hover:bg-white transition-colors flex-shrink-0"
                       title={isExpanded ? 'Zuklappen' : 'Aufklappen'}
                     >
@@ -77,6 +237,9 @@ export function WorkPackageTree({
                       </svg>
                     </button>
                   )}
+                  <span className="mt-0.5 text-xs font-medium text-gray-400 tabular-nums flex-shrink-0">
+                    {codes.get(ap.id)}
+                  </span>
                   <div className="flex-1 min-w-0">
                     <input
                       type="text"
@@ -89,10 +252,30 @@ export function WorkPackageTree({
                       <div className="flex items-center gap-1.5 mt-1">
                         <span className="text-xs text-gray-500">Auto-Modus</span>
                         <span className="text-xs text-gray-400">•</span>
-                        <span className="text-xs text-gray-400">{ap.subPackages.length} UAPs</span>
+                        <span className="text-xs text-gray-400">{allSubPackages(ap.subPackages).length} UAPs</span>
                       </div>
                     )}
+                    {progress !== null && (
+                      <div className="flex items-center gap-2 mt-1.5" title="Fortschritt (nach Dauer gewichtet)">
+                        <div className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                          <div className="h-full bg-gray-600 rounded-full" style={{ width: `${progress}%` }} />
+                        </div>
+                        <span className="text-xs text-gray-500 tabular-nums">{progress} %</span>
+                      </div>
+                    )}
+                    <VarianceBadge variance={variances?.get(ap.id)} />
                   </div>
+                  {apIndex > 0 && (
+                    <button
+                      onClick={() => onIndent(ap.id)}
+                      className="mt-0.5 w-5 h-5 flex items-center justify-center rounded hover:bg-white text-gray-400 hover:text-gray-700 transition-colors flex-shrink-0 opacity-0 group-hover:opacity-100"
+                      title="Einrücken (wird UAP des Arbeitspakets darüber)"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 5l7 7-7 7M5 12h14" />
+                      </svg>
+                    </button>
+                  )}
                   <button
                     onClick={() => confirmDelete(ap.title, () => onDeleteWorkPackage(ap.id))}
                     className="mt-0.5 w-5 h-5 flex items-center justify-center rounded hover:bg-red-50 text-gray-400 hover:text-red-500 transition-colors flex-shrink-0 opacity-0 group-hover:opacity-100"
@@ -166,14 +349,7 @@ export function WorkPackageTree({
               {/* Sub Packages */}
               {isExpanded && hasUaps && (
                 <div className="mt-3 ml-7 space-y-3 border-l-2 border-gray-200 pl-4">
-                  {ap.subPackages.map((uap) => (
-                    <SubPackageCard
-                      key={uap.id}
-                      uap={uap}
-                      onUpdate={(updates) => onUpdateSubPackage(ap.id, uap.id, updates)}
-                      onDelete={() => onDeleteSubPackage(ap.id, uap.id)}
-                    />
-                  ))}
+                  {renderSubPackages(ap, ap.subPackages)}
                 </div>
               )}
             </div>
@@ -189,8 +365,10 @@ export function WorkPackageTree({
         </div>
         {milestones.map(ms => (
           <div key={ms.id} className="group relative">
-            <div className="bg-gray-50 rounded-lg p-3 border border-gray-200 hover:border-gray-300 hover:bg-gray-100/50 transition-all duration-200">
+            {renderDropLine(ms.id)}
+            <div className={cardClass(ms.id)} onClick={e => handleCardClick(e, ms.id)} {...dropTargetProps(ms.id, 'ms')}>
               <div className="flex items-start gap-2 mb-2.5">
+                {renderDragHandle(ms.id, 'ms')}
                 <div className="mt-0.5 w-5 h-5 flex items-center justify-center flex-shrink-0 bg-amber-100 rounded">
                   <svg className="w-3 h-3 text-amber-600" fill="currentColor" viewBox="0 0 24 24">
                     <path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z" />
@@ -204,6 +382,7 @@ export function WorkPackageTree({
                     className="w-full font-medium text-sm bg-transparent border-0 px-0 py-0 focus:ring-0 text-gray-900 placeholder:text-gray-400"
                     placeholder="Meilenstein Titel"
                   />
+                  <VarianceBadge variance={variances?.get(ms.id)} />
                 </div>
                 <button
                   onClick={() => confirmDelete(ms.title, () => onDeleteMilestone(ms.id))}
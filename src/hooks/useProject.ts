@@ -1,10 +1,45 @@
-// React hook for project state management with localStorage persistence
-
-import { useState, useEffect } from 'react';
-import { Project, WorkPackage, SubPackage, Milestone, Toast } from '../types';
-import { minDate, maxDate, toIso } from '../utils/dateUtils';
-
-const STORAGE_KEY = 'projekt-zeitplan-data';
+// React hook for project state management with an IndexedDB project library, snapshots and undo/redo
+
+import { useState, useEffect, useRef } from 'react';
+import { Project, ProjectMeta, WorkPackage, SubPackage, Milestone, Dependency, Toast, ToastAction, TimelineViewport } from '../types';
+import { toIso, addDays, daysBetween, formatTimestamp } from '../utils/dateUtils';
+import { validateDependency, removeDependenciesFor } from '../utils/dependencyUtils';
+import { DEFAULT_CALENDAR } from '../utils/calendar';
+import { CURRENT_SCHEMA_VERSION } from '../utils/migrations';
+import { formatIssue } from '../utils/schema';
+import {
+  loadLibrary,
+  readStoredProject,
+  saveProject,
+  updateProjectMeta,
+  deleteStoredProject,
+  getLastOpenedId,
+  setLastOpenedId
+} from '../utils/projectLibrary';
+import { ProjectStore, openProjectStore } from '../utils/storage';
+import { Snapshot, listSnapshots, createSnapshot, createAutoSnapshotIfDue } from '../utils/snapshots';
+import { createBaseline } from '../utils/baselines';
+import { saveViewport } from '../utils/viewport';
+import { syncProgress } from '../utils/progress';
+import { rollupAp, scheduleForward, ScheduleResult } from '../utils/scheduling';
+import { HistoryState, pushHistory, undoHistory, redoHistory } from '../utils/history';
+import { CsvRow, mergeCsvRows } from '../utils/csv';
+import { IcsEvent, mergeIcsEvents } from '../utils/ics';
+import { shiftItems, recolorItems, assignPerson, deleteItems, pasteSubPackages } from '../utils/selection';
+import {
+  allSubPackages,
+  leafSubPackages,
+  findSubPackage,
+  isSummary,
+  mapSubPackages,
+  removeSubPackages,
+  outermostIds,
+  indentItem,
+  outdentItem,
+  DropPosition,
+  moveTreeItem,
+  moveTreeItemBy,
+} from '../utils/wbs';
 
 /**
  * Creates a default empty project
@@ -14,11 +49,13 @@ function createDefaultProject(): Project {
   const nextMonth = toIso(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000));
 
   return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     id: crypto.randomUUID(),
     name: 'Neues Projekt',
     description: '',
     settings: {
-      clampUapInsideManualAp: true
+      clampUapInsideManualAp: true,
+      calendar: DEFAULT_CALENDAR
     },
     workPackages: [
       {
@@ -36,76 +73,253 @@ function createDefaultProject(): Project {
         title: 'Meilenstein 1',
         date: today
       }
-    ]
+    ],
+    dependencies: [],
+    baselines: []
   };
 }
 
+const SAVE_DELAY_MS = 800; // Debounce for auto-save
+
+// Store and project the app starts with (loaded before the first render)
+export interface ProjectWorkspace {
+  store: ProjectStore;
+  project: Project;
+  projects: ProjectMeta[];
+  error?: string; // Shown on start, e.g. when no persistent storage could be opened
+}
+
 /**
- * Rollup AP dates from UAPs (auto mode)
+ * Opens the store (unless one is given) and the last opened project (migrated
+ * and repaired if necessary). Falls back to the other active projects and
+ * finally to a new one, so a single unreadable project never blocks the app.
  */
-export function rollupAp(ap: WorkPackage): WorkPackage {
-  if (ap.subPackages.length === 0) {
-    return ap; // No rollup needed
+export async function loadWorkspace(store?: ProjectStore): Promise<ProjectWorkspace> {
+  store ??= await openProjectStore();
+  let projects = await loadLibrary(store);
+  const candidates = [await getLastOpenedId(store), ...projects.filter(p => !p.archived).map(p => p.id)];
+
+  for (const id of new Set(candidates)) {
+    if (!id) continue;
+    const analysis = await readStoredProject(store, id);
+    if (analysis.project) {
+      if (analysis.issues.length > 0) {
+        console.warn('Repaired stored project', analysis.issues.map(formatIssue));
+      }
+      await setLastOpenedId(store, id);
+      return { store, project: analysis.project, projects };
+    }
+    console.error(`Failed to load stored project ${id}:`, analysis.error);
   }
 
-  const starts = ap.subPackages.map(sp => sp.start);
-  const ends = ap.subPackages.map(sp => sp.end);
-
-  return {
-    ...ap,
-    start: minDate(starts),
-    end: maxDate(ends)
-  };
+  const project = createDefaultProject();
+  projects = await saveProject(store, project);
+  await setLastOpenedId(store, project.id);
+  return { store, project, projects };
 }
 
 /**
- * Main project hook with localStorage persistence
+ * Main project hook with debounced persistence to the project store
  */
-export function useProject() {
-  const [project, setProject] = useState<Project>(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        return JSON.parse(stored);
-      } catch (e) {
-        console.error('Failed to parse stored project', e);
-      }
-    }
-    return createDefaultProject();
+export function useProject(workspace: ProjectWorkspace) {
+  const { store } = workspace;
+  const [projects, setProjects] = useState<ProjectMeta[]>(workspace.projects);
+  const [history, setHistory] = useState<HistoryState>({
+    present: workspace.project,
+    past: [],
+    future: []
   });
+  const project = history.present;
+
+  // Latest history, updated together with the state: several mutations
+  // before the next render (bulk actions, batched pointer moves) and
+  // callbacks that outlive a render (e.g. toast actions) build on it
+  // instead of the project of the last render
+  const historyRef = useRef(history);
+  const updateHistory = (update: (prev: HistoryState) => HistoryState) => {
+    historyRef.current = update(historyRef.current);
+    setHistory(historyRef.current);
+  };
+  const latest = () => historyRef.current.present;
+
+  // A startup error stays until it is closed
+  const [toasts, setToasts] = useState<Toast[]>(() =>
+    workspace.error ? [{ id: crypto.randomUUID(), message: workspace.error, type: 'error' }] : []
+  );
+
+  // Active drag gesture: intermediate updates are applied on top of the
+  // state at gesture start and recorded as a single undo step at the end;
+  // the scheduling summary is reported once as well
+  const gestureRef = useRef<{
+    label: string;
+    base: Project;
+    changed: boolean;
+    result: ScheduleResult | null;
+  } | null>(null);
+
+  // Store operations run one after another, so writes never overtake each other
+  const storeQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const pendingSaveRef = useRef<Project | null>(null);
+  const saveTimerRef = useRef<number>();
+
+  const runStoreTask = <T,>(task: () => Promise<T>): Promise<T | undefined> => {
+    const result = storeQueueRef.current.then(task).catch(e => {
+      console.error('Storage operation failed', e);
+      addToast('Speichern fehlgeschlagen', 'error');
+      return undefined;
+    });
+    storeQueueRef.current = result;
+    return result;
+  };
+
+  // Projects deleted in this session; queued viewport writes for them are dropped
+  const deletedIdsRef = useRef(new Set<string>());
 
-  const [toasts, setToasts] = useState<Toast[]>([]);
+  // Timeline viewports are written through the same queue as the projects, so a
+  // debounced write cannot bring back the viewport of a project deleted meanwhile
+  const storeViewport = (projectId: string, viewport: TimelineViewport) => {
+    runStoreTask(async () => {
+      if (!deletedIdsRef.current.has(projectId)) await saveViewport(store, projectId, viewport);
+    });
+  };
+
+  // Writes the pending project state (and an automatic snapshot when due)
+  const flushSave = () => {
+    window.clearTimeout(saveTimerRef.current);
+    const pending = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    if (!pending) return storeQueueRef.current;
+
+    return runStoreTask(async () => {
+      setProjects(await saveProject(store, pending));
+      await createAutoSnapshotIfDue(store, pending);
+    });
+  };
 
-  // Auto-save to localStorage
+  // Debounced auto-save
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(project));
+    pendingSaveRef.current = project;
+    window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = window.setTimeout(flushSave, SAVE_DELAY_MS);
   }, [project]);
 
+  // Save immediately when the page is hidden or closed
+  useEffect(() => {
+    const handleHide = () => {
+      if (document.visibilityState === 'hidden') flushSave();
+    };
+    window.addEventListener('pagehide', flushSave);
+    document.addEventListener('visibilitychange', handleHide);
+    return () => {
+      window.removeEventListener('pagehide', flushSave);
+      document.removeEventListener('visibilitychange', handleHide);
+    };
+  }, []);
+
   // Toast management
-  const addToast = (message: string, type: Toast['type'] = 'info') => {
+  const addToast = (message: string, type: Toast['type'] = 'info', action?: ToastAction) => {
     const toast: Toast = {
       id: crypto.randomUUID(),
       message,
-      type
+      type,
+      action
     };
     setToasts(prev => [...prev, toast]);
 
-    // Auto-remove after 3 seconds
+    // Auto-remove after 3 seconds (longer if the toast offers an action)
     setTimeout(() => {
       setToasts(prev => prev.filter(t => t.id !== toast.id));
-    }, 3000);
+    }, action ? 6000 : 3000);
   };
 
   const removeToast = (id: string) => {
     setToasts(prev => prev.filter(t => t.id !== id));
   };
 
+  // History management
+  const commit = (label: string, next: Project, coalesceKey?: string): string => {
+    const id = crypto.randomUUID();
+    if (gestureRef.current) {
+      gestureRef.current.changed = true;
+      updateHistory(prev => ({ ...prev, present: next }));
+    } else {
+      updateHistory(prev => pushHistory(prev, next, label, { id, coalesceKey }));
+    }
+    return id;
+  };
+
+  const undo = () => {
+    updateHistory(prev => undoHistory(prev));
+  };
+
+  const redo = () => {
+    updateHistory(prev => redoHistory(prev));
+  };
+
+  // Undoes a specific step, as long as nothing else happened since
+  const undoEntry = (entryId: string) => {
+    const { past } = historyRef.current;
+    if (past[past.length - 1]?.id !== entryId) {
+      addToast('Rückgängig nicht mehr möglich', 'error');
+      return;
+    }
+    undo();
+  };
+
+  // Toast for deletions with an "Rückgängig" button
+  const addDeleteToast = (message: string, entryId: string) => {
+    addToast(message, 'success', { label: 'Rückgängig', onClick: () => undoEntry(entryId) });
+  };
+
+  const reportSchedule = (result: ScheduleResult, source: Project) => {
+    const titles = new Map(
+      source.workPackages.flatMap(wp => allSubPackages(wp.subPackages).map(sp => [sp.id, sp.title] as const))
+    );
+    for (const cycle of result.cycles) {
+      const names = [...cycle, cycle[0]].map(id => titles.get(id) ?? '?').join(' → ');
+      addToast(`Zyklische Abhängigkeit: ${names}`, 'error');
+    }
+    if (result.shiftedIds.length > 0) {
+      const count = result.shiftedIds.length;
+      addToast(`${count} abhängige${count === 1 ? 's' : ''} UAP${count === 1 ? '' : 's'} verschoben`, 'info');
+    }
+  };
+
+  // Runs the scheduling engine on a changed project and stores the result
+  const commitScheduled = (label: string, next: Project, changedIds: string[]) => {
+    const result = scheduleForward(next, changedIds);
+    commit(label, result.project);
+
+    if (gestureRef.current) {
+      gestureRef.current.result = result;
+    } else {
+      reportSchedule(result, result.project);
+    }
+  };
+
+  const beginGesture = (label: string) => {
+    gestureRef.current = { label, base: latest(), changed: false, result: null };
+  };
+
+  const endGesture = () => {
+    const gesture = gestureRef.current;
+    gestureRef.current = null;
+    if (!gesture?.changed) return;
+
+    updateHistory(prev => pushHistory({ ...prev, present: gesture.base }, prev.present, gesture.label));
+    if (gesture.result) {
+      reportSchedule(gesture.result, gesture.result.project);
+    }
+  };
+
   // Project operations
   const updateProject = (updates: Partial<Project>) => {
-    setProject(prev => ({ ...prev, ...updates }));
+    const project = latest();
+    commit('Projekt bearbeiten', { ...project, ...updates }, `project:${Object.keys(updates).join(',')}`);
   };
 
   const addWorkPackage = () => {
+    const project = latest();
     const today = toIso(new Date());
     const nextMonth = toIso(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000));
 
@@ -118,41 +332,75 @@ export function useProject() {
       subPackages: []
     };
 
-    setProject(prev => ({
-      ...prev,
-      workPackages: [...prev.workPackages, newAp]
-    }));
+    commit('AP hinzufügen', {
+      ...project,
+      workPackages: [...project.workPackages, newAp]
+    });
 
     addToast('Arbeitspaket hinzugefügt', 'success');
   };
 
+  // Applies AP updates incl. rollup (shared by AP and UAP operations)
+  const withWorkPackageUpdate = (base: Project, id: string, updates: Partial<WorkPackage>): Project => ({
+    ...base,
+    workPackages: base.workPackages.map(wp => {
+      if (wp.id !== id) return wp;
+
+      const updated = { ...wp, ...updates };
+
+      // Apply rollup if in auto mode or has subpackages
+      if (updated.mode === 'auto' || updated.subPackages.length > 0) {
+        return rollupAp(updated);
+      }
+
+      return updated;
+    })
+  });
+
   const updateWorkPackage = (id: string, updates: Partial<WorkPackage>) => {
-    setProject(prev => ({
-      ...prev,
-      workPackages: prev.workPackages.map(wp => {
-        if (wp.id !== id) return wp;
+    const project = latest();
+    commit(
+      'AP bearbeiten',
+      withWorkPackageUpdate(project, id, updates),
+      `ap:${id}:${Object.keys(updates).join(',')}`
+    );
+  };
 
-        const updated = { ...wp, ...updates };
+  // Moves or resizes an AP on the timeline. An AP with UAPs can only be
+  // moved: all its UAPs shift by the same number of days and their
+  // successors are rescheduled.
+  const rescheduleWorkPackage = (id: string, start: string, end: string) => {
+    const base = gestureRef.current?.base ?? latest();
+    const ap = base.workPackages.find(wp => wp.id === id);
+    if (!ap) return;
 
-        // Apply rollup if in auto mode or has subpackages
-        if (updated.mode === 'auto' || updated.subPackages.length > 0) {
-          return rollupAp(updated);
-        }
+    if (ap.subPackages.length === 0) {
+      commit('AP-Termin ändern', withWorkPackageUpdate(base, id, { start, end }), `ap:${id}:start,end`);
+      return;
+    }
 
-        return updated;
-      })
-    }));
+    const shift = daysBetween(ap.start, start);
+    const next = withWorkPackageUpdate(base, id, {
+      subPackages: mapSubPackages(ap.subPackages, sp => ({ ...sp, start: addDays(sp.start, shift), end: addDays(sp.end, shift) }))
+    });
+    commitScheduled('AP verschieben', next, leafSubPackages(ap.subPackages).map(sp => sp.id));
   };
 
   const deleteWorkPackage = (id: string) => {
-    setProject(prev => ({
-      ...prev,
-      workPackages: prev.workPackages.filter(wp => wp.id !== id)
-    }));
-    addToast('Arbeitspaket gelöscht', 'success');
+    const project = latest();
+    const ap = project.workPackages.find(wp => wp.id === id);
+    const uapIds = ap ? allSubPackages(ap.subPackages).map(sp => sp.id) : [];
+
+    const entryId = commit('AP löschen', {
+      ...project,
+      workPackages: project.workPackages.filter(wp => wp.id !== id),
+      dependencies: removeDependenciesFor(project.dependencies, uapIds)
+    });
+    addDeleteToast('Arbeitspaket gelöscht', entryId);
   };
 
   const addSubPackage = (apId: string) => {
+    const project = latest();
     const ap = project.workPackages.find(wp => wp.id === apId);
     if (!ap) return;
 
@@ -160,44 +408,80 @@ export function useProject() {
       id: crypto.randomUUID(),
       title: `UAP ${ap.subPackages.length + 1}`,
       start: ap.start,
-      end: ap.end
+      end: ap.end,
+      status: 'open',
+      percentComplete: 0
     };
 
-    updateWorkPackage(apId, {
+    commit('UAP hinzufügen', withWorkPackageUpdate(project, apId, {
       mode: 'auto', // Switch to auto mode when adding UAPs
       subPackages: [...ap.subPackages, newUap]
-    });
+    }));
 
     addToast('Unterarbeitspaket hinzugefügt', 'success');
   };
 
+  // UAPs can sit at any depth below the AP. A summary UAP (one with UAPs
+  // below it) can only be moved: everything below it shifts by the same days.
   const updateSubPackage = (apId: string, uapId: string, updates: Partial<SubPackage>) => {
-    const ap = project.workPackages.find(wp => wp.id === apId);
-    if (!ap) return;
+    const base = gestureRef.current?.base ?? latest();
+    const ap = base.workPackages.find(wp => wp.id === apId);
+    const uap = ap && findSubPackage(ap.subPackages, uapId);
+    if (!ap || !uap) return;
+
+    if (isSummary(uap)) {
+      const { start, end: _, status: __, percentComplete: ___, ...fields } = updates;
+      if (start === undefined) {
+        commit('UAP bearbeiten', withWorkPackageUpdate(base, apId, {
+          subPackages: mapSubPackages(ap.subPackages, sp => (sp.id === uapId ? { ...sp, ...fields } : sp))
+        }), `uap:${uapId}:${Object.keys(fields).join(',')}`);
+        return;
+      }
+      const shift = daysBetween(uap.start, start);
+      const moved = mapSubPackages(uap.children!, sp => ({ ...sp, start: addDays(sp.start, shift), end: addDays(sp.end, shift) }));
+      const next = withWorkPackageUpdate(base, apId, {
+        subPackages: mapSubPackages(ap.subPackages, sp => (sp.id === uapId ? { ...sp, ...fields, children: moved } : sp))
+      });
+      commitScheduled('UAP verschieben', next, leafSubPackages(moved).map(sp => sp.id));
+      return;
+    }
 
-    const updatedSubPackages = ap.subPackages.map(sp =>
-      sp.id === uapId ? { ...sp, ...updates } : sp
-    );
+    const next = withWorkPackageUpdate(base, apId, {
+      subPackages: mapSubPackages(ap.subPackages, sp => (sp.id === uapId ? { ...sp, ...syncProgress(sp, updates) } : sp))
+    });
 
-    updateWorkPackage(apId, { subPackages: updatedSubPackages });
+    if (updates.start !== undefined || updates.end !== undefined) {
+      commitScheduled('UAP-Termin ändern', next, [uapId]);
+    } else {
+      commit('UAP bearbeiten', next, `uap:${uapId}:${Object.keys(updates).join(',')}`);
+    }
   };
 
+  // Removes a UAP at any depth, with the UAPs below it
   const deleteSubPackage = (apId: string, uapId: string) => {
+    const project = latest();
     const ap = project.workPackages.find(wp => wp.id === apId);
-    if (!ap) return;
+    const uap = ap && findSubPackage(ap.subPackages, uapId);
+    if (!ap || !uap) return;
 
-    const updatedSubPackages = ap.subPackages.filter(sp => sp.id !== uapId);
+    const updatedSubPackages = removeSubPackages(ap.subPackages, new Set([uapId]));
 
-    updateWorkPackage(apId, {
+    const next = withWorkPackageUpdate(project, apId, {
       subPackages: updatedSubPackages,
       // Switch to manual if no more UAPs
       mode: updatedSubPackages.length === 0 ? 'manual' : 'auto'
     });
 
-    addToast('Unterarbeitspaket gelöscht', 'success');
+    const entryId = commit('UAP löschen', {
+      ...next,
+      dependencies: removeDependenciesFor(next.dependencies, allSubPackages([uap]).map(sp => sp.id))
+    });
+
+    addDeleteToast('Unterarbeitspaket gelöscht', entryId);
   };
 
   const addMilestone = () => {
+    const project = latest();
     const today = toIso(new Date());
 
     const newMs: Milestone = {
@@ -206,50 +490,379 @@ export function useProject() {
       date: today
     };
 
-    setProject(prev => ({
-      ...prev,
-      milestones: [...prev.milestones, newMs]
-    }));
+    commit('Meilenstein hinzufügen', {
+      ...project,
+      milestones: [...project.milestones, newMs]
+    });
 
     addToast('Meilenstein hinzugefügt', 'success');
   };
 
   const updateMilestone = (id: string, updates: Partial<Milestone>) => {
-    setProject(prev => ({
-      ...prev,
-      milestones: prev.milestones.map(ms =>
-        ms.id === id ? { ...ms, ...updates } : ms
-      )
-    }));
+    const project = latest();
+    commit(
+      'Meilenstein bearbeiten',
+      {
+        ...project,
+        milestones: project.milestones.map(ms =>
+          ms.id === id ? { ...ms, ...updates } : ms
+        )
+      },
+      `ms:${id}:${Object.keys(updates).join(',')}`
+    );
   };
 
   const deleteMilestone = (id: string) => {
-    setProject(prev => ({
-      ...prev,
-      milestones: prev.milestones.filter(ms => ms.id !== id)
-    }));
-    addToast('Meilenstein gelöscht', 'success');
+    const project = latest();
+    const entryId = commit('Meilenstein löschen', {
+      ...project,
+      milestones: project.milestones.filter(ms => ms.id !== id)
+    });
+    addDeleteToast('Meilenstein gelöscht', entryId);
+  };
+
+  const addDependency = (fromId: string, toId: string, type: Dependency['type'], lag = 0) => {
+    const project = latest();
+    const summaries = new Set(
+      project.workPackages.flatMap(wp => allSubPackages(wp.subPackages).filter(isSummary).map(sp => sp.id))
+    );
+    const error = summaries.has(fromId) || summaries.has(toId)
+      ? 'Abhängigkeiten verbinden nur UAPs ohne Unterpakete'
+      : validateDependency(project.dependencies, fromId, toId);
+    if (error) {
+      addToast(error, 'error');
+      return;
+    }
+
+    const newDep: Dependency = {
+      id: crypto.randomUUID(),
+      fromId,
+      toId,
+      type,
+      lag
+    };
+
+    addToast('Abhängigkeit hinzugefügt', 'success');
+    commitScheduled(
+      'Abhängigkeit hinzufügen',
+      { ...project, dependencies: [...project.dependencies, newDep] },
+      [fromId]
+    );
+  };
+
+  const updateDependency = (id: string, updates: Partial<Dependency>) => {
+    const project = latest();
+    const dep = project.dependencies.find(d => d.id === id);
+    if (!dep) return;
+
+    commitScheduled(
+      'Abhängigkeit bearbeiten',
+      {
+        ...project,
+        dependencies: project.dependencies.map(d => (d.id === id ? { ...d, ...updates } : d))
+      },
+      [dep.fromId]
+    );
+  };
+
+  const deleteDependency = (id: string) => {
+    const project = latest();
+    const entryId = commit('Abhängigkeit löschen', {
+      ...project,
+      dependencies: project.dependencies.filter(dep => dep.id !== id)
+    });
+    addDeleteToast('Abhängigkeit gelöscht', entryId);
+  };
+
+  // Baseline operations
+  const addBaseline = (name: string) => {
+    const project = latest();
+    const baseline = createBaseline(project, name);
+    commit('Basisplan speichern', {
+      ...project,
+      baselines: [...project.baselines, baseline],
+      activeBaselineId: baseline.id
+    });
+    addToast(`Basisplan „${name}“ gespeichert`, 'success');
+  };
+
+  const deleteBaseline = (id: string) => {
+    const project = latest();
+    const entryId = commit('Basisplan löschen', {
+      ...project,
+      baselines: project.baselines.filter(b => b.id !== id),
+      activeBaselineId: project.activeBaselineId === id ? undefined : project.activeBaselineId
+    });
+    addDeleteToast('Basisplan gelöscht', entryId);
+  };
+
+  const setActiveBaseline = (id: string | undefined) => {
+    const project = latest();
+    commit('Basisplan wählen', { ...project, activeBaselineId: id });
+  };
+
+  // Bulk operations on a multi-selection of APs, UAPs and milestones
+  const moveItems = (ids: ReadonlySet<string>, days: number) => {
+    const base = gestureRef.current?.base ?? latest();
+    const result = shiftItems(base, ids, days);
+    commitScheduled('Auswahl verschieben', result.project, result.changedIds);
+  };
+
+  const recolorSelection = (ids: ReadonlySet<string>, color: string) => {
+    const project = latest();
+    commit('Auswahl einfärben', recolorItems(project, ids, color));
+  };
+
+  const assignSelection = (ids: ReadonlySet<string>, person: string, assign: boolean) => {
+    const project = latest();
+    commit(assign ? 'Person zuweisen' : 'Zuweisung entfernen', assignPerson(project, ids, person, assign));
+    addToast(assign ? `${person} zugewiesen` : `${person} entfernt`, 'success');
+  };
+
+  const deleteSelection = (ids: ReadonlySet<string>) => {
+    const project = latest();
+    const entryId = commit('Auswahl löschen', deleteItems(project, ids));
+    addDeleteToast(`${ids.size} Element${ids.size === 1 ? '' : 'e'} gelöscht`, entryId);
+  };
+
+  // Indent moves items in tree order, outdent in reverse order, so neighbouring
+  // items keep their order; items below another selected item move with it
+  const indentItems = (ids: ReadonlySet<string>) => {
+    const project = latest();
+    let next = project;
+    for (const id of outermostIds(project.workPackages, ids)) {
+      next = indentItem(next, id) ?? next;
+    }
+    if (next === project) {
+      addToast('Darüber liegt kein Element, unter das eingerückt werden kann', 'info');
+      return;
+    }
+    commit('Einrücken', next);
+  };
+
+  const outdentItems = (ids: ReadonlySet<string>) => {
+    const project = latest();
+    let next = project;
+    for (const id of outermostIds(project.workPackages, ids).reverse()) {
+      next = outdentItem(next, id) ?? next;
+    }
+    if (next === project) {
+      addToast('Arbeitspakete liegen bereits auf der obersten Ebene', 'info');
+      return;
+    }
+    commit('Ausrücken', next);
+  };
+
+  // Drag and drop in the tree; a UAP dropped into another AP changes its parent
+  const moveInTree = (id: string, targetId: string, position: DropPosition) => {
+    const project = latest();
+    const next = moveTreeItem(project, id, targetId, position);
+    if (next) commit('Reihenfolge ändern', next);
+  };
+
+  // Keyboard moves of the same item are undone in one step
+  const moveInTreeBy = (id: string, direction: -1 | 1) => {
+    const project = latest();
+    const next = moveTreeItemBy(project, id, direction);
+    if (next) commit('Reihenfolge ändern', next, `order:${id}`);
+  };
+
+  // Returns the ids of the pasted copies
+  const pasteIntoWorkPackage = (apId: string, clipboard: SubPackage[]): string[] => {
+    const project = latest();
+    const result = pasteSubPackages(project, apId, clipboard, () => crypto.randomUUID());
+    commit('UAPs einfügen', result.project);
+    addToast(`${clipboard.length} UAP${clipboard.length === 1 ? '' : 's'} eingefügt`, 'success');
+    return result.pastedIds;
   };
 
   const exportToJson = (): string => {
+    const project = latest();
     return JSON.stringify(project, null, 2);
   };
 
-  const importFromJson = (json: string) => {
-    try {
-      const imported = JSON.parse(json);
-      setProject(imported);
-      addToast('Projekt importiert', 'success');
-    } catch (e) {
-      addToast('Import fehlgeschlagen: Ungültiges JSON', 'error');
+  // Replaces the current project with an already validated one (see analyzeProjectJson);
+  // it keeps the library slot of the project it replaces
+  const importProject = (imported: Project) => {
+    const project = latest();
+    commit('Projekt importieren', { ...imported, id: project.id });
+    addToast('Projekt importiert', 'success');
+  };
+
+  // Merges validated table rows (see readCsvRows); rows with errors are skipped
+  const mergeTableRows = (rows: CsvRow[]) => {
+    const project = latest();
+    const result = mergeCsvRows(project, rows);
+    commitScheduled('Tabelle importieren', result.project, result.changedIds);
+    const parts = [
+      result.added > 0 && `${result.added} neu`,
+      result.updated > 0 && `${result.updated} aktualisiert`,
+    ].filter(Boolean);
+    addToast(`Tabelle importiert: ${parts.join(', ') || 'keine Änderungen'}`, 'success');
+  };
+
+  // Calendar events become milestones; events exported from a milestone update it
+  const mergeCalendarEvents = (events: IcsEvent[]) => {
+    const project = latest();
+    const result = mergeIcsEvents(project, events);
+    commit('Kalender importieren', result.project);
+    const parts = [
+      result.added > 0 && `${result.added} neu`,
+      result.updated > 0 && `${result.updated} aktualisiert`,
+    ].filter(Boolean);
+    addToast(`Kalender importiert: ${parts.join(', ') || 'keine Änderungen'}`, 'success');
+  };
+
+  // Project library
+  const switchTo = (next: Project) => {
+    gestureRef.current = null;
+    updateHistory(() => ({ present: next, past: [], future: [] }));
+    runStoreTask(() => setLastOpenedId(store, next.id));
+  };
+
+  const openProject = async (id: string): Promise<boolean> => {
+    const project = latest();
+    if (id === project.id) return true;
+
+    await flushSave();
+    const analysis = await readStoredProject(store, id);
+    if (!analysis.project) {
+      addToast(`Projekt konnte nicht geöffnet werden: ${analysis.error}`, 'error');
+      return false;
+    }
+    if (analysis.issues.length > 0) {
+      console.warn('Repaired stored project', analysis.issues.map(formatIssue));
+      addToast('Projekt wurde beim Öffnen repariert', 'info');
     }
+    switchTo(analysis.project);
+    return true;
   };
 
+  // Creates an empty project, or one from a template (e.g. a generated benchmark project)
+  const createProject = async (template?: Project) => {
+    await flushSave();
+    const created = template ?? createDefaultProject();
+    const updated = await runStoreTask(() => saveProject(store, created));
+    if (!updated) return;
+    setProjects(updated);
+    switchTo(created);
+    addToast('Projekt erstellt', 'success');
+  };
+
+  const duplicateProject = async (id: string) => {
+    const project = latest();
+    const source = id === project.id ? project : (await readStoredProject(store, id)).project;
+    if (!source) {
+      addToast('Projekt konnte nicht dupliziert werden', 'error');
+      return;
+    }
+    const copy: Project = { ...source, id: crypto.randomUUID(), name: `${source.name} (Kopie)` };
+    const updated = await runStoreTask(() => saveProject(store, copy));
+    if (!updated) return;
+    setProjects(updated);
+    addToast('Projekt dupliziert', 'success');
+  };
+
+  const renameProject = async (id: string, name: string) => {
+    const project = latest();
+    if (id === project.id) {
+      updateProject({ name });
+      return;
+    }
+    const stored = (await readStoredProject(store, id)).project;
+    if (!stored) {
+      addToast('Projekt konnte nicht umbenannt werden', 'error');
+      return;
+    }
+    const updated = await runStoreTask(() => saveProject(store, { ...stored, name }));
+    if (updated) setProjects(updated);
+  };
+
+  // Opens another active project after the current one left the list
+  const leaveCurrentProject = async (remaining: ProjectMeta[]) => {
+    const project = latest();
+    const candidates = remaining
+      .filter(meta => !meta.archived && meta.id !== project.id)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    for (const meta of candidates) {
+      if (await openProject(meta.id)) return;
+    }
+    await createProject();
+  };
+
+  const archiveProject = async (id: string, archived: boolean) => {
+    const project = latest();
+    await flushSave();
+    const remaining = await runStoreTask(() => updateProjectMeta(store, id, { archived }));
+    if (!remaining) return;
+    setProjects(remaining);
+    addToast(archived ? 'Projekt archiviert' : 'Projekt wiederhergestellt', 'success');
+    if (archived && id === project.id) {
+      await leaveCurrentProject(remaining);
+    }
+  };
+
+  const deleteProject = async (id: string) => {
+    const project = latest();
+    if (id === project.id) {
+      // Drop unsaved changes so auto-save cannot bring the project back
+      window.clearTimeout(saveTimerRef.current);
+      pendingSaveRef.current = null;
+    }
+    deletedIdsRef.current.add(id);
+    const remaining = await runStoreTask(() => deleteStoredProject(store, id));
+    if (!remaining) {
+      deletedIdsRef.current.delete(id);
+      return;
+    }
+    setProjects(remaining);
+    addToast('Projekt gelöscht', 'success');
+    if (id === project.id) {
+      await leaveCurrentProject(remaining);
+    }
+  };
+
+  // Snapshots ("Versionen") of the current project
+  const loadSnapshots = async (): Promise<Snapshot[]> => {
+    const project = latest();
+    await flushSave();
+    return (await runStoreTask(() => listSnapshots(store, project.id))) ?? [];
+  };
+
+  const saveSnapshot = async () => {
+    const current = latest();
+    await runStoreTask(() => createSnapshot(store, current, 'manual'));
+    addToast('Version gesichert', 'success');
+  };
+
+  const restoreSnapshot = async (snapshot: Snapshot) => {
+    // Keep the current state as a version of its own before replacing it
+    const current = latest();
+    await runStoreTask(() => createSnapshot(store, current, 'restore'));
+    commit('Version wiederherstellen', { ...snapshot.project, id: current.id });
+    addToast(`Version vom ${formatTimestamp(snapshot.createdAt)} wiederhergestellt`, 'success');
+  };
+
+  const lastPast = history.past[history.past.length - 1];
+  const lastFuture = history.future[history.future.length - 1];
+
   return {
     project,
+    projects,
+    storeViewport,
+    openProject,
+    createProject,
+    duplicateProject,
+    renameProject,
+    archiveProject,
+    deleteProject,
+    loadSnapshots,
+    saveSnapshot,
+    restoreSnapshot,
     updateProject,
     addWorkPackage,
     updateWorkPackage,
+    rescheduleWorkPackage,
     deleteWorkPackage,
     addSubPackage,
     updateSubPackage,
@@ -257,8 +870,31 @@ export function useProject() {
     addMilestone,
     updateMilestone,
     deleteMilestone,
+    addDependency,
+    updateDependency,
+    deleteDependency,
+    addBaseline,
+    deleteBaseline,
+    setActiveBaseline,
+    moveItems,
+    recolorSelection,
+    assignSelection,
+    deleteSelection,
+    indentItems,
+    outdentItems,
+    moveInTree,
+    moveInTreeBy,
+    pasteIntoWorkPackage,
     exportToJson,
-    importFromJson,
+    importProject,
+    mergeTableRows,
+    mergeCalendarEvents,
+    beginGesture,
+    endGesture,
+    undo,
+    redo,
+    undoLabel: lastPast?.label ?? null,
+    redoLabel: lastFuture?.label ?? null,
     toasts,
     addToast,
     removeToast
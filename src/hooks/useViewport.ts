@@ -0,0 +1,52 @@
+// React hook for the per-project timeline viewport (debounced persistence through useProject's store queue)
+
+import { useState, useEffect, useRef } from 'react';
+import { Project, TimelineViewport } from '../types';
+import { ProjectStore } from '../utils/storage';
+import { defaultViewport, loadViewport } from '../utils/viewport';
+
+const VIEWPORT_SAVE_DELAY_MS = 500; // Panning changes the viewport on every mouse move
+
+export function useViewport(
+  store: ProjectStore,
+  project: Project,
+  save: (projectId: string, viewport: TimelineViewport) => void
+) {
+  const [viewport, setViewportState] = useState<TimelineViewport>(() => defaultViewport(project));
+  const pendingRef = useRef<{ projectId: string; viewport: TimelineViewport } | null>(null);
+  const saveTimerRef = useRef<number>();
+
+  const flush = () => {
+    window.clearTimeout(saveTimerRef.current);
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    if (pending) save(pending.projectId, pending.viewport);
+  };
+
+  // Restore the stored viewport whenever another project is opened
+  useEffect(() => {
+    flush();
+    setViewportState(defaultViewport(project));
+    let cancelled = false;
+    loadViewport(store, project.id).then(stored => {
+      if (!cancelled && stored) setViewportState(stored);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [project.id]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, []);
+
+  const setViewport = (next: TimelineViewport) => {
+    setViewportState(next);
+    pendingRef.current = { projectId: project.id, viewport: next };
+    window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = window.setTimeout(flush, VIEWPORT_SAVE_DELAY_MS);
+  };
+
+  return { viewport, setViewport };
+}
@@ -1,10 +1,23 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
+import { loadWorkspace } from './hooks/useProject'
+import { createMemoryStore } from './utils/storage'
 import './index.css'
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-)
+// Projects live in IndexedDB, so the stored project is loaded before the first render.
+// If neither IndexedDB nor localStorage can be read, the app still starts with a
+// project kept in memory and says so, instead of leaving the page blank
+loadWorkspace()
+  .catch(async error => {
+    console.error('Failed to load the project storage', error)
+    const workspace = await loadWorkspace(createMemoryStore())
+    return { ...workspace, error: 'Speicher nicht verfügbar: Änderungen gehen beim Schließen verloren' }
+  })
+  .then(workspace => {
+    ReactDOM.createRoot(document.getElementById('root')!).render(
+      <React.StrictMode>
+        <App workspace={workspace} />
+      </React.StrictMode>,
+    )
+  })
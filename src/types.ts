@@ -1,15 +1,19 @@
 // Domänenmodell für Projekt Zeitplan
 
-export type ZoomLevel = 'week' | 'month' | 'quarter' | 'year';
+
+export type SubPackageStatus = 'open' | 'in-progress' | 'done' | 'blocked';
 
 export interface SubPackage {
   id: string;
   title: string;
   start: string; // ISO date string YYYY-MM-DD
   end: string;   // ISO date string YYYY-MM-DD
+  status: SubPackageStatus;
+  percentComplete: number; // 0–100
   category?: string; // Optional category/subtitle
   color?: string; // Color for the left bar (hex or color name)
   assignedTo?: string[]; // Array of person names/initials
+  children?: SubPackage[]; // Nested UAPs (any depth); dates and status are then rolled up from them
 }
 
 export interface WorkPackage {
@@ -27,21 +31,96 @@ export interface Milestone {
   date: string; // ISO date string
 }
 
+// Dependency types: Finish-to-Start, Start-to-Start, Finish-to-Finish, Start-to-Finish
+export type DependencyType = 'FS' | 'SS' | 'FF' | 'SF';
+
+export interface Dependency {
+  id: string;
+  fromId: string; // Predecessor UAP id
+  toId: string;   // Successor UAP id (may live in another AP)
+  type: DependencyType;
+  lag: number;    // Lag in days (negative = lead)
+}
+
+// German federal states with built-in public holiday sets
+export type GermanState =
+  | 'BW' | 'BY' | 'BE' | 'BB' | 'HB' | 'HH' | 'HE' | 'MV'
+  | 'NI' | 'NW' | 'RP' | 'SL' | 'SN' | 'ST' | 'SH' | 'TH';
+
+export interface Holiday {
+  date: string; // ISO date string
+  name: string;
+}
+
+export interface CompanyShutdown {
+  id: string;
+  name: string;
+  start: string; // ISO date string (first non-working day)
+  end: string;   // ISO date string (last non-working day)
+}
+
+export interface ProjectCalendar {
+  workingDays: number[]; // Working weekdays (0 = Sunday ... 6 = Saturday)
+  holidayRegion?: GermanState; // Built-in public holidays of this federal state
+  holidays: Holiday[]; // Additional named holidays
+  shutdowns: CompanyShutdown[]; // Company-wide closures
+}
+
 export interface ProjectSettings {
   clampUapInsideManualAp: boolean; // Clamp UAPs inside AP when AP is manual
+  calendar: ProjectCalendar;
+  statusDate?: string; // ISO date of the progress report; today if unset
+}
+
+// Planned dates of one item in a baseline (milestones: start = end = date)
+export interface BaselineDates {
+  start: string; // ISO date string
+  end: string;   // ISO date string
+}
+
+export interface Baseline {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  dates: Record<string, BaselineDates>; // Keyed by AP, UAP and milestone id
 }
 
 export interface Project {
+  schemaVersion: number; // Format version, see utils/migrations.ts
   id: string;
   name: string;
   description?: string;
   settings: ProjectSettings;
   workPackages: WorkPackage[];
   milestones: Milestone[];
+  dependencies: Dependency[];
+  baselines: Baseline[];
+  activeBaselineId?: string; // Baseline shown in timeline, tree and variance report
+}
+
+// Entry of the project library index (the project itself is stored separately)
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  updatedAt: string; // ISO timestamp of the last change
+  archived: boolean;
+}
+
+// Visible part of the timeline, remembered per project (not part of the project data)
+export interface TimelineViewport {
+  start: string;        // ISO date at the left edge of the timeline
+  dayOffset: number;    // Fraction of the start day scrolled past the edge (0–1)
+  pixelsPerDay: number; // Continuous zoom
+}
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
 }
 
 export interface Toast {
   id: string;
   message: string;
   type: 'success' | 'error' | 'info';
+  action?: ToastAction; // Optional button, e.g. "Rückgängig"
 }
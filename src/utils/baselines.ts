@@ -0,0 +1,92 @@
+// Baselines: frozen plan dates of all items and the variance against them
+
+import { Project, Baseline, BaselineDates } from '../types';
+import { daysBetween } from './dateUtils';
+import { allSubPackages } from './wbs';
+
+export type VarianceItemKind = 'ap' | 'uap' | 'ms';
+
+export interface ItemVariance {
+  id: string;
+  kind: VarianceItemKind;
+  title: string;
+  start: string;
+  end: string;
+  baseline: BaselineDates | null; // null if the item was added after the baseline
+  startVariance: number | null;   // Calendar days, positive = later than planned
+  finishVariance: number | null;
+}
+
+/**
+ * Current dates of all APs, UAPs and milestones, keyed by id
+ * (milestones use their date as start and end)
+ */
+function currentDates(project: Project): Record<string, BaselineDates> {
+  const dates: Record<string, BaselineDates> = {};
+  for (const wp of project.workPackages) {
+    dates[wp.id] = { start: wp.start, end: wp.end };
+    for (const sp of allSubPackages(wp.subPackages)) {
+      dates[sp.id] = { start: sp.start, end: sp.end };
+    }
+  }
+  for (const ms of project.milestones) {
+    dates[ms.id] = { start: ms.date, end: ms.date };
+  }
+  return dates;
+}
+
+/**
+ * Freezes the current dates of all items under a name
+ */
+export function createBaseline(project: Project, name: string, now = new Date()): Baseline {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now.toISOString(),
+    dates: currentDates(project),
+  };
+}
+
+/**
+ * Start and finish variance of every current item against a baseline,
+ * in tree order (APs with their UAPs, then milestones)
+ */
+export function computeVariances(project: Project, baseline: Baseline): ItemVariance[] {
+  const variance = (id: string, kind: VarianceItemKind, title: string, start: string, end: string): ItemVariance => {
+    const planned = baseline.dates[id] ?? null;
+    return {
+      id,
+      kind,
+      title,
+      start,
+      end,
+      baseline: planned,
+      startVariance: planned ? daysBetween(planned.start, start) : null,
+      finishVariance: planned ? daysBetween(planned.end, end) : null,
+    };
+  };
+
+  return [
+    ...project.workPackages.flatMap(wp => [
+      variance(wp.id, 'ap', wp.title, wp.start, wp.end),
+      ...allSubPackages(wp.subPackages).map(sp => variance(sp.id, 'uap', sp.title, sp.start, sp.end)),
+    ]),
+    ...project.milestones.map(ms => variance(ms.id, 'ms', ms.title, ms.date, ms.date)),
+  ];
+}
+
+/**
+ * Formats a variance in days, e.g. "+3 T", "−2 T" or "±0"
+ */
+export function formatVariance(days: number): string {
+  if (days === 0) return '±0';
+  return `${days > 0 ? '+' : '−'}${Math.abs(days)} T`;
+}
+
+/**
+ * Tailwind text color for a variance: late is red, early is green
+ */
+export function varianceColor(days: number | null): string {
+  if (days === null || days === 0) return 'text-gray-400';
+  return days > 0 ? 'text-red-600' : 'text-green-600';
+}
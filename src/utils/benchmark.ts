@@ -0,0 +1,111 @@
+// Synthetic projects for performance testing (open with ?benchmark or ?benchmark=<UAPs> in the URL)
+
+import { Project, WorkPackage, SubPackage, Dependency, Milestone, SubPackageStatus } from '../types';
+import { addDays } from './dateUtils';
+import { DEFAULT_CALENDAR } from './calendar';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { rollupAp } from './scheduling';
+
+export const BENCHMARK_SUB_PACKAGES = 2000;
+export const MAX_BENCHMARK_SUB_PACKAGES = 20000;
+const SUB_PACKAGES_PER_WORK_PACKAGE = 20;
+const WORK_PACKAGES_PER_MILESTONE = 10;
+const BENCHMARK_START = '2025-01-06'; // A Monday
+
+const COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#06B6D4'];
+const PEOPLE = ['Anna', 'Ben', 'Clara', 'David', 'Eva', 'Felix', 'Greta', 'Hannes'];
+const STATUSES: SubPackageStatus[] = ['open', 'in-progress', 'done', 'blocked'];
+
+/**
+ * Small seeded random generator (mulberry32), so every run builds the same project
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Builds a project with the given number of UAPs: APs of 20 UAPs each, chained
+ * by finish-to-start dependencies inside every AP, staggered by a week, with a
+ * milestone after every tenth AP. Ids are predictable (ap-1, uap-1-1, ...).
+ */
+export function generateBenchmarkProject(subPackageCount = BENCHMARK_SUB_PACKAGES, seed = 1): Project {
+  const random = seededRandom(seed);
+  const pick = <T>(values: T[]): T => values[Math.floor(random() * values.length)];
+
+  const workPackages: WorkPackage[] = [];
+  const dependencies: Dependency[] = [];
+  const milestones: Milestone[] = [];
+  const apCount = Math.ceil(subPackageCount / SUB_PACKAGES_PER_WORK_PACKAGE);
+
+  for (let apIndex = 0; apIndex < apCount; apIndex++) {
+    const uapCount = Math.min(SUB_PACKAGES_PER_WORK_PACKAGE, subPackageCount - apIndex * SUB_PACKAGES_PER_WORK_PACKAGE);
+    const subPackages: SubPackage[] = [];
+    let start = addDays(BENCHMARK_START, apIndex * 7);
+
+    for (let uapIndex = 0; uapIndex < uapCount; uapIndex++) {
+      const id = `uap-${apIndex + 1}-${uapIndex + 1}`;
+      const end = addDays(start, 3 + Math.floor(random() * 12));
+      const status = pick(STATUSES);
+      subPackages.push({
+        id,
+        title: `UAP ${apIndex + 1}.${uapIndex + 1}`,
+        start,
+        end,
+        status,
+        percentComplete: status === 'done' ? 100 : status === 'open' ? 0 : Math.round(random() * 90),
+        color: pick(COLORS),
+        assignedTo: random() < 0.7 ? [pick(PEOPLE)] : [],
+      });
+      if (uapIndex > 0) {
+        dependencies.push({ id: `dep-${id}`, fromId: subPackages[uapIndex - 1].id, toId: id, type: 'FS', lag: 0 });
+      }
+      start = end;
+    }
+
+    workPackages.push(
+      rollupAp({
+        id: `ap-${apIndex + 1}`,
+        title: `Arbeitspaket ${apIndex + 1}`,
+        start: BENCHMARK_START,
+        end: BENCHMARK_START,
+        mode: 'auto',
+        subPackages,
+      })
+    );
+
+    if ((apIndex + 1) % WORK_PACKAGES_PER_MILESTONE === 0) {
+      milestones.push({ id: `ms-${apIndex + 1}`, title: `Meilenstein ${milestones.length + 1}`, date: workPackages[apIndex].end });
+    }
+  }
+
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: crypto.randomUUID(),
+    name: `Benchmark (${subPackageCount} UAPs)`,
+    description: 'Automatisch erzeugtes Testprojekt',
+    settings: { clampUapInsideManualAp: true, calendar: DEFAULT_CALENDAR },
+    workPackages,
+    milestones,
+    dependencies,
+    baselines: [],
+  };
+}
+
+/**
+ * UAP count requested by the ?benchmark URL parameter (null if absent or invalid)
+ */
+export function benchmarkSizeFromUrl(search: string): number | null {
+  const params = new URLSearchParams(search);
+  if (!params.has('benchmark')) return null;
+  const value = params.get('benchmark');
+  if (!value) return BENCHMARK_SUB_PACKAGES;
+  const count = Math.round(Number(value));
+  return Number.isFinite(count) && count > 0 ? Math.min(count, MAX_BENCHMARK_SUB_PACKAGES) : null;
+}
@@ -0,0 +1,112 @@
+// Working-day calendar: weekends, holidays and company shutdowns
+
+import { ProjectCalendar } from '../types';
+import { addDays, parseIso, daysBetween } from './dateUtils';
+import { germanHolidays } from './holidays';
+
+export const DEFAULT_CALENDAR: ProjectCalendar = {
+  workingDays: [1, 2, 3, 4, 5],
+  holidays: [],
+  shutdowns: [],
+};
+
+export const WEEKDAY_LABELS = ['So', 'Mo', 'Di', 'Mi', 'Do', 'Fr', 'Sa'];
+
+// Named non-working dates per calendar (region holidays are added per year on demand)
+const lookupCache = new WeakMap<ProjectCalendar, { dates: Map<string, string>; years: Set<number> }>();
+
+function getLookup(calendar: ProjectCalendar, year: number): Map<string, string> {
+  let lookup = lookupCache.get(calendar);
+  if (!lookup) {
+    const dates = new Map<string, string>();
+    for (const shutdown of calendar.shutdowns) {
+      for (let day = shutdown.start; day <= shutdown.end; day = addDays(day, 1)) {
+        dates.set(day, shutdown.name || 'Betriebsruhe');
+      }
+    }
+    for (const holiday of calendar.holidays) {
+      dates.set(holiday.date, holiday.name);
+    }
+    lookup = { dates, years: new Set() };
+    lookupCache.set(calendar, lookup);
+  }
+
+  if (calendar.holidayRegion && !lookup.years.has(year)) {
+    lookup.years.add(year);
+    for (const holiday of germanHolidays(year, calendar.holidayRegion)) {
+      if (!lookup.dates.has(holiday.date)) lookup.dates.set(holiday.date, holiday.name);
+    }
+  }
+  return lookup.dates;
+}
+
+/**
+ * Returns why a day is not worked (weekday, holiday or shutdown name),
+ * or null for working days
+ */
+export function nonWorkingReason(iso: string, calendar: ProjectCalendar): string | null {
+  const date = parseIso(iso);
+  const named = getLookup(calendar, date.getFullYear()).get(iso);
+  if (named) return named;
+  if (!calendar.workingDays.includes(date.getDay())) return WEEKDAY_LABELS[date.getDay()];
+  return null;
+}
+
+/**
+ * Checks whether a day is a working day in the calendar
+ */
+export function isWorkingDay(iso: string, calendar: ProjectCalendar): boolean {
+  return nonWorkingReason(iso, calendar) === null;
+}
+
+/**
+ * Returns the day itself if it is a working day, otherwise the next one
+ */
+export function nextWorkingDay(iso: string, calendar: ProjectCalendar): string {
+  // Guard against calendars without any working day
+  if (calendar.workingDays.length === 0) return iso;
+  let day = iso;
+  while (!isWorkingDay(day, calendar)) day = addDays(day, 1);
+  return day;
+}
+
+/**
+ * Adds working days to an ISO date. Like addDays, the result is the date
+ * after the last counted day, so workingDaysBetween(iso, result) === days.
+ * Negative values count backwards.
+ */
+export function addWorkingDays(iso: string, days: number, calendar: ProjectCalendar): string {
+  if (calendar.workingDays.length === 0) return addDays(iso, days);
+
+  let day = iso;
+  let counted = 0;
+  if (days >= 0) {
+    while (counted < days) {
+      if (isWorkingDay(day, calendar)) counted++;
+      day = addDays(day, 1);
+    }
+  } else {
+    while (counted < -days) {
+      day = addDays(day, -1);
+      if (isWorkingDay(day, calendar)) counted++;
+    }
+  }
+  return day;
+}
+
+/**
+ * Counts working days from start (inclusive) to end (exclusive),
+ * negative if end lies before start
+ */
+export function workingDaysBetween(start: string, end: string, calendar: ProjectCalendar): number {
+  if (end < start) return -workingDaysBetween(end, start, calendar);
+
+  const total = daysBetween(start, end);
+  let count = 0;
+  let day = start;
+  for (let i = 0; i < total; i++) {
+    if (isWorkingDay(day, calendar)) count++;
+    day = addDays(day, 1);
+  }
+  return count;
+}
@@ -0,0 +1,209 @@
+// Critical path method (CPM) over UAPs, milestones and their dependencies
+
+import { WorkPackage, Milestone, Dependency, ProjectCalendar } from '../types';
+import { addDays, minDate } from './dateUtils';
+import { addWorkingDays, nextWorkingDay, workingDaysBetween } from './calendar';
+import { leafSubPackages } from './wbs';
+
+export interface ItemTiming {
+  earlyStart: string;
+  earlyFinish: string;
+  lateStart: string;
+  lateFinish: string;
+  totalFloat: number; // Working days the item can slip without moving the project end
+  isCritical: boolean;
+}
+
+export interface CriticalPathResult {
+  timings: Map<string, ItemTiming>; // Keyed by UAP or milestone id
+  criticalDependencyIds: Set<string>;
+  projectEnd: string;
+}
+
+/**
+ * Numbers the working days from the earliest date of the plan, so the passes
+ * count durations, lag and float in working days like requiredStart does,
+ * without walking the calendar again for every item
+ */
+function workingDayAxis(origin: string, calendar: ProjectCalendar) {
+  const days = [nextWorkingDay(origin, calendar)]; // days[n] is working day number n
+  const extendTo = (done: () => boolean) => {
+    while (!done()) days.push(nextWorkingDay(addDays(days[days.length - 1], 1), calendar));
+  };
+  const numbers = new Map<string, number>();
+
+  return {
+    // Working days before the date, i.e. workingDaysBetween(origin, iso)
+    toDay(iso: string): number {
+      if (iso < origin) return -workingDaysBetween(iso, origin, calendar);
+      let day = numbers.get(iso);
+      if (day === undefined) {
+        extendTo(() => days[days.length - 1] >= iso);
+        let low = 0;
+        let high = days.length - 1;
+        while (low < high) {
+          const mid = (low + high) >> 1;
+          if (days[mid] < iso) low = mid + 1;
+          else high = mid;
+        }
+        day = low;
+        numbers.set(iso, day);
+      }
+      return day;
+    },
+    // First working day with the number
+    start(day: number): string {
+      if (day < 0) return nextWorkingDay(addWorkingDays(origin, day, calendar), calendar);
+      extendTo(() => days.length > day);
+      return days[day];
+    },
+    // Exclusive end after the given number of working days, i.e. addWorkingDays(origin, day)
+    finish(day: number): string {
+      if (day <= 0) return addWorkingDays(origin, day, calendar);
+      extendTo(() => days.length >= day);
+      return addDays(days[day - 1], 1);
+    },
+  };
+}
+
+interface Node {
+  id: string;
+  start: number;
+  duration: number;
+}
+
+/**
+ * Computes early/late dates and total float for every UAP and milestone.
+ * Early dates follow the current plan but are pushed behind their
+ * predecessors where a dependency is violated. Late dates are derived
+ * backwards from the project end (latest finish of any item). Durations, lag
+ * and float are counted in working days of the calendar, as in scheduling.
+ * Items inside dependency cycles are treated as unconstrained.
+ */
+export function computeCriticalPath(
+  workPackages: WorkPackage[],
+  milestones: Milestone[],
+  dependencies: Dependency[],
+  calendar: ProjectCalendar
+): CriticalPathResult {
+  const leaves = workPackages.flatMap(ap => leafSubPackages(ap.subPackages));
+  const axis = workingDayAxis(
+    minDate([...leaves.map(uap => uap.start), ...milestones.map(ms => ms.date)]),
+    calendar
+  );
+  const toDay = axis.toDay;
+
+  const nodes = new Map<string, Node>();
+  for (const uap of leaves) {
+    nodes.set(uap.id, {
+      id: uap.id,
+      start: toDay(uap.start),
+      duration: Math.max(0, toDay(uap.end) - toDay(uap.start))
+    });
+  }
+  for (const ms of milestones) {
+    nodes.set(ms.id, { id: ms.id, start: toDay(ms.date), duration: 0 });
+  }
+
+  const deps = dependencies.filter(dep => nodes.has(dep.fromId) && nodes.has(dep.toId));
+  const incoming = new Map<string, Dependency[]>();
+  const outgoing = new Map<string, Dependency[]>();
+  for (const dep of deps) {
+    incoming.set(dep.toId, [...(incoming.get(dep.toId) ?? []), dep]);
+    outgoing.set(dep.fromId, [...(outgoing.get(dep.fromId) ?? []), dep]);
+  }
+
+  // Topological order; nodes in cycles are appended unconstrained
+  const inDegree = new Map([...nodes.keys()].map(id => [id, incoming.get(id)?.length ?? 0]));
+  const ready = [...nodes.keys()].filter(id => inDegree.get(id) === 0);
+  const order: string[] = [];
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(id);
+    for (const dep of outgoing.get(id) ?? []) {
+      inDegree.set(dep.toId, inDegree.get(dep.toId)! - 1);
+      if (inDegree.get(dep.toId) === 0) ready.push(dep.toId);
+    }
+  }
+  const ordered = new Set(order);
+  const unordered = [...nodes.keys()].filter(id => !ordered.has(id));
+
+  // Forward pass
+  const es = new Map<string, number>();
+  const ef = new Map<string, number>();
+  for (const id of order) {
+    const node = nodes.get(id)!;
+    let start = node.start;
+    for (const dep of incoming.get(id) ?? []) {
+      const predStart = es.get(dep.fromId)!;
+      const predFinish = ef.get(dep.fromId)!;
+      switch (dep.type) {
+        case 'FS': start = Math.max(start, predFinish + dep.lag); break;
+        case 'SS': start = Math.max(start, predStart + dep.lag); break;
+        case 'FF': start = Math.max(start, predFinish + dep.lag - node.duration); break;
+        case 'SF': start = Math.max(start, predStart + dep.lag - node.duration); break;
+      }
+    }
+    es.set(id, start);
+    ef.set(id, start + node.duration);
+  }
+  for (const id of unordered) {
+    const node = nodes.get(id)!;
+    es.set(id, node.start);
+    ef.set(id, node.start + node.duration);
+  }
+
+  const projectEndDay = Math.max(...[...ef.values()], 0);
+
+  // Backward pass
+  const lf = new Map<string, number>();
+  const ls = new Map<string, number>();
+  for (const id of [...order].reverse()) {
+    const node = nodes.get(id)!;
+    let finish = projectEndDay;
+    for (const dep of outgoing.get(id) ?? []) {
+      const succStart = ls.get(dep.toId)!;
+      const succFinish = lf.get(dep.toId)!;
+      switch (dep.type) {
+        case 'FS': finish = Math.min(finish, succStart - dep.lag); break;
+        case 'SS': finish = Math.min(finish, succStart - dep.lag + node.duration); break;
+        case 'FF': finish = Math.min(finish, succFinish - dep.lag); break;
+        case 'SF': finish = Math.min(finish, succFinish - dep.lag + node.duration); break;
+      }
+    }
+    lf.set(id, finish);
+    ls.set(id, finish - node.duration);
+  }
+  for (const id of unordered) {
+    lf.set(id, projectEndDay);
+    ls.set(id, projectEndDay - nodes.get(id)!.duration);
+  }
+
+  // Items without working days (milestones) finish on their start day
+  const finishOf = (start: number, finish: number) => (finish > start ? axis.finish(finish) : axis.start(start));
+  const timings = new Map<string, ItemTiming>();
+  for (const id of nodes.keys()) {
+    const totalFloat = ls.get(id)! - es.get(id)!;
+    timings.set(id, {
+      earlyStart: axis.start(es.get(id)!),
+      earlyFinish: finishOf(es.get(id)!, ef.get(id)!),
+      lateStart: axis.start(ls.get(id)!),
+      lateFinish: finishOf(ls.get(id)!, lf.get(id)!),
+      totalFloat,
+      isCritical: totalFloat <= 0
+    });
+  }
+
+  // A dependency is critical if it connects two critical items without slack
+  const criticalDependencyIds = new Set<string>();
+  for (const dep of deps) {
+    if (!timings.get(dep.fromId)!.isCritical || !timings.get(dep.toId)!.isCritical) continue;
+    const predDay = dep.type[0] === 'F' ? ef.get(dep.fromId)! : es.get(dep.fromId)!;
+    const succDay = dep.type[1] === 'F' ? ef.get(dep.toId)! : es.get(dep.toId)!;
+    if (succDay - (predDay + dep.lag) <= 0) {
+      criticalDependencyIds.add(dep.id);
+    }
+  }
+
+  return { timings, criticalDependencyIds, projectEnd: axis.finish(projectEndDay) };
+}
@@ -0,0 +1,470 @@
+// Flat CSV/TSV export of all items and import with column mapping, merged into the project
+
+import { Project, WorkPackage, SubPackage, Milestone } from '../types';
+import { rollupAp } from './scheduling';
+import { allSubPackages, isSummary, rollupSubPackages } from './wbs';
+import { isIsoDate } from './schema';
+
+export type CsvField = 'id' | 'parent' | 'kind' | 'title' | 'start' | 'end' | 'category' | 'color' | 'assignees';
+
+// Column of each field (null = not imported)
+export type CsvMapping = Record<CsvField, number | null>;
+
+export type CsvItemKind = 'ap' | 'uap' | 'ms';
+
+// Export column order; also the default mapping of files without a header
+export const CSV_FIELDS: CsvField[] = ['id', 'parent', 'kind', 'title', 'start', 'end', 'category', 'color', 'assignees'];
+
+export const CSV_FIELD_LABELS: Record<CsvField, string> = {
+  id: 'ID',
+  parent: 'Übergeordnet',
+  kind: 'Typ',
+  title: 'Titel',
+  start: 'Start',
+  end: 'Ende',
+  category: 'Kategorie',
+  color: 'Farbe',
+  assignees: 'Zuständig',
+};
+
+// Header names recognized per field (lower case)
+const FIELD_ALIASES: Record<CsvField, string[]> = {
+  id: ['id', 'nr', 'nr.', 'nummer'],
+  parent: ['übergeordnet', 'oberelement', 'parent', 'eltern', 'übergeordnete id'],
+  kind: ['typ', 'art', 'type', 'kind'],
+  title: ['titel', 'name', 'title', 'vorgang', 'vorgangsname', 'bezeichnung'],
+  start: ['start', 'anfang', 'beginn', 'startdatum'],
+  end: ['ende', 'end', 'finish', 'enddatum'],
+  category: ['kategorie', 'category'],
+  color: ['farbe', 'color'],
+  assignees: ['zuständig', 'zugewiesen', 'personen', 'ressourcen', 'verantwortlich', 'assignees'],
+};
+
+export const CSV_KIND_LABELS: Record<CsvItemKind, string> = { ap: 'AP', uap: 'UAP', ms: 'MS' };
+
+const KIND_ALIASES: Record<string, CsvItemKind> = {
+  ap: 'ap',
+  arbeitspaket: 'ap',
+  uap: 'uap',
+  unterarbeitspaket: 'uap',
+  ms: 'ms',
+  meilenstein: 'ms',
+  milestone: 'ms',
+};
+
+export const DATE_FORMATS = ['yyyy-MM-dd', 'dd.MM.yyyy', 'dd.MM.yy', 'dd/MM/yyyy', 'MM/dd/yyyy'];
+
+// Placeholders of DATE_FORMATS
+const DATE_TOKENS: Record<string, { name: string; pattern: string }> = {
+  yyyy: { name: 'year', pattern: '(\\d{4})' },
+  yy: { name: 'shortYear', pattern: '(\\d{2})' },
+  MM: { name: 'month', pattern: '(\\d{1,2})' },
+  dd: { name: 'day', pattern: '(\\d{1,2})' },
+};
+
+// Spreadsheets run cells starting with these characters as formulas
+const FORMULA_START = /^[=+\-@]/;
+
+/**
+ * Cell for a delimited file: quoted if needed, formulas defused with a leading apostrophe
+ */
+function formatCell(value: string, delimiter: string): string {
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Flat table of all APs, UAPs (any depth, parent = id of the AP or UAP above)
+ * and milestones with a header row. Semicolons and a byte order mark let
+ * Excel open the file directly.
+ */
+export function exportToCsv(project: Project, delimiter = ';'): string {
+  const rows: string[][] = [CSV_FIELDS.map(field => CSV_FIELD_LABELS[field])];
+  const addSubPackages = (subPackages: SubPackage[], parentId: string) => {
+    for (const sp of subPackages) {
+      rows.push([sp.id, parentId, CSV_KIND_LABELS.uap, sp.title, sp.start, sp.end, sp.category ?? '', sp.color ?? '', (sp.assignedTo ?? []).join(', ')]);
+      addSubPackages(sp.children ?? [], sp.id);
+    }
+  };
+  for (const wp of project.workPackages) {
+    rows.push([wp.id, '', CSV_KIND_LABELS.ap, wp.title, wp.start, wp.end, '', '', '']);
+    addSubPackages(wp.subPackages, wp.id);
+  }
+  for (const ms of project.milestones) {
+    rows.push([ms.id, '', CSV_KIND_LABELS.ms, ms.title, ms.date, ms.date, '', '', '']);
+  }
+  return '\uFEFF' + rows.map(row => row.map(cell => formatCell(cell, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+}
+
+/**
+ * Most frequent of tab, semicolon and comma in the first line (outside quotes)
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.replace(/"[^"]*"/g, '').split(/\r?\n/)[0] ?? '';
+  const counts = ['\t', ';', ','].map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }));
+  return counts.reduce((best, entry) => (entry.count > best.count ? entry : best)).delimiter;
+}
+
+/**
+ * Splits delimited text into rows of cells (quotes with doubled quotes inside,
+ * line breaks within quotes). Empty lines are dropped.
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Reads a date in one of DATE_FORMATS (day and month may lack leading
+ * zeros; two-digit years are 20xx). Null if it does not match.
+ */
+export function parseDateWithFormat(value: string, format: string): string | null {
+  const order: string[] = [];
+  const pattern = format.replace(/yyyy|yy|MM|dd|[.*+?^${}()|[\]\\/]/g, token => {
+    const part = DATE_TOKENS[token];
+    if (!part) return `\\${token}`;
+    order.push(part.name);
+    return part.pattern;
+  });
+  const match = new RegExp(`^${pattern}$`).exec(value.trim());
+  if (!match) return null;
+
+  const parts: Record<string, string> = {};
+  order.forEach((part, index) => (parts[part] = match[index + 1]));
+  const year = parts.year ?? `20${parts.shortYear}`;
+  const iso = `${year}-${parts.month.padStart(2, '0')}-${parts.day.padStart(2, '0')}`;
+  return isIsoDate(iso) ? iso : null;
+}
+
+/**
+ * First date format that reads all sample values (the first one if none does)
+ */
+export function guessDateFormat(values: string[]): string {
+  const samples = values.map(value => value.trim()).filter(value => value !== '').slice(0, 50);
+  return DATE_FORMATS.find(format => samples.every(value => parseDateWithFormat(value, format))) ?? DATE_FORMATS[0];
+}
+
+/**
+ * Whether the first row looks like a header (at least one known column name)
+ */
+export function looksLikeHeader(row: string[]): boolean {
+  return row.some(cell => CSV_FIELDS.some(field => FIELD_ALIASES[field].includes(cell.trim().toLowerCase())));
+}
+
+/**
+ * Columns by header name, or in export order for files without a header
+ */
+export function guessMapping(firstRow: string[], hasHeader: boolean): CsvMapping {
+  const mapping = {} as CsvMapping;
+  for (const [index, field] of CSV_FIELDS.entries()) {
+    if (hasHeader) {
+      const column = firstRow.findIndex(cell => FIELD_ALIASES[field].includes(cell.trim().toLowerCase()));
+      mapping[field] = column === -1 ? null : column;
+    } else {
+      mapping[field] = index < firstRow.length ? index : null;
+    }
+  }
+  return mapping;
+}
+
+export interface CsvRow {
+  line: number; // Line in the table (1-based, header included)
+  kind: CsvItemKind;
+  id: string; // From the file, or generated
+  parentId: string | null;
+  existing: boolean; // Updates an item of the project
+  title: string;
+  start: string; // ISO date, '' if empty
+  end: string;
+  category?: string; // undefined = column not imported, '' = clear
+  color?: string;
+  assignees?: string[];
+  errors: string[]; // Rows with errors are not imported
+}
+
+export interface CsvReadOptions {
+  mapping: CsvMapping;
+  dateFormat: string;
+  hasHeader: boolean;
+}
+
+/**
+ * Reads and validates table rows against the project. Existing ids update
+ * their item, new ids create one below their parent (an AP or UAP of the
+ * project or of the file). Errors of a parent row carry over to its children.
+ */
+export function readCsvRows(table: string[][], options: CsvReadOptions, project: Project): CsvRow[] {
+  const { mapping, dateFormat, hasHeader } = options;
+  const cell = (row: string[], field: CsvField) => {
+    const column = mapping[field];
+    const value = column === null ? '' : (row[column] ?? '').trim();
+    // Apostrophe that defuses a formula (see formatCell)
+    return value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+  };
+  const optional = (row: string[], field: CsvField) => (mapping[field] === null ? undefined : cell(row, field));
+
+  const projectItems = new Map<string, { kind: CsvItemKind; start: string; end: string }>();
+  for (const wp of project.workPackages) {
+    projectItems.set(wp.id, { kind: 'ap', start: wp.start, end: wp.end });
+    for (const sp of allSubPackages(wp.subPackages)) projectItems.set(sp.id, { kind: 'uap', start: sp.start, end: sp.end });
+  }
+  for (const ms of project.milestones) projectItems.set(ms.id, { kind: 'ms', start: ms.date, end: ms.date });
+
+  const dataRows = hasHeader ? table.slice(1) : table;
+  const parentIds = new Set(dataRows.map(row => cell(row, 'parent')));
+  const rows: CsvRow[] = dataRows.map((row, index) => {
+    const errors: string[] = [];
+    const id = cell(row, 'id');
+    const parentId = cell(row, 'parent') || null;
+    const existing = id ? projectItems.get(id) : undefined;
+    const existingKind = existing?.kind;
+    const kindText = cell(row, 'kind').toLowerCase();
+
+    let kind: CsvItemKind;
+    if (kindText) {
+      kind = KIND_ALIASES[kindText] ?? 'uap';
+      if (!KIND_ALIASES[kindText]) errors.push(`Unbekannter Typ „${cell(row, 'kind')}“ (AP, UAP oder MS)`);
+    } else {
+      // Without a type: top-level rows with children or a time span are APs, the others milestones
+      const span = cell(row, 'end') !== '' && cell(row, 'end') !== cell(row, 'start');
+      kind = existingKind ?? (parentId ? 'uap' : (id && parentIds.has(id)) || span ? 'ap' : 'ms');
+    }
+    if (existingKind && existingKind !== kind) {
+      errors.push(`ID „${id}“ gehört im Projekt zu einem ${CSV_KIND_LABELS[existingKind]}`);
+    }
+
+    const date = (field: 'start' | 'end') => {
+      const value = cell(row, field);
+      if (!value) return '';
+      const iso = parseDateWithFormat(value, dateFormat);
+      if (!iso) errors.push(`${CSV_FIELD_LABELS[field]} „${value}“ passt nicht zu ${dateFormat}`);
+      return iso ?? '';
+    };
+    const start = date('start');
+    const end = date('end');
+    // Empty dates keep the values of existing items
+    const rangeStart = start || existing?.start;
+    const rangeEnd = end || existing?.end;
+    if (kind !== 'ms' && rangeStart && rangeEnd && rangeEnd < rangeStart) errors.push('Ende liegt vor Start');
+
+    const color = optional(row, 'color');
+    if (color && !/^#[0-9a-fA-F]{6}$/.test(color)) errors.push(`Farbe „${color}“ ist kein Hex-Wert wie #3B82F6`);
+    const assignees = optional(row, 'assignees');
+
+    return {
+      line: index + (hasHeader ? 2 : 1),
+      kind,
+      id: id || crypto.randomUUID(),
+      parentId,
+      existing: existingKind !== undefined,
+      title: cell(row, 'title'),
+      start,
+      end,
+      category: optional(row, 'category'),
+      color,
+      assignees: assignees === undefined ? undefined : assignees.split(/[,;]/).map(name => name.trim()).filter(Boolean),
+      errors,
+    };
+  });
+
+  // Checks that need all rows: duplicates, parents, required values of new items
+  const fileRows = new Map<string, CsvRow>();
+  for (const row of rows) {
+    if (fileRows.has(row.id)) row.errors.push(`ID „${row.id}“ kommt mehrfach vor (Zeile ${fileRows.get(row.id)!.line})`);
+    else fileRows.set(row.id, row);
+  }
+  for (const row of rows) {
+    if (row.existing) continue; // Existing items keep their place; empty cells keep their values
+    if (!row.title) row.errors.push('Titel fehlt');
+    if (row.kind === 'uap') {
+      const parentKind = row.parentId && (projectItems.get(row.parentId)?.kind ?? fileRows.get(row.parentId)?.kind);
+      if (!row.parentId) row.errors.push('UAP ohne übergeordnetes Element');
+      else if (!parentKind) row.errors.push(`Übergeordnetes Element „${row.parentId}“ nicht gefunden`);
+      else if (parentKind === 'ms') row.errors.push('Ein Meilenstein kann keine UAPs enthalten');
+    } else if (row.parentId) {
+      row.errors.push(`${row.kind === 'ap' ? 'Ein AP' : 'Ein Meilenstein'} steht auf oberster Ebene`);
+    }
+    if (row.kind === 'ms' && !row.start && !row.end) row.errors.push('Datum fehlt');
+  }
+  for (const row of rows) {
+    const seen = new Set([row.id]);
+    for (let parent = row.parentId ? fileRows.get(row.parentId) : undefined; parent && !parent.existing; ) {
+      if (seen.has(parent.id)) {
+        if (row.errors.length === 0) row.errors.push('Zirkuläre Zuordnung der übergeordneten Elemente');
+        break;
+      }
+      seen.add(parent.id);
+      parent = parent.parentId ? fileRows.get(parent.parentId) : undefined;
+    }
+  }
+
+  // Until nothing changes: children of faulty parent rows cannot be placed, and new
+  // APs and UAPs without dates need children to roll them up from
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const row of rows) {
+      if (row.existing || row.errors.length > 0) continue;
+      const parent = row.parentId ? fileRows.get(row.parentId) : undefined;
+      if (parent && !parent.existing && parent.errors.length > 0) {
+        row.errors.push(`Übergeordnete Zeile ${parent.line} hat Fehler`);
+        changed = true;
+      } else if (
+        row.kind !== 'ms' &&
+        (!row.start || !row.end) &&
+        !rows.some(child => child.parentId === row.id && child.errors.length === 0)
+      ) {
+        row.errors.push('Start und Ende erforderlich');
+        changed = true;
+      }
+    }
+  }
+
+  return rows;
+}
+
+export interface CsvMergeResult {
+  project: Project;
+  added: number;
+  updated: number;
+  changedIds: string[]; // UAPs with new or changed dates (for scheduling)
+}
+
+/**
+ * Merges the rows without errors into the project: existing items get the
+ * imported values (dates only where they are not rolled up), new items are
+ * appended below their parent. UAPs that gain children lose their dependencies
+ * like on indenting.
+ */
+export function mergeCsvRows(project: Project, rows: CsvRow[]): CsvMergeResult {
+  const valid = rows.filter(row => row.errors.length === 0);
+  const updates = new Map(valid.filter(row => row.existing).map(row => [row.id, row]));
+  const added = valid.filter(row => !row.existing);
+  const changedIds: string[] = [];
+  const newSummaries = new Set<string>();
+
+  const details = (row: CsvRow) => ({
+    ...(row.category !== undefined && { category: row.category || undefined }),
+    ...(row.color !== undefined && { color: row.color || undefined }),
+    ...(row.assignees !== undefined && { assignedTo: row.assignees }),
+  });
+
+  const buildSubPackage = (row: CsvRow): SubPackage => {
+    const children = added.filter(child => child.kind === 'uap' && child.parentId === row.id).map(buildSubPackage);
+    if (children.length === 0) changedIds.push(row.id);
+    return {
+      id: row.id,
+      title: row.title,
+      start: row.start || row.end,
+      end: row.end || row.start,
+      status: 'open',
+      percentComplete: 0,
+      assignedTo: [],
+      ...details(row),
+      ...(children.length > 0 && { children }),
+    };
+  };
+  const newChildren = (parentId: string) =>
+    added.filter(row => row.kind === 'uap' && row.parentId === parentId).map(buildSubPackage);
+
+  const mergeSubPackages = (subPackages: SubPackage[], parentId: string): SubPackage[] => [
+    ...subPackages.map(sp => {
+      const row = updates.get(sp.id);
+      const children = mergeSubPackages(sp.children ?? [], sp.id);
+      let next: SubPackage = row ? { ...sp, title: row.title || sp.title, ...details(row) } : sp;
+      if (row && !isSummary(sp) && (row.start || row.end)) {
+        next = { ...next, start: row.start || sp.start, end: row.end || sp.end };
+        changedIds.push(sp.id);
+      }
+      if (children.length === 0) return next;
+      if (!isSummary(sp)) newSummaries.add(sp.id);
+      return { ...next, children };
+    }),
+    ...newChildren(parentId),
+  ];
+
+  const rollup = (wp: WorkPackage): WorkPackage =>
+    wp.mode === 'auto' ? rollupAp(wp) : { ...wp, subPackages: rollupSubPackages(wp.subPackages) };
+
+  const workPackages = [
+    ...project.workPackages.map(wp => {
+      const row = updates.get(wp.id);
+      const subPackages = mergeSubPackages(wp.subPackages, wp.id);
+      return rollup({
+        ...wp,
+        ...(row && { title: row.title || wp.title, start: row.start || wp.start, end: row.end || wp.end }),
+        subPackages,
+      });
+    }),
+    ...added
+      .filter(row => row.kind === 'ap')
+      .map(row => {
+        const subPackages = newChildren(row.id);
+        return rollup({
+          id: row.id,
+          title: row.title,
+          start: row.start,
+          end: row.end,
+          mode: subPackages.length > 0 ? 'auto' : 'manual',
+          subPackages,
+        });
+      }),
+  ];
+
+  const milestones: Milestone[] = [
+    ...project.milestones.map(ms => {
+      const row = updates.get(ms.id);
+      return row ? { ...ms, title: row.title || ms.title, date: row.start || row.end || ms.date } : ms;
+    }),
+    ...added.filter(row => row.kind === 'ms').map(row => ({ id: row.id, title: row.title, date: row.start || row.end })),
+  ];
+
+  return {
+    project: {
+      ...project,
+      workPackages,
+      milestones,
+      dependencies: project.dependencies.filter(dep => !newSummaries.has(dep.fromId) && !newSummaries.has(dep.toId)),
+    },
+    added: added.length,
+    updated: updates.size,
+    changedIds,
+  };
+}
@@ -14,10 +14,14 @@ export function clampIso(date: string): string {
 }
 
 /**
- * Converts a date to ISO string (YYYY-MM-DD)
+ * Converts a date to ISO string (YYYY-MM-DD) using the local calendar day,
+ * so it round-trips with parseIso in every time zone
  */
 export function toIso(date: Date): string {
-  return date.toISOString().split('T')[0];
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
 }
 
 /**
@@ -73,12 +77,20 @@ export function snapToDay(iso: string): string {
  * Formats a date for display (e.g., "15. Jan 2024")
  */
 export function formatDate(iso: string, locale = 'de-DE'): string {
-  const date = parseIso(iso);
-  return date.toLocaleDateString(locale, {
-    day: 'numeric',
-    month: 'short',
-    year: 'numeric'
-  });
+  return dateFormatter(locale).format(parseIso(iso));
+}
+
+// Creating a formatter is expensive (toLocaleDateString does it on every call),
+// which matters when thousands of bars are labelled
+const dateFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function dateFormatter(locale: string): Intl.DateTimeFormat {
+  let formatter = dateFormatters.get(locale);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(locale, { day: 'numeric', month: 'short', year: 'numeric' });
+    dateFormatters.set(locale, formatter);
+  }
+  return formatter;
 }
 
 /**
@@ -87,3 +99,16 @@ export function formatDate(iso: string, locale = 'de-DE'): string {
 export function formatDateRange(start: string, end: string, locale = 'de-DE'): string {
   return `${formatDate(start, locale)} - ${formatDate(end, locale)}`;
 }
+
+/**
+ * Formats a timestamp (e.g. Date.toISOString()) with date and time for display
+ */
+export function formatTimestamp(timestamp: string, locale = 'de-DE'): string {
+  return new Date(timestamp).toLocaleString(locale, {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
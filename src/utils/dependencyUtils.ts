@@ -0,0 +1,91 @@
+// Dependency utilities: type mapping, validation and connector routing
+
+import { Dependency, DependencyType } from '../types';
+
+export type DependencySide = 'start' | 'end';
+
+export const DEPENDENCY_LABELS: Record<DependencyType, string> = {
+  FS: 'Ende → Anfang',
+  SS: 'Anfang → Anfang',
+  FF: 'Ende → Ende',
+  SF: 'Anfang → Ende',
+};
+
+/**
+ * Derives the dependency type from the bar edges that were connected
+ * (e.g. end of predecessor → start of successor = FS)
+ */
+export function dependencyTypeFromSides(fromSide: DependencySide, toSide: DependencySide): DependencyType {
+  const from = fromSide === 'end' ? 'F' : 'S';
+  const to = toSide === 'end' ? 'F' : 'S';
+  return `${from}${to}` as DependencyType;
+}
+
+/**
+ * Returns the bar edges a dependency type is attached to
+ */
+export function sidesFromDependencyType(type: DependencyType): { fromSide: DependencySide; toSide: DependencySide } {
+  return {
+    fromSide: type[0] === 'F' ? 'end' : 'start',
+    toSide: type[1] === 'F' ? 'end' : 'start',
+  };
+}
+
+/**
+ * Validates a new dependency against the existing ones.
+ * Returns an error message or null if the dependency may be added.
+ */
+export function validateDependency(
+  dependencies: Dependency[],
+  fromId: string,
+  toId: string
+): string | null {
+  if (fromId === toId) {
+    return 'Ein UAP kann nicht von sich selbst abhängen';
+  }
+  const duplicate = dependencies.some(
+    dep =>
+      (dep.fromId === fromId && dep.toId === toId) ||
+      (dep.fromId === toId && dep.toId === fromId)
+  );
+  if (duplicate) {
+    return 'Zwischen diesen UAPs besteht bereits eine Abhängigkeit';
+  }
+  return null;
+}
+
+/**
+ * Removes all dependencies that reference one of the given UAP ids
+ */
+export function removeDependenciesFor(dependencies: Dependency[], uapIds: string[]): Dependency[] {
+  const ids = new Set(uapIds);
+  return dependencies.filter(dep => !ids.has(dep.fromId) && !ids.has(dep.toId));
+}
+
+// Horizontal distance a connector keeps from the bar edge before turning
+const CONNECTOR_GAP = 12;
+
+/**
+ * Builds an orthogonal SVG path between two bar edges.
+ * The connector leaves the predecessor away from its bar and enters the
+ * successor from outside, so the arrow head always points at the edge.
+ */
+export function routeDependencyPath(
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  fromSide: DependencySide,
+  toSide: DependencySide
+): string {
+  const exitX = from.x + (fromSide === 'end' ? CONNECTOR_GAP : -CONNECTOR_GAP);
+  const entryX = to.x + (toSide === 'start' ? -CONNECTOR_GAP : CONNECTOR_GAP);
+
+  // Enough room for a single vertical segment at the exit point
+  const hasRoom = toSide === 'start' ? exitX <= entryX : exitX >= entryX;
+  if (hasRoom) {
+    return `M ${from.x} ${from.y} H ${exitX} V ${to.y} H ${to.x}`;
+  }
+
+  // Otherwise detour between the two rows
+  const midY = from.y === to.y ? from.y + 20 : (from.y + to.y) / 2;
+  return `M ${from.x} ${from.y} H ${exitX} V ${midY} H ${entryX} V ${to.y} H ${to.x}`;
+}
@@ -2,11 +2,105 @@
 
 import { WorkPackage, SubPackage, Project } from '../types';
 import { minDate, maxDate, clampIso, snapToDay } from './dateUtils';
+import { scheduleForward } from './scheduling';
+import { computeCriticalPath } from './criticalPath';
+import { DEFAULT_CALENDAR, addWorkingDays, workingDaysBetween, isWorkingDay } from './calendar';
+import { easterSunday, germanHolidays } from './holidays';
+import { HistoryState, HISTORY_LIMIT, pushHistory, undoHistory, redoHistory } from './history';
+import { dependencyTypeFromSides, sidesFromDependencyType, validateDependency } from './dependencyUtils';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { analyzeProjectJson, validateProject, formatIssue } from './schema';
+import { analyzeMspdi, exportToMspdi } from './mspdi';
+import { exportToXlsx, xlsxEntries } from './xlsx';
+import { crc32 } from './zip';
+import { exportToIcs, analyzeIcs, mergeIcsEvents } from './ics';
+import { createTimelinePdf, pdfLayout } from './pdfUtils';
+import { fitText, textWidth } from './pdfWriter';
+import { XmlElement, parseXml, childElement, childElements } from './xml';
+import {
+  exportToCsv,
+  detectDelimiter,
+  parseDelimited,
+  parseDateWithFormat,
+  guessDateFormat,
+  guessMapping,
+  looksLikeHeader,
+  readCsvRows,
+  mergeCsvRows
+} from './csv';
+import {
+  LEGACY_STORAGE_KEY,
+  loadLibrary,
+  readStoredProject,
+  saveProject,
+  updateProjectMeta,
+  deleteStoredProject,
+  getLastOpenedId
+} from './projectLibrary';
+import { createMemoryStore, migrateStore } from './storage';
+import {
+  KEEP_RECENT_SNAPSHOTS,
+  SNAPSHOT_INTERVAL_MS,
+  selectExpiredSnapshots,
+  createAutoSnapshotIfDue,
+  listSnapshots,
+  diffProjects,
+  summarizeDiff
+} from './snapshots';
+import { createBaseline, computeVariances, formatVariance } from './baselines';
+import { syncProgress, weightedProgress } from './progress';
+import { defaultViewport, loadViewport, saveViewport } from './viewport';
+import {
+  DEFAULT_PIXELS_PER_DAY,
+  MAX_PIXELS_PER_DAY,
+  tickUnitFor,
+  unitTicks,
+  formatTickLabel,
+  zoomViewport,
+  fitViewport,
+  dateOffsetPx,
+  snapUnitFor,
+  snapDate,
+  dragRange,
+  pinchViewport,
+} from './timeScale';
+import {
+  BASE_ROW_HEIGHT,
+  computeRowLayout,
+  visibleRowRange,
+  uapTop,
+  apLine,
+  uapLine,
+  milestoneLine,
+  milestoneTop,
+} from './timelineLayout';
+import { generateBenchmarkProject } from './benchmark';
+import {
+  EMPTY_SELECTION,
+  orderedItemIds,
+  selectItem,
+  shiftItems,
+  assignPerson,
+  deleteItems,
+  copySubPackages,
+  pasteSubPackages,
+} from './selection';
+import {
+  allSubPackages,
+  leafSubPackages,
+  rollupStatus,
+  wbsCodes,
+  outermostIds,
+  indentItem,
+  outdentItem,
+  moveTreeItem,
+  moveTreeItemBy,
+} from './wbs';
 
 /**
  * Runs all development checks once on app load
  */
-export function runDevChecks(): void {
+export async function runDevChecks(): Promise<void> {
   console.log('🔍 Running dev checks...');
 
   check1_RollupApCalculation();
@@ -15,6 +109,31 @@ export function runDevChecks(): void {
   check4_DragResizeSnapping();
   check5_JsonRoundtrip();
   check6_PdfExportBlob();
+  check7_DependencyTypes();
+  check8_ForwardScheduling();
+  check9_CriticalPath();
+  check10_WorkingDayCalendar();
+  check11_UndoRedoHistory();
+  check12_SchemaMigrationAndValidation();
+  await check13_ProjectLibrary();
+  await check14_Snapshots();
+  check15_Baselines();
+  check16_Progress();
+  await check17_Viewport();
+  await check18_TimeScale();
+  check19_DragSnapping();
+  check20_Selection();
+  check21_PinchZoom();
+  check22_Virtualization();
+  check23_GridLayout();
+  check24_Wbs();
+  check25_TreeReorder();
+  check26_Mspdi();
+  check27_Csv();
+  check28_Xlsx();
+  check29_Ics();
+  check30_VectorPdf();
+  check31_CriticalPathWorkingDays();
 
   console.log('✅ Dev-Tests OK');
 }
@@ -24,9 +143,9 @@ export function runDevChecks(): void {
  */
 function check1_RollupApCalculation() {
   const subPackages: SubPackage[] = [
-    { id: '1', title: 'UAP 1', start: '2024-01-10', end: '2024-01-20' },
-    { id: '2', title: 'UAP 2', start: '2024-01-05', end: '2024-01-15' },
-    { id: '3', title: 'UAP 3', start: '2024-01-12', end: '2024-01-25' },
+    { id: '1', title: 'UAP 1', start: '2024-01-10', end: '2024-01-20', status: 'open', percentComplete: 0 },
+    { id: '2', title: 'UAP 2', start: '2024-01-05', end: '2024-01-15', status: 'open', percentComplete: 0 },
+    { id: '3', title: 'UAP 3', start: '2024-01-12', end: '2024-01-25', status: 'open', percentComplete: 0 },
   ];
 
   const expectedStart = '2024-01-05'; // min
@@ -54,7 +173,7 @@ function check2_ApDateReadOnly() {
     end: '2024-01-31',
     mode: 'auto',
     subPackages: [
-      { id: '1', title: 'UAP', start: '2024-01-10', end: '2024-01-20' }
+      { id: '1', title: 'UAP', start: '2024-01-10', end: '2024-01-20', status: 'open', percentComplete: 0 }
     ]
   };
 
@@ -132,11 +251,13 @@ function check4_DragResizeSnapping() {
  */
 function check5_JsonRoundtrip() {
   const originalProject: Project = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     id: '1',
     name: 'Test Project',
     description: 'Test Description',
     settings: {
-      clampUapInsideManualAp: true
+      clampUapInsideManualAp: true,
+      calendar: DEFAULT_CALENDAR
     },
     workPackages: [
       {
@@ -146,13 +267,15 @@ function check5_JsonRoundtrip() {
         end: '2024-01-31',
         mode: 'manual',
         subPackages: [
-          { id: '1', title: 'UAP 1', start: '2024-01-10', end: '2024-01-20' }
+          { id: '1', title: 'UAP 1', start: '2024-01-10', end: '2024-01-20', status: 'open', percentComplete: 0 }
         ]
       }
     ],
     milestones: [
       { id: '1', title: 'MS 1', date: '2024-01-15' }
-    ]
+    ],
+    dependencies: [],
+    baselines: []
   };
 
   // Export to JSON
@@ -193,3 +316,1670 @@ function check6_PdfExportBlob() {
     { type: blob.type, size: blob.size }
   );
 }
+
+/**
+ * Check 7: Dependency edges map to types and back, invalid links are rejected
+ */
+function check7_DependencyTypes() {
+  const type = dependencyTypeFromSides('end', 'start');
+  const sides = sidesFromDependencyType('SF');
+
+  console.assert(
+    type === 'FS' && sides.fromSide === 'start' && sides.toSide === 'end',
+    'Check 7 failed: dependency type mapping',
+    { type, sides }
+  );
+
+  const existing = [{ id: 'd1', fromId: 'a', toId: 'b', type: 'FS' as const, lag: 0 }];
+  console.assert(
+    validateDependency(existing, 'a', 'a') !== null &&
+      validateDependency(existing, 'b', 'a') !== null &&
+      validateDependency(existing, 'b', 'c') === null,
+    'Check 7 failed: dependency validation'
+  );
+}
+
+/**
+ * Check 8: Scheduling pushes successors (incl. lag) and reports cycles
+ */
+function check8_ForwardScheduling() {
+  const project: Project = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: '1',
+    name: 'Scheduling',
+    // Seven-day week keeps the expected dates in calendar days
+    settings: {
+      clampUapInsideManualAp: false,
+      calendar: { workingDays: [0, 1, 2, 3, 4, 5, 6], holidays: [], shutdowns: [] }
+    },
+    workPackages: [
+      {
+        id: 'ap1',
+        title: 'AP 1',
+        start: '2024-01-01',
+        end: '2024-01-10',
+        mode: 'auto',
+        subPackages: [{ id: 'a', title: 'A', start: '2024-01-01', end: '2024-01-10', status: 'open', percentComplete: 0 }]
+      },
+      {
+        id: 'ap2',
+        title: 'AP 2',
+        start: '2024-01-05',
+        end: '2024-01-08',
+        mode: 'auto',
+        subPackages: [{ id: 'b', title: 'B', start: '2024-01-05', end: '2024-01-08', status: 'open', percentComplete: 0 }]
+      }
+    ],
+    milestones: [],
+    dependencies: [{ id: 'd1', fromId: 'a', toId: 'b', type: 'FS', lag: 2 }],
+    baselines: []
+  };
+
+  const result = scheduleForward(project, ['a']);
+  const b = result.project.workPackages[1];
+
+  console.assert(
+    result.shiftedIds.length === 1 &&
+      b.subPackages[0].start === '2024-01-12' &&
+      b.subPackages[0].end === '2024-01-15' &&
+      b.start === '2024-01-12',
+    'Check 8 failed: successor should be pushed behind predecessor + lag',
+    { result }
+  );
+
+  const cyclic: Project = {
+    ...project,
+    dependencies: [
+      ...project.dependencies,
+      { id: 'd2', fromId: 'b', toId: 'a', type: 'SS', lag: 0 }
+    ]
+  };
+  const cycleResult = scheduleForward(cyclic, ['a']);
+  console.assert(
+    cycleResult.cycles.length === 1 && cycleResult.shiftedIds.length === 0,
+    'Check 8 failed: cycles should be reported, not scheduled',
+    { cycleResult }
+  );
+}
+
+/**
+ * Check 9: Critical path marks the driving chain, float of parallel work
+ */
+function check9_CriticalPath() {
+  const workPackages: WorkPackage[] = [
+    {
+      id: 'ap1',
+      title: 'AP 1',
+      start: '2024-01-01',
+      end: '2024-01-20',
+      mode: 'auto',
+      subPackages: [
+        { id: 'a', title: 'A', start: '2024-01-01', end: '2024-01-10', status: 'open', percentComplete: 0 },
+        { id: 'b', title: 'B', start: '2024-01-10', end: '2024-01-20', status: 'open', percentComplete: 0 },
+        { id: 'c', title: 'C', start: '2024-01-01', end: '2024-01-05', status: 'open', percentComplete: 0 }
+      ]
+    }
+  ];
+  const milestones = [{ id: 'm', title: 'Ende', date: '2024-01-20' }];
+  const dependencies = [{ id: 'd1', fromId: 'a', toId: 'b', type: 'FS' as const, lag: 0 }];
+
+  const result = computeCriticalPath(workPackages, milestones, dependencies, DEFAULT_CALENDAR);
+  const c = result.timings.get('c');
+
+  console.assert(
+    result.projectEnd === '2024-01-20' &&
+      result.timings.get('a')?.isCritical === true &&
+      result.timings.get('b')?.isCritical === true &&
+      result.timings.get('m')?.isCritical === true &&
+      c?.isCritical === false &&
+      c?.totalFloat === 11 && // Working days: Fri 2024-01-05 up to and incl. Fri 2024-01-19
+      c?.lateFinish === '2024-01-20' &&
+      result.criticalDependencyIds.has('d1'),
+    'Check 9 failed: critical path / total float',
+    { timings: [...result.timings.entries()] }
+  );
+}
+
+/**
+ * Check 10: Easter-based holidays and working-day arithmetic
+ */
+function check10_WorkingDayCalendar() {
+  const easter = easterSunday(2024);
+  const byHolidays = germanHolidays(2024, 'BY').map(h => h.date);
+  const snHolidays = germanHolidays(2024, 'SN').map(h => h.date);
+
+  console.assert(
+    easter === '2024-03-31' &&
+      easterSunday(2025) === '2025-04-20' &&
+      byHolidays.includes('2024-05-30') && // Fronleichnam
+      byHolidays.includes('2024-03-29') && // Karfreitag
+      snHolidays.includes('2024-11-20'), // Buß- und Bettag
+    'Check 10 failed: holiday calculation',
+    { easter, byHolidays, snHolidays }
+  );
+
+  const calendar = { ...DEFAULT_CALENDAR, holidayRegion: 'BY' as const };
+  // Mon 2024-03-25 + 5 working days skips Good Friday, the weekend and Easter Monday
+  const end = addWorkingDays('2024-03-25', 5, calendar);
+  const count = workingDaysBetween('2024-03-25', '2024-04-08', calendar);
+
+  console.assert(
+    end === '2024-04-03' && count === 8 && !isWorkingDay('2024-03-30', calendar),
+    'Check 10 failed: working-day arithmetic',
+    { end, count }
+  );
+}
+
+/**
+ * Check 11: Undo/redo restores states, coalesces typing and stays bounded
+ */
+function check11_UndoRedoHistory() {
+  const base: Project = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: '1',
+    name: 'v0',
+    settings: { clampUapInsideManualAp: true, calendar: DEFAULT_CALENDAR },
+    workPackages: [],
+    milestones: [],
+    dependencies: [],
+    baselines: []
+  };
+  const named = (name: string): Project => ({ ...base, name });
+
+  let state: HistoryState = { present: base, past: [], future: [] };
+  state = pushHistory(state, named('v1'), 'Umbenennen', { coalesceKey: 'name', now: 0 });
+  state = pushHistory(state, named('v2'), 'Umbenennen', { coalesceKey: 'name', now: 500 });
+  state = pushHistory(state, named('v3'), 'AP hinzufügen', { now: 600 });
+
+  console.assert(
+    state.past.length === 2 && state.present.name === 'v3',
+    'Check 11 failed: coalescing of consecutive edits',
+    { past: state.past.map(e => e.label) }
+  );
+
+  state = undoHistory(undoHistory(state));
+  console.assert(
+    state.present.name === 'v0' && state.future.length === 2 && state.future[0].label === 'AP hinzufügen',
+    'Check 11 failed: undo',
+    { present: state.present.name }
+  );
+
+  state = redoHistory(state);
+  console.assert(
+    state.present.name === 'v2' && state.past[0].label === 'Umbenennen',
+    'Check 11 failed: redo',
+    { present: state.present.name }
+  );
+
+  let bounded: HistoryState = { present: base, past: [], future: [] };
+  for (let i = 0; i < HISTORY_LIMIT + 10; i++) {
+    bounded = pushHistory(bounded, named(`v${i}`), 'Schritt', { now: i * 10_000 });
+  }
+  console.assert(bounded.past.length === HISTORY_LIMIT, 'Check 11 failed: history limit');
+}
+
+/**
+ * Check 12: Old files are migrated, invalid data is reported by path and repaired
+ */
+function check12_SchemaMigrationAndValidation() {
+  // Version 1 file: no schemaVersion, dependencies or calendar
+  const legacy = analyzeProjectJson(JSON.stringify({
+    id: 'p1',
+    name: 'Alt',
+    settings: { clampUapInsideManualAp: true },
+    workPackages: [],
+    milestones: []
+  }));
+  console.assert(
+    legacy.fromVersion === 1 &&
+      legacy.migrations.length === CURRENT_SCHEMA_VERSION - 1 &&
+      legacy.issues.length === 0 &&
+      legacy.project?.schemaVersion === CURRENT_SCHEMA_VERSION &&
+      legacy.project.dependencies.length === 0 &&
+      legacy.project.settings.calendar.workingDays.length === 5,
+    'Check 12 failed: migration of version 1 files',
+    legacy
+  );
+
+  const broken = analyzeProjectJson(JSON.stringify({
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: 'p2',
+    name: 'Kaputt',
+    settings: { clampUapInsideManualAp: true, calendar: DEFAULT_CALENDAR },
+    workPackages: [
+      {
+        id: 'ap1',
+        title: 'AP 1',
+        start: '2024-03-01',
+        end: '2024-03-31',
+        mode: 'auto',
+        subPackages: [
+          { id: 'uap1', title: 'UAP 1', start: '2024-03-10', end: '2024-02-30', status: 'open', percentComplete: 0 },
+          { id: 'uap2', title: 'UAP 2', start: '2024-03-20', end: '2024-03-05', status: 'open', percentComplete: 0 }
+        ]
+      }
+    ],
+    milestones: [{ id: 'ap1', title: 'MS', date: '2024-03-15' }],
+    dependencies: [{ id: 'd1', fromId: 'uap1', toId: 'gone', type: 'FS', lag: 0 }]
+  }));
+  const messages = broken.issues.map(formatIssue);
+  console.assert(
+    messages.includes('workPackages[0].subPackages[0].end: ungültiges Datum') &&
+      messages.includes('workPackages[0].subPackages[1].end: liegt vor start') &&
+      messages.includes('milestones[0].id: doppelte ID "ap1"') &&
+      messages.includes('dependencies[0].toId: verweist auf unbekanntes UAP "gone"'),
+    'Check 12 failed: path-based validation errors',
+    messages
+  );
+
+  const repaired = broken.project;
+  const uap2 = repaired?.workPackages[0].subPackages[1];
+  console.assert(
+    repaired !== null &&
+      validateProject(repaired).length === 0 &&
+      repaired.workPackages[0].subPackages[0].end === '2024-03-10' &&
+      uap2?.start === '2024-03-05' && uap2.end === '2024-03-20' &&
+      repaired.milestones[0].id !== 'ap1' &&
+      repaired.dependencies.length === 0,
+    'Check 12 failed: repair',
+    repaired
+  );
+
+  const newer = analyzeProjectJson(JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 }));
+  console.assert(newer.project === null && newer.error !== null, 'Check 12 failed: newer schema version rejected');
+}
+
+/**
+ * Check 13: Project library migrates the legacy slot and isolates projects
+ */
+async function check13_ProjectLibrary() {
+  const store = createMemoryStore();
+  const project = (id: string, name: string): Project => ({
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id,
+    name,
+    settings: { clampUapInsideManualAp: true, calendar: DEFAULT_CALENDAR },
+    workPackages: [],
+    milestones: [],
+    dependencies: [],
+    baselines: []
+  });
+
+  // Data from localStorage is moved into an empty store
+  const local = createMemoryStore();
+  await local.setItem(LEGACY_STORAGE_KEY, JSON.stringify(project('alt', 'Altes Projekt')));
+  const moved = await migrateStore(local, store);
+  console.assert(
+    moved === 1 && (await local.getItem(LEGACY_STORAGE_KEY)) === null && (await migrateStore(local, store)) === 0,
+    'Check 13 failed: store migration'
+  );
+
+  let projects = await loadLibrary(store);
+  console.assert(
+    projects.length === 1 && projects[0].id === 'alt' &&
+      (await getLastOpenedId(store)) === 'alt' && (await store.getItem(LEGACY_STORAGE_KEY)) === null,
+    'Check 13 failed: legacy project migrated into library',
+    projects
+  );
+
+  const t1 = new Date('2024-01-01T10:00:00Z');
+  const t2 = new Date('2024-01-02T10:00:00Z');
+  await saveProject(store, project('b', 'Projekt B'), t1);
+  await updateProjectMeta(store, 'b', { archived: true });
+  projects = await saveProject(store, project('b', 'Projekt B'), t2);
+  console.assert(
+    projects.find(p => p.id === 'b')?.updatedAt === t1.toISOString(),
+    'Check 13 failed: unchanged project keeps its timestamp'
+  );
+  projects = await saveProject(store, project('b', 'Projekt B2'), t2);
+  const b = projects.find(p => p.id === 'b');
+  console.assert(
+    b?.name === 'Projekt B2' && b.archived && b.updatedAt === t2.toISOString(),
+    'Check 13 failed: save updates name and timestamp, keeps archive flag',
+    b
+  );
+
+  // A corrupted project must not affect the others
+  await store.setItem('projekt-zeitplan-project:b', '{kaputt');
+  console.assert(
+    (await readStoredProject(store, 'b')).project === null &&
+      (await readStoredProject(store, 'alt')).project?.name === 'Altes Projekt',
+    'Check 13 failed: corrupted project isolated'
+  );
+
+  // A lost index is rebuilt from the stored projects
+  await store.removeItem('projekt-zeitplan-index');
+  projects = await loadLibrary(store);
+  console.assert(projects.length === 2, 'Check 13 failed: index rebuilt', projects);
+
+  projects = await deleteStoredProject(store, 'alt');
+  console.assert(
+    projects.length === 1 &&
+      (await readStoredProject(store, 'alt')).project === null &&
+      (await getLastOpenedId(store)) === null,
+    'Check 13 failed: delete',
+    projects
+  );
+}
+
+/**
+ * Check 14: Snapshot retention, automatic snapshots and diff summaries
+ */
+async function check14_Snapshots() {
+  const now = new Date('2024-06-30T12:00:00Z');
+  const hour = 60 * 60 * 1000;
+  const idAt = (time: number, suffix = 'x') => `${new Date(time).toISOString()}_${suffix}`;
+
+  // Hourly snapshots over 60 days: the newest N stay, plus one per day within the last month
+  const ids: string[] = [];
+  for (let i = 0; i < 60 * 24; i++) ids.push(idAt(now.getTime() - i * hour));
+  const expired = new Set(selectExpiredSnapshots(ids, now));
+  const kept = ids.filter(id => !expired.has(id));
+  const keptDays = new Set(kept.map(id => new Date(id.split('_')[0]).toDateString()));
+  console.assert(
+    ids.slice(0, KEEP_RECENT_SNAPSHOTS).every(id => !expired.has(id)) &&
+      kept.length < KEEP_RECENT_SNAPSHOTS + 32 &&
+      keptDays.size >= 30 && keptDays.size <= 32 &&
+      expired.has(ids[ids.length - 1]),
+    'Check 14 failed: snapshot retention',
+    { kept: kept.length, days: keptDays.size }
+  );
+
+  const base: Project = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: 'p',
+    name: 'Versionen',
+    settings: { clampUapInsideManualAp: true, calendar: DEFAULT_CALENDAR },
+    workPackages: [
+      {
+        id: 'ap1',
+        title: 'AP 1',
+        start: '2024-01-01',
+        end: '2024-01-31',
+        mode: 'auto',
+        subPackages: [
+          { id: 'uap1', title: 'UAP 1', start: '2024-01-01', end: '2024-01-10', status: 'open', percentComplete: 0 },
+          { id: 'uap2', title: 'UAP 2', start: '2024-01-10', end: '2024-01-31', status: 'open', percentComplete: 0 }
+        ]
+      }
+    ],
+    milestones: [],
+    dependencies: [],
+    baselines: []
+  };
+
+  const store = createMemoryStore();
+  const t0 = new Date('2024-06-30T08:00:00Z');
+  const first = await createAutoSnapshotIfDue(store, base, t0);
+  const tooSoon = await createAutoSnapshotIfDue(store, { ...base, name: 'Neu' }, new Date(t0.getTime() + 1000));
+  const unchanged = await createAutoSnapshotIfDue(store, base, new Date(t0.getTime() + SNAPSHOT_INTERVAL_MS));
+  const snapshots = await listSnapshots(store, 'p');
+  console.assert(
+    first && !tooSoon && !unchanged && snapshots.length === 1 && snapshots[0].reason === 'auto',
+    'Check 14 failed: automatic snapshots',
+    { first, tooSoon, unchanged, count: snapshots.length }
+  );
+
+  const changed: Project = {
+    ...base,
+    workPackages: [
+      {
+        ...base.workPackages[0],
+        subPackages: [
+          { ...base.workPackages[0].subPackages[0], title: 'UAP 1 neu' },
+          { id: 'uap3', title: 'UAP 3', start: '2024-01-10', end: '2024-01-20', status: 'open', percentComplete: 0 }
+        ]
+      }
+    ],
+    milestones: [{ id: 'ms1', title: 'MS', date: '2024-01-31' }]
+  };
+  const summary = summarizeDiff(diffProjects(base, changed));
+  console.assert(
+    summary === '1 UAP neu, 1 UAP entfernt, 1 UAP geändert, 1 Meilenstein neu' &&
+      summarizeDiff(diffProjects(base, base)) === 'Keine Änderungen',
+    'Check 14 failed: diff summary',
+    summary
+  );
+}
+
+/**
+ * Check 15: Baselines freeze all dates and report start/finish variance
+ */
+function check15_Baselines() {
+  const planned: Project = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: 'p',
+    name: 'Basisplan',
+    settings: { clampUapInsideManualAp: true, calendar: DEFAULT_CALENDAR },
+    workPackages: [
+      {
+        id: 'ap1',
+        title: 'AP 1',
+        start: '2024-01-01',
+        end: '2024-01-31',
+        mode: 'auto',
+        subPackages: [{ id: 'uap1', title: 'UAP 1', start: '2024-01-01', end: '2024-01-31', status: 'open', percentComplete: 0 }]
+      }
+    ],
+    milestones: [{ id: 'ms1', title: 'MS', date: '2024-02-01' }],
+    dependencies: [],
+    baselines: []
+  };
+  const baseline = createBaseline(planned, 'Plan A', new Date('2024-01-01T09:00:00Z'));
+
+  // UAP slips three days at the end, milestone moves two days earlier, one UAP is new
+  const actual: Project = {
+    ...planned,
+    workPackages: [
+      {
+        ...planned.workPackages[0],
+        end: '2024-02-03',
+        subPackages: [
+          { id: 'uap1', title: 'UAP 1', start: '2024-01-01', end: '2024-02-03', status: 'open', percentComplete: 0 },
+          { id: 'uap2', title: 'UAP 2', start: '2024-01-15', end: '2024-01-20', status: 'open', percentComplete: 0 }
+        ]
+      }
+    ],
+    milestones: [{ id: 'ms1', title: 'MS', date: '2024-01-30' }],
+    baselines: [baseline],
+    activeBaselineId: baseline.id
+  };
+  const variances = new Map(computeVariances(actual, baseline).map(v => [v.id, v]));
+  console.assert(
+    Object.keys(baseline.dates).length === 3 &&
+      baseline.dates.ms1.start === '2024-02-01' &&
+      variances.get('uap1')?.startVariance === 0 &&
+      variances.get('uap1')?.finishVariance === 3 &&
+      variances.get('ap1')?.finishVariance === 3 &&
+      variances.get('ms1')?.finishVariance === -2 &&
+      variances.get('uap2')?.baseline === null &&
+      formatVariance(3) === '+3 T' && formatVariance(-2) === '−2 T' && formatVariance(0) === '±0',
+    'Check 15 failed: baseline variance',
+    [...variances.values()]
+  );
+
+  // Baselines survive the JSON roundtrip; a dangling active baseline is repaired away
+  const roundtrip = analyzeProjectJson(JSON.stringify(actual));
+  const dangling = analyzeProjectJson(JSON.stringify({ ...actual, activeBaselineId: 'gone' }));
+  console.assert(
+    roundtrip.issues.length === 0 &&
+      roundtrip.project?.baselines[0].dates.uap1.end === '2024-01-31' &&
+      dangling.issues.map(formatIssue).includes('activeBaselineId: verweist auf unbekannten Basisplan "gone"') &&
+      dangling.project !== null && dangling.project.activeBaselineId === undefined &&
+      dangling.project.baselines.length === 1,
+    'Check 15 failed: baseline validation',
+    { roundtrip, dangling }
+  );
+}
+
+/**
+ * Check 16: Status and percent stay consistent; progress is weighted by duration
+ */
+function check16_Progress() {
+  const uap: SubPackage = {
+    id: 'u', title: 'U', start: '2024-01-01', end: '2024-01-08', status: 'open', percentComplete: 0
+  };
+  const started = syncProgress(uap, { percentComplete: 40 });
+  const finished = syncProgress({ ...uap, status: 'in-progress', percentComplete: 40 }, { percentComplete: 120 });
+  const markedDone = syncProgress(uap, { status: 'done' });
+  const reopened = syncProgress({ ...uap, status: 'done', percentComplete: 100 }, { status: 'open' });
+  const blocked = syncProgress({ ...uap, status: 'blocked' }, { percentComplete: 50 });
+  console.assert(
+    started.status === 'in-progress' &&
+      finished.status === 'done' && finished.percentComplete === 100 &&
+      markedDone.percentComplete === 100 &&
+      reopened.percentComplete === 0 &&
+      blocked.status === 'blocked',
+    'Check 16 failed: status/percent sync',
+    { started, finished, markedDone, reopened, blocked }
+  );
+
+  // Seven-day week: 30 days at 100 % and 10 days at 0 % give 75 %
+  const calendar = { workingDays: [0, 1, 2, 3, 4, 5, 6], holidays: [], shutdowns: [] };
+  const progress = weightedProgress(
+    [
+      { ...uap, start: '2024-01-01', end: '2024-01-31', percentComplete: 100 },
+      { ...uap, start: '2024-02-01', end: '2024-02-11', percentComplete: 0 }
+    ],
+    calendar
+  );
+  console.assert(
+    progress === 75 && weightedProgress([], calendar) === null,
+    'Check 16 failed: weighted progress',
+    progress
+  );
+
+  // Version 3 files get status and progress; invalid values are reported
+  const migrated = analyzeProjectJson(JSON.stringify({
+    schemaVersion: 3,
+    id: 'p',
+    name: 'Alt',
+    settings: { clampUapInsideManualAp: true, calendar: DEFAULT_CALENDAR },
+    workPackages: [
+      {
+        id: 'ap1', title: 'AP', start: '2024-01-01', end: '2024-01-08', mode: 'auto',
+        subPackages: [
+          { id: 'u1', title: 'U1', start: '2024-01-01', end: '2024-01-08' },
+          { id: 'u2', title: 'U2', start: '2024-01-01', end: '2024-01-08', status: 'fertig', percentComplete: 150 }
+        ]
+      }
+    ],
+    milestones: [],
+    dependencies: [],
+    baselines: []
+  }));
+  const [u1, u2] = migrated.project?.workPackages[0].subPackages ?? [];
+  const messages = migrated.issues.map(formatIssue);
+  console.assert(
+    u1?.status === 'open' && u1.percentComplete === 0 &&
+      u2?.status === 'open' && u2.percentComplete === 100 &&
+      messages.includes('workPackages[0].subPackages[1].status: ungültiger Wert "fertig"') &&
+      messages.includes('workPackages[0].subPackages[1].percentComplete: erwartet Zahl 0–100'),
+    'Check 16 failed: progress migration and validation',
+    { u1, u2, messages }
+  );
+}
+
+/**
+ * Check 17: Timeline viewport is stored per project and removed with it
+ */
+async function check17_Viewport() {
+  const store = createMemoryStore();
+  const project: Project = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: 'p',
+    name: 'Ansicht',
+    settings: { clampUapInsideManualAp: true, calendar: DEFAULT_CALENDAR },
+    workPackages: [
+      {
+        id: 'ap1',
+        title: 'AP 1',
+        start: '2024-03-01',
+        end: '2024-03-31',
+        mode: 'manual',
+        subPackages: []
+      }
+    ],
+    milestones: [{ id: 'ms1', title: 'MS', date: '2024-02-15' }],
+    dependencies: [],
+    baselines: []
+  };
+  await saveProject(store, project);
+  await saveProject(store, { ...project, id: 'q' });
+  await saveViewport(store, 'p', { start: '2024-05-01', dayOffset: 0, pixelsPerDay: 20 });
+  await store.setItem('projekt-zeitplan-viewport:q', '{"start":"kaputt"}');
+
+  const stored = await loadViewport(store, 'p');
+  const corrupted = await loadViewport(store, 'q');
+  await deleteStoredProject(store, 'p');
+  const afterDelete = await loadViewport(store, 'p');
+  console.assert(
+    defaultViewport(project).start === '2024-02-15' &&
+      stored?.start === '2024-05-01' &&
+      corrupted === null &&
+      afterDelete === null,
+    'Check 17 failed: viewport persistence',
+    { stored, corrupted, afterDelete }
+  );
+}
+
+/**
+ * Check 18: Continuous zoom keeps the anchor date in place, fits ranges and
+ * picks calendar-aligned tick units
+ */
+async function check18_TimeScale() {
+  const viewport = { start: '2024-01-01', dayOffset: 0, pixelsPerDay: 10 };
+
+  // The point under the cursor (midday of 16 Jan) stays at the same pixel while zooming
+  const anchorPx = 155;
+  const zoomed = zoomViewport(viewport, 2.5, anchorPx);
+  const anchorShift = Math.abs(dateOffsetPx(zoomed, '2024-01-16') + 0.5 * zoomed.pixelsPerDay - anchorPx);
+  const clamped = zoomViewport(viewport, 1000, 0).pixelsPerDay;
+
+  const fitted = fitViewport('2024-01-01', '2024-04-10', 1000);
+  const fitEnd = dateOffsetPx(fitted, '2024-04-10');
+
+  const units = [60, 10, 2, 0.4].map(tickUnitFor);
+  const weeks = unitTicks('2024-01-03', '2024-01-20', 'week');
+  const quarters = unitTicks('2024-02-10', '2024-08-01', 'quarter');
+
+  // Viewports stored before continuous zoom only have a start date
+  const store = createMemoryStore();
+  await store.setItem('projekt-zeitplan-viewport:alt', '{"start":"2024-03-01"}');
+  const legacy = await loadViewport(store, 'alt');
+
+  console.assert(
+    anchorShift < 1e-6 &&
+      clamped === MAX_PIXELS_PER_DAY &&
+      Math.abs(fitEnd - 1000) < 1e-6 &&
+      units.join() === 'day,week,month,quarter' &&
+      weeks.join() === '2024-01-01,2024-01-08,2024-01-15' &&
+      quarters.join() === '2024-01-01,2024-04-01,2024-07-01' &&
+      legacy?.dayOffset === 0 &&
+      legacy?.pixelsPerDay === DEFAULT_PIXELS_PER_DAY,
+    'Check 18 failed: time scale',
+    { zoomed, clamped, fitted, units, weeks, quarters, legacy }
+  );
+}
+
+/**
+ * Check 19: Dragged bars and milestones snap to days, weeks or months
+ * depending on the zoom
+ */
+function check19_DragSnapping() {
+  const units = [20, 4, 0.5].map(snapUnitFor);
+
+  // Wed 2024-01-10 is closer to Mon 2024-01-08 than to Mon 2024-01-15
+  const snappedWeek = snapDate('2024-01-10', 'week');
+  const snappedMonth = snapDate('2024-01-20', 'month');
+
+  const unmoved = dragRange('2024-01-10', '2024-01-20', 'move', 0, 'week');
+  const movedDays = dragRange('2024-01-10', '2024-01-20', 'move', 3, 'day');
+  const movedWeeks = dragRange('2024-01-10', '2024-01-20', 'move', 6, 'week');
+  const resized = dragRange('2024-01-10', '2024-01-20', 'resize-right', 9, 'month');
+  const crossed = dragRange('2024-01-10', '2024-01-20', 'resize-left', 30, 'day');
+
+  console.assert(
+    units.join() === 'day,week,month' &&
+      snappedWeek === '2024-01-08' &&
+      snappedMonth === '2024-02-01' &&
+      unmoved.start === '2024-01-10' &&
+      movedDays.start === '2024-01-13' && movedDays.end === '2024-01-23' &&
+      movedWeeks.start === '2024-01-15' && movedWeeks.end === '2024-01-25' &&
+      resized.start === '2024-01-10' && resized.end === '2024-02-01' &&
+      crossed.start === '2024-01-20',
+    'Check 19 failed: drag snapping',
+    { units, snappedWeek, snappedMonth, movedDays, movedWeeks, resized, crossed }
+  );
+}
+
+/**
+ * Check 20: Multi-selection and bulk move, assign, delete and copy/paste
+ */
+function check20_Selection() {
+  const project: Project = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: 'p',
+    name: 'Auswahl',
+    settings: { clampUapInsideManualAp: true, calendar: DEFAULT_CALENDAR },
+    workPackages: [
+      {
+        id: 'ap1',
+        title: 'AP 1',
+        start: '2024-01-01',
+        end: '2024-01-31',
+        mode: 'auto',
+        subPackages: [
+          { id: 'uap1', title: 'UAP 1', start: '2024-01-01', end: '2024-01-11', status: 'open', percentComplete: 0 },
+          { id: 'uap2', title: 'UAP 2', start: '2024-01-11', end: '2024-01-31', status: 'open', percentComplete: 0 }
+        ]
+      },
+      { id: 'ap2', title: 'AP 2', start: '2024-02-01', end: '2024-02-29', mode: 'manual', subPackages: [] }
+    ],
+    milestones: [{ id: 'ms1', title: 'MS', date: '2024-03-01' }],
+    dependencies: [{ id: 'd1', fromId: 'uap1', toId: 'uap2', type: 'FS', lag: 0 }],
+    baselines: []
+  };
+
+  // Plain click replaces, Ctrl toggles, Shift extends in tree order
+  const order = orderedItemIds(project);
+  const clicked = selectItem(EMPTY_SELECTION, 'uap1', 'replace', order);
+  const toggled = selectItem(clicked, 'ms1', 'toggle', order);
+  const ranged = selectItem(clicked, 'ap2', 'range', order);
+  console.assert(
+    [...toggled.ids].join() === 'uap1,ms1' && [...ranged.ids].sort().join() === 'ap2,uap1,uap2',
+    'Check 20 failed: selection modifiers',
+    { toggled: [...toggled.ids], ranged: [...ranged.ids] }
+  );
+
+  // Moving a selected AP moves its UAPs; other selected items move once
+  const moved = shiftItems(project, new Set(['ap1', 'uap1', 'ap2', 'ms1']), 14);
+  const movedAp1 = moved.project.workPackages[0];
+  console.assert(
+    movedAp1.start === '2024-01-15' && movedAp1.end === '2024-02-14' &&
+      movedAp1.subPackages[0].start === '2024-01-15' &&
+      moved.project.workPackages[1].start === '2024-02-15' &&
+      moved.project.milestones[0].date === '2024-03-15' &&
+      moved.changedIds.join() === 'uap1,uap2',
+    'Check 20 failed: bulk move',
+    moved
+  );
+
+  const assigned = assignPerson(project, new Set(['ap1']), 'Anna', true);
+  const unassigned = assignPerson(assigned, new Set(['uap2']), 'Anna', false);
+  console.assert(
+    assigned.workPackages[0].subPackages.every(sp => sp.assignedTo?.join() === 'Anna') &&
+      unassigned.workPackages[0].subPackages[1].assignedTo?.length === 0,
+    'Check 20 failed: bulk assign'
+  );
+
+  // Deleting a UAP drops its dependencies and rolls up its AP
+  const deleted = deleteItems(project, new Set(['uap2', 'ms1']));
+  console.assert(
+    deleted.workPackages[0].end === '2024-01-11' && deleted.dependencies.length === 0 && deleted.milestones.length === 0,
+    'Check 20 failed: bulk delete',
+    deleted
+  );
+
+  let nextId = 0;
+  const clipboard = copySubPackages(project, new Set(['uap1', 'ap2']));
+  const pasted = pasteSubPackages(project, 'ap2', clipboard, () => `copy${++nextId}`);
+  const target = pasted.project.workPackages[1];
+  console.assert(
+    clipboard.length === 1 &&
+      target.mode === 'auto' &&
+      target.subPackages.map(sp => sp.id).join() === 'copy1' &&
+      target.start === '2024-01-01' &&
+      pasted.pastedIds.join() === 'copy1',
+    'Check 20 failed: copy/paste',
+    target
+  );
+}
+
+/**
+ * Check 21: Pinch zoom keeps the date between the fingers in place and
+ * follows the fingers when they move together
+ */
+function check21_PinchZoom() {
+  const viewport = { start: '2024-01-01', dayOffset: 0, pixelsPerDay: 10 };
+
+  // Fingers 100 px apart around 16 Jan (150 px) spread to 200 px
+  const spread = pinchViewport(viewport, 100, 150, 200, 150);
+  const anchorShift = Math.abs(dateOffsetPx(spread, '2024-01-16') - 150);
+
+  // Same distance, midpoint moved 50 px to the right: a pure pan to earlier dates
+  const panned = pinchViewport(viewport, 100, 150, 100, 200);
+
+  console.assert(
+    spread.pixelsPerDay === 20 &&
+      anchorShift < 1e-6 &&
+      panned.pixelsPerDay === 10 &&
+      panned.start === '2023-12-27' &&
+      panned.dayOffset === 0,
+    'Check 21 failed: pinch zoom',
+    { spread, panned }
+  );
+}
+
+/**
+ * Check 22: The benchmark project is valid and reproducible, and only the
+ * rows in the visible band are rendered
+ */
+function check22_Virtualization() {
+  const project = generateBenchmarkProject(2000);
+  const again = generateBenchmarkProject(2000);
+  const uapCount = project.workPackages.reduce((sum, wp) => sum + wp.subPackages.length, 0);
+
+  const layout = computeRowLayout(project.workPackages);
+  const band = { top: 5000, bottom: 6000 };
+  const range = visibleRowRange(layout.rows, band.top, band.bottom);
+  const expected = layout.rows
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) => row.y + row.height > band.top && row.y < band.bottom)
+    .map(({ index }) => index);
+
+  console.assert(
+    uapCount === 2000 &&
+      project.workPackages.length === 100 &&
+      project.dependencies.length === 1900 &&
+      project.milestones.length === 10 &&
+      validateProject(project).length === 0 &&
+      JSON.stringify(again.workPackages) === JSON.stringify(project.workPackages) &&
+      range.first === expected[0] &&
+      range.last === expected[expected.length - 1] + 1 &&
+      range.last - range.first <= 3 &&
+      visibleRowRange(layout.rows, layout.totalHeight + 100, layout.totalHeight + 900).first === 100,
+    'Check 22 failed: virtualization',
+    { uapCount, range, expected, issues: validateProject(project).map(formatIssue) }
+  );
+}
+
+/**
+ * Check 23: Grid mode - collapsed APs shrink to their bar, and grid lines sit on the bars
+ */
+function check23_GridLayout() {
+  const project = generateBenchmarkProject(60); // Three APs of 20 UAPs
+  const [first, second, third] = project.workPackages;
+  const expanded = computeRowLayout(project.workPackages);
+  const collapsed = computeRowLayout(project.workPackages, new Set([second.id]));
+  const row = expanded.rows[0];
+  const line = uapLine(row, 3);
+  const bar = uapTop(row, 3);
+  const ms = milestoneLine(collapsed, 0);
+  const msCenter = milestoneTop(collapsed, 0);
+
+  console.assert(
+    collapsed.rows[1].height === BASE_ROW_HEIGHT &&
+      collapsed.rows[0].height === expanded.rows[0].height &&
+      collapsed.rows[2].y === expanded.rows[2].y - (expanded.rows[1].height - BASE_ROW_HEIGHT) &&
+      collapsed.totalHeight === collapsed.rows[2].y + collapsed.rows[2].height &&
+      third.subPackages.length === 20 &&
+      first.subPackages.length === 20 &&
+      apLine(row).top === row.y + 5 &&
+      apLine(row).top + apLine(row).height <= uapLine(row, 0).top &&
+      line.top < bar &&
+      line.top + line.height > bar &&
+      uapLine(row, 4).top >= line.top + line.height &&
+      ms.top + ms.height / 2 === msCenter,
+    'Check 23 failed: grid layout',
+    { expanded: expanded.rows.map(r => r.height), collapsed: collapsed.rows.map(r => r.height) }
+  );
+}
+
+/**
+ * Check 24: Nested outline - rollup over three levels, WBS codes, indent/outdent
+ * round trip, scheduling of nested leaves, migration and validation
+ */
+function check24_Wbs() {
+  const leaf = (id: string, start: string, end: string, status: SubPackage['status'] = 'open'): SubPackage => ({
+    id,
+    title: id.toUpperCase(),
+    start,
+    end,
+    status,
+    percentComplete: status === 'done' ? 100 : 0,
+  });
+  const project: Project = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: 'wbs',
+    name: 'WBS',
+    settings: {
+      clampUapInsideManualAp: false,
+      calendar: { workingDays: [0, 1, 2, 3, 4, 5, 6], holidays: [], shutdowns: [] }
+    },
+    workPackages: [
+      {
+        id: 'ap1',
+        title: 'AP 1',
+        start: '2024-01-01',
+        end: '2024-01-20',
+        mode: 'auto',
+        subPackages: [
+          leaf('a', '2024-01-01', '2024-01-05', 'done'),
+          leaf('b', '2024-01-05', '2024-01-10'),
+          leaf('c', '2024-01-10', '2024-01-20', 'blocked'),
+        ]
+      },
+      { id: 'ap2', title: 'AP 2', start: '2024-02-01', end: '2024-02-05', mode: 'auto', subPackages: [leaf('d', '2024-02-01', '2024-02-05')] }
+    ],
+    milestones: [],
+    dependencies: [{ id: 'd1', fromId: 'b', toId: 'c', type: 'FS', lag: 0 }],
+    baselines: []
+  };
+
+  // b and c below a (a becomes a summary), then c below b: a > b > c
+  const withB = indentItem(project, 'b');
+  const twoLevels = withB && indentItem(withB, 'c');
+  const nested = twoLevels && indentItem(twoLevels, 'c');
+  const summary = twoLevels?.workPackages[0].subPackages[0];
+  const a = nested?.workPackages[0].subPackages[0];
+  const b = a?.children?.[0];
+  const codes = nested ? wbsCodes(nested.workPackages) : new Map<string, string>();
+  console.assert(
+    summary?.children?.map(sp => sp.id).join() === 'b,c' &&
+      summary.start === '2024-01-05' && summary.end === '2024-01-20' && summary.status === 'blocked' &&
+      nested !== null &&
+      a?.children?.length === 1 && b?.id === 'b' && b.children?.[0].id === 'c' &&
+      a.start === '2024-01-10' && a.end === '2024-01-20' && b.status === 'blocked' &&
+      twoLevels?.dependencies.length === 1 && nested.dependencies.length === 0 &&
+      codes.get('ap2') === '2' && codes.get('a') === '1.1' && codes.get('b') === '1.1.1' && codes.get('c') === '1.1.1.1' &&
+      indentItem(project, 'a') === null && outdentItem(project, 'ap1') === null &&
+      rollupStatus([leaf('x', '2024-01-01', '2024-01-02', 'done'), leaf('y', '2024-01-01', '2024-01-02')]) === 'in-progress' &&
+      allSubPackages(nested.workPackages[0].subPackages).length === 3 &&
+      leafSubPackages(nested.workPackages[0].subPackages).map(sp => sp.id).join() === 'c',
+    'Check 24 failed: nested rollup and WBS codes',
+    { nested, codes }
+  );
+
+  // Outdenting b and c restores the flat order (a keeps the rolled-up dates); an
+  // indented AP comes back with its UAPs
+  const flat = twoLevels && [
+    (p: Project) => outdentItem(p, 'c'),
+    (p: Project) => outdentItem(p, 'b'),
+  ].reduce<Project | null>((p, step) => (p ? step(p) : null), twoLevels);
+  const apRoundTrip = indentItem(project, 'ap2');
+  const apBack = apRoundTrip && outdentItem(apRoundTrip, 'ap2');
+  console.assert(
+    flat?.workPackages[0].subPackages.map(sp => sp.id).join() === 'a,b,c' &&
+      flat.workPackages[0].subPackages.every(sp => sp.children === undefined) &&
+      apRoundTrip?.workPackages.length === 1 &&
+      apRoundTrip.workPackages[0].end === '2024-02-05' &&
+      apBack?.workPackages.map(wp => wp.id).join() === 'ap1,ap2' &&
+      apBack.workPackages[1].subPackages[0].id === 'd' &&
+      outermostIds(nested?.workPackages ?? [], new Set(['b', 'c', 'ap2'])).join() === 'b,ap2',
+    'Check 24 failed: indent/outdent round trip',
+    { flat, apBack }
+  );
+
+  // Dependencies between nested leaves push successors and the summaries above them
+  const scheduled = nested && scheduleForward(
+    { ...nested, dependencies: [{ id: 'd1', fromId: 'd', toId: 'c', type: 'FS', lag: 0 }] },
+    ['d']
+  ).project;
+  const scheduledA = scheduled?.workPackages[0].subPackages[0];
+  console.assert(
+    scheduledA?.children?.[0].children?.[0].start === '2024-02-05' &&
+      scheduledA.children[0].end === '2024-02-15' &&
+      scheduledA.end === '2024-02-15' &&
+      scheduled?.workPackages[0].end === '2024-02-15',
+    'Check 24 failed: scheduling of nested UAPs',
+    scheduled
+  );
+
+  // Version 4 files migrate unchanged; nested children are validated like UAPs
+  const migrated = analyzeProjectJson(JSON.stringify({ ...project, schemaVersion: 4 }));
+  const invalid = analyzeProjectJson(JSON.stringify({
+    ...nested,
+    workPackages: [
+      {
+        ...project.workPackages[0],
+        subPackages: [{ ...leaf('p', '2024-01-01', '2024-01-02'), children: [{ ...leaf('q', '2024-01-01', '2024-01-02'), end: 'bald' }] }]
+      }
+    ],
+    dependencies: []
+  }));
+  console.assert(
+    migrated.fromVersion === 4 && migrated.migrations.length === 1 && migrated.issues.length === 0 &&
+      migrated.project?.schemaVersion === CURRENT_SCHEMA_VERSION &&
+      invalid.issues.map(formatIssue).some(message => message.startsWith('workPackages[0].subPackages[0].children[0].end')) &&
+      invalid.project?.workPackages[0].subPackages[0].children?.[0].id === 'q',
+    'Check 24 failed: migration and validation of nested UAPs',
+    { migrated, invalid }
+  );
+}
+
+/**
+ * Check 25: Reordering in the tree - APs and milestones among themselves, UAPs
+ * into other APs (both rolled up), keyboard moves across AP boundaries
+ */
+function check25_TreeReorder() {
+  const uap = (id: string, start: string, end: string, children?: SubPackage[]): SubPackage => ({
+    id,
+    title: id.toUpperCase(),
+    start,
+    end,
+    status: 'open',
+    percentComplete: 0,
+    ...(children && { children }),
+  });
+  const project: Project = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: 'order',
+    name: 'Reihenfolge',
+    settings: { clampUapInsideManualAp: false, calendar: DEFAULT_CALENDAR },
+    workPackages: [
+      {
+        id: 'ap1',
+        title: 'AP 1',
+        start: '2024-01-01',
+        end: '2024-01-20',
+        mode: 'auto',
+        subPackages: [
+          uap('a', '2024-01-01', '2024-01-10', [uap('a1', '2024-01-01', '2024-01-10')]),
+          uap('b', '2024-01-10', '2024-01-20'),
+        ]
+      },
+      { id: 'ap2', title: 'AP 2', start: '2024-03-01', end: '2024-03-05', mode: 'auto', subPackages: [uap('c', '2024-03-01', '2024-03-05')] },
+      { id: 'ap3', title: 'AP 3', start: '2024-04-01', end: '2024-04-05', mode: 'manual', subPackages: [] }
+    ],
+    milestones: [
+      { id: 'm1', title: 'M1', date: '2024-02-01' },
+      { id: 'm2', title: 'M2', date: '2024-05-01' }
+    ],
+    dependencies: [],
+    baselines: []
+  };
+  const ids = (p: Project | null, apIndex: number) =>
+    p?.workPackages[apIndex].subPackages.map(sp => sp.id).join() ?? 'null';
+
+  const apsSwapped = moveTreeItem(project, 'ap3', 'ap1', 'before');
+  const msSwapped = moveTreeItem(project, 'm1', 'm2', 'after');
+  const reparented = moveTreeItem(project, 'b', 'ap2', 'inside');
+  const nextTo = moveTreeItem(project, 'c', 'a', 'after');
+  console.assert(
+    apsSwapped?.workPackages.map(wp => wp.id).join() === 'ap3,ap1,ap2' &&
+      msSwapped?.milestones.map(ms => ms.id).join() === 'm2,m1' &&
+      ids(reparented, 0) === 'a' && reparented?.workPackages[0].end === '2024-01-10' &&
+      ids(reparented, 1) === 'c,b' && reparented.workPackages[1].start === '2024-01-10' &&
+      ids(nextTo, 0) === 'a,c,b' && nextTo?.workPackages[0].end === '2024-03-05' &&
+      nextTo.workPackages[1].subPackages.length === 0 && nextTo.workPackages[1].mode === 'manual' &&
+      moveTreeItem(project, 'a', 'a1', 'after') === null &&
+      moveTreeItem(project, 'ap1', 'm1', 'before') === null &&
+      moveTreeItem(project, 'b', 'm1', 'before') === null &&
+      moveTreeItem(project, 'a', 'b', 'before') === null,
+    'Check 25 failed: drag and drop reordering',
+    { reparented, nextTo }
+  );
+
+  // Alt+Down: b leaves AP 1 at its end and becomes the first UAP of AP 2; then into empty AP 3
+  const down = moveTreeItemBy(project, 'b', 1);
+  const downAgain = down && moveTreeItemBy(down, 'b', 1);
+  const downTwice = downAgain && moveTreeItemBy(downAgain, 'b', 1);
+  console.assert(
+    ids(down, 1) === 'b,c' &&
+      ids(downAgain, 1) === 'c,b' &&
+      ids(downTwice, 2) === 'b' && downTwice?.workPackages[2].mode === 'auto' &&
+      moveTreeItemBy(project, 'a1', 1) === null &&
+      moveTreeItemBy(project, 'a', -1) === null &&
+      moveTreeItemBy(project, 'm2', 1) === null &&
+      moveTreeItemBy(project, 'ap2', -1)?.workPackages[0].id === 'ap2',
+    'Check 25 failed: keyboard reordering',
+    { down, downAgain, downTwice }
+  );
+}
+
+/**
+ * Check 26: MS Project XML - round trip of the own export and import of a
+ * foreign file with a report of what could not be represented
+ */
+function check26_Mspdi() {
+  const project: Project = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: 'mspdi',
+    name: 'Umbau <Halle> & Hof',
+    description: 'Bauabschnitt 1',
+    settings: {
+      clampUapInsideManualAp: false,
+      calendar: {
+        workingDays: [1, 2, 3, 4, 5],
+        holidays: [{ date: '2024-03-29', name: 'Karfreitag' }],
+        shutdowns: [{ id: 's1', name: 'Werksferien', start: '2024-04-08', end: '2024-04-12' }]
+      }
+    },
+    workPackages: [
+      {
+        id: 'ap1',
+        title: 'Rohbau',
+        start: '2024-03-04',
+        end: '2024-03-22',
+        mode: 'auto',
+        subPackages: [
+          {
+            id: 'a',
+            title: 'Fundament',
+            start: '2024-03-04',
+            end: '2024-03-15',
+            status: 'in-progress',
+            percentComplete: 0,
+            children: [
+              { id: 'a1', title: 'Aushub', start: '2024-03-04', end: '2024-03-08', status: 'done', percentComplete: 100, assignedTo: ['Anna', 'Ben'] },
+              { id: 'a2', title: 'Beton', start: '2024-03-11', end: '2024-03-15', status: 'in-progress', percentComplete: 40, category: 'Gewerk', color: '#10B981' }
+            ]
+          },
+          { id: 'b', title: 'Wände', start: '2024-03-18', end: '2024-03-22', status: 'open', percentComplete: 0, assignedTo: ['Ben'] }
+        ]
+      },
+      { id: 'ap2', title: 'Planung', start: '2024-02-01', end: '2024-02-10', mode: 'manual', subPackages: [] }
+    ],
+    milestones: [{ id: 'm1', title: 'Richtfest', date: '2024-03-25' }],
+    dependencies: [{ id: 'd1', fromId: 'a2', toId: 'b', type: 'SS', lag: 2 }],
+    baselines: []
+  };
+
+  const xml = exportToMspdi(project);
+  const { project: imported, issues, unsupported } = analyzeMspdi(xml);
+  const rohbau = imported?.workPackages[0];
+  const fundament = rohbau?.subPackages[0];
+  const [aushub, beton] = fundament?.children ?? [];
+  const dep = imported?.dependencies[0];
+  console.assert(
+    xml.includes('<Title>Umbau &lt;Halle&gt; &amp; Hof</Title>') &&
+      imported?.name === project.name && imported.description === 'Bauabschnitt 1' &&
+      issues.length === 0 && unsupported.length === 0 &&
+      rohbau?.title === 'Rohbau' && rohbau.start === '2024-03-04' && rohbau.end === '2024-03-22' && rohbau.mode === 'auto' &&
+      fundament?.title === 'Fundament' && fundament.children?.length === 2 &&
+      aushub?.end === '2024-03-08' && aushub.status === 'done' && aushub.assignedTo?.join() === 'Anna,Ben' &&
+      beton?.percentComplete === 40 && beton.status === 'in-progress' && beton.category === 'Gewerk' && beton.color === '#10B981' &&
+      rohbau.subPackages[1].assignedTo?.join() === 'Ben' &&
+      imported.workPackages[1].mode === 'manual' && imported.workPackages[1].end === '2024-02-10' &&
+      imported.milestones[0]?.title === 'Richtfest' && imported.milestones[0].date === '2024-03-25' &&
+      imported.dependencies.length === 1 && dep?.fromId === beton.id && dep.toId === rohbau.subPackages[1].id &&
+      dep.type === 'SS' && dep.lag === 2 &&
+      imported.settings.calendar.workingDays.join() === '1,2,3,4,5' &&
+      imported.settings.calendar.holidays[0]?.date === '2024-03-29' &&
+      imported.settings.calendar.shutdowns[0]?.start === '2024-04-08' && imported.settings.calendar.shutdowns[0].end === '2024-04-12',
+    'Check 26 failed: MSPDI round trip',
+    { imported, issues, unsupported }
+  );
+
+  // Foreign file: project summary task, a milestone inside a summary, a link to a
+  // summary, a percentage lag, a material resource, a note and a working exception
+  const task = (uid: number, level: number, name: string, start: string, finish: string, extra = '') =>
+    `<Task><UID>${uid}</UID><Name>${name}</Name><OutlineLevel>${level}</OutlineLevel>` +
+    `<Start>${start}T08:00:00</Start><Finish>${finish}T17:00:00</Finish>${extra}</Task>`;
+  const foreign = `<?xml version="1.0"?>
+<Project xmlns="http://schemas.microsoft.com/project">
+  <Name>Fremd.xml</Name>
+  <CalendarUID>1</CalendarUID>
+  <Calendars><Calendar><UID>1</UID>
+    <WeekDays><WeekDay><DayType>7</DayType><DayWorking>1</DayWorking></WeekDay></WeekDays>
+    <Exceptions><Exception><TimePeriod><FromDate>2024-05-04T00:00:00</FromDate><ToDate>2024-05-04T23:59:00</ToDate></TimePeriod><Name>Sondertag</Name><DayWorking>1</DayWorking></Exception></Exceptions>
+  </Calendar></Calendars>
+  <Tasks>
+    ${task(0, 0, 'Fremd', '2024-05-01', '2024-05-31')}
+    ${task(1, 1, 'Phase', '2024-05-01', '2024-05-10')}
+    ${task(2, 2, 'Analyse', '2024-05-01', '2024-05-03', '<Notes>Bitte prüfen</Notes>')}
+    ${task(3, 2, 'Abnahme', '2024-05-10', '2024-05-10', '<Milestone>1</Milestone>')}
+    ${task(4, 2, 'Umsetzung', '2024-05-06', '2024-05-10',
+      '<PredecessorLink><PredecessorUID>2</PredecessorUID><Type>1</Type><LinkLag>480</LinkLag><LagFormat>20</LagFormat></PredecessorLink>' +
+      '<PredecessorLink><PredecessorUID>1</PredecessorUID><Type>1</Type></PredecessorLink>')}
+  </Tasks>
+  <Resources><Resource><UID>1</UID><Name>Beton</Name><Type>0</Type></Resource><Resource><UID>2</UID><Name>Clara</Name><Type>1</Type></Resource></Resources>
+  <Assignments>
+    <Assignment><UID>1</UID><TaskUID>4</TaskUID><ResourceUID>1</ResourceUID></Assignment>
+    <Assignment><UID>2</UID><TaskUID>4</TaskUID><ResourceUID>2</ResourceUID></Assignment>
+    <Assignment><UID>3</UID><TaskUID>1</TaskUID><ResourceUID>2</ResourceUID></Assignment>
+  </Assignments>
+</Project>`;
+  const fromForeign = analyzeMspdi(foreign);
+  const phase = fromForeign.project?.workPackages[0];
+  console.assert(
+    fromForeign.project?.name === 'Fremd' &&
+      fromForeign.project.workPackages.length === 1 &&
+      phase?.subPackages.map(sp => sp.title).join() === 'Analyse,Umsetzung' &&
+      phase.subPackages[0].end === '2024-05-04' &&
+      phase.subPackages[1].assignedTo?.join() === 'Clara' &&
+      fromForeign.project.milestones[0]?.title === 'Abnahme' && fromForeign.project.milestones[0].date === '2024-05-10' &&
+      fromForeign.project.dependencies.length === 1 && fromForeign.project.dependencies[0].lag === 0 &&
+      fromForeign.project.settings.calendar.workingDays.join() === '1,2,3,4,5,6' &&
+      fromForeign.unsupported.length === 7 &&
+      fromForeign.unsupported.some(entry => entry.includes('Notiz')) &&
+      fromForeign.unsupported.some(entry => entry.includes('Abnahme')) &&
+      fromForeign.unsupported.some(entry => entry.includes('prozentuale')) &&
+      fromForeign.unsupported.some(entry => entry.includes('„Phase“ → „Umsetzung“')) &&
+      fromForeign.unsupported.some(entry => entry.includes('Beton')) &&
+      fromForeign.unsupported.some(entry => entry.includes('Ressourcenzuordnung')) &&
+      fromForeign.unsupported.some(entry => entry.includes('Sondertag')),
+    'Check 26 failed: MSPDI import of a foreign file',
+    fromForeign
+  );
+
+  const broken = analyzeMspdi('<Project><Tasks></Project>');
+  const notProject = analyzeMspdi('<Workbook/>');
+  console.assert(
+    broken.project === null && broken.error?.startsWith('Ungültiges XML') === true &&
+      notProject.project === null && notProject.error !== null,
+    'Check 26 failed: unreadable MSPDI',
+    { broken, notProject }
+  );
+}
+
+/**
+ * Check 27: CSV/TSV - export round trip, date formats, column mapping,
+ * row validation and merging into the project
+ */
+function check27_Csv() {
+  const project: Project = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: 'csv',
+    name: 'Tabelle',
+    settings: { clampUapInsideManualAp: false, calendar: DEFAULT_CALENDAR },
+    workPackages: [
+      {
+        id: 'ap1',
+        title: 'Planung; "Phase 1"',
+        start: '2024-03-04',
+        end: '2024-03-15',
+        mode: 'auto',
+        subPackages: [
+          { id: 'a', title: '=Summe', start: '2024-03-04', end: '2024-03-08', status: 'open', percentComplete: 0, category: 'Konzept', color: '#10B981', assignedTo: ['Anna', 'Ben'] },
+          { id: 'b', title: 'Entwurf', start: '2024-03-11', end: '2024-03-15', status: 'open', percentComplete: 0, assignedTo: [] }
+        ]
+      }
+    ],
+    milestones: [{ id: 'm1', title: 'Freigabe', date: '2024-03-18' }],
+    dependencies: [{ id: 'd1', fromId: 'a', toId: 'b', type: 'FS', lag: 0 }],
+    baselines: []
+  };
+
+  // Own export reads back unchanged
+  const csv = exportToCsv(project);
+  const table = parseDelimited(csv, detectDelimiter(csv));
+  const ownRows = readCsvRows(table, { mapping: guessMapping(table[0], true), dateFormat: 'yyyy-MM-dd', hasHeader: true }, project);
+  const roundTrip = mergeCsvRows(project, ownRows).project;
+  console.assert(
+    detectDelimiter(csv) === ';' && table.length === 5 &&
+      csv.includes('"Planung; ""Phase 1"""') && csv.includes("'=Summe") &&
+      ownRows.every(row => row.existing && row.errors.length === 0) &&
+      roundTrip.workPackages[0].title === 'Planung; "Phase 1"' &&
+      roundTrip.workPackages[0].subPackages[0].title === '=Summe' &&
+      roundTrip.workPackages[0].subPackages[0].assignedTo?.join() === 'Anna,Ben' &&
+      roundTrip.workPackages[0].subPackages[0].color === '#10B981' &&
+      roundTrip.workPackages[0].subPackages[1].end === '2024-03-15' &&
+      roundTrip.milestones[0].date === '2024-03-18' && roundTrip.dependencies.length === 1,
+    'Check 27 failed: CSV round trip',
+    { csv, ownRows }
+  );
+
+  console.assert(
+    parseDateWithFormat('1.2.24', 'dd.MM.yy') === '2024-02-01' &&
+      parseDateWithFormat('31.02.2024', 'dd.MM.yyyy') === null &&
+      parseDateWithFormat('03/18/2024', 'MM/dd/yyyy') === '2024-03-18' &&
+      parseDateWithFormat('2024-03-18', 'dd.MM.yyyy') === null &&
+      guessDateFormat(['04.03.2024', '', '31.12.2024']) === 'dd.MM.yyyy' &&
+      parseDelimited('a\t"b\nc"\t""""\r\n\r\n1\t2', '\t').map(row => row.join('|')).join('/') === 'a|b\nc|"/1|2',
+    'Check 27 failed: CSV dates and parsing'
+  );
+
+  // Pasted from Excel: own column names, German dates, new and updated rows, errors
+  const pasted = [
+    'Nr\tVorgang\tÜbergeordnet\tAnfang\tEnde\tZuständig',
+    'b\tEntwurf V2\t\t\t22.03.2024\t',
+    'b1\tSkizzen\tb\t11.03.2024\t13.03.2024\tClara',
+    'ap2\tUmsetzung\t\t\t\t',
+    'u1\tBau\tap2\t01.04.2024\t12.04.2024\t',
+    'u2\tPrüfung\tu1\t08.04.2024\t12.04.2024\t',
+    'x1\tFalsch\tap2\t32.04.2024\t12.04.2024\t',
+    'x2\tKind von Falsch\tx1\t01.04.2024\t02.04.2024\t',
+    'x3\tVerwaist\tfehlt\t01.04.2024\t02.04.2024\t',
+    'x4\tRückwärts\tap2\t12.04.2024\t01.04.2024\t',
+    'u1\tDoppelt\tap2\t01.04.2024\t02.04.2024\t',
+    'm2\tAbnahme\t\t19.04.2024\t\t',
+  ].join('\n');
+  const pastedTable = parseDelimited(pasted, detectDelimiter(pasted));
+  const rows = readCsvRows(
+    pastedTable,
+    { mapping: guessMapping(pastedTable[0], looksLikeHeader(pastedTable[0])), dateFormat: guessDateFormat(['11.03.2024']), hasHeader: true },
+    project
+  );
+  const errorsOf = (id: string, line?: number) =>
+    rows.find(row => row.id === id && (line === undefined || row.line === line))?.errors.join() ?? 'missing';
+  const merged = mergeCsvRows(project, rows);
+  const [ap1, ap2] = merged.project.workPackages;
+  const entwurf = ap1.subPackages[1];
+  console.assert(
+    rows.filter(row => row.errors.length === 0).map(row => row.id).join() === 'b,b1,ap2,u1,u2,m2' &&
+      errorsOf('x1').includes('32.04.2024') && errorsOf('x2').includes('Zeile 7') &&
+      errorsOf('x3').includes('„fehlt“') && errorsOf('x4').includes('vor Start') &&
+      errorsOf('u1', 11).includes('mehrfach') &&
+      merged.added === 5 && merged.updated === 1 &&
+      entwurf.title === 'Entwurf V2' && entwurf.children?.[0].title === 'Skizzen' &&
+      entwurf.children[0].assignedTo?.join() === 'Clara' &&
+      entwurf.start === '2024-03-11' && entwurf.end === '2024-03-13' && ap1.end === '2024-03-13' &&
+      merged.project.dependencies.length === 0 &&
+      ap2?.title === 'Umsetzung' && ap2.mode === 'auto' && ap2.start === '2024-04-08' && ap2.end === '2024-04-12' &&
+      ap2.subPackages[0].children?.[0].title === 'Prüfung' &&
+      merged.project.milestones[1]?.title === 'Abnahme' && merged.project.milestones[1].date === '2024-04-19' &&
+      validateProject(merged.project).length === 0,
+    'Check 27 failed: CSV import and merge',
+    { rows, merged }
+  );
+}
+
+/**
+ * Check 28: XLSX - valid stored ZIP, task sheet with date and percent cells,
+ * Gantt cells per day and week and a coarser unit for long projects
+ */
+function check28_Xlsx() {
+  const project: Project = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: 'xlsx',
+    name: 'Arbeitsmappe',
+    settings: { clampUapInsideManualAp: false, calendar: DEFAULT_CALENDAR },
+    workPackages: [
+      {
+        id: 'ap1',
+        title: 'Bau & <Abnahme>',
+        start: '2024-03-04',
+        end: '2024-03-16',
+        mode: 'auto',
+        subPackages: [
+          {
+            id: 'a',
+            title: 'Rohbau',
+            start: '2024-03-04',
+            end: '2024-03-16',
+            status: 'in-progress',
+            percentComplete: 0,
+            children: [
+              { id: 'a1', title: 'Wände', start: '2024-03-04', end: '2024-03-09', status: 'done', percentComplete: 100, color: '#10b981', assignedTo: ['Anna'] },
+              { id: 'a2', title: 'Dach', start: '2024-03-11', end: '2024-03-16', status: 'open', percentComplete: 0, color: 'red' }
+            ]
+          }
+        ]
+      }
+    ],
+    milestones: [{ id: 'm1', title: 'Richtfest', date: '2024-03-18' }],
+    dependencies: [],
+    baselines: []
+  };
+
+  // Stored ZIP entries: name length at 26, size at 18, data after the 30-byte header
+  const bytes = exportToXlsx(project, 'day');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const files = new Map<string, string>();
+  let crcOk = true;
+  for (let pos = 0; view.getUint32(pos, true) === 0x04034b50; ) {
+    const size = view.getUint32(pos + 18, true);
+    const nameLength = view.getUint16(pos + 26, true);
+    const name = new TextDecoder().decode(bytes.subarray(pos + 30, pos + 30 + nameLength));
+    const data = bytes.subarray(pos + 30 + nameLength, pos + 30 + nameLength + size);
+    crcOk &&= crc32(data) === view.getUint32(pos + 14, true);
+    files.set(name, new TextDecoder().decode(data));
+    pos += 30 + nameLength + size;
+  }
+  const entryCount = view.getUint16(bytes.length - 12, true);
+  console.assert(
+    crc32(new TextEncoder().encode('123456789')) === 0xcbf43926 && crcOk &&
+      entryCount === files.size && files.size === 7 &&
+      files.get('xl/workbook.xml')?.includes('<sheet name="Vorgänge"') &&
+      [...files.values()].every(xml => parseXml(xml).children.length > 0),
+    'Check 28 failed: XLSX package',
+    [...files.keys()]
+  );
+
+  // Rows of a sheet as text per cell (inline strings and numbers)
+  const sheetRows = (xml: string) =>
+    childElements(childElement(parseXml(xml), 'sheetData')!, 'row').map(row =>
+      row.children.map((cell: XmlElement) => ({
+        ref: cell.attributes.r,
+        style: Number(cell.attributes.s ?? 0),
+        text: cell.attributes.t === 'inlineStr' ? childElement(childElement(cell, 'is')!, 't')!.text : childElement(cell, 'v')?.text ?? '',
+      }))
+    );
+  const styles = parseXml(files.get('xl/styles.xml')!);
+  const fills = childElements(childElement(styles, 'fills')!, 'fill').map(
+    fill => childElement(childElement(fill, 'patternFill')!, 'fgColor')?.attributes.rgb ?? ''
+  );
+  const formats = childElements(childElement(styles, 'cellXfs')!, 'xf');
+  const fillOf = (style: number) => fills[Number(formats[style].attributes.fillId)];
+
+  const tasks = sheetRows(files.get('xl/worksheets/sheet1.xml')!);
+  const wande = tasks[3];
+  console.assert(
+    tasks.length === 6 && tasks[0][1].text === 'Titel' && tasks[1][1].text === 'Bau & <Abnahme>' &&
+      wande.map(cell => cell.text).join('|') === '1.1.1|Wände|Unterarbeitspaket|45355|45360|5|Erledigt|1|Anna' &&
+      formats[wande[1].style].children[0]?.attributes.indent === '2' &&
+      tasks[5][2].text === 'Meilenstein' && tasks[5][3].text === '45369',
+    'Check 28 failed: XLSX task sheet',
+    tasks
+  );
+
+  // Daily Gantt: 2024-03-04 (column C) to 2024-03-18 (Q), weekends shaded, bars in the UAP color or the fallback palette
+  const gantt = sheetRows(files.get('xl/worksheets/sheet2.xml')!);
+  const cellFill = (ref: string) => {
+    const cell = gantt.flat().find(candidate => candidate.ref === ref);
+    return cell ? fillOf(cell.style) : '';
+  };
+  const barDays = (row: number) =>
+    gantt[row - 1].slice(2).filter(cell => fillOf(cell.style) && fillOf(cell.style) !== 'FFF3F4F6').length;
+  console.assert(
+    gantt[0].length === 2 + 15 && gantt[0][2].text === formatTickLabel('2024-03-04', 'day') &&
+      barDays(2) === 12 && barDays(4) === 5 && cellFill('C4') === 'FF10B981' &&
+      cellFill('J5') === 'FFF59E0B' && cellFill('H5') === 'FFF3F4F6' && cellFill('H2') === 'FF64748B' &&
+      gantt[5].find(cell => cell.text === '◆')?.ref === 'Q6',
+    'Check 28 failed: XLSX daily Gantt',
+    gantt
+  );
+
+  // Weekly Gantt, and a long project falls back to a coarser unit
+  const weekly = sheetRows(xlsxEntries(project, 'week').find(entry => entry.name === 'xl/worksheets/sheet2.xml')!.content as string);
+  const longProject: Project = {
+    ...project,
+    milestones: [...project.milestones, { id: 'm2', title: 'Übergabe', date: '2027-12-31' }]
+  };
+  const long = sheetRows(xlsxEntries(longProject, 'day').find(entry => entry.name === 'xl/worksheets/sheet2.xml')!.content as string);
+  console.assert(
+    weekly[0].length === 2 + 3 && weekly[0][2].text === 'KW 10' && weekly[5].find(cell => cell.text === '◆')?.ref === 'E6' &&
+      long[0].length - 2 === unitTicks('2024-03-04', '2027-12-31', 'week').length,
+    'Check 28 failed: XLSX Gantt units',
+    { weekly: weekly[0], long: long[0].length }
+  );
+}
+
+/**
+ * Check 29: iCalendar - export with stable UIDs and folded lines, re-import
+ * updating the milestone and import of a foreign calendar
+ */
+function check29_Ics() {
+  const project: Project = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: 'p1',
+    name: 'Umzug, Teil 1',
+    settings: { clampUapInsideManualAp: false, calendar: DEFAULT_CALENDAR },
+    workPackages: [
+      {
+        id: 'ap1',
+        title: 'Vorbereitung',
+        start: '2024-03-04',
+        end: '2024-03-08',
+        mode: 'auto',
+        subPackages: [
+          {
+            id: 'u1',
+            title: 'Kisten packen; beschriften und zählen, bevor der Transporter am Morgen um sieben Uhr kommt',
+            start: '2024-03-04',
+            end: '2024-03-08',
+            status: 'in-progress',
+            percentComplete: 50,
+            category: 'Büro',
+            assignedTo: ['Anna', 'ben@example.com']
+          }
+        ]
+      }
+    ],
+    milestones: [{ id: 'm1', title: 'Schlüsselübergabe', date: '2024-03-15' }],
+    dependencies: [],
+    baselines: []
+  };
+
+  // Export: all-day events with stable UIDs, folded lines, UAPs only on request
+  const ics = exportToIcs(project, { includeSubPackages: true }, new Date('2024-03-01T12:00:00Z'));
+  const lines = ics.split('\r\n');
+  const unfolded = ics.replace(/\r\n /g, '');
+  console.assert(
+    ics.endsWith('END:VCALENDAR\r\n') &&
+      lines.every(line => new TextEncoder().encode(line).length <= 75) &&
+      ics.includes('X-WR-CALNAME:Umzug\\, Teil 1') &&
+      ics.includes('UID:ms-m1@p1.projekt-zeitplan\r\nDTSTAMP:20240301T120000Z\r\nDTSTART;VALUE=DATE:20240315\r\nDTEND;VALUE=DATE:20240316') &&
+      ics.includes('UID:uap-u1@p1.projekt-zeitplan') && ics.includes('DTEND;VALUE=DATE:20240308') &&
+      ics.includes('CATEGORIES:Büro') &&
+      unfolded.includes('ATTENDEE;CN=Anna;ROLE=REQ-PARTICIPANT;CUTYPE=INDIVIDUAL:urn:x-projekt-zeitplan:person:Anna') &&
+      unfolded.includes(':mailto:ben@example.com') &&
+      !exportToIcs(project, { includeSubPackages: false }).includes('VEVENT\r\nUID:uap-'),
+    'Check 29 failed: ICS export',
+    ics
+  );
+
+  // Re-import of our own file updates the milestone and skips the UAP; the long title survives folding
+  const moved = analyzeIcs(ics.replace('DTSTART;VALUE=DATE:20240315', 'DTSTART;VALUE=DATE:20240318'), project);
+  const ownMerge = mergeIcsEvents(project, moved.events);
+  console.assert(
+    !moved.error && moved.events.length === 1 && moved.events[0].id === 'm1' && moved.events[0].existing &&
+      moved.skipped.length === 1 && moved.skipped[0].includes('Kisten packen; beschriften und zählen, bevor der Transporter') &&
+      ownMerge.added === 0 && ownMerge.updated === 1 &&
+      ownMerge.project.milestones.length === 1 && ownMerge.project.milestones[0].date === '2024-03-18',
+    'Check 29 failed: ICS round trip',
+    moved
+  );
+
+  // Foreign calendar: stable ids, UTC times, series, cancelled and changed occurrences, alarms
+  const foreign = [
+    'BEGIN:VCALENDAR',
+    'BEGIN:VEVENT',
+    'UID:abc-123@example.com',
+    'SUMMARY:Abnahme\\, Halle 2',
+    'DTSTART;TZID=Europe/Berlin:20240410T090000',
+    'BEGIN:VALARM',
+    'SUMMARY:Erinnerung',
+    'END:VALARM',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:late@example.com',
+    'SUMMARY:Telefonat',
+    'DTSTART:20240411T230000Z',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:weekly@example.com',
+    'SUMMARY:Jour fixe',
+    'DTSTART;VALUE=DATE:20240401',
+    'RRULE:FREQ=WEEKLY',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:weekly@example.com',
+    'RECURRENCE-ID;VALUE=DATE:20240408',
+    'SUMMARY:Jour fixe (verschoben)',
+    'DTSTART;VALUE=DATE:20240409',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:off@example.com',
+    'SUMMARY:Fällt aus',
+    'STATUS:CANCELLED',
+    'DTSTART;VALUE=DATE:20240412',
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ].join('\n');
+  const first = analyzeIcs(foreign, project);
+  const merged = mergeIcsEvents(project, first.events).project;
+  const again = analyzeIcs(foreign, merged);
+  const lateDate = new Date(Date.UTC(2024, 3, 11, 23)).getDate() === 12 ? '2024-04-12' : '2024-04-11';
+  console.assert(
+    first.events.map(event => `${event.title}|${event.date}`).join() === `Abnahme, Halle 2|2024-04-10,Telefonat|${lateDate},Jour fixe|2024-04-01` &&
+      first.events[2].note !== undefined && first.skipped.length === 2 &&
+      first.events.every(event => /^ics-[0-9a-f]{8}$/.test(event.id) && !event.existing) &&
+      merged.milestones.length === 4 && again.events.every(event => event.existing) &&
+      analyzeIcs('Titel;Start', project).error !== undefined,
+    'Check 29 failed: ICS import of foreign calendars',
+    first
+  );
+}
+
+/**
+ * Check 30: Vector PDF - text metrics, valid cross-reference table, text as
+ * text, page sizes and tiling of large plans with repeated labels
+ */
+function check30_VectorPdf() {
+  console.assert(
+    textWidth('M', 10) === 8.33 && textWidth('Ä', 10) === textWidth('A', 10) && textWidth('i', 10, true) === 2.78 &&
+      fitText('Fundament', 1000, 8) === 'Fundament' &&
+      textWidth(fitText('Sehr langer Vorgangsname', 50, 8), 8) <= 50 && fitText('Sehr langer Vorgangsname', 50, 8).endsWith('…'),
+    'Check 30 failed: PDF text metrics'
+  );
+
+  const project = generateBenchmarkProject(60); // Three APs of 20 UAPs
+  project.name = 'Große Halle (Bauteil B)';
+  project.description = 'Ausführungsplanung';
+  const now = new Date(2024, 5, 3, 10, 30);
+  const text = (bytes: Uint8Array) => Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+  // Every object offset in the cross-reference table points at its object
+  const small = { ...project, workPackages: project.workPackages.slice(0, 1) };
+  const fittedOptions = { pageSize: 'a4' as const, orientation: 'landscape' as const, pointsPerDay: null, highlightCriticalPath: false };
+  const fitted = text(createTimelinePdf(small, fittedOptions, now));
+  const xref = fitted.slice(fitted.lastIndexOf('\nxref\n'));
+  const offsets = [...xref.matchAll(/(\d{10}) 00000 n/g)].map(match => Number(match[1]));
+  const startxref = Number(/startxref\n(\d+)/.exec(fitted)?.[1]);
+  const firstUap = small.workPackages[0].subPackages[0].title;
+  console.assert(
+    fitted.startsWith('%PDF-1.4') && fitted.endsWith('%%EOF\n') && !fitted.includes('/Image') &&
+      offsets.length > 0 && offsets.every((offset, index) => fitted.startsWith(`${index + 1} 0 obj`, offset)) &&
+      fitted.startsWith('xref', startxref) &&
+      fitted.includes('/Count 1') && fitted.includes('/MediaBox [0 0 841.89 595.28]') &&
+      fitted.includes('(Gro\\337e Halle \\(Bauteil B\\)) Tj') && fitted.includes('(Ausf\\374hrungsplanung) Tj') &&
+      fitted.includes(`(${firstUap}) Tj`) && fitted.includes('(Stand: 3. Juni 2024 \\267 Seite 1 von 1) Tj'),
+    'Check 30 failed: PDF structure and text',
+    fitted.slice(0, 2000)
+  );
+
+  // At the zoom of the view the plan spans several pages in both directions
+  const options = { pageSize: 'a4' as const, orientation: 'portrait' as const, pointsPerDay: 15, highlightCriticalPath: false };
+  const layout = pdfLayout(project, options);
+  const tiled = text(createTimelinePdf(project, options, now));
+  const pageContents = tiled.split('/Type /Page ').slice(1);
+  const rowTitles = project.workPackages.flatMap(wp => [wp.title, ...allSubPackages(wp.subPackages).map(sp => sp.title)]);
+  const secondBand = rowTitles[layout.rowsPerPage]; // First row of the second band
+  console.assert(
+    layout.columns > 1 && layout.bands > 1 && layout.unit === 'week' &&
+      tiled.includes(`/Count ${layout.columns * layout.bands}`) && tiled.includes('/MediaBox [0 0 595.28 841.89]') &&
+      pageContents.length === layout.columns * layout.bands &&
+      tiled.split('(Vorgang) Tj').length - 1 === layout.columns * layout.bands &&
+      tiled.split(`(${project.workPackages[0].title}) Tj`).length - 1 === layout.columns &&
+      tiled.split(`(${secondBand}) Tj`).length - 1 === layout.columns &&
+      pdfLayout(project, { ...options, pageSize: 'a3', orientation: 'landscape', pointsPerDay: null }).columns === 1,
+    'Check 30 failed: PDF tiling',
+    { layout, pages: pageContents.length }
+  );
+
+  // The FS link from UAP 3.1 (last row of the first band) to 3.2 ends in stubs on both bands
+  const pagesOfBand = (index: number) => pageContents.slice(index * layout.columns, (index + 1) * layout.columns).join('');
+  const stubs = [pagesOfBand(0).includes('(nach 3.2) Tj'), pagesOfBand(1).includes('(von 3.1) Tj')];
+  console.assert(rowTitles[layout.rowsPerPage - 1] === 'UAP 3.1' && stubs.every(Boolean), 'Check 30 failed: links across pages', {
+    stubs,
+  });
+
+  // Critical bars and links are outlined in red only when highlighted (red also is a bar color)
+  const criticalStroke = '0.94 0.27 0.27 RG 1 w'; // #EF4444
+  const highlighted = text(createTimelinePdf(small, { ...fittedOptions, highlightCriticalPath: true }, now));
+  console.assert(
+    highlighted.includes(criticalStroke) && !fitted.includes(criticalStroke),
+    'Check 30 failed: critical path in the PDF'
+  );
+}
+
+/**
+ * Check 31: Critical path counts working days, so FS links across a weekend or a holiday keep no float
+ */
+function check31_CriticalPathWorkingDays() {
+  const uap = (id: string, start: string, end: string): SubPackage => ({
+    id,
+    title: id.toUpperCase(),
+    start,
+    end,
+    status: 'open',
+    percentComplete: 0,
+  });
+  const workPackages: WorkPackage[] = [
+    {
+      id: 'ap1',
+      title: 'AP 1',
+      start: '2024-05-27',
+      end: '2024-06-15',
+      mode: 'auto',
+      subPackages: [
+        uap('c', '2024-05-27', '2024-05-30'), // Mon–Wed, Thursday is Fronleichnam
+        uap('d', '2024-05-31', '2024-06-01'), // Friday
+        uap('a', '2024-06-03', '2024-06-08'), // Mon–Fri
+        uap('b', '2024-06-10', '2024-06-15'), // Mon–Fri
+        uap('e', '2024-06-03', '2024-06-06'), // Mon–Wed, parallel
+      ],
+    },
+  ];
+  const dependencies = [
+    { id: 'cd', fromId: 'c', toId: 'd', type: 'FS' as const, lag: 0 },
+    { id: 'da', fromId: 'd', toId: 'a', type: 'FS' as const, lag: 0 },
+    { id: 'ab', fromId: 'a', toId: 'b', type: 'FS' as const, lag: 0 },
+  ];
+  const calendar = { ...DEFAULT_CALENDAR, holidayRegion: 'BY' as const };
+
+  const result = computeCriticalPath(workPackages, [], dependencies, calendar);
+  const timing = (id: string) => result.timings.get(id);
+  const chain = ['c', 'd', 'a', 'b'];
+
+  console.assert(
+    chain.every(id => timing(id)?.totalFloat === 0 && timing(id)?.isCritical) &&
+      ['cd', 'da', 'ab'].every(id => result.criticalDependencyIds.has(id)) &&
+      timing('c')?.lateFinish === '2024-05-30' &&
+      timing('d')?.earlyStart === '2024-05-31' &&
+      timing('e')?.isCritical === false &&
+      timing('e')?.totalFloat === 7 && // Thu 2024-06-06 up to and incl. Fri 2024-06-14
+      timing('e')?.lateStart === '2024-06-12' &&
+      timing('e')?.lateFinish === '2024-06-15' &&
+      result.projectEnd === '2024-06-15',
+    'Check 31 failed: critical path in working days',
+    { timings: [...result.timings.entries()], critical: [...result.criticalDependencyIds] }
+  );
+
+  // One working day of lag after C is the Friday (Thursday is a holiday), so D moves to Monday
+  // and the rest of the chain by one working day
+  const lagged = computeCriticalPath(
+    workPackages,
+    [],
+    dependencies.map(dep => (dep.id === 'cd' ? { ...dep, lag: 1 } : dep)),
+    calendar
+  );
+  console.assert(
+    lagged.timings.get('d')?.earlyStart === '2024-06-03' && lagged.projectEnd === '2024-06-18',
+    'Check 31 failed: working-day lag',
+    { timings: [...lagged.timings.entries()] }
+  );
+}
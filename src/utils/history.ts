@@ -0,0 +1,89 @@
+// Undo/redo history for project mutations
+
+import { Project } from '../types';
+
+export const HISTORY_LIMIT = 100; // Maximum number of undo steps
+export const COALESCE_WINDOW_MS = 1500; // Consecutive edits of the same field merge within this window
+
+export interface HistoryEntry {
+  id: string;
+  label: string;   // Name of the action, e.g. "UAP löschen"
+  project: Project; // Project state before (undo stack) or after (redo stack) the action
+  coalesceKey?: string;
+  time: number;
+}
+
+export interface HistoryState {
+  present: Project;
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+/**
+ * Records a new project state. Edits with the same coalesce key (e.g. typing
+ * into one title field) are merged into the previous step if they follow
+ * each other quickly.
+ */
+export function pushHistory(
+  state: HistoryState,
+  next: Project,
+  label: string,
+  options: { id?: string; coalesceKey?: string; now?: number } = {}
+): HistoryState {
+  const now = options.now ?? Date.now();
+  const last = state.past[state.past.length - 1];
+
+  if (
+    options.coalesceKey &&
+    last?.coalesceKey === options.coalesceKey &&
+    now - last.time < COALESCE_WINDOW_MS
+  ) {
+    return {
+      present: next,
+      past: [...state.past.slice(0, -1), { ...last, time: now }],
+      future: []
+    };
+  }
+
+  const entry: HistoryEntry = {
+    id: options.id ?? crypto.randomUUID(),
+    label,
+    project: state.present,
+    coalesceKey: options.coalesceKey,
+    time: now
+  };
+
+  return {
+    present: next,
+    past: [...state.past, entry].slice(-HISTORY_LIMIT),
+    future: []
+  };
+}
+
+/**
+ * Restores the state before the last action
+ */
+export function undoHistory(state: HistoryState): HistoryState {
+  const entry = state.past[state.past.length - 1];
+  if (!entry) return state;
+
+  return {
+    present: entry.project,
+    past: state.past.slice(0, -1),
+    future: [...state.future, { ...entry, project: state.present }]
+  };
+}
+
+/**
+ * Re-applies the last undone action
+ */
+export function redoHistory(state: HistoryState): HistoryState {
+  const entry = state.future[state.future.length - 1];
+  if (!entry) return state;
+
+  return {
+    present: entry.project,
+    past: [...state.past, { ...entry, project: state.present, coalesceKey: undefined }],
+    future: state.future.slice(0, -1)
+  };
+}
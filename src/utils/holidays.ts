@@ -0,0 +1,111 @@
+// German public holidays per federal state, computed offline
+
+import { GermanState, Holiday } from '../types';
+import { toIso, addDays } from './dateUtils';
+
+export const GERMAN_STATES: Record<GermanState, string> = {
+  BW: 'Baden-Württemberg',
+  BY: 'Bayern',
+  BE: 'Berlin',
+  BB: 'Brandenburg',
+  HB: 'Bremen',
+  HH: 'Hamburg',
+  HE: 'Hessen',
+  MV: 'Mecklenburg-Vorpommern',
+  NI: 'Niedersachsen',
+  NW: 'Nordrhein-Westfalen',
+  RP: 'Rheinland-Pfalz',
+  SL: 'Saarland',
+  SN: 'Sachsen',
+  ST: 'Sachsen-Anhalt',
+  SH: 'Schleswig-Holstein',
+  TH: 'Thüringen',
+};
+
+/**
+ * Calculates Easter Sunday for a year (anonymous Gregorian algorithm)
+ */
+export function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toIso(new Date(year, month - 1, day));
+}
+
+/**
+ * Buß- und Bettag: the Wednesday before 23 November
+ */
+function repentanceDay(year: number): string {
+  const nov23 = new Date(year, 10, 23);
+  const daysBack = ((nov23.getDay() - 3 + 7) % 7) || 7;
+  return toIso(new Date(year, 10, 23 - daysBack));
+}
+
+/**
+ * Returns the public holidays of a federal state for one year.
+ * Holidays that only apply in some municipalities (e.g. Mariä Himmelfahrt
+ * in Bavaria, Fronleichnam in parts of Saxony) are not included.
+ */
+export function germanHolidays(year: number, state: GermanState): Holiday[] {
+  const easter = easterSunday(year);
+  const fixed = (month: number, day: number) =>
+    `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  const inStates = (...states: GermanState[]) => states.includes(state);
+
+  const holidays: Holiday[] = [
+    { date: fixed(1, 1), name: 'Neujahr' },
+    { date: addDays(easter, -2), name: 'Karfreitag' },
+    { date: addDays(easter, 1), name: 'Ostermontag' },
+    { date: fixed(5, 1), name: 'Tag der Arbeit' },
+    { date: addDays(easter, 39), name: 'Christi Himmelfahrt' },
+    { date: addDays(easter, 50), name: 'Pfingstmontag' },
+    { date: fixed(10, 3), name: 'Tag der Deutschen Einheit' },
+    { date: fixed(12, 25), name: '1. Weihnachtstag' },
+    { date: fixed(12, 26), name: '2. Weihnachtstag' },
+  ];
+
+  if (inStates('BW', 'BY', 'ST')) {
+    holidays.push({ date: fixed(1, 6), name: 'Heilige Drei Könige' });
+  }
+  if ((state === 'BE' && year >= 2019) || (state === 'MV' && year >= 2023)) {
+    holidays.push({ date: fixed(3, 8), name: 'Internationaler Frauentag' });
+  }
+  if (state === 'BB') {
+    holidays.push({ date: easter, name: 'Ostersonntag' });
+    holidays.push({ date: addDays(easter, 49), name: 'Pfingstsonntag' });
+  }
+  if (inStates('BW', 'BY', 'HE', 'NW', 'RP', 'SL')) {
+    holidays.push({ date: addDays(easter, 60), name: 'Fronleichnam' });
+  }
+  if (state === 'SL') {
+    holidays.push({ date: fixed(8, 15), name: 'Mariä Himmelfahrt' });
+  }
+  if (state === 'TH' && year >= 2019) {
+    holidays.push({ date: fixed(9, 20), name: 'Weltkindertag' });
+  }
+  if (
+    inStates('BB', 'MV', 'SN', 'ST', 'TH') ||
+    (inStates('HB', 'HH', 'NI', 'SH') && year >= 2018)
+  ) {
+    holidays.push({ date: fixed(10, 31), name: 'Reformationstag' });
+  }
+  if (inStates('BW', 'BY', 'NW', 'RP', 'SL')) {
+    holidays.push({ date: fixed(11, 1), name: 'Allerheiligen' });
+  }
+  if (state === 'SN') {
+    holidays.push({ date: repentanceDay(year), name: 'Buß- und Bettag' });
+  }
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
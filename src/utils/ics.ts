@@ -0,0 +1,309 @@
+// iCalendar (.ics) export of milestones and UAPs and import of calendar events as milestones
+
+import { Project, SubPackage, Milestone } from '../types';
+import { toIso, addDays } from './dateUtils';
+import { STATUS_LABELS } from './progress';
+import { isIsoDate } from './schema';
+import { allSubPackages, wbsCodes } from './wbs';
+
+export interface IcsExportOptions {
+  includeSubPackages: boolean; // UAPs as multi-day events besides the milestones
+}
+
+// Calendar event that becomes a milestone (see analyzeIcs)
+export interface IcsEvent {
+  uid: string;
+  id: string; // Milestone id: the original one for our own exports, derived from the UID otherwise
+  title: string;
+  date: string;
+  existing: boolean; // A milestone with this id exists and is updated
+  note?: string;
+}
+
+export interface IcsAnalysis {
+  events: IcsEvent[];
+  skipped: string[]; // Human-readable reasons for events that are not imported
+  error?: string;
+}
+
+const UID_DOMAIN = 'projekt-zeitplan';
+
+// UIDs of our own events: kind and item id before the @, project id after it
+const OWN_UID = new RegExp(`^(ms|uap)-(.+)@(.+)\\.${UID_DOMAIN}$`);
+
+// Calendar apps that subscribe to a published file refresh it this often
+const REFRESH_INTERVAL = 'PT12H';
+
+const EMAIL = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+/**
+ * Escapes a TEXT value (RFC 5545 3.3.11)
+ */
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Parameter value, quoted if it contains separators (quotes themselves are not allowed)
+ */
+function paramValue(text: string): string {
+  const value = text.replace(/"/g, '');
+  return /[;:,]/.test(value) ? `"${value}"` : value;
+}
+
+/**
+ * Splits a content line into chunks of at most 75 bytes, continued with a
+ * leading space; characters are never split
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let part = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    if (size + charSize > 75) {
+      parts.push(part);
+      part = ' ';
+      size = 1;
+    }
+    part += char;
+    size += charSize;
+  }
+  parts.push(part);
+  return parts.join('\r\n');
+}
+
+function icsDate(iso: string): string {
+  return iso.replace(/-/g, '');
+}
+
+function icsTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Assignees are names; addresses become mailto: attendees, other names a URN
+ * so calendar apps show them without sending invitations
+ */
+function attendee(name: string): string {
+  const address = EMAIL.test(name) ? `mailto:${name}` : `urn:x-${UID_DOMAIN}:person:${encodeURIComponent(name)}`;
+  return `ATTENDEE;CN=${paramValue(name)};ROLE=REQ-PARTICIPANT;CUTYPE=INDIVIDUAL:${address}`;
+}
+
+/**
+ * Calendar with milestones as all-day events and optionally UAPs as multi-day
+ * events. UIDs derive from the item and project ids, so importing the file
+ * again updates the events instead of duplicating them; published on a web
+ * server, the file also works as a subscription feed.
+ */
+export function exportToIcs(project: Project, options: IcsExportOptions, now = new Date()): string {
+  const stamp = icsTimestamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//Projekt Zeitplan//${UID_DOMAIN}//DE`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(project.name)}`,
+    ...(project.description ? [`X-WR-CALDESC:${escapeText(project.description)}`] : []),
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+  ];
+
+  // End dates are exclusive in both models; zero-length items last one day
+  const event = (kind: 'ms' | 'uap', id: string, title: string, start: string, end: string, fields: string[]) => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${kind}-${id}@${project.id}.${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(start)}`,
+      `DTEND;VALUE=DATE:${icsDate(end > start ? end : addDays(start, 1))}`,
+      `SUMMARY:${escapeText(title)}`,
+      ...fields,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  };
+
+  for (const ms of project.milestones) {
+    event('ms', ms.id, ms.title, ms.date, ms.date, [
+      `DESCRIPTION:${escapeText(`Meilenstein in ${project.name}`)}`,
+      'CATEGORIES:Meilenstein',
+    ]);
+  }
+
+  if (options.includeSubPackages) {
+    const codes = wbsCodes(project.workPackages);
+    for (const wp of project.workPackages) {
+      const addSubPackages = (subPackages: SubPackage[]) => {
+        for (const sp of subPackages) {
+          const description = `${codes.get(sp.id)} in ${wp.title}\n${STATUS_LABELS[sp.status]}, ${sp.percentComplete} %`;
+          event('uap', sp.id, sp.title, sp.start, sp.end, [
+            `DESCRIPTION:${escapeText(description)}`,
+            ...(sp.category ? [`CATEGORIES:${escapeText(sp.category)}`] : []),
+            ...(sp.assignedTo ?? []).map(attendee),
+          ]);
+          addSubPackages(sp.children ?? []);
+        }
+      };
+      addSubPackages(wp.subPackages);
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Content line split into name and value; parameters are not needed for milestones
+interface ContentLine {
+  name: string;
+  value: string;
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside quoted parameter values
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const name = line.slice(0, colon).split(';')[0];
+  return name ? { name: name.toUpperCase(), value: line.slice(colon + 1) } : null;
+}
+
+/**
+ * Calendar day of a DATE or DATE-TIME value; UTC times are converted to the local day
+ */
+function eventDate(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (utc) {
+    const date = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+    return isNaN(date.getTime()) ? null : toIso(date);
+  }
+  const iso = `${year}-${month}-${day}`;
+  return isIsoDate(iso) ? iso : null;
+}
+
+/**
+ * Stable milestone id for a foreign UID (FNV-1a hash), so importing the same
+ * calendar again updates the milestones
+ */
+function idFromUid(uid: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < uid.length; i++) {
+    hash ^= uid.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `ics-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+/**
+ * Reads the events (VEVENT) of an iCalendar file as milestones on their start
+ * day. Events exported from our own milestones keep their id and update them;
+ * our own UAP events, cancelled events and changed occurrences of a series are
+ * skipped, series contribute only their first occurrence.
+ */
+export function analyzeIcs(text: string, project: Project): IcsAnalysis {
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    return { events: [], skipped: [], error: 'Keine iCalendar-Datei (BEGIN:VCALENDAR fehlt)' };
+  }
+
+  const milestoneIds = new Set(project.milestones.map(ms => ms.id));
+  const otherIds = new Set(project.workPackages.flatMap(wp => [wp.id, ...allSubPackages(wp.subPackages).map(sp => sp.id)]));
+  const events: IcsEvent[] = [];
+  const skipped: string[] = [];
+  const seenIds = new Set<string>();
+
+  const components: string[] = [];
+  let properties: ContentLine[] = [];
+
+  const finishEvent = () => {
+    const property = (name: string) => properties.find(line => line.name === name);
+    const title = unescapeText(property('SUMMARY')?.value ?? '').replace(/\s*\n\s*/g, ' ').trim() || 'Termin';
+    const start = property('DTSTART');
+    const uid = property('UID')?.value.trim() ?? '';
+    const date = start ? eventDate(start.value) : null;
+
+    if (!date) {
+      skipped.push(`„${title}“: Beginn fehlt oder ist ungültig`);
+      return;
+    }
+    if (property('STATUS')?.value.trim().toUpperCase() === 'CANCELLED') {
+      skipped.push(`„${title}“: abgesagt`);
+      return;
+    }
+    if (property('RECURRENCE-ID')) {
+      skipped.push(`„${title}“ am ${date}: geänderter Einzeltermin einer Serie`);
+      return;
+    }
+
+    const own = OWN_UID.exec(uid);
+    if (own?.[1] === 'uap') {
+      skipped.push(`„${title}“: UAP aus einem Export dieser App`);
+      return;
+    }
+    // Own milestones keep their id unless it belongs to an AP or UAP here
+    const id = own && !otherIds.has(own[2]) ? own[2] : idFromUid(uid || `${title}|${date}`);
+    if (seenIds.has(id)) {
+      skipped.push(`„${title}“: Termin mehrfach in der Datei`);
+      return;
+    }
+    seenIds.add(id);
+
+    events.push({
+      uid,
+      id,
+      title,
+      date,
+      existing: milestoneIds.has(id),
+      ...(property('RRULE') && { note: 'Serientermin: nur der erste Termin' }),
+    });
+  };
+
+  for (const line of lines) {
+    const content = parseContentLine(line.trim());
+    if (!content) continue;
+    if (content.name === 'BEGIN') {
+      components.push(content.value.trim().toUpperCase());
+      if (content.value.trim().toUpperCase() === 'VEVENT') properties = [];
+    } else if (content.name === 'END') {
+      if (components.pop() === 'VEVENT') finishEvent();
+    } else if (components[components.length - 1] === 'VEVENT') {
+      // Properties of nested components such as alarms are ignored
+      properties.push(content);
+    }
+  }
+
+  return { events, skipped };
+}
+
+/**
+ * Adds the events as milestones and updates title and date of existing ones
+ */
+export function mergeIcsEvents(project: Project, events: IcsEvent[]): { project: Project; added: number; updated: number } {
+  const byId = new Map(events.map(event => [event.id, event]));
+  const milestones: Milestone[] = project.milestones.map(ms => {
+    const event = byId.get(ms.id);
+    return event ? { ...ms, title: event.title, date: event.date } : ms;
+  });
+  const added = events.filter(event => !project.milestones.some(ms => ms.id === event.id));
+  return {
+    project: { ...project, milestones: [...milestones, ...added.map(event => ({ id: event.id, title: event.title, date: event.date }))] },
+    added: added.length,
+    updated: events.length - added.length,
+  };
+}
@@ -0,0 +1,120 @@
+// Versioned migrations for stored and imported projects
+
+import { DEFAULT_CALENDAR } from './calendar';
+
+/**
+ * Version of the project format written by this app.
+ * Bump it together with a new entry in MIGRATIONS whenever Project changes.
+ */
+export const CURRENT_SCHEMA_VERSION = 5;
+
+// Raw JSON data before validation
+export type RawProject = Record<string, unknown>;
+
+interface Migration {
+  description: string;
+  migrate: (data: RawProject) => RawProject;
+}
+
+/**
+ * Migration from version n to n + 1 is stored under key n.
+ * Files without schemaVersion are treated as version 1 (the original format).
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  1: {
+    description: 'Abhängigkeiten und Arbeitskalender ergänzt',
+    migrate: data => {
+      const settings = isObject(data.settings) ? data.settings : {};
+      return {
+        ...data,
+        settings: {
+          ...settings,
+          calendar: isObject(settings.calendar) ? settings.calendar : DEFAULT_CALENDAR,
+        },
+        dependencies: Array.isArray(data.dependencies) ? data.dependencies : [],
+      };
+    },
+  },
+  2: {
+    description: 'Basispläne ergänzt',
+    migrate: data => ({
+      ...data,
+      baselines: Array.isArray(data.baselines) ? data.baselines : [],
+    }),
+  },
+  3: {
+    description: 'Fortschritt und Status für UAPs ergänzt',
+    migrate: data => ({
+      ...data,
+      workPackages: Array.isArray(data.workPackages)
+        ? data.workPackages.map(wp =>
+            isObject(wp) && Array.isArray(wp.subPackages)
+              ? {
+                  ...wp,
+                  subPackages: wp.subPackages.map(sp =>
+                    isObject(sp) ? { status: 'open', percentComplete: 0, ...sp } : sp
+                  ),
+                }
+              : wp
+          )
+        : data.workPackages,
+    }),
+  },
+  4: {
+    // Two-level projects are already valid trees; the new version keeps older
+    // app versions from importing nested UAPs and silently dropping them
+    description: 'Verschachtelte Gliederung (WBS) ergänzt',
+    migrate: data => data,
+  },
+};
+
+export interface MigrationResult {
+  data: RawProject;
+  fromVersion: number;
+  applied: string[]; // Descriptions of the migrations that ran
+}
+
+export class SchemaVersionError extends Error {
+  constructor(version: number) {
+    super(`Projektdatei hat Version ${version}, unterstützt wird höchstens Version ${CURRENT_SCHEMA_VERSION}`);
+    this.name = 'SchemaVersionError';
+  }
+}
+
+function isObject(value: unknown): value is RawProject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Returns the schema version of raw project data (1 if missing)
+ */
+export function getSchemaVersion(data: RawProject): number {
+  const version = data.schemaVersion;
+  return typeof version === 'number' && Number.isInteger(version) && version > 0 ? version : 1;
+}
+
+/**
+ * Runs all migrations from the data's version up to CURRENT_SCHEMA_VERSION.
+ * Non-object input is returned unchanged so the validator can report it.
+ * Throws SchemaVersionError for files written by a newer app version.
+ */
+export function migrateProject(data: unknown): MigrationResult {
+  if (!isObject(data)) {
+    return { data: data as RawProject, fromVersion: CURRENT_SCHEMA_VERSION, applied: [] };
+  }
+
+  const fromVersion = getSchemaVersion(data);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaVersionError(fromVersion);
+  }
+
+  let migrated = data;
+  const applied: string[] = [];
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const migration = MIGRATIONS[version];
+    migrated = migration.migrate(migrated);
+    applied.push(`v${version} → v${version + 1}: ${migration.description}`);
+  }
+
+  return { data: { ...migrated, schemaVersion: CURRENT_SCHEMA_VERSION }, fromVersion, applied };
+}
@@ -0,0 +1,563 @@
+// Microsoft Project XML (MSPDI): export of the project and import with a report of what got lost
+
+import {
+  Project,
+  WorkPackage,
+  SubPackage,
+  Milestone,
+  Dependency,
+  DependencyType,
+  ProjectCalendar,
+  Holiday,
+  CompanyShutdown,
+} from '../types';
+import { addDays, minDate, maxDate } from './dateUtils';
+import { DEFAULT_CALENDAR, workingDaysBetween } from './calendar';
+import { germanHolidays } from './holidays';
+import { rollupAp } from './scheduling';
+import { allSubPackages, isSummary, rollupSubPackages, wbsCodes } from './wbs';
+import { clampPercent, subPackageProgress, workPackageProgress } from './progress';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { ProjectAnalysis, analyzeProjectData, failedAnalysis, isIsoDate } from './schema';
+import { XmlElement, escapeXml, parseXml, childElement, childElements, childText } from './xml';
+
+const HOURS_PER_DAY = 8;
+const MINUTES_PER_DAY = HOURS_PER_DAY * 60;
+const DAY_START = '08:00:00';
+const DAY_FINISH = '17:00:00';
+
+// PredecessorLink/Type in MS Project
+const LINK_TYPES: Record<DependencyType, number> = { FF: 0, FS: 1, SF: 2, SS: 3 };
+
+// LagFormat values: elapsed units (fortlaufende Zeit) and percentages
+const ELAPSED_LAG_FORMATS = [4, 6, 8, 10, 12];
+const PERCENT_LAG_FORMATS = [19, 20];
+
+// Custom text fields carrying what MS Project has no field for
+const CATEGORY_FIELD = { id: '188743731', name: 'Text1', alias: 'Kategorie' };
+const COLOR_FIELD = { id: '188743734', name: 'Text2', alias: 'Farbe' };
+
+const WORK_RESOURCE = '1';
+
+function leaf(name: string, value: string | number): string {
+  return `<${name}>${escapeXml(String(value))}</${name}>`;
+}
+
+function node(name: string, children: string[]): string {
+  return `<${name}>\n${children.join('\n')}\n</${name}>`;
+}
+
+/**
+ * Working time of a day; the finish is on the last day, as MS Project expects
+ */
+function taskTimes(start: string, end: string, calendar: ProjectCalendar): string[] {
+  const finish = end > start ? `${addDays(end, -1)}T${DAY_FINISH}` : `${start}T${DAY_START}`;
+  return [
+    leaf('Start', `${start}T${DAY_START}`),
+    leaf('Finish', finish),
+    leaf('Duration', `PT${workingDaysBetween(start, end, calendar) * HOURS_PER_DAY}H0M0S`),
+    leaf('DurationFormat', 7), // Days
+  ];
+}
+
+/**
+ * Project calendar with weekdays, holidays (including those of the region in
+ * the project's years) and shutdowns as exceptions
+ */
+function exportCalendar(project: Project): string {
+  const { calendar } = project.settings;
+  const dates = [
+    ...project.workPackages.flatMap(wp => [wp.start, wp.end]),
+    ...project.milestones.map(ms => ms.date),
+  ];
+  const holidays = [...calendar.holidays];
+  if (calendar.holidayRegion && dates.length > 0) {
+    const firstYear = Number(minDate(dates).slice(0, 4));
+    const lastYear = Number(maxDate(dates).slice(0, 4));
+    for (let year = firstYear; year <= lastYear; year++) {
+      holidays.push(...germanHolidays(year, calendar.holidayRegion));
+    }
+  }
+
+  const weekDays = [0, 1, 2, 3, 4, 5, 6].map(day => {
+    const working = calendar.workingDays.includes(day);
+    return node('WeekDay', [
+      leaf('DayType', day + 1),
+      leaf('DayWorking', working ? 1 : 0),
+      ...(working
+        ? [
+            node('WorkingTimes', [
+              node('WorkingTime', [leaf('FromTime', '08:00:00'), leaf('ToTime', '12:00:00')]),
+              node('WorkingTime', [leaf('FromTime', '13:00:00'), leaf('ToTime', DAY_FINISH)]),
+            ]),
+          ]
+        : []),
+    ]);
+  });
+  const exception = (name: string, from: string, to: string) =>
+    node('Exception', [
+      leaf('EnteredByOccurrences', 0),
+      node('TimePeriod', [leaf('FromDate', `${from}T00:00:00`), leaf('ToDate', `${to}T23:59:00`)]),
+      leaf('Occurrences', 1),
+      leaf('Name', name),
+      leaf('Type', 1), // Daily
+      leaf('DayWorking', 0),
+    ]);
+  const exceptions = [
+    ...holidays.map(holiday => exception(holiday.name, holiday.date, holiday.date)),
+    ...calendar.shutdowns.map(shutdown => exception(shutdown.name, shutdown.start, shutdown.end)),
+  ];
+
+  return node('Calendars', [
+    node('Calendar', [
+      leaf('UID', 1),
+      leaf('Name', 'Standard'),
+      leaf('IsBaseCalendar', 1),
+      node('WeekDays', weekDays),
+      ...(exceptions.length > 0 ? [node('Exceptions', exceptions)] : []),
+    ]),
+  ]);
+}
+
+/**
+ * Serializes the project as MSPDI: APs become summary tasks (plain tasks
+ * without UAPs), UAPs tasks at their outline level, milestones zero-duration
+ * tasks, assignees work resources. Category and color go to Text1/Text2.
+ */
+export function exportToMspdi(project: Project): string {
+  const { calendar } = project.settings;
+  const codes = wbsCodes(project.workPackages);
+
+  // Task UIDs in outline order, known up front for predecessor links
+  const uids = new Map<string, number>();
+  for (const wp of project.workPackages) {
+    uids.set(wp.id, uids.size + 1);
+    for (const sp of allSubPackages(wp.subPackages)) uids.set(sp.id, uids.size + 1);
+  }
+  for (const ms of project.milestones) uids.set(ms.id, uids.size + 1);
+
+  const resources = new Map<string, number>();
+  const assignments: string[] = [];
+  const tasks: string[] = [];
+
+  const task = (id: string, name: string, level: number, code: string, fields: string[]) => {
+    const uid = uids.get(id)!;
+    tasks.push(
+      node('Task', [
+        leaf('UID', uid),
+        leaf('ID', uid),
+        leaf('Name', name),
+        leaf('WBS', code),
+        leaf('OutlineNumber', code),
+        leaf('OutlineLevel', level),
+        ...fields,
+      ])
+    );
+  };
+  const extendedAttribute = (field: { id: string }, value: string | undefined) =>
+    value ? [node('ExtendedAttribute', [leaf('FieldID', field.id), leaf('Value', value)])] : [];
+  const predecessorLinks = (id: string) =>
+    project.dependencies
+      .filter(dep => dep.toId === id)
+      .map(dep =>
+        node('PredecessorLink', [
+          leaf('PredecessorUID', uids.get(dep.fromId)!),
+          leaf('Type', LINK_TYPES[dep.type]),
+          leaf('CrossProject', 0),
+          leaf('LinkLag', dep.lag * MINUTES_PER_DAY * 10), // Tenths of minutes
+          leaf('LagFormat', 7), // Days
+        ])
+      );
+
+  const addSubPackages = (subPackages: SubPackage[], level: number) => {
+    for (const sp of subPackages) {
+      const summary = isSummary(sp);
+      task(sp.id, sp.title, level, codes.get(sp.id)!, [
+        ...taskTimes(sp.start, sp.end, calendar),
+        leaf('Milestone', 0),
+        leaf('Summary', summary ? 1 : 0),
+        leaf('PercentComplete', summary ? subPackageProgress(sp, calendar) : sp.percentComplete),
+        ...predecessorLinks(sp.id),
+        ...extendedAttribute(CATEGORY_FIELD, sp.category),
+        ...extendedAttribute(COLOR_FIELD, sp.color),
+        leaf('Active', 1),
+      ]);
+      for (const name of sp.assignedTo ?? []) {
+        if (!resources.has(name)) resources.set(name, resources.size + 1);
+        assignments.push(
+          node('Assignment', [
+            leaf('UID', assignments.length + 1),
+            leaf('TaskUID', uids.get(sp.id)!),
+            leaf('ResourceUID', resources.get(name)!),
+            leaf('Units', 1),
+          ])
+        );
+      }
+      addSubPackages(sp.children ?? [], level + 1);
+    }
+  };
+
+  for (const wp of project.workPackages) {
+    task(wp.id, wp.title, 1, codes.get(wp.id)!, [
+      ...taskTimes(wp.start, wp.end, calendar),
+      leaf('Milestone', 0),
+      leaf('Summary', wp.subPackages.length > 0 ? 1 : 0),
+      leaf('PercentComplete', workPackageProgress(wp, calendar) ?? 0),
+      leaf('Active', 1),
+      leaf('Manual', wp.mode === 'manual' ? 1 : 0),
+    ]);
+    addSubPackages(wp.subPackages, 2);
+  }
+  project.milestones.forEach((ms, index) => {
+    task(ms.id, ms.title, 1, String(project.workPackages.length + index + 1), [
+      leaf('Start', `${ms.date}T${DAY_START}`),
+      leaf('Finish', `${ms.date}T${DAY_START}`),
+      leaf('Duration', 'PT0H0M0S'),
+      leaf('DurationFormat', 7),
+      leaf('Milestone', 1),
+      leaf('Summary', 0),
+      leaf('PercentComplete', 0),
+      leaf('Active', 1),
+    ]);
+  });
+
+  const dates = [...project.workPackages.flatMap(wp => [wp.start, wp.end]), ...project.milestones.map(ms => ms.date)];
+  const today = new Date().toISOString().slice(0, 10);
+  const textField = (field: typeof CATEGORY_FIELD) =>
+    node('ExtendedAttribute', [leaf('FieldID', field.id), leaf('FieldName', field.name), leaf('Alias', field.alias)]);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Project xmlns="http://schemas.microsoft.com/project">',
+    leaf('SaveVersion', 14),
+    leaf('Name', `${project.name}.xml`),
+    leaf('Title', project.name),
+    ...(project.description ? [leaf('Subject', project.description)] : []),
+    leaf('ScheduleFromStart', 1),
+    leaf('StartDate', `${dates.length > 0 ? minDate(dates) : today}T${DAY_START}`),
+    leaf('FinishDate', `${dates.length > 0 ? maxDate(dates) : today}T${DAY_FINISH}`),
+    leaf('CalendarUID', 1),
+    leaf('DefaultStartTime', DAY_START),
+    leaf('DefaultFinishTime', DAY_FINISH),
+    leaf('MinutesPerDay', MINUTES_PER_DAY),
+    leaf('MinutesPerWeek', MINUTES_PER_DAY * calendar.workingDays.length),
+    leaf('DaysPerMonth', 20),
+    node('ExtendedAttributes', [textField(CATEGORY_FIELD), textField(COLOR_FIELD)]),
+    exportCalendar(project),
+    node('Tasks', tasks),
+    node(
+      'Resources',
+      [...resources].map(([name, uid]) =>
+        node('Resource', [leaf('UID', uid), leaf('ID', uid), leaf('Name', name), leaf('Type', WORK_RESOURCE)])
+      )
+    ),
+    node('Assignments', assignments),
+    '</Project>',
+    '',
+  ].join('\n');
+}
+
+// Task of an MSPDI file with its outline children
+interface MspdiTask {
+  uid: string;
+  name: string;
+  start: string;
+  end: string;
+  milestone: boolean;
+  manual: boolean;
+  percentComplete: number;
+  category?: string;
+  color?: string;
+  element: XmlElement;
+  children: MspdiTask[];
+}
+
+/**
+ * Date part of an MSPDI date-time ("2024-03-01T08:00:00"), '' if invalid
+ */
+function datePart(value: string | undefined): string {
+  const date = value?.slice(0, 10) ?? '';
+  return isIsoDate(date) ? date : '';
+}
+
+/**
+ * Reads the project calendar: working weekdays, and non-working exceptions as
+ * holidays (single days) or shutdowns (ranges)
+ */
+function importCalendar(root: XmlElement, unsupported: string[]): ProjectCalendar {
+  const calendars = childElements(childElement(root, 'Calendars') ?? root, 'Calendar');
+  const calendarUid = childText(root, 'CalendarUID');
+  const calendar = calendars.find(c => childText(c, 'UID') === calendarUid) ?? calendars[0];
+  if (!calendar) return DEFAULT_CALENDAR;
+  const base = calendars.find(c => childText(c, 'UID') === childText(calendar, 'BaseCalendarUID'));
+
+  const weekDaysOf = (c: XmlElement | undefined) => (c ? childElements(childElement(c, 'WeekDays') ?? c, 'WeekDay') : []);
+  const weekDays = [...weekDaysOf(calendar), ...weekDaysOf(base)];
+  const workingDays: number[] = [];
+  for (let day = 0; day < 7; day++) {
+    const weekDay = weekDays.find(w => childText(w, 'DayType') === String(day + 1));
+    const working = weekDay ? childText(weekDay, 'DayWorking') === '1' : DEFAULT_CALENDAR.workingDays.includes(day);
+    if (working) workingDays.push(day);
+  }
+
+  // Exceptions come as <Exception> (Project 2007 and later) or as weekday 0 with a time period
+  const holidays: Holiday[] = [];
+  const shutdowns: CompanyShutdown[] = [];
+  const exceptions = [
+    ...childElements(childElement(calendar, 'Exceptions') ?? calendar, 'Exception'),
+    ...weekDays.filter(w => childText(w, 'DayType') === '0'),
+  ];
+  for (const exception of exceptions) {
+    const period = childElement(exception, 'TimePeriod');
+    const from = datePart(period && childText(period, 'FromDate'));
+    const to = datePart(period && childText(period, 'ToDate'));
+    const name = childText(exception, 'Name') || 'Ausnahme';
+    if (!from || !to) continue;
+    if (childText(exception, 'DayWorking') === '1') {
+      unsupported.push(`Kalender: Arbeitszeit-Ausnahme „${name}“ wird nicht übernommen`);
+      continue;
+    }
+    const recurring = Number(childText(exception, 'Occurrences') ?? 1) > 1 && (childText(exception, 'Type') ?? '1') !== '1';
+    if (recurring) {
+      unsupported.push(`Kalender: wiederkehrende Ausnahme „${name}“ wird nur für ${from} übernommen`);
+      holidays.push({ date: from, name });
+    } else if (from === to) {
+      holidays.push({ date: from, name });
+    } else {
+      shutdowns.push({ id: crypto.randomUUID(), name, start: from, end: to });
+    }
+  }
+
+  return { workingDays, holidays, shutdowns };
+}
+
+/**
+ * Maps MSPDI XML into a project: outline level 1 becomes APs (milestones
+ * stay milestones), deeper levels nested UAPs, work resources assignees,
+ * predecessor links between leaf tasks dependencies. Everything that has no
+ * place in the model is listed in unsupported; the result is then validated
+ * like a JSON import.
+ */
+export function analyzeMspdi(xml: string): ProjectAnalysis {
+  let root: XmlElement;
+  try {
+    root = parseXml(xml);
+  } catch (e) {
+    return failedAnalysis(e instanceof Error ? e.message : String(e));
+  }
+  if (root.name !== 'Project' || !childElement(root, 'Tasks')) {
+    return failedAnalysis('Die Datei ist keine Microsoft-Project-XML-Datei');
+  }
+
+  const unsupported: string[] = [];
+  const minutesPerDay = Number(childText(root, 'MinutesPerDay')) || MINUTES_PER_DAY;
+
+  // Text fields are found by their id or by the alias given in this file
+  const fieldIds = (field: typeof CATEGORY_FIELD) => {
+    const definitions = childElements(childElement(root, 'ExtendedAttributes') ?? root, 'ExtendedAttribute');
+    const aliased = definitions.find(d => childText(d, 'Alias')?.toLowerCase() === field.alias.toLowerCase());
+    return new Set([field.id, ...(aliased ? [childText(aliased, 'FieldID')!] : [])]);
+  };
+  const categoryIds = fieldIds(CATEGORY_FIELD);
+  const colorIds = fieldIds(COLOR_FIELD);
+  const attribute = (element: XmlElement, ids: Set<string>) => {
+    const value = childElements(element, 'ExtendedAttribute').find(a => ids.has(childText(a, 'FieldID') ?? ''));
+    return (value && childText(value, 'Value')) || undefined;
+  };
+
+  // Outline from the flat task list (level 0 is the project summary task)
+  const topLevel: MspdiTask[] = [];
+  const byUid = new Map<string, MspdiTask>();
+  const open: { level: number; task: MspdiTask }[] = [];
+  let notes = 0;
+  let constraints = 0;
+  let baselines = 0;
+  for (const element of childElements(childElement(root, 'Tasks')!, 'Task')) {
+    const level = Number(childText(element, 'OutlineLevel') ?? 1);
+    if (childText(element, 'IsNull') === '1' || level === 0) continue;
+
+    const start = datePart(childText(element, 'Start'));
+    const finishText = childText(element, 'Finish') ?? '';
+    const finish = datePart(finishText);
+    // An inclusive finish becomes the exclusive end; a finish at midnight or at the start is already exclusive
+    const end =
+      finishText === childText(element, 'Start') || (finishText.endsWith('T00:00:00') && finish > start)
+        ? finish
+        : finish && addDays(finish, 1);
+    const color = attribute(element, colorIds);
+    const task: MspdiTask = {
+      uid: childText(element, 'UID') ?? '',
+      name: childText(element, 'Name') ?? '',
+      start,
+      end,
+      milestone: childText(element, 'Milestone') === '1',
+      manual: childText(element, 'Manual') === '1',
+      percentComplete: clampPercent(Number(childText(element, 'PercentComplete') ?? 0)),
+      category: attribute(element, categoryIds),
+      color: color && /^#[0-9a-fA-F]{6}$/.test(color) ? color : undefined,
+      element,
+      children: [],
+    };
+    if (childText(element, 'Notes')) notes++;
+    if (!['', '0', undefined].includes(childText(element, 'ConstraintType'))) constraints++;
+    if (childElements(element, 'Baseline').length > 0) baselines++;
+
+    while (open.length > 0 && open[open.length - 1].level >= level) open.pop();
+    const parent = open[open.length - 1];
+    (parent ? parent.task.children : topLevel).push(task);
+    open.push({ level, task });
+    byUid.set(task.uid, task);
+  }
+  if (notes > 0) unsupported.push(`${notes} Notiz${notes === 1 ? '' : 'en'} zu Vorgängen werden nicht übernommen`);
+  if (constraints > 0) {
+    unsupported.push(`${constraints} Einschränkung${constraints === 1 ? '' : 'en'} (z. B. „Anfang nicht früher als“) werden nicht übernommen`);
+  }
+  if (baselines > 0) unsupported.push('Basispläne aus MS Project werden nicht übernommen');
+
+  // Model items per task UID; leaf UAPs are the only valid dependency ends
+  const ids = new Map<string, string>();
+  const uapUids = new Set<string>();
+  const leafUids = new Set<string>();
+  const milestones: Milestone[] = [];
+
+  const toMilestone = (task: MspdiTask): Milestone => {
+    const milestone = { id: crypto.randomUUID(), title: task.name, date: task.start };
+    ids.set(task.uid, milestone.id);
+    return milestone;
+  };
+  const toSubPackage = (task: MspdiTask, apTitle: string): SubPackage | null => {
+    if (task.milestone && task.children.length === 0) {
+      unsupported.push(`Meilenstein „${task.name}“ in „${apTitle}“ wird als Projektmeilenstein übernommen`);
+      milestones.push(toMilestone(task));
+      return null;
+    }
+    const children = task.children.map(child => toSubPackage(child, apTitle)).filter(sp => sp !== null) as SubPackage[];
+    const sp: SubPackage = {
+      id: crypto.randomUUID(),
+      title: task.name,
+      start: task.start,
+      end: task.end,
+      status: task.percentComplete === 100 ? 'done' : task.percentComplete > 0 ? 'in-progress' : 'open',
+      percentComplete: task.percentComplete,
+      ...(task.category && { category: task.category }),
+      ...(task.color && { color: task.color }),
+      assignedTo: [],
+      ...(children.length > 0 && { children }),
+    };
+    ids.set(task.uid, sp.id);
+    uapUids.add(task.uid);
+    if (children.length === 0) leafUids.add(task.uid);
+    return sp;
+  };
+
+  const workPackages: WorkPackage[] = [];
+  for (const task of topLevel) {
+    if (task.milestone && task.children.length === 0) {
+      milestones.push(toMilestone(task));
+      continue;
+    }
+    if (task.children.length === 0 && task.percentComplete > 0) {
+      unsupported.push(`„${task.name}“: Fortschritt eines APs ohne UAPs wird nicht übernommen`);
+    }
+    const subPackages = task.children.map(child => toSubPackage(child, task.name)).filter(sp => sp !== null) as SubPackage[];
+    const wp: WorkPackage = {
+      id: crypto.randomUUID(),
+      title: task.name,
+      start: task.start,
+      end: task.end,
+      mode: task.manual || subPackages.length === 0 ? 'manual' : 'auto',
+      subPackages,
+    };
+    ids.set(task.uid, wp.id);
+    workPackages.push(wp.mode === 'auto' ? rollupAp(wp) : { ...wp, subPackages: rollupSubPackages(subPackages) });
+  }
+
+  // Work resources become assignees of UAPs
+  const resources = new Map<string, { name: string; work: boolean }>();
+  for (const resource of childElements(childElement(root, 'Resources') ?? root, 'Resource')) {
+    const name = childText(resource, 'Name');
+    if (!name) continue;
+    resources.set(childText(resource, 'UID') ?? '', { name, work: (childText(resource, 'Type') ?? WORK_RESOURCE) === WORK_RESOURCE });
+  }
+  const assignees = new Map<string, string[]>();
+  const skippedResources = new Set<string>();
+  let skippedAssignments = 0;
+  for (const assignment of childElements(childElement(root, 'Assignments') ?? root, 'Assignment')) {
+    const resource = resources.get(childText(assignment, 'ResourceUID') ?? '');
+    const taskUid = childText(assignment, 'TaskUID') ?? '';
+    if (!resource) continue; // Unassigned placeholder (-65535)
+    if (!resource.work) {
+      skippedResources.add(resource.name);
+    } else if (!uapUids.has(taskUid)) {
+      skippedAssignments++;
+    } else {
+      const names = assignees.get(ids.get(taskUid)!) ?? [];
+      if (!names.includes(resource.name)) assignees.set(ids.get(taskUid)!, [...names, resource.name]);
+    }
+  }
+  for (const name of skippedResources) {
+    unsupported.push(`Ressource „${name}“ ist keine Arbeitsressource und wird nicht zugeordnet`);
+  }
+  if (skippedAssignments > 0) {
+    unsupported.push(`${skippedAssignments} Ressourcenzuordnung${skippedAssignments === 1 ? '' : 'en'} an APs oder Meilensteinen werden nicht übernommen`);
+  }
+
+  // Predecessor links between leaf tasks
+  const dependencies: Dependency[] = [];
+  for (const task of byUid.values()) {
+    for (const link of childElements(task.element, 'PredecessorLink')) {
+      const predecessor = byUid.get(childText(link, 'PredecessorUID') ?? '');
+      const label = `Abhängigkeit „${predecessor?.name ?? '?'}“ → „${task.name}“`;
+      if (!predecessor || childText(link, 'CrossProject') === '1') {
+        unsupported.push(`${label}: Vorgänger in einem anderen Projekt wird nicht übernommen`);
+        continue;
+      }
+      if (!leafUids.has(predecessor.uid) || !leafUids.has(task.uid)) {
+        unsupported.push(`${label} verbindet nicht zwei UAPs ohne Unterpakete und wird nicht übernommen`);
+        continue;
+      }
+      const format = Number(childText(link, 'LagFormat') ?? 7);
+      const minutes = Number(childText(link, 'LinkLag') ?? 0) / 10;
+      let lag = 0;
+      if (PERCENT_LAG_FORMATS.includes(format)) {
+        if (minutes !== 0) unsupported.push(`${label}: prozentuale Verzögerung wird nicht übernommen`);
+      } else {
+        const days = minutes / (ELAPSED_LAG_FORMATS.includes(format) ? 24 * 60 : minutesPerDay);
+        lag = Math.round(days);
+        if (lag !== days) unsupported.push(`${label}: Verzögerung auf ${lag} Tage gerundet`);
+        if (ELAPSED_LAG_FORMATS.includes(format) && lag !== 0) {
+          unsupported.push(`${label}: Verzögerung in fortlaufenden Tagen wird in Arbeitstagen gerechnet`);
+        }
+      }
+      dependencies.push({
+        id: crypto.randomUUID(),
+        fromId: ids.get(predecessor.uid)!,
+        toId: ids.get(task.uid)!,
+        type: (Object.keys(LINK_TYPES) as DependencyType[]).find(type => String(LINK_TYPES[type]) === childText(link, 'Type')) ?? 'FS',
+        lag,
+      });
+    }
+  }
+
+  const withAssignees = (subPackages: SubPackage[]): SubPackage[] =>
+    subPackages.map(sp => ({
+      ...sp,
+      assignedTo: assignees.get(sp.id) ?? [],
+      ...(sp.children && { children: withAssignees(sp.children) }),
+    }));
+
+  const title = childText(root, 'Title') || childText(root, 'Name')?.replace(/\.xml$/i, '');
+  const description = childText(root, 'Subject');
+  const analysis = analyzeProjectData({
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: crypto.randomUUID(),
+    name: title || 'Importiertes Projekt',
+    ...(description && { description }),
+    settings: { clampUapInsideManualAp: false, calendar: importCalendar(root, unsupported) },
+    workPackages: workPackages.map(wp => ({ ...wp, subPackages: withAssignees(wp.subPackages) })),
+    milestones,
+    dependencies,
+    baselines: [],
+  });
+  return { ...analysis, unsupported: [...unsupported, ...analysis.unsupported] };
+}
@@ -1,25 +1,371 @@
-// PDF generation utilities (no external libraries)
+// PDF and PNG export of the timeline (no external libraries)
+
+import { Project, SubPackage } from '../types';
+import { addDays, daysBetween, formatDate, minDate, maxDate, toIso } from './dateUtils';
+import { isWorkingDay } from './calendar';
+import { computeCriticalPath } from './criticalPath';
+import { sidesFromDependencyType } from './dependencyUtils';
+import { statusDateOf, subPackageProgress, workPackageProgress } from './progress';
+import { TickUnit, tickUnitFor, startOfUnit, unitTicks, formatTickLabel } from './timeScale';
+import { isSummary, wbsCodes } from './wbs';
+import {
+  PageSize,
+  PageOrientation,
+  PAGE_SIZES,
+  PdfPage,
+  createPdfPage,
+  createPdf,
+  fitText,
+  textWidth,
+} from './pdfWriter';
+
+export interface PdfExportOptions {
+  pageSize: PageSize;
+  orientation: PageOrientation;
+  pointsPerDay: number | null; // Time scale; null fits the whole project onto the page width
+  highlightCriticalPath: boolean; // Critical UAPs, milestones and links in red, as in the timeline
+}
+
+// Screen pixels are 1/96 inch, PDF points 1/72 inch
+export const POINTS_PER_PIXEL = 0.75;
+
+const MARGIN = 28;
+const TITLE_HEIGHT = 46;
+const HEADER_HEIGHT = 20;
+const ROW_HEIGHT = 16;
+const MAX_LABEL_WIDTH = 200;
+const LABEL_INDENT = 8; // Per outline level
+
+// Same colors as the timeline
+const BAR_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#06B6D4'];
+const AP_COLOR = '#64748B';
+const MILESTONE_COLOR = '#374151';
+const DEPENDENCY_COLOR = '#94A3B8';
+const CRITICAL_COLOR = '#EF4444';
+const STATUS_DATE_COLOR = '#8B5CF6';
+const GRID_COLOR = '#E5E7EB';
+const NON_WORKING_COLOR = '#F3F4F6';
+const TEXT_MUTED = '#6B7280';
+
+// One row of the chart
+interface ChartRow {
+  id: string;
+  kind: 'ap' | 'uap' | 'ms';
+  code: string;
+  title: string;
+  level: number;
+  start: string;
+  end: string;
+  color: string;
+  progress: number | null; // Percent
+  summary: boolean; // APs and UAPs with children are drawn as thin bars
+}
+
+// Pages of the chart: columns split the time axis, bands the rows
+export interface PdfLayout {
+  width: number;
+  height: number;
+  labelWidth: number;
+  chartWidth: number;
+  pointsPerDay: number;
+  unit: TickUnit;
+  from: string;
+  columns: number;
+  rowsPerPage: number;
+  bands: number;
+}
 
 /**
- * Generates a minimal PDF with an embedded JPEG image
- * PDF structure follows PDF 1.4 specification
+ * APs, UAPs (any depth) and milestones in outline order
  */
-export async function generatePdfFromSvg(
-  svgElement: SVGSVGElement,
-  filename: string
-): Promise<void> {
-  // Convert SVG to canvas (high resolution)
-  const canvas = await svgToCanvas(svgElement);
+function chartRows(project: Project): ChartRow[] {
+  const { calendar } = project.settings;
+  const codes = wbsCodes(project.workPackages);
+  const rows: ChartRow[] = [];
+
+  for (const wp of project.workPackages) {
+    rows.push({
+      id: wp.id,
+      kind: 'ap',
+      code: codes.get(wp.id)!,
+      title: wp.title,
+      level: 0,
+      start: wp.start,
+      end: wp.end,
+      color: AP_COLOR,
+      progress: workPackageProgress(wp, calendar),
+      summary: true,
+    });
+    let index = 0;
+    const addSubPackages = (subPackages: SubPackage[], level: number) => {
+      for (const sp of subPackages) {
+        rows.push({
+          id: sp.id,
+          kind: 'uap',
+          code: codes.get(sp.id)!,
+          title: sp.title,
+          level,
+          start: sp.start,
+          end: sp.end,
+          color: /^#[0-9a-fA-F]{6}$/.test(sp.color ?? '') ? sp.color! : BAR_COLORS[index % BAR_COLORS.length],
+          progress: subPackageProgress(sp, calendar),
+          summary: isSummary(sp),
+        });
+        index++;
+        addSubPackages(sp.children ?? [], level + 1);
+      }
+    };
+    addSubPackages(wp.subPackages, 1);
+  }
 
-  // Convert canvas to JPEG with high quality (0.98 for near-lossless)
-  const jpegDataUrl = canvas.toDataURL('image/jpeg', 0.98);
-  const jpegData = dataUrlToBytes(jpegDataUrl);
+  for (const ms of project.milestones) {
+    rows.push({
+      id: ms.id,
+      kind: 'ms',
+      code: '',
+      title: ms.title,
+      level: 0,
+      start: ms.date,
+      end: ms.date,
+      color: MILESTONE_COLOR,
+      progress: null,
+      summary: false,
+    });
+  }
+  return rows;
+}
 
-  // Create PDF with embedded JPEG
-  const pdfBytes = createPdfWithImage(jpegData, canvas.width, canvas.height);
+/**
+ * Mixes a hex color with white (amount 0 = color, 1 = white)
+ */
+function tint(hex: string, amount: number): string {
+  const value = parseInt(hex.slice(1), 16);
+  const channel = (shift: number) => Math.round(((value >> shift) & 0xff) * (1 - amount) + 255 * amount);
+  return `#${[16, 8, 0].map(shift => channel(shift).toString(16).padStart(2, '0')).join('')}`;
+}
 
-  // Download PDF
-  downloadBlob(pdfBytes, filename, 'application/pdf');
+/**
+ * Page grid of the chart for the options
+ */
+export function pdfLayout(
+  project: Project,
+  options: Pick<PdfExportOptions, 'pageSize' | 'orientation' | 'pointsPerDay'>
+): PdfLayout {
+  const size = PAGE_SIZES[options.pageSize];
+  const landscape = options.orientation === 'landscape';
+  const width = landscape ? size.height : size.width;
+  const height = landscape ? size.width : size.height;
+  const labelWidth = Math.min(MAX_LABEL_WIDTH, (width - 2 * MARGIN) * 0.3);
+  const chartWidth = width - 2 * MARGIN - labelWidth;
+
+  const rows = chartRows(project);
+  const dates = rows.flatMap(row => [row.start, row.end]);
+  const rangeStart = minDate(dates);
+  // A day of room after the last end for milestones and zero-length items
+  const rangeEnd = addDays(maxDate(dates), 1);
+  const fitPointsPerDay = chartWidth / Math.max(daysBetween(rangeStart, rangeEnd), 1);
+  const pointsPerDay = options.pointsPerDay ?? fitPointsPerDay;
+  const unit = tickUnitFor(pointsPerDay / POINTS_PER_PIXEL);
+  // Fitted charts start on the first day, others on a unit boundary like the timeline
+  const from = options.pointsPerDay === null ? rangeStart : startOfUnit(rangeStart, unit);
+  const totalWidth = daysBetween(from, rangeEnd) * pointsPerDay;
+
+  const rowsPerPage = Math.max(1, Math.floor((height - 2 * MARGIN - TITLE_HEIGHT - HEADER_HEIGHT) / ROW_HEIGHT));
+  return {
+    width,
+    height,
+    labelWidth,
+    chartWidth,
+    pointsPerDay,
+    unit,
+    from,
+    columns: Math.max(1, Math.ceil(totalWidth / chartWidth - 1e-6)),
+    rowsPerPage,
+    bands: Math.max(1, Math.ceil(rows.length / rowsPerPage)),
+  };
+}
+
+/**
+ * Project name, description, export date and page number on top of every page
+ */
+function drawTitleBlock(page: PdfPage, project: Project, exportDate: string, pageNumber: number, pageCount: number) {
+  const right = page.width - MARGIN;
+  const info = `Stand: ${formatDate(exportDate)} · Seite ${pageNumber} von ${pageCount}`;
+  const infoWidth = textWidth(info, 8);
+  const titleWidth = right - MARGIN - infoWidth - 16;
+  page.text(MARGIN, MARGIN + 14, fitText(project.name, titleWidth, 14, true), { size: 14, bold: true, color: '#111827' });
+  if (project.description) {
+    const description = project.description.replace(/\s+/g, ' ');
+    page.text(MARGIN, MARGIN + 28, fitText(description, titleWidth, 8.5), { size: 8.5, color: TEXT_MUTED });
+  }
+  page.text(right, MARGIN + 14, info, { size: 8, color: TEXT_MUTED, align: 'right' });
+  page.line(MARGIN, MARGIN + TITLE_HEIGHT - 8, right, MARGIN + TITLE_HEIGHT - 8, { stroke: '#D1D5DB', lineWidth: 0.75 });
+}
+
+/**
+ * Vector PDF of the timeline: bars, milestones and dependencies as paths,
+ * labels as text. Charts wider or taller than a page are split across pages,
+ * each with the title block, the time header and the tree labels of its rows.
+ * Dependencies to a row on another page end in a stub at the page edge,
+ * labelled with the WBS code (or milestone title) of the other item.
+ */
+export function createTimelinePdf(project: Project, options: PdfExportOptions, now = new Date()): Uint8Array {
+  const layout = pdfLayout(project, options);
+  const { width, height, labelWidth, chartWidth, pointsPerDay, unit, from, columns, rowsPerPage, bands } = layout;
+  const { calendar } = project.settings;
+  const rows = chartRows(project);
+  const rowIndex = new Map(rows.map((row, index) => [row.id, index]));
+  const exportDate = toIso(now);
+  const statusDate = statusDateOf(project);
+  const criticalPath = options.highlightCriticalPath
+    ? computeCriticalPath(project.workPackages, project.milestones, project.dependencies, calendar)
+    : null;
+  const isCritical = (id: string) => criticalPath?.timings.get(id)?.isCritical ?? false;
+  const reference = (row: ChartRow) => row.code || fitText(row.title, 60, 6);
+
+  const chartLeft = MARGIN + labelWidth;
+  const headerTop = MARGIN + TITLE_HEIGHT;
+  const rowsTop = headerTop + HEADER_HEIGHT;
+  const pages: PdfPage[] = [];
+
+  for (let band = 0; band < bands; band++) {
+    const bandRows = rows.slice(band * rowsPerPage, (band + 1) * rowsPerPage);
+    const rowsBottom = rowsTop + bandRows.length * ROW_HEIGHT;
+    const rowCenter = (index: number) => rowsTop + (index - band * rowsPerPage) * ROW_HEIGHT + ROW_HEIGHT / 2;
+
+    for (let column = 0; column < columns; column++) {
+      const page = createPdfPage(width, height);
+      const offset = column * chartWidth;
+      const xOf = (date: string) => chartLeft + daysBetween(from, date) * pointsPerDay - offset;
+      const visibleFrom = addDays(from, Math.floor(offset / pointsPerDay));
+      const visibleTo = addDays(from, Math.ceil((offset + chartWidth) / pointsPerDay));
+
+      drawTitleBlock(page, project, exportDate, pages.length + 1, bands * columns);
+
+      // AP rows are shaded across labels and chart
+      bandRows.forEach((row, index) => {
+        const top = rowsTop + index * ROW_HEIGHT;
+        if (row.kind === 'ap') page.rect(MARGIN, top, labelWidth + chartWidth, ROW_HEIGHT, { fill: '#F8FAFC' });
+        page.line(MARGIN, top + ROW_HEIGHT, chartLeft + chartWidth, top + ROW_HEIGHT, { stroke: GRID_COLOR, lineWidth: 0.4 });
+      });
+
+      // Tree labels, repeated on every page of the band
+      page.text(MARGIN + 4, headerTop + 13, 'Vorgang', { size: 8, bold: true, color: '#374151' });
+      bandRows.forEach((row, index) => {
+        const baseline = rowsTop + index * ROW_HEIGHT + 11;
+        const bold = row.kind === 'ap';
+        let x = MARGIN + 4 + row.level * LABEL_INDENT;
+        if (row.code) {
+          page.text(x, baseline, row.code, { size: 7.5, color: '#9CA3AF' });
+          x += textWidth(row.code, 7.5) + 4;
+        }
+        page.text(x, baseline, fitText(row.title, MARGIN + labelWidth - 6 - x, 8, bold), { size: 8, bold, color: '#111827' });
+      });
+
+      page.clip(chartLeft, headerTop, chartWidth, rowsBottom - headerTop, () => {
+        // Non-working days, then the time grid with its labels
+        if (unit === 'day') {
+          for (let day = visibleFrom; day < visibleTo; day = addDays(day, 1)) {
+            if (!isWorkingDay(day, calendar)) {
+              page.rect(xOf(day), rowsTop, pointsPerDay, rowsBottom - rowsTop, { fill: NON_WORKING_COLOR });
+            }
+          }
+        }
+        for (const tick of unitTicks(visibleFrom, visibleTo, unit)) {
+          const x = xOf(tick);
+          page.line(x, headerTop, x, rowsBottom, { stroke: GRID_COLOR, lineWidth: 0.5 });
+          page.text(x + 3, headerTop + 13, formatTickLabel(tick, unit), { size: 7, color: TEXT_MUTED });
+        }
+
+        bandRows.forEach((row, index) => {
+          const center = rowCenter(band * rowsPerPage + index);
+          const x1 = xOf(row.start);
+          if (row.kind === 'ms') {
+            const fill = isCritical(row.id) ? CRITICAL_COLOR : row.color;
+            page.polygon([[x1, center - 5], [x1 + 5, center], [x1, center + 5], [x1 - 5, center]], { fill });
+            return;
+          }
+          const barWidth = Math.max(xOf(row.end) - x1, 1.5);
+          const barHeight = row.summary ? 6 : 10;
+          const top = center - barHeight / 2;
+          // Light bar with the done part in full color
+          page.rect(x1, top, barWidth, barHeight, { fill: tint(row.color, 0.55) });
+          if (row.progress) page.rect(x1, top, (barWidth * row.progress) / 100, barHeight, { fill: row.color });
+          if (isCritical(row.id)) page.rect(x1, top, barWidth, barHeight, { stroke: CRITICAL_COLOR, lineWidth: 1 });
+        });
+
+        // Dependencies; links to a row of another band end in a labelled stub at the band edge
+        for (const dep of project.dependencies) {
+          const fromIndex = rowIndex.get(dep.fromId);
+          const toIndex = rowIndex.get(dep.toId);
+          if (fromIndex === undefined || toIndex === undefined) continue;
+          const fromHere = Math.floor(fromIndex / rowsPerPage) === band;
+          const toHere = Math.floor(toIndex / rowsPerPage) === band;
+          if (!fromHere && !toHere) continue;
+
+          const { fromSide, toSide } = sidesFromDependencyType(dep.type);
+          const fromRow = rows[fromIndex];
+          const toRow = rows[toIndex];
+          const x1 = xOf(fromSide === 'end' ? fromRow.end : fromRow.start);
+          const x2 = xOf(toSide === 'end' ? toRow.end : toRow.start);
+          const color = criticalPath?.criticalDependencyIds.has(dep.id) ? CRITICAL_COLOR : DEPENDENCY_COLOR;
+          const line = { stroke: color, lineWidth: color === CRITICAL_COLOR ? 1 : 0.6 };
+          const direction = toSide === 'start' ? 1 : -1; // Arrows point into the bar
+          const arrowInto = (y: number) =>
+            page.polygon([[x2, y], [x2 - direction * 3.5, y - 2], [x2 - direction * 3.5, y + 2]], { fill: color });
+
+          if (fromHere && toHere) {
+            const y1 = rowCenter(fromIndex);
+            const y2 = rowCenter(toIndex);
+            const bend = x1 + (fromSide === 'end' ? 4 : -4);
+            page.polyline([[x1, y1], [bend, y1], [bend, y2], [x2 - direction * 3, y2]], line);
+            arrowInto(y2);
+            continue;
+          }
+
+          // The other end lies above or below this band
+          const down = fromHere ? toIndex > fromIndex : fromIndex > toIndex;
+          const edge = down ? rowsBottom : rowsTop;
+          const bend = fromHere ? x1 + (fromSide === 'end' ? 4 : -4) : x2 - direction * 4;
+          const label = fromHere ? `nach ${reference(toRow)}` : `von ${reference(fromRow)}`;
+          if (fromHere) {
+            // Arrow pointing at the edge
+            const y1 = rowCenter(fromIndex);
+            const sign = down ? 1 : -1;
+            const tip = edge - sign;
+            page.polyline([[x1, y1], [bend, y1], [bend, tip - sign * 3]], line);
+            page.polygon([[bend, tip], [bend - 2, tip - sign * 3.5], [bend + 2, tip - sign * 3.5]], { fill: color });
+          } else {
+            const y2 = rowCenter(toIndex);
+            page.polyline([[bend, edge], [bend, y2], [x2 - direction * 3, y2]], line);
+            arrowInto(y2);
+          }
+          if (bend >= chartLeft && bend <= chartLeft + chartWidth) {
+            page.text(bend + 2, down ? edge - 2 : edge + 7, label, { size: 6, color });
+          }
+        }
+
+        // Status date
+        const statusX = xOf(statusDate);
+        page.line(statusX, headerTop, statusX, rowsBottom, { stroke: STATUS_DATE_COLOR, lineWidth: 0.8, dash: [2, 2] });
+      });
+
+      // Frame around labels and chart
+      page.line(MARGIN, headerTop + HEADER_HEIGHT, chartLeft + chartWidth, headerTop + HEADER_HEIGHT, { stroke: '#9CA3AF', lineWidth: 0.6 });
+      page.line(chartLeft, headerTop, chartLeft, rowsBottom, { stroke: '#9CA3AF', lineWidth: 0.6 });
+      page.rect(MARGIN, headerTop, labelWidth + chartWidth, rowsBottom - headerTop, { stroke: '#9CA3AF', lineWidth: 0.6 });
+      pages.push(page);
+    }
+  }
+
+  return createPdf(pages, { title: project.name, created: now });
+}
+
+/**
+ * Downloads the timeline as a vector PDF (see createTimelinePdf)
+ */
+export function generateTimelinePdf(project: Project, options: PdfExportOptions, filename: string): void {
+  downloadBlob(createTimelinePdf(project, options), filename, 'application/pdf');
 }
 
 /**
@@ -77,135 +423,6 @@ async function svgToCanvas(svgElement: SVGSVGElement): Promise<HTMLCanvasElement
   return canvas;
 }
 
-/**
- * Converts data URL to byte array
- */
-function dataUrlToBytes(dataUrl: string): Uint8Array {
-  const base64 = dataUrl.split(',')[1];
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
-/**
- * Creates a minimal PDF document with embedded JPEG image
- * A4 Landscape: 842 x 595 points (1 point = 1/72 inch)
- */
-function createPdfWithImage(jpegData: Uint8Array, imgWidth: number, imgHeight: number): Uint8Array {
-  const pageWidth = 842; // A4 landscape width in points
-  const pageHeight = 595; // A4 landscape height in points
-
-  // Calculate image dimensions to fit page (with margins)
-  const margin = 40;
-  const maxWidth = pageWidth - 2 * margin;
-  const maxHeight = pageHeight - 2 * margin;
-
-  const scale = Math.min(maxWidth / imgWidth, maxHeight / imgHeight);
-  const scaledWidth = imgWidth * scale;
-  const scaledHeight = imgHeight * scale;
-
-  // Center image on page
-  const x = (pageWidth - scaledWidth) / 2;
-  const y = (pageHeight - scaledHeight) / 2;
-
-  // Build PDF structure
-  const pdfLines: string[] = [];
-
-  // Header
-  pdfLines.push('%PDF-1.4');
-  pdfLines.push('%âãÏÓ'); // Binary marker
-
-  // Object 1: Catalog
-  const obj1Start = getPdfPosition(pdfLines);
-  pdfLines.push('1 0 obj');
-  pdfLines.push('<< /Type /Catalog /Pages 2 0 R >>');
-  pdfLines.push('endobj');
-
-  // Object 2: Pages
-  const obj2Start = getPdfPosition(pdfLines);
-  pdfLines.push('2 0 obj');
-  pdfLines.push('<< /Type /Pages /Kids [3 0 R] /Count 1 >>');
-  pdfLines.push('endobj');
-
-  // Object 3: Page
-  const obj3Start = getPdfPosition(pdfLines);
-  pdfLines.push('3 0 obj');
-  pdfLines.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}]`);
-  pdfLines.push('   /Contents 4 0 R /Resources << /XObject << /Im1 5 0 R >> >> >>');
-  pdfLines.push('endobj');
-
-  // Object 4: Content stream
-  const contentStream = `q\n${scaledWidth.toFixed(2)} 0 0 ${scaledHeight.toFixed(2)} ${x.toFixed(2)} ${y.toFixed(2)} cm\n/Im1 Do\nQ\n`;
-  const obj4Start = getPdfPosition(pdfLines);
-  pdfLines.push('4 0 obj');
-  pdfLines.push(`<< /Length ${contentStream.length} >>`);
-  pdfLines.push('stream');
-  pdfLines.push(contentStream);
-  pdfLines.push('endstream');
-  pdfLines.push('endobj');
-
-  // Object 5: Image
-  const obj5Start = getPdfPosition(pdfLines);
-  pdfLines.push('5 0 obj');
-  pdfLines.push(`<< /Type /XObject /Subtype /Image /Width ${imgWidth} /Height ${imgHeight}`);
-  pdfLines.push('   /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode');
-  pdfLines.push(`   /Length ${jpegData.length} >>`);
-  pdfLines.push('stream');
-
-  // We'll add the binary JPEG data separately
-  const beforeImage = pdfLines.join('\n') + '\n';
-  const afterImage = '\nendstream\nendobj\n';
-
-  // Cross-reference table
-  const xrefStart = beforeImage.length + jpegData.length + afterImage.length;
-  const xref = [
-    'xref',
-    '0 6',
-    '0000000000 65535 f ',
-    padOffset(obj1Start),
-    padOffset(obj2Start),
-    padOffset(obj3Start),
-    padOffset(obj4Start),
-    padOffset(obj5Start),
-    'trailer',
-    '<< /Size 6 /Root 1 0 R >>',
-    'startxref',
-    xrefStart.toString(),
-    '%%EOF'
-  ].join('\n');
-
-  // Combine everything
-  const textEncoder = new TextEncoder();
-  const beforeBytes = textEncoder.encode(beforeImage);
-  const afterBytes = textEncoder.encode(afterImage);
-  const xrefBytes = textEncoder.encode(xref);
-
-  const totalLength = beforeBytes.length + jpegData.length + afterBytes.length + xrefBytes.length;
-  const pdfBytes = new Uint8Array(totalLength);
-
-  let offset = 0;
-  pdfBytes.set(beforeBytes, offset);
-  offset += beforeBytes.length;
-  pdfBytes.set(jpegData, offset);
-  offset += jpegData.length;
-  pdfBytes.set(afterBytes, offset);
-  offset += afterBytes.length;
-  pdfBytes.set(xrefBytes, offset);
-
-  return pdfBytes;
-}
-
-function getPdfPosition(lines: string[]): number {
-  return lines.join('\n').length + 1; // +1 for newline
-}
-
-function padOffset(offset: number): string {
-  return offset.toString().padStart(10, '0') + ' 00000 n ';
-}
-
 /**
  * Downloads a blob as a file
  */
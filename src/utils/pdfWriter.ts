@@ -0,0 +1,243 @@
+// Vector PDF writer: pages of paths and text in the standard Helvetica fonts (no external libraries)
+
+export type PageSize = 'a4' | 'a3' | 'letter';
+export type PageOrientation = 'landscape' | 'portrait';
+
+// Portrait dimensions in points (1/72 inch)
+export const PAGE_SIZES: Record<PageSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 595.28, height: 841.89 },
+  a3: { label: 'A3', width: 841.89, height: 1190.55 },
+  letter: { label: 'Letter', width: 612, height: 792 },
+};
+
+export interface ShapeStyle {
+  fill?: string; // Hex color
+  stroke?: string;
+  lineWidth?: number;
+  dash?: number[];
+}
+
+export interface TextStyle {
+  size: number;
+  bold?: boolean;
+  color?: string;
+  align?: 'left' | 'center' | 'right';
+}
+
+// Coordinates have their origin in the top left corner, y grows downwards
+export interface PdfPage {
+  width: number;
+  height: number;
+  rect: (x: number, y: number, width: number, height: number, style: ShapeStyle) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, style: ShapeStyle) => void;
+  polygon: (points: [number, number][], style: ShapeStyle) => void;
+  polyline: (points: [number, number][], style: ShapeStyle) => void;
+  text: (x: number, y: number, text: string, style: TextStyle) => void; // y = baseline
+  clip: (x: number, y: number, width: number, height: number, draw: () => void) => void;
+  content: () => string;
+}
+
+// Glyph widths (1/1000 em) of the characters 32–126 in Helvetica and Helvetica-Bold
+const ASCII_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const ASCII_WIDTHS_BOLD = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// WinAnsiEncoding codes of the punctuation outside Latin-1, with their width
+const WIN_ANSI_EXTRA: Record<string, { code: number; width: number }> = {
+  '€': { code: 0x80, width: 556 },
+  '‚': { code: 0x82, width: 222 },
+  '„': { code: 0x84, width: 333 },
+  '…': { code: 0x85, width: 1000 },
+  '‘': { code: 0x91, width: 222 },
+  '’': { code: 0x92, width: 222 },
+  '“': { code: 0x93, width: 333 },
+  '”': { code: 0x94, width: 333 },
+  '•': { code: 0x95, width: 350 },
+  '–': { code: 0x96, width: 556 },
+  '—': { code: 0x97, width: 1000 },
+};
+
+/**
+ * WinAnsiEncoding code of a character; characters the standard fonts lack become "?"
+ */
+function winAnsiCode(char: string): number {
+  const extra = WIN_ANSI_EXTRA[char];
+  if (extra) return extra.code;
+  const code = char.codePointAt(0) ?? 0x3f;
+  return (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) ? code : 0x3f;
+}
+
+function charWidth(char: string, bold: boolean): number {
+  const widths = bold ? ASCII_WIDTHS_BOLD : ASCII_WIDTHS;
+  const code = winAnsiCode(char);
+  if (code <= 0x7e) return widths[code - 32];
+  if (WIN_ANSI_EXTRA[char]) return WIN_ANSI_EXTRA[char].width;
+  if (char === 'ß') return 611;
+  // Accented letters are as wide as their base letter
+  const base = char.normalize('NFD')[0];
+  return base !== char && base.charCodeAt(0) <= 0x7e ? widths[base.charCodeAt(0) - 32] : 556;
+}
+
+/**
+ * Width of a text in points
+ */
+export function textWidth(text: string, size: number, bold = false): number {
+  let width = 0;
+  for (const char of text) width += charWidth(char, bold);
+  return (width * size) / 1000;
+}
+
+/**
+ * Text shortened with "…" so it fits into the width
+ */
+export function fitText(text: string, maxWidth: number, size: number, bold = false): string {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+  const chars = [...text];
+  while (chars.length > 0 && textWidth(chars.join('') + '…', size, bold) > maxWidth) chars.pop();
+  return chars.length > 0 ? chars.join('').trimEnd() + '…' : '';
+}
+
+/**
+ * String literal in WinAnsiEncoding; bytes outside ASCII as octal escapes
+ */
+function pdfString(text: string): string {
+  let result = '(';
+  for (const char of text) {
+    const code = winAnsiCode(char);
+    if (char === '(' || char === ')' || char === '\\') result += `\\${char}`;
+    else if (code > 0x7e) result += `\\${code.toString(8).padStart(3, '0')}`;
+    else result += String.fromCharCode(code);
+  }
+  return result + ')';
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function colorOperands(hex: string): string {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map(channel => num(channel / 255)).join(' ');
+}
+
+/**
+ * Empty page; the drawing functions append operators to its content stream
+ */
+export function createPdfPage(width: number, height: number): PdfPage {
+  const ops: string[] = [];
+  const y = (top: number) => num(height - top);
+
+  // Sets colors and line style, then paints the current path
+  const paint = (style: ShapeStyle, closed: boolean) => {
+    if (style.fill) ops.push(`${colorOperands(style.fill)} rg`);
+    if (style.stroke) {
+      ops.push(`${colorOperands(style.stroke)} RG ${num(style.lineWidth ?? 1)} w [${(style.dash ?? []).map(num).join(' ')}] 0 d`);
+    }
+    if (style.fill && style.stroke) ops.push(closed ? 'b' : 'B');
+    else if (style.fill) ops.push('f');
+    else if (style.stroke) ops.push(closed ? 's' : 'S');
+    else ops.push('n');
+  };
+  const path = (points: [number, number][]) =>
+    points.map(([px, py], index) => `${num(px)} ${y(py)} ${index === 0 ? 'm' : 'l'}`).join(' ');
+
+  return {
+    width,
+    height,
+    rect(x, top, rectWidth, rectHeight, style) {
+      ops.push(`${num(x)} ${y(top + rectHeight)} ${num(rectWidth)} ${num(rectHeight)} re`);
+      paint(style, false);
+    },
+    line(x1, y1, x2, y2, style) {
+      ops.push(path([[x1, y1], [x2, y2]]));
+      paint({ ...style, fill: undefined }, false);
+    },
+    polygon(points, style) {
+      ops.push(path(points));
+      paint(style, true);
+    },
+    polyline(points, style) {
+      ops.push(path(points));
+      paint({ ...style, fill: undefined }, false);
+    },
+    text(x, baseline, text, style) {
+      if (!text) return;
+      const width = textWidth(text, style.size, style.bold);
+      const left = style.align === 'right' ? x - width : style.align === 'center' ? x - width / 2 : x;
+      ops.push(
+        `BT /${style.bold ? 'F2' : 'F1'} ${num(style.size)} Tf ${colorOperands(style.color ?? '#000000')} rg ` +
+          `${num(left)} ${y(baseline)} Td ${pdfString(text)} Tj ET`
+      );
+    },
+    clip(x, top, clipWidth, clipHeight, draw) {
+      ops.push(`q ${num(x)} ${y(top + clipHeight)} ${num(clipWidth)} ${num(clipHeight)} re W n`);
+      draw();
+      ops.push('Q');
+    },
+    content: () => ops.join('\n'),
+  };
+}
+
+function pdfDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `D:${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  );
+}
+
+/**
+ * PDF 1.4 document of the pages with Helvetica and Helvetica-Bold (standard
+ * fonts, not embedded), so the text stays selectable and searchable
+ */
+export function createPdf(pages: PdfPage[], info: { title: string; created: Date }): Uint8Array {
+  // Objects 1–5 are fixed, then a page and its content stream per page
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title ${pdfString(info.title)} /Producer (Projekt Zeitplan) /CreationDate (${pdfDate(info.created)}) >>`,
+  ];
+  pages.forEach((page, index) => {
+    const content = page.content();
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Everything after the binary marker comment is ASCII, so string lengths are byte offsets
+  const header = [0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x34, 0x0a, 0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]; // %PDF-1.4 %âãÏÓ
+  let body = '';
+  const offsets = objects.map((object, index) => {
+    const offset = header.length + body.length;
+    body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = header.length + body.length;
+  body +=
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('') +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(header.length + body.length);
+  bytes.set(header);
+  for (let i = 0; i < body.length; i++) bytes[header.length + i] = body.charCodeAt(i);
+  return bytes;
+}
@@ -0,0 +1,104 @@
+// Progress tracking: UAP status, percent complete and weighted rollup
+
+import { Project, WorkPackage, SubPackage, SubPackageStatus, ProjectCalendar } from '../types';
+import { toIso } from './dateUtils';
+import { workingDaysBetween } from './calendar';
+import { isSummary, leafSubPackages } from './wbs';
+
+export const SUB_PACKAGE_STATUSES: SubPackageStatus[] = ['open', 'in-progress', 'done', 'blocked'];
+
+export const STATUS_LABELS: Record<SubPackageStatus, string> = {
+  open: 'Offen',
+  'in-progress': 'In Arbeit',
+  done: 'Erledigt',
+  blocked: 'Blockiert',
+};
+
+export const STATUS_COLORS: Record<SubPackageStatus, string> = {
+  open: '#9CA3AF',
+  'in-progress': '#3B82F6',
+  done: '#10B981',
+  blocked: '#EF4444',
+};
+
+/**
+ * Rounds and clamps a percentage to 0–100
+ */
+export function clampPercent(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.min(100, Math.max(0, Math.round(value)));
+}
+
+/**
+ * Keeps status and percent complete consistent when one of them changes:
+ * "done" means 100 %, 100 % means "done", reopening a done UAP resets it
+ * to 0 %, and entering progress moves an open or done UAP to "in progress".
+ * Blocked UAPs stay blocked until they are finished.
+ */
+export function syncProgress(uap: SubPackage, updates: Partial<SubPackage>): Partial<SubPackage> {
+  if (updates.status !== undefined && updates.status !== uap.status) {
+    if (updates.status === 'done') return { ...updates, percentComplete: 100 };
+    if (uap.status === 'done' && (updates.percentComplete ?? uap.percentComplete) === 100) {
+      return { ...updates, percentComplete: 0 };
+    }
+    return updates;
+  }
+
+  if (updates.percentComplete !== undefined) {
+    const percentComplete = clampPercent(updates.percentComplete);
+    let status = uap.status;
+    if (percentComplete === 100) status = 'done';
+    else if (status === 'done' || (status === 'open' && percentComplete > 0)) status = 'in-progress';
+    else if (status === 'in-progress' && percentComplete === 0) status = 'open';
+    return { ...updates, percentComplete, status };
+  }
+
+  return updates;
+}
+
+/**
+ * Progress of several UAPs, weighted by their duration in working days
+ * (at least one day each). Null if there are no UAPs. Pass leaves only:
+ * the percentage stored on a summary is not maintained.
+ */
+export function weightedProgress(subPackages: SubPackage[], calendar: ProjectCalendar): number | null {
+  if (subPackages.length === 0) return null;
+
+  let total = 0;
+  let done = 0;
+  for (const sp of subPackages) {
+    const weight = Math.max(workingDaysBetween(sp.start, sp.end, calendar), 1);
+    total += weight;
+    done += weight * sp.percentComplete;
+  }
+  return Math.round(done / total);
+}
+
+export function workPackageProgress(wp: WorkPackage, calendar: ProjectCalendar): number | null {
+  return weightedProgress(leafSubPackages(wp.subPackages), calendar);
+}
+
+/**
+ * Progress of a UAP: its own percentage, or the weighted progress below it for a summary
+ */
+export function subPackageProgress(sp: SubPackage, calendar: ProjectCalendar): number {
+  return isSummary(sp) ? weightedProgress(leafSubPackages(sp.children!), calendar) ?? 0 : sp.percentComplete;
+}
+
+export function projectProgress(project: Project): number | null {
+  return weightedProgress(
+    project.workPackages.flatMap(wp => leafSubPackages(wp.subPackages)),
+    project.settings.calendar
+  );
+}
+
+export function isWorkPackageDone(wp: WorkPackage): boolean {
+  return wp.subPackages.length > 0 && wp.subPackages.every(sp => sp.status === 'done');
+}
+
+/**
+ * Status date of the project (today if none is configured)
+ */
+export function statusDateOf(project: Project): string {
+  return project.settings.statusDate ?? toIso(new Date());
+}
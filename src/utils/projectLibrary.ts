@@ -0,0 +1,154 @@
+// Project library: every project is stored under its own key plus a shared index
+
+import { Project, ProjectMeta } from '../types';
+import { analyzeProjectJson, failedAnalysis, ProjectAnalysis } from './schema';
+import { ProjectStore } from './storage';
+import { deleteSnapshots } from './snapshots';
+import { deleteViewport } from './viewport';
+
+// Single-project slot used before the library existed
+export const LEGACY_STORAGE_KEY = 'projekt-zeitplan-data';
+const INDEX_KEY = 'projekt-zeitplan-index';
+const LAST_OPENED_KEY = 'projekt-zeitplan-last-opened';
+const PROJECT_KEY_PREFIX = 'projekt-zeitplan-project:';
+
+function projectKey(id: string): string {
+  return `${PROJECT_KEY_PREFIX}${id}`;
+}
+
+function isMeta(value: unknown): value is ProjectMeta {
+  const meta = value as ProjectMeta;
+  return (
+    typeof value === 'object' && value !== null &&
+    typeof meta.id === 'string' && typeof meta.name === 'string' &&
+    typeof meta.updatedAt === 'string' && typeof meta.archived === 'boolean'
+  );
+}
+
+async function saveIndex(store: ProjectStore, projects: ProjectMeta[]): Promise<ProjectMeta[]> {
+  await store.setItem(INDEX_KEY, JSON.stringify(projects));
+  return projects;
+}
+
+/**
+ * Rebuilds the index from the stored project keys (if the index is
+ * missing or unreadable). Unreadable projects stay listed so they can be deleted.
+ */
+async function rebuildIndex(store: ProjectStore, now: Date): Promise<ProjectMeta[]> {
+  const projects: ProjectMeta[] = [];
+  for (const key of await store.keys(PROJECT_KEY_PREFIX)) {
+    let name = 'Beschädigtes Projekt';
+    try {
+      const parsed = JSON.parse((await store.getItem(key)) ?? '');
+      if (typeof parsed?.name === 'string') name = parsed.name;
+    } catch {
+      // Keep the placeholder name
+    }
+    projects.push({ id: key.slice(PROJECT_KEY_PREFIX.length), name, updatedAt: now.toISOString(), archived: false });
+  }
+  return projects;
+}
+
+/**
+ * Reads the stored index, rebuilding it if it is missing or unreadable
+ */
+async function loadIndex(store: ProjectStore, now = new Date()): Promise<ProjectMeta[]> {
+  try {
+    const parsed = JSON.parse((await store.getItem(INDEX_KEY)) ?? 'null');
+    if (Array.isArray(parsed)) return parsed.filter(isMeta);
+  } catch (e) {
+    console.error('Failed to parse project index', e);
+  }
+  return saveIndex(store, await rebuildIndex(store, now));
+}
+
+/**
+ * Reads the library index. On first use the legacy single-project slot
+ * is moved into the library; it is only removed once the copy is written.
+ */
+export async function loadLibrary(store: ProjectStore, now = new Date()): Promise<ProjectMeta[]> {
+  let projects = await loadIndex(store, now);
+
+  const legacy = await store.getItem(LEGACY_STORAGE_KEY);
+  if (legacy !== null) {
+    const { project, error } = analyzeProjectJson(legacy);
+    if (project) {
+      projects = await saveProject(store, project, now);
+      if (!(await getLastOpenedId(store))) await setLastOpenedId(store, project.id);
+      await store.removeItem(LEGACY_STORAGE_KEY);
+    } else {
+      console.error('Failed to migrate legacy project:', error);
+    }
+  }
+
+  return projects;
+}
+
+/**
+ * Reads, migrates and validates one stored project
+ */
+export async function readStoredProject(store: ProjectStore, id: string): Promise<ProjectAnalysis> {
+  const json = await store.getItem(projectKey(id));
+  if (json === null) {
+    return failedAnalysis('Projekt nicht gefunden');
+  }
+  const analysis = analyzeProjectJson(json);
+  // The library key is authoritative, even if the file carries another id
+  return analysis.project ? { ...analysis, project: { ...analysis.project, id } } : analysis;
+}
+
+/**
+ * Writes a project and updates its index entry. Unchanged projects are
+ * not rewritten, so opening a project does not change its timestamp.
+ * Returns the updated index.
+ */
+export async function saveProject(store: ProjectStore, project: Project, now = new Date()): Promise<ProjectMeta[]> {
+  const projects = await loadIndex(store, now);
+  const json = JSON.stringify(project);
+  const existing = projects.find(meta => meta.id === project.id);
+  if (existing && (await store.getItem(projectKey(project.id))) === json) return projects;
+
+  await store.setItem(projectKey(project.id), json);
+  const meta: ProjectMeta = {
+    id: project.id,
+    name: project.name,
+    updatedAt: now.toISOString(),
+    archived: existing?.archived ?? false,
+  };
+  return saveIndex(
+    store,
+    existing ? projects.map(m => (m.id === project.id ? meta : m)) : [...projects, meta]
+  );
+}
+
+/**
+ * Changes index-only fields such as the archive flag
+ */
+export async function updateProjectMeta(
+  store: ProjectStore,
+  id: string,
+  updates: Partial<Pick<ProjectMeta, 'archived'>>
+): Promise<ProjectMeta[]> {
+  const projects = await loadIndex(store);
+  return saveIndex(store, projects.map(meta => (meta.id === id ? { ...meta, ...updates } : meta)));
+}
+
+/**
+ * Removes a project, its snapshots, its viewport and its index entry
+ */
+export async function deleteStoredProject(store: ProjectStore, id: string): Promise<ProjectMeta[]> {
+  await store.removeItem(projectKey(id));
+  await deleteSnapshots(store, id);
+  await deleteViewport(store, id);
+  if ((await getLastOpenedId(store)) === id) await store.removeItem(LAST_OPENED_KEY);
+  const projects = await loadIndex(store);
+  return saveIndex(store, projects.filter(meta => meta.id !== id));
+}
+
+export function getLastOpenedId(store: ProjectStore): Promise<string | null> {
+  return store.getItem(LAST_OPENED_KEY);
+}
+
+export function setLastOpenedId(store: ProjectStore, id: string): Promise<void> {
+  return store.setItem(LAST_OPENED_KEY, id);
+}
@@ -0,0 +1,197 @@
+// Forward scheduling: pushes dependent UAPs according to their dependencies
+
+import { Project, WorkPackage, SubPackage, Dependency, ProjectCalendar } from '../types';
+import { minDate, maxDate } from './dateUtils';
+import { addWorkingDays, nextWorkingDay, workingDaysBetween } from './calendar';
+import { leafSubPackages, mapSubPackages, rollupSubPackages } from './wbs';
+
+export interface ScheduleResult {
+  project: Project;
+  shiftedIds: string[]; // UAPs moved by the engine
+  cycles: string[][];   // Dependency cycles (UAP ids) that could not be scheduled
+}
+
+/**
+ * Rollup AP dates from UAPs (auto mode); nested UAPs are rolled up first, bottom-up
+ */
+export function rollupAp(ap: WorkPackage): WorkPackage {
+  if (ap.subPackages.length === 0) {
+    return ap; // No rollup needed
+  }
+
+  const subPackages = rollupSubPackages(ap.subPackages);
+  const starts = subPackages.map(sp => sp.start);
+  const ends = subPackages.map(sp => sp.end);
+
+  return {
+    ...ap,
+    subPackages,
+    start: minDate(starts),
+    end: maxDate(ends)
+  };
+}
+
+/**
+ * Earliest start of a successor so that the dependency is satisfied.
+ * Lag and the successor's duration are counted in working days.
+ */
+export function requiredStart(
+  dep: Dependency,
+  pred: SubPackage,
+  succ: SubPackage,
+  calendar: ProjectCalendar
+): string {
+  const duration = workingDaysBetween(succ.start, succ.end, calendar);
+  switch (dep.type) {
+    case 'FS':
+      return addWorkingDays(pred.end, dep.lag, calendar);
+    case 'SS':
+      return addWorkingDays(pred.start, dep.lag, calendar);
+    case 'FF':
+      return addWorkingDays(addWorkingDays(pred.end, dep.lag, calendar), -duration, calendar);
+    case 'SF':
+      return addWorkingDays(addWorkingDays(pred.start, dep.lag, calendar), -duration, calendar);
+  }
+}
+
+/**
+ * Finds dependency cycles (strongly connected components with more than one UAP)
+ * using Tarjan's algorithm
+ */
+export function findCycles(ids: string[], successors: Map<string, string[]>): string[][] {
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    indices.set(id, index);
+    lowLinks.set(id, index);
+    index++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of successors.get(id) ?? []) {
+      if (!indices.has(next)) {
+        visit(next);
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, lowLinks.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, indices.get(next)!));
+      }
+    }
+
+    if (lowLinks.get(id) === indices.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      if (component.length > 1) cycles.push(component.reverse());
+    }
+  };
+
+  for (const id of ids) {
+    if (!indices.has(id)) visit(id);
+  }
+  return cycles;
+}
+
+/**
+ * Propagates date changes along the dependency graph between UAPs without
+ * children (summaries follow their children through the rollup).
+ * Successors of the changed UAPs (or of all UAPs if none are given) are moved
+ * later, keeping their working-day duration, until every dependency incl. lag
+ * is satisfied. Moved UAPs always start on a working day.
+ * The changed UAPs themselves stay where the user put them. UAPs inside or
+ * behind a cycle are left untouched and the cycle is reported instead.
+ */
+export function scheduleForward(project: Project, changedIds?: string[]): ScheduleResult {
+  const calendar = project.settings.calendar;
+  const uaps = new Map<string, SubPackage>();
+  const apOf = new Map<string, string>();
+  for (const ap of project.workPackages) {
+    for (const uap of leafSubPackages(ap.subPackages)) {
+      uaps.set(uap.id, uap);
+      apOf.set(uap.id, ap.id);
+    }
+  }
+
+  // Only dependencies whose UAPs (still) exist take part in scheduling
+  const deps = project.dependencies.filter(dep => uaps.has(dep.fromId) && uaps.has(dep.toId));
+  const successors = new Map<string, string[]>();
+  const incoming = new Map<string, Dependency[]>();
+  for (const dep of deps) {
+    successors.set(dep.fromId, [...(successors.get(dep.fromId) ?? []), dep.toId]);
+    incoming.set(dep.toId, [...(incoming.get(dep.toId) ?? []), dep]);
+  }
+
+  const ids = [...uaps.keys()];
+
+  // Everything reachable from the changed UAPs may have to move
+  const sources = changedIds ?? ids;
+  const affected = new Set<string>();
+  const queue = sources.filter(id => uaps.has(id));
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (affected.has(id)) continue;
+    affected.add(id);
+    queue.push(...(successors.get(id) ?? []));
+  }
+
+  // Topological order (Kahn); UAPs in or behind cycles never become ready
+  const inDegree = new Map(ids.map(id => [id, incoming.get(id)?.length ?? 0]));
+  const ready = ids.filter(id => inDegree.get(id) === 0);
+  const order: string[] = [];
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(id);
+    for (const next of successors.get(id) ?? []) {
+      inDegree.set(next, inDegree.get(next)! - 1);
+      if (inDegree.get(next) === 0) ready.push(next);
+    }
+  }
+
+  const cycles = findCycles(ids, successors).filter(cycle => cycle.some(id => affected.has(id)));
+
+  const keep = new Set(changedIds ?? []);
+  const shiftedIds: string[] = [];
+  for (const id of order) {
+    if (!affected.has(id) || keep.has(id)) continue;
+
+    const uap = uaps.get(id)!;
+    const constraints = (incoming.get(id) ?? []).map(dep =>
+      requiredStart(dep, uaps.get(dep.fromId)!, uap, calendar)
+    );
+    if (constraints.length === 0) continue;
+
+    const earliest = maxDate(constraints);
+    if (earliest > uap.start) {
+      const start = nextWorkingDay(earliest, calendar);
+      const end = addWorkingDays(start, workingDaysBetween(uap.start, uap.end, calendar), calendar);
+      uaps.set(id, { ...uap, start, end });
+      shiftedIds.push(id);
+    }
+  }
+
+  if (shiftedIds.length === 0) {
+    return { project, shiftedIds, cycles };
+  }
+
+  const touchedAps = new Set(shiftedIds.map(id => apOf.get(id)));
+  return {
+    project: {
+      ...project,
+      workPackages: project.workPackages.map(ap =>
+        touchedAps.has(ap.id)
+          ? rollupAp({ ...ap, subPackages: mapSubPackages(ap.subPackages, sp => uaps.get(sp.id) ?? sp) })
+          : ap
+      )
+    },
+    shiftedIds,
+    cycles
+  };
+}
@@ -0,0 +1,478 @@
+// Runtime validation and repair of project data from files and storage
+
+import {
+  Project,
+  Baseline,
+  BaselineDates,
+  WorkPackage,
+  SubPackage,
+  Milestone,
+  Dependency,
+  DependencyType,
+  SubPackageStatus,
+  ProjectCalendar,
+  Holiday,
+  CompanyShutdown,
+  GermanState,
+} from '../types';
+import { toIso, parseIso } from './dateUtils';
+import { DEFAULT_CALENDAR } from './calendar';
+import { GERMAN_STATES } from './holidays';
+import { validateDependency } from './dependencyUtils';
+import { rollupAp } from './scheduling';
+import { allSubPackages, rollupSubPackages } from './wbs';
+import { SUB_PACKAGE_STATUSES, clampPercent } from './progress';
+import { CURRENT_SCHEMA_VERSION, RawProject, migrateProject } from './migrations';
+
+export interface ValidationIssue {
+  path: string;    // e.g. "workPackages[2].subPackages[0].end"
+  message: string; // e.g. "ungültiges Datum"
+}
+
+const DEPENDENCY_TYPES: DependencyType[] = ['FS', 'SS', 'FF', 'SF'];
+
+function isObject(value: unknown): value is RawProject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isGermanState(value: unknown): value is GermanState {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(GERMAN_STATES, value);
+}
+
+/**
+ * Checks for a real calendar date in YYYY-MM-DD format
+ */
+export function isIsoDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = parseIso(value);
+  return !isNaN(date.getTime()) && toIso(date) === value;
+}
+
+/**
+ * Formats an issue as "path: message"
+ */
+export function formatIssue(issue: ValidationIssue): string {
+  return `${issue.path || 'Projekt'}: ${issue.message}`;
+}
+
+/**
+ * Validates raw (already migrated) project data against the current
+ * Project type and returns all problems with their paths
+ */
+export function validateProject(data: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ path, message });
+
+  if (!isObject(data)) {
+    report('', 'erwartet Objekt');
+    return issues;
+  }
+
+  const at = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+  const checkString = (obj: RawProject, key: string, path: string, options: { optional?: boolean; nonEmpty?: boolean } = {}) => {
+    const value = obj[key];
+    if (value === undefined && options.optional) return;
+    if (typeof value !== 'string') report(at(path, key), 'erwartet Text');
+    else if (options.nonEmpty && value.trim() === '') report(at(path, key), 'darf nicht leer sein');
+  };
+  const checkDate = (obj: RawProject, key: string, path: string): boolean => {
+    if (isIsoDate(obj[key])) return true;
+    report(`${path}.${key}`, 'ungültiges Datum');
+    return false;
+  };
+  const checkRange = (obj: RawProject, path: string, startKey: string, endKey: string) => {
+    const startOk = checkDate(obj, startKey, path);
+    const endOk = checkDate(obj, endKey, path);
+    if (startOk && endOk && (obj[endKey] as string) < (obj[startKey] as string)) {
+      report(`${path}.${endKey}`, `liegt vor ${startKey}`);
+    }
+  };
+  const checkArray = (obj: RawProject, key: string, path: string): unknown[] => {
+    const value = obj[key];
+    if (Array.isArray(value)) return value;
+    report(at(path, key), 'erwartet Liste');
+    return [];
+  };
+
+  // Ids of work packages, sub-packages and milestones share one namespace
+  const itemIds = new Set<string>();
+  const uapIds = new Set<string>();
+  const checkId = (obj: RawProject, path: string, ids: Set<string>) => {
+    checkString(obj, 'id', path, { nonEmpty: true });
+    const id = obj.id;
+    if (typeof id !== 'string' || id === '') return;
+    if (ids.has(id)) report(`${path}.id`, `doppelte ID "${id}"`);
+    ids.add(id);
+  };
+
+  if (data.schemaVersion !== CURRENT_SCHEMA_VERSION) {
+    report('schemaVersion', `erwartet ${CURRENT_SCHEMA_VERSION}`);
+  }
+  checkString(data, 'id', '', { nonEmpty: true });
+  checkString(data, 'name', '');
+  checkString(data, 'description', '', { optional: true });
+
+  // Settings and calendar
+  if (!isObject(data.settings)) {
+    report('settings', 'erwartet Objekt');
+  } else {
+    if (typeof data.settings.clampUapInsideManualAp !== 'boolean') {
+      report('settings.clampUapInsideManualAp', 'erwartet true/false');
+    }
+    if (data.settings.statusDate !== undefined && !isIsoDate(data.settings.statusDate)) {
+      report('settings.statusDate', 'ungültiges Datum');
+    }
+    const calendar = data.settings.calendar;
+    if (!isObject(calendar)) {
+      report('settings.calendar', 'erwartet Objekt');
+    } else {
+      const path = 'settings.calendar';
+      checkArray(calendar, 'workingDays', path).forEach((day, i) => {
+        if (typeof day !== 'number' || !Number.isInteger(day) || day < 0 || day > 6) {
+          report(`${path}.workingDays[${i}]`, 'erwartet Wochentag 0–6');
+        }
+      });
+      if (calendar.holidayRegion !== undefined && !isGermanState(calendar.holidayRegion)) {
+        report(`${path}.holidayRegion`, `unbekanntes Bundesland "${String(calendar.holidayRegion)}"`);
+      }
+      checkArray(calendar, 'holidays', path).forEach((holiday, i) => {
+        const itemPath = `${path}.holidays[${i}]`;
+        if (!isObject(holiday)) return report(itemPath, 'erwartet Objekt');
+        checkDate(holiday, 'date', itemPath);
+        checkString(holiday, 'name', itemPath);
+      });
+      const shutdownIds = new Set<string>();
+      checkArray(calendar, 'shutdowns', path).forEach((shutdown, i) => {
+        const itemPath = `${path}.shutdowns[${i}]`;
+        if (!isObject(shutdown)) return report(itemPath, 'erwartet Objekt');
+        checkId(shutdown, itemPath, shutdownIds);
+        checkString(shutdown, 'name', itemPath);
+        checkRange(shutdown, itemPath, 'start', 'end');
+      });
+    }
+  }
+
+  // Sub-packages, with the UAPs nested below them
+  const checkSubPackage = (sp: unknown, spPath: string): void => {
+    if (!isObject(sp)) {
+      report(spPath, 'erwartet Objekt');
+      return;
+    }
+    checkId(sp, spPath, itemIds);
+    if (typeof sp.id === 'string') uapIds.add(sp.id);
+    checkString(sp, 'title', spPath);
+    checkRange(sp, spPath, 'start', 'end');
+    if (!SUB_PACKAGE_STATUSES.includes(sp.status as SubPackageStatus)) {
+      report(`${spPath}.status`, `ungültiger Wert "${String(sp.status)}"`);
+    }
+    if (typeof sp.percentComplete !== 'number' || !(sp.percentComplete >= 0 && sp.percentComplete <= 100)) {
+      report(`${spPath}.percentComplete`, 'erwartet Zahl 0–100');
+    }
+    checkString(sp, 'category', spPath, { optional: true });
+    checkString(sp, 'color', spPath, { optional: true });
+    if (sp.assignedTo !== undefined) {
+      checkArray(sp, 'assignedTo', spPath).forEach((person, k) => {
+        if (typeof person !== 'string') report(`${spPath}.assignedTo[${k}]`, 'erwartet Text');
+      });
+    }
+    if (sp.children !== undefined) {
+      checkArray(sp, 'children', spPath).forEach((child, k) => checkSubPackage(child, `${spPath}.children[${k}]`));
+    }
+  };
+
+  // Work packages
+  checkArray(data, 'workPackages', '').forEach((wp, i) => {
+    const path = `workPackages[${i}]`;
+    if (!isObject(wp)) return report(path, 'erwartet Objekt');
+    checkId(wp, path, itemIds);
+    checkString(wp, 'title', path);
+    checkRange(wp, path, 'start', 'end');
+    if (wp.mode !== 'auto' && wp.mode !== 'manual') {
+      report(`${path}.mode`, `ungültiger Wert "${String(wp.mode)}"`);
+    }
+    checkArray(wp, 'subPackages', path).forEach((sp, j) => checkSubPackage(sp, `${path}.subPackages[${j}]`));
+  });
+
+  // Milestones
+  checkArray(data, 'milestones', '').forEach((ms, i) => {
+    const path = `milestones[${i}]`;
+    if (!isObject(ms)) return report(path, 'erwartet Objekt');
+    checkId(ms, path, itemIds);
+    checkString(ms, 'title', path);
+    checkDate(ms, 'date', path);
+  });
+
+  // Dependencies (checked after all UAP ids are known)
+  const dependencyIds = new Set<string>();
+  const validDependencies: Dependency[] = [];
+  checkArray(data, 'dependencies', '').forEach((dep, i) => {
+    const path = `dependencies[${i}]`;
+    if (!isObject(dep)) return report(path, 'erwartet Objekt');
+    checkId(dep, path, dependencyIds);
+    let linked = true;
+    for (const key of ['fromId', 'toId']) {
+      if (typeof dep[key] !== 'string' || !uapIds.has(dep[key] as string)) {
+        report(`${path}.${key}`, `verweist auf unbekanntes UAP "${String(dep[key])}"`);
+        linked = false;
+      }
+    }
+    if (!DEPENDENCY_TYPES.includes(dep.type as DependencyType)) {
+      report(`${path}.type`, `ungültiger Wert "${String(dep.type)}"`);
+    }
+    if (typeof dep.lag !== 'number' || !Number.isFinite(dep.lag)) {
+      report(`${path}.lag`, 'erwartet Zahl');
+    }
+    if (linked) {
+      const error = validateDependency(validDependencies, dep.fromId as string, dep.toId as string);
+      if (error) report(path, error);
+      else validDependencies.push(dep as unknown as Dependency);
+    }
+  });
+
+  // Baselines (dates may refer to items deleted since the baseline was saved)
+  const baselineIds = new Set<string>();
+  checkArray(data, 'baselines', '').forEach((baseline, i) => {
+    const path = `baselines[${i}]`;
+    if (!isObject(baseline)) return report(path, 'erwartet Objekt');
+    checkId(baseline, path, baselineIds);
+    checkString(baseline, 'name', path);
+    if (typeof baseline.createdAt !== 'string' || isNaN(Date.parse(baseline.createdAt))) {
+      report(`${path}.createdAt`, 'ungültiger Zeitstempel');
+    }
+    if (!isObject(baseline.dates)) return report(`${path}.dates`, 'erwartet Objekt');
+    for (const [itemId, dates] of Object.entries(baseline.dates)) {
+      const datesPath = `${path}.dates.${itemId}`;
+      if (!isObject(dates)) report(datesPath, 'erwartet Objekt');
+      else checkRange(dates, datesPath, 'start', 'end');
+    }
+  });
+  if (data.activeBaselineId !== undefined && !baselineIds.has(data.activeBaselineId as string)) {
+    report('activeBaselineId', `verweist auf unbekannten Basisplan "${String(data.activeBaselineId)}"`);
+  }
+
+  return issues;
+}
+
+// Repair helpers: keep valid values, fall back to sensible defaults otherwise
+
+function text(value: unknown, fallback: string): string {
+  return typeof value === 'string' ? value : fallback;
+}
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function list(value: unknown): RawProject[] {
+  return Array.isArray(value) ? value.filter(isObject) : [];
+}
+
+function uniqueId(value: unknown, ids: Set<string>): string {
+  const id = typeof value === 'string' && value !== '' && !ids.has(value) ? value : crypto.randomUUID();
+  ids.add(id);
+  return id;
+}
+
+function dateRange(obj: RawProject, fallback: string, startKey = 'start', endKey = 'end'): { start: string; end: string } {
+  const rawStart = obj[startKey];
+  const rawEnd = obj[endKey];
+  const start = isIsoDate(rawStart) ? rawStart : isIsoDate(rawEnd) ? rawEnd : fallback;
+  const end = isIsoDate(rawEnd) ? rawEnd : start;
+  return end < start ? { start: end, end: start } : { start, end };
+}
+
+function repairCalendar(value: unknown): ProjectCalendar {
+  if (!isObject(value)) return DEFAULT_CALENDAR;
+
+  const workingDays = Array.isArray(value.workingDays)
+    ? [...new Set(value.workingDays.filter(
+        (day): day is number => typeof day === 'number' && Number.isInteger(day) && day >= 0 && day <= 6
+      ))].sort((a, b) => a - b)
+    : DEFAULT_CALENDAR.workingDays;
+  const holidayRegion = isGermanState(value.holidayRegion) ? value.holidayRegion : undefined;
+  const holidays: Holiday[] = list(value.holidays)
+    .filter(holiday => isIsoDate(holiday.date))
+    .map(holiday => ({ date: holiday.date as string, name: text(holiday.name, 'Feiertag') }));
+  const shutdownIds = new Set<string>();
+  const shutdowns: CompanyShutdown[] = list(value.shutdowns)
+    .filter(shutdown => isIsoDate(shutdown.start) || isIsoDate(shutdown.end))
+    .map(shutdown => ({
+      id: uniqueId(shutdown.id, shutdownIds),
+      name: text(shutdown.name, 'Betriebsruhe'),
+      ...dateRange(shutdown, ''),
+    }));
+
+  return { workingDays, ...(holidayRegion && { holidayRegion }), holidays, shutdowns };
+}
+
+/**
+ * Turns raw (already migrated) project data into a valid Project:
+ * invalid values are replaced by defaults, reversed ranges are swapped,
+ * duplicate ids are renewed and broken dependencies and baseline
+ * entries are dropped.
+ * The result passes validateProject.
+ */
+export function repairProject(data: unknown): Project {
+  const raw = isObject(data) ? data : {};
+  const today = toIso(new Date());
+  const settings = isObject(raw.settings) ? raw.settings : {};
+  const itemIds = new Set<string>();
+
+  const repairSubPackage = (sp: RawProject, fallbackStart: string): SubPackage => {
+    const subPackage: SubPackage = {
+      id: uniqueId(sp.id, itemIds),
+      title: text(sp.title, 'Unbenanntes UAP'),
+      ...dateRange(sp, fallbackStart),
+      status: SUB_PACKAGE_STATUSES.includes(sp.status as SubPackageStatus) ? (sp.status as SubPackageStatus) : 'open',
+      percentComplete: typeof sp.percentComplete === 'number' ? clampPercent(sp.percentComplete) : 0,
+    };
+    const category = optionalText(sp.category);
+    const color = optionalText(sp.color);
+    if (category !== undefined) subPackage.category = category;
+    if (color !== undefined) subPackage.color = color;
+    if (Array.isArray(sp.assignedTo)) {
+      subPackage.assignedTo = sp.assignedTo.filter((person): person is string => typeof person === 'string');
+    }
+    const children = list(sp.children).map(child => repairSubPackage(child, subPackage.start));
+    if (children.length > 0) subPackage.children = children;
+    return subPackage;
+  };
+
+  const workPackages: WorkPackage[] = list(raw.workPackages).map(wp => {
+    const fallback = dateRange(wp, today);
+    // Summaries always follow their children, even below a manual AP
+    const subPackages = rollupSubPackages(list(wp.subPackages).map(sp => repairSubPackage(sp, fallback.start)));
+    const mode = wp.mode === 'auto' || wp.mode === 'manual'
+      ? wp.mode
+      : subPackages.length > 0 ? 'auto' : 'manual';
+    const workPackage: WorkPackage = {
+      id: uniqueId(wp.id, itemIds),
+      title: text(wp.title, 'Unbenanntes AP'),
+      ...fallback,
+      mode,
+      subPackages,
+    };
+    return mode === 'auto' ? rollupAp(workPackage) : workPackage;
+  });
+
+  const milestones: Milestone[] = list(raw.milestones).map(ms => ({
+    id: uniqueId(ms.id, itemIds),
+    title: text(ms.title, 'Unbenannter Meilenstein'),
+    date: isIsoDate(ms.date) ? ms.date : today,
+  }));
+
+  const uapIds = new Set(workPackages.flatMap(wp => allSubPackages(wp.subPackages).map(sp => sp.id)));
+  const dependencyIds = new Set<string>();
+  const dependencies: Dependency[] = [];
+  for (const dep of list(raw.dependencies)) {
+    const fromId = dep.fromId;
+    const toId = dep.toId;
+    if (typeof fromId !== 'string' || typeof toId !== 'string') continue;
+    if (!uapIds.has(fromId) || !uapIds.has(toId)) continue;
+    if (validateDependency(dependencies, fromId, toId)) continue;
+    dependencies.push({
+      id: uniqueId(dep.id, dependencyIds),
+      fromId,
+      toId,
+      type: DEPENDENCY_TYPES.includes(dep.type as DependencyType) ? (dep.type as DependencyType) : 'FS',
+      lag: typeof dep.lag === 'number' && Number.isFinite(dep.lag) ? Math.round(dep.lag) : 0,
+    });
+  }
+
+  const baselineIds = new Set<string>();
+  const baselines: Baseline[] = list(raw.baselines).map(baseline => {
+    const dates: Record<string, BaselineDates> = {};
+    const rawDates = isObject(baseline.dates) ? baseline.dates : {};
+    for (const [itemId, range] of Object.entries(rawDates)) {
+      if (isObject(range) && (isIsoDate(range.start) || isIsoDate(range.end))) {
+        dates[itemId] = dateRange(range, '');
+      }
+    }
+    return {
+      id: uniqueId(baseline.id, baselineIds),
+      name: text(baseline.name, 'Basisplan'),
+      createdAt:
+        typeof baseline.createdAt === 'string' && !isNaN(Date.parse(baseline.createdAt))
+          ? baseline.createdAt
+          : new Date().toISOString(),
+      dates,
+    };
+  });
+
+  const project: Project = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: typeof raw.id === 'string' && raw.id.trim() !== '' ? raw.id : crypto.randomUUID(),
+    name: text(raw.name, 'Importiertes Projekt'),
+    settings: {
+      clampUapInsideManualAp:
+        typeof settings.clampUapInsideManualAp === 'boolean' ? settings.clampUapInsideManualAp : true,
+      calendar: repairCalendar(settings.calendar),
+      ...(isIsoDate(settings.statusDate) && { statusDate: settings.statusDate }),
+    },
+    workPackages,
+    milestones,
+    dependencies,
+    baselines,
+  };
+  const description = optionalText(raw.description);
+  if (description !== undefined) project.description = description;
+  if (typeof raw.activeBaselineId === 'string' && baselineIds.has(raw.activeBaselineId)) {
+    project.activeBaselineId = raw.activeBaselineId;
+  }
+  return project;
+}
+
+export interface ProjectAnalysis {
+  project: Project | null;  // Valid project (repaired if there were issues), null if unreadable
+  issues: ValidationIssue[]; // Problems found before repair
+  fromVersion: number | null; // Schema version of the source data
+  migrations: string[];      // Migrations that were applied
+  error: string | null;      // Reason the data could not be read at all
+  unsupported: string[];     // Content of other file formats that has no place in the model
+}
+
+/**
+ * Migrates and validates parsed project data. Repairable problems are
+ * reported in issues and already fixed in project.
+ */
+export function analyzeProjectData(data: unknown): ProjectAnalysis {
+  if (!isObject(data)) {
+    return failedAnalysis('Die Datei enthält kein Projekt');
+  }
+
+  try {
+    const { data: migrated, fromVersion, applied } = migrateProject(data);
+    const issues = validateProject(migrated);
+    return {
+      project: issues.length > 0 ? repairProject(migrated) : (migrated as unknown as Project),
+      issues,
+      fromVersion,
+      migrations: applied,
+      error: null,
+      unsupported: [],
+    };
+  } catch (e) {
+    return failedAnalysis(e instanceof Error ? e.message : String(e));
+  }
+}
+
+/**
+ * Parses, migrates and validates project JSON (see analyzeProjectData)
+ */
+export function analyzeProjectJson(json: string): ProjectAnalysis {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return failedAnalysis('Ungültiges JSON');
+  }
+  return analyzeProjectData(parsed);
+}
+
+/**
+ * Analysis result for data that could not be read at all
+ */
+export function failedAnalysis(error: string): ProjectAnalysis {
+  return { project: null, issues: [], fromVersion: null, migrations: [], error, unsupported: [] };
+}
@@ -0,0 +1,209 @@
+// Multi-selection of APs, UAPs and milestones and bulk edits on the selection
+
+import { Project, SubPackage } from '../types';
+import { addDays } from './dateUtils';
+import { removeDependenciesFor } from './dependencyUtils';
+import { rollupAp } from './scheduling';
+import { allSubPackages, coveredSubPackageIds, mapSubPackages, removeSubPackages } from './wbs';
+
+export interface Selection {
+  ids: ReadonlySet<string>;
+  anchor?: string; // Last plainly or Ctrl-clicked item, start of Shift ranges
+}
+
+export const EMPTY_SELECTION: Selection = { ids: new Set() };
+
+export type SelectionModifier = 'replace' | 'toggle' | 'range';
+
+/**
+ * Ctrl/Cmd-click toggles an item, Shift-click selects a range
+ */
+export function selectionModifier(e: { ctrlKey: boolean; metaKey: boolean; shiftKey: boolean }): SelectionModifier {
+  if (e.shiftKey) return 'range';
+  if (e.ctrlKey || e.metaKey) return 'toggle';
+  return 'replace';
+}
+
+/**
+ * All item ids in tree order: each AP followed by its UAPs (nested ones below
+ * their parent), then the milestones
+ */
+export function orderedItemIds(project: Project): string[] {
+  return [
+    ...project.workPackages.flatMap(wp => [wp.id, ...allSubPackages(wp.subPackages).map(sp => sp.id)]),
+    ...project.milestones.map(ms => ms.id),
+  ];
+}
+
+export function selectItem(
+  selection: Selection,
+  id: string,
+  modifier: SelectionModifier,
+  orderedIds: string[]
+): Selection {
+  if (modifier === 'toggle') {
+    const ids = new Set(selection.ids);
+    if (ids.has(id)) ids.delete(id);
+    else ids.add(id);
+    return { ids, anchor: id };
+  }
+
+  if (modifier === 'range' && selection.anchor) {
+    const from = orderedIds.indexOf(selection.anchor);
+    const to = orderedIds.indexOf(id);
+    if (from !== -1 && to !== -1) {
+      const range = orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+      return { ids: new Set([...selection.ids, ...range]), anchor: selection.anchor };
+    }
+  }
+
+  return { ids: new Set([id]), anchor: id };
+}
+
+/**
+ * Selects several items at once (rubber band); additive keeps the current selection
+ */
+export function selectItems(selection: Selection, ids: string[], additive: boolean): Selection {
+  return {
+    ids: new Set(additive ? [...selection.ids, ...ids] : ids),
+    anchor: ids[0] ?? selection.anchor,
+  };
+}
+
+/**
+ * Drops ids of items that no longer exist (after deletes, undo or a project switch)
+ */
+export function pruneSelection(selection: Selection, project: Project): Selection {
+  const existing = new Set(orderedItemIds(project));
+  if ([...selection.ids].every(id => existing.has(id))) return selection;
+  return {
+    ids: new Set([...selection.ids].filter(id => existing.has(id))),
+    anchor: selection.anchor && existing.has(selection.anchor) ? selection.anchor : undefined,
+  };
+}
+
+/**
+ * UAPs affected by a bulk edit: selected UAPs and all UAPs below selected APs and UAPs
+ */
+export function selectedSubPackageIds(project: Project, ids: ReadonlySet<string>): string[] {
+  return project.workPackages.flatMap(wp => coveredSubPackageIds(wp.subPackages, ids, ids.has(wp.id)));
+}
+
+// Applies a change to the affected UAPs and rolls up their APs
+function updateSubPackages(
+  project: Project,
+  ids: ReadonlySet<string>,
+  update: (sp: SubPackage) => SubPackage
+): Project {
+  const affected = new Set(selectedSubPackageIds(project, ids));
+  return {
+    ...project,
+    workPackages: project.workPackages.map(wp =>
+      allSubPackages(wp.subPackages).some(sp => affected.has(sp.id))
+        ? rollupAp({ ...wp, subPackages: mapSubPackages(wp.subPackages, sp => (affected.has(sp.id) ? update(sp) : sp)) })
+        : wp
+    ),
+  };
+}
+
+/**
+ * Moves the selection by a number of calendar days. A selected AP moves with
+ * all its UAPs (an AP without UAPs moves its own dates). Returns the moved
+ * UAP ids so their successors can be rescheduled.
+ */
+export function shiftItems(
+  project: Project,
+  ids: ReadonlySet<string>,
+  days: number
+): { project: Project; changedIds: string[] } {
+  const shifted = updateSubPackages(project, ids, sp => ({
+    ...sp,
+    start: addDays(sp.start, days),
+    end: addDays(sp.end, days),
+  }));
+
+  return {
+    project: {
+      ...shifted,
+      workPackages: shifted.workPackages.map(wp =>
+        ids.has(wp.id) && wp.subPackages.length === 0
+          ? { ...wp, start: addDays(wp.start, days), end: addDays(wp.end, days) }
+          : wp
+      ),
+      milestones: shifted.milestones.map(ms => (ids.has(ms.id) ? { ...ms, date: addDays(ms.date, days) } : ms)),
+    },
+    changedIds: selectedSubPackageIds(project, ids),
+  };
+}
+
+export function recolorItems(project: Project, ids: ReadonlySet<string>, color: string): Project {
+  return updateSubPackages(project, ids, sp => ({ ...sp, color }));
+}
+
+/**
+ * Adds a person to (or removes them from) all affected UAPs
+ */
+export function assignPerson(project: Project, ids: ReadonlySet<string>, person: string, assign: boolean): Project {
+  return updateSubPackages(project, ids, sp => {
+    const assignedTo = sp.assignedTo ?? [];
+    if (assign) {
+      return assignedTo.includes(person) ? sp : { ...sp, assignedTo: [...assignedTo, person] };
+    }
+    return { ...sp, assignedTo: assignedTo.filter(name => name !== person) };
+  });
+}
+
+/**
+ * Removes the selected items with their dependencies. APs that lose all
+ * their UAPs switch back to manual mode.
+ */
+export function deleteItems(project: Project, ids: ReadonlySet<string>): Project {
+  const removedUapIds = selectedSubPackageIds(project, ids);
+  const removed = new Set(removedUapIds);
+
+  return {
+    ...project,
+    workPackages: project.workPackages
+      .filter(wp => !ids.has(wp.id))
+      .map(wp => {
+        if (!allSubPackages(wp.subPackages).some(sp => removed.has(sp.id))) return wp;
+        const subPackages = removeSubPackages(wp.subPackages, removed);
+        return subPackages.length === 0
+          ? { ...wp, subPackages, mode: 'manual' as const }
+          : rollupAp({ ...wp, subPackages });
+      }),
+    milestones: project.milestones.filter(ms => !ids.has(ms.id)),
+    dependencies: removeDependenciesFor(project.dependencies, removedUapIds),
+  };
+}
+
+/**
+ * Copies of the selected UAPs (directly selected ones only, with the UAPs
+ * below them; a UAP below another selected one is copied once, with its parent)
+ */
+export function copySubPackages(project: Project, ids: ReadonlySet<string>): SubPackage[] {
+  const pick = (subPackages: SubPackage[]): SubPackage[] =>
+    subPackages.flatMap(sp => (ids.has(sp.id) ? [{ ...sp }] : pick(sp.children ?? [])));
+  return project.workPackages.flatMap(wp => pick(wp.subPackages));
+}
+
+/**
+ * Appends copies of UAPs to an AP (with new ids, also below them; dependencies are not copied)
+ */
+export function pasteSubPackages(
+  project: Project,
+  apId: string,
+  clipboard: SubPackage[],
+  createId: () => string
+): { project: Project; pastedIds: string[] } {
+  const pasted = mapSubPackages(clipboard, sp => ({ ...sp, id: createId(), assignedTo: sp.assignedTo && [...sp.assignedTo] }));
+  return {
+    project: {
+      ...project,
+      workPackages: project.workPackages.map(wp =>
+        wp.id === apId ? rollupAp({ ...wp, mode: 'auto', subPackages: [...wp.subPackages, ...pasted] }) : wp
+      ),
+    },
+    pastedIds: pasted.map(sp => sp.id),
+  };
+}
@@ -0,0 +1,211 @@
+// Timestamped project snapshots with retention, plus change summaries
+
+import { Project } from '../types';
+import { analyzeProjectData } from './schema';
+import { ProjectStore } from './storage';
+import { allSubPackages } from './wbs';
+
+export const SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000; // Automatic snapshot at most every 10 minutes
+export const KEEP_RECENT_SNAPSHOTS = 20; // Always keep the newest N snapshots
+export const KEEP_DAILY_DAYS = 30; // Plus the last snapshot of each day for a month
+
+const SNAPSHOT_KEY_PREFIX = 'projekt-zeitplan-snapshot:';
+
+export type SnapshotReason = 'auto' | 'manual' | 'restore';
+
+export const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  auto: 'Automatisch',
+  manual: 'Manuell',
+  restore: 'Vor Wiederherstellung',
+};
+
+export interface Snapshot {
+  id: string; // Starts with the creation timestamp, so ids sort by time
+  projectId: string;
+  createdAt: string; // ISO timestamp
+  reason: SnapshotReason;
+  project: Project;
+}
+
+function snapshotPrefix(projectId: string): string {
+  return `${SNAPSHOT_KEY_PREFIX}${projectId}:`;
+}
+
+// Ids are "<ISO timestamp>_<suffix>"
+function createdAtFromId(id: string): string {
+  return id.split('_')[0];
+}
+
+/**
+ * Returns the ids of snapshots that fall outside the retention rules:
+ * the newest KEEP_RECENT_SNAPSHOTS stay, and for each of the last
+ * KEEP_DAILY_DAYS days the newest snapshot of that (local) day stays.
+ */
+export function selectExpiredSnapshots(ids: string[], now = new Date()): string[] {
+  const newestFirst = [...ids].sort().reverse();
+  const dailyLimit = now.getTime() - KEEP_DAILY_DAYS * 24 * 60 * 60 * 1000;
+  const seenDays = new Set<string>();
+
+  return newestFirst.filter((id, index) => {
+    const created = new Date(createdAtFromId(id));
+    const day = created.toDateString();
+    const firstOfDay = !seenDays.has(day);
+    seenDays.add(day);
+
+    if (index < KEEP_RECENT_SNAPSHOTS) return false;
+    return !(firstOfDay && created.getTime() >= dailyLimit);
+  });
+}
+
+/**
+ * Lists the snapshots of a project, newest first. Snapshots are migrated
+ * like stored projects; unreadable ones are skipped.
+ */
+export async function listSnapshots(store: ProjectStore, projectId: string): Promise<Snapshot[]> {
+  const prefix = snapshotPrefix(projectId);
+  const snapshots: Snapshot[] = [];
+
+  for (const key of (await store.keys(prefix)).reverse()) {
+    try {
+      const raw = JSON.parse((await store.getItem(key)) ?? '');
+      const { project } = analyzeProjectData(raw.project);
+      if (!project) continue;
+      const id = key.slice(prefix.length);
+      snapshots.push({
+        id,
+        projectId,
+        createdAt: createdAtFromId(id),
+        reason: raw.reason in SNAPSHOT_REASON_LABELS ? raw.reason : 'auto',
+        project: { ...project, id: projectId },
+      });
+    } catch (e) {
+      console.error(`Failed to read snapshot ${key}`, e);
+    }
+  }
+  return snapshots;
+}
+
+/**
+ * Stores a snapshot of the project and removes expired ones
+ */
+export async function createSnapshot(
+  store: ProjectStore,
+  project: Project,
+  reason: SnapshotReason,
+  now = new Date()
+): Promise<void> {
+  const prefix = snapshotPrefix(project.id);
+  const id = `${now.toISOString()}_${crypto.randomUUID().slice(0, 8)}`;
+  await store.setItem(`${prefix}${id}`, JSON.stringify({ reason, project }));
+
+  const ids = (await store.keys(prefix)).map(key => key.slice(prefix.length));
+  for (const expired of selectExpiredSnapshots(ids, now)) {
+    await store.removeItem(`${prefix}${expired}`);
+  }
+}
+
+/**
+ * Creates an automatic snapshot if the last one is older than
+ * SNAPSHOT_INTERVAL_MS and the project changed since. Returns true if one was written.
+ */
+export async function createAutoSnapshotIfDue(store: ProjectStore, project: Project, now = new Date()): Promise<boolean> {
+  const prefix = snapshotPrefix(project.id);
+  const keys = await store.keys(prefix);
+  const lastKey = keys[keys.length - 1];
+
+  if (lastKey) {
+    const lastTime = new Date(createdAtFromId(lastKey.slice(prefix.length))).getTime();
+    if (now.getTime() - lastTime < SNAPSHOT_INTERVAL_MS) return false;
+
+    const last = JSON.parse((await store.getItem(lastKey)) ?? 'null');
+    if (last && JSON.stringify(last.project) === JSON.stringify(project)) return false;
+  }
+
+  await createSnapshot(store, project, 'auto', now);
+  return true;
+}
+
+/**
+ * Removes all snapshots of a project
+ */
+export async function deleteSnapshots(store: ProjectStore, projectId: string): Promise<void> {
+  for (const key of await store.keys(snapshotPrefix(projectId))) {
+    await store.removeItem(key);
+  }
+}
+
+export interface DiffCount {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export interface ProjectDiff {
+  renamed: boolean;
+  settingsChanged: boolean;
+  workPackages: DiffCount;
+  subPackages: DiffCount;
+  milestones: DiffCount;
+  dependencies: DiffCount;
+}
+
+function diffById<T extends { id: string }>(before: T[], after: T[], comparable: (item: T) => unknown = item => item): DiffCount {
+  const previous = new Map(before.map(item => [item.id, JSON.stringify(comparable(item))]));
+  const count: DiffCount = { added: 0, removed: 0, changed: 0 };
+
+  for (const item of after) {
+    const old = previous.get(item.id);
+    if (old === undefined) count.added++;
+    else if (old !== JSON.stringify(comparable(item))) count.changed++;
+    previous.delete(item.id);
+  }
+  count.removed = previous.size;
+  return count;
+}
+
+/**
+ * Counts added, removed and changed items between two project states
+ */
+export function diffProjects(before: Project, after: Project): ProjectDiff {
+  return {
+    renamed: before.name !== after.name,
+    settingsChanged: JSON.stringify(before.settings) !== JSON.stringify(after.settings),
+    // AP changes exclude their UAPs, which are counted separately
+    workPackages: diffById(before.workPackages, after.workPackages, ({ subPackages: _, ...wp }) => wp),
+    // Likewise a UAP's own fields exclude the UAPs nested below it
+    subPackages: diffById(
+      before.workPackages.flatMap(wp => allSubPackages(wp.subPackages)),
+      after.workPackages.flatMap(wp => allSubPackages(wp.subPackages)),
+      ({ children: _, ...sp }) => sp
+    ),
+    milestones: diffById(before.milestones, after.milestones),
+    dependencies: diffById(before.dependencies, after.dependencies),
+  };
+}
+
+const DIFF_NOUNS: Record<'workPackages' | 'subPackages' | 'milestones' | 'dependencies', [string, string]> = {
+  workPackages: ['AP', 'APs'],
+  subPackages: ['UAP', 'UAPs'],
+  milestones: ['Meilenstein', 'Meilensteine'],
+  dependencies: ['Abhängigkeit', 'Abhängigkeiten'],
+};
+
+/**
+ * Short German summary of a diff, e.g. "2 UAPs geändert, 1 Meilenstein neu"
+ */
+export function summarizeDiff(diff: ProjectDiff): string {
+  const parts: string[] = [];
+  if (diff.renamed) parts.push('Name geändert');
+
+  for (const key of Object.keys(DIFF_NOUNS) as (keyof typeof DIFF_NOUNS)[]) {
+    const [singular, plural] = DIFF_NOUNS[key];
+    const noun = (n: number) => `${n} ${n === 1 ? singular : plural}`;
+    const { added, removed, changed } = diff[key];
+    if (added) parts.push(`${noun(added)} neu`);
+    if (removed) parts.push(`${noun(removed)} entfernt`);
+    if (changed) parts.push(`${noun(changed)} geändert`);
+  }
+
+  if (diff.settingsChanged) parts.push('Einstellungen geändert');
+  return parts.length > 0 ? parts.join(', ') : 'Keine Änderungen';
+}
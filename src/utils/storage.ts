@@ -0,0 +1,136 @@
+// Async key-value stores for project data: IndexedDB with localStorage fallback
+
+/**
+ * Minimal async key-value interface used by the project library and snapshots
+ */
+export interface ProjectStore {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  keys(prefix: string): Promise<string[]>; // Sorted ascending
+}
+
+// All keys written by the app share this prefix
+export const KEY_PREFIX = 'projekt-zeitplan-';
+
+const DB_NAME = 'projekt-zeitplan';
+const DB_VERSION = 1;
+const ENTRIES = 'entries';
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(ENTRIES)) {
+        req.result.createObjectStore(ENTRIES);
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => reject(new Error('IndexedDB blocked'));
+  });
+}
+
+/**
+ * Store backed by a single IndexedDB object store (string keys and values)
+ */
+export async function createIndexedDbStore(): Promise<ProjectStore> {
+  const db = await openDatabase();
+  const entries = (mode: IDBTransactionMode) => db.transaction(ENTRIES, mode).objectStore(ENTRIES);
+
+  return {
+    getItem: async key => (await request(entries('readonly').get(key))) ?? null,
+    setItem: async (key, value) => {
+      await request(entries('readwrite').put(value, key));
+    },
+    removeItem: async key => {
+      await request(entries('readwrite').delete(key));
+    },
+    keys: async prefix => {
+      const range = IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+      const keys = await request(entries('readonly').getAllKeys(range));
+      return keys.map(String);
+    },
+  };
+}
+
+/**
+ * Store on top of the synchronous Web Storage API (fallback if IndexedDB is unavailable)
+ */
+export function createWebStorageStore(storage: Storage): ProjectStore {
+  return {
+    getItem: async key => storage.getItem(key),
+    setItem: async (key, value) => storage.setItem(key, value),
+    removeItem: async key => storage.removeItem(key),
+    keys: async prefix => {
+      const keys: string[] = [];
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key?.startsWith(prefix)) keys.push(key);
+      }
+      return keys.sort();
+    },
+  };
+}
+
+/**
+ * Volatile store for tests and as a last resort
+ */
+export function createMemoryStore(): ProjectStore {
+  const data = new Map<string, string>();
+  return {
+    getItem: async key => data.get(key) ?? null,
+    setItem: async (key, value) => {
+      data.set(key, value);
+    },
+    removeItem: async key => {
+      data.delete(key);
+    },
+    keys: async prefix => [...data.keys()].filter(key => key.startsWith(prefix)).sort(),
+  };
+}
+
+/**
+ * Copies all app data from one store to another if the target is still
+ * empty (first run after switching to IndexedDB). The source entries are
+ * removed only after everything was copied. Returns the number of entries.
+ */
+export async function migrateStore(source: ProjectStore, target: ProjectStore): Promise<number> {
+  if ((await target.keys(KEY_PREFIX)).length > 0) return 0;
+
+  const keys = await source.keys(KEY_PREFIX);
+  for (const key of keys) {
+    const value = await source.getItem(key);
+    if (value !== null) await target.setItem(key, value);
+  }
+  for (const key of keys) {
+    await source.removeItem(key);
+  }
+  return keys.length;
+}
+
+/**
+ * Opens the IndexedDB store and moves existing localStorage data into it.
+ * Falls back to localStorage (and finally memory) if IndexedDB is unavailable.
+ */
+export async function openProjectStore(): Promise<ProjectStore> {
+  const local = typeof localStorage !== 'undefined' ? createWebStorageStore(localStorage) : null;
+  try {
+    const store = await createIndexedDbStore();
+    if (local) {
+      const migrated = await migrateStore(local, store);
+      if (migrated > 0) console.info(`Moved ${migrated} entries from localStorage to IndexedDB`);
+    }
+    return store;
+  } catch (e) {
+    console.error('IndexedDB unavailable, using localStorage', e);
+    return local ?? createMemoryStore();
+  }
+}
@@ -0,0 +1,249 @@
+// Continuous timeline scale: viewport math, zoom limits and calendar-aligned ticks
+
+import { TimelineViewport } from '../types';
+import { toIso, parseIso, addDays, daysBetween } from './dateUtils';
+
+export type TickUnit = 'day' | 'week' | 'month' | 'quarter';
+
+export const TICK_UNITS: TickUnit[] = ['day', 'week', 'month', 'quarter'];
+
+export const TICK_UNIT_LABELS: Record<TickUnit, string> = {
+  day: 'Tag',
+  week: 'Woche',
+  month: 'Monat',
+  quarter: 'Quartal',
+};
+
+// Average length of a unit in days (for spacing and stepping)
+export const TICK_UNIT_DAYS: Record<TickUnit, number> = {
+  day: 1,
+  week: 7,
+  month: 30.44,
+  quarter: 91.31,
+};
+
+export const MIN_PIXELS_PER_DAY = 0.3; // About six years on a wide screen
+export const MAX_PIXELS_PER_DAY = 160;
+export const DEFAULT_PIXELS_PER_DAY = 20; // About three months on a typical screen
+
+const MIN_TICK_SPACING = 56; // Labelled ticks need about this many pixels
+const MIN_GRID_SPACING = 8;  // Finer grid lines are hidden below this spacing
+const MIN_SNAP_SPACING = 12; // Drag targets closer than this are too fine to hit
+
+// Day numbers keep the viewport math free of date parsing
+const ORIGIN = '2000-01-01';
+
+export function clampPixelsPerDay(pixelsPerDay: number): number {
+  return Math.min(MAX_PIXELS_PER_DAY, Math.max(MIN_PIXELS_PER_DAY, pixelsPerDay));
+}
+
+/**
+ * Finest unit whose ticks are at least MIN_TICK_SPACING pixels apart
+ */
+export function tickUnitFor(pixelsPerDay: number): TickUnit {
+  return TICK_UNITS.find(unit => TICK_UNIT_DAYS[unit] * pixelsPerDay >= MIN_TICK_SPACING) ?? 'quarter';
+}
+
+/**
+ * Opacity of grid lines of a unit: they fade in between MIN_GRID_SPACING and
+ * MIN_TICK_SPACING, so switching the tick unit while zooming is gradual
+ */
+export function gridOpacity(unit: TickUnit, pixelsPerDay: number): number {
+  const spacing = TICK_UNIT_DAYS[unit] * pixelsPerDay;
+  return Math.min(1, Math.max(0, (spacing - MIN_GRID_SPACING) / (MIN_TICK_SPACING - MIN_GRID_SPACING)));
+}
+
+/**
+ * First day of the unit that contains the date (weeks start on Monday)
+ */
+export function startOfUnit(iso: string, unit: TickUnit): string {
+  const date = parseIso(iso);
+  switch (unit) {
+    case 'day':
+      return iso;
+    case 'week':
+      return addDays(iso, -((date.getDay() + 6) % 7));
+    case 'month':
+      return toIso(new Date(date.getFullYear(), date.getMonth(), 1));
+    case 'quarter':
+      return toIso(new Date(date.getFullYear(), date.getMonth() - (date.getMonth() % 3), 1));
+  }
+}
+
+/**
+ * First day of the unit after the one starting at the date
+ */
+export function nextUnit(iso: string, unit: TickUnit): string {
+  const date = parseIso(iso);
+  switch (unit) {
+    case 'day':
+      return addDays(iso, 1);
+    case 'week':
+      return addDays(iso, 7);
+    case 'month':
+      return toIso(new Date(date.getFullYear(), date.getMonth() + 1, 1));
+    case 'quarter':
+      return toIso(new Date(date.getFullYear(), date.getMonth() + 3, 1));
+  }
+}
+
+/**
+ * Unit boundaries from the unit containing `from` up to `to` (inclusive)
+ */
+export function unitTicks(from: string, to: string, unit: TickUnit): string[] {
+  const ticks: string[] = [];
+  for (let tick = startOfUnit(from, unit); tick <= to; tick = nextUnit(tick, unit)) {
+    ticks.push(tick);
+  }
+  return ticks;
+}
+
+/**
+ * Label of the unit starting at the date: "23. Dez", "KW 52", "Dez 2024" or "Q4 2024"
+ */
+export function formatTickLabel(iso: string, unit: TickUnit): string {
+  const date = parseIso(iso);
+  switch (unit) {
+    case 'day':
+      return date.toLocaleDateString('de-DE', { day: '2-digit', month: 'short' });
+    case 'week': {
+      // ISO week number: the week belongs to the year of its Thursday
+      const thursday = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+      thursday.setUTCDate(thursday.getUTCDate() + 4 - (thursday.getUTCDay() || 7));
+      const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+      return `KW ${Math.ceil(((thursday.getTime() - yearStart) / 86400000 + 1) / 7)}`;
+    }
+    case 'month':
+      return date.toLocaleDateString('de-DE', { month: 'short', year: 'numeric' });
+    case 'quarter':
+      return `Q${Math.floor(date.getMonth() / 3) + 1} ${date.getFullYear()}`;
+  }
+}
+
+export type SnapUnit = Exclude<TickUnit, 'quarter'>;
+
+const SNAP_UNITS: SnapUnit[] = ['day', 'week', 'month'];
+
+/**
+ * Finest unit that dragged dates snap to at a zoom level
+ */
+export function snapUnitFor(pixelsPerDay: number): SnapUnit {
+  return SNAP_UNITS.find(unit => TICK_UNIT_DAYS[unit] * pixelsPerDay >= MIN_SNAP_SPACING) ?? 'month';
+}
+
+/**
+ * Nearest unit boundary (ties go to the later boundary)
+ */
+export function snapDate(iso: string, unit: SnapUnit): string {
+  const before = startOfUnit(iso, unit);
+  if (before === iso) return iso;
+  const after = nextUnit(before, unit);
+  return daysBetween(before, iso) < daysBetween(iso, after) ? before : after;
+}
+
+export type DragMode = 'move' | 'resize-left' | 'resize-right';
+
+/**
+ * New range of a dragged bar: the moved edge (both edges when moving, so the
+ * duration is kept) snaps to the unit. An unmoved pointer changes nothing,
+ * and resizing never lets start and end cross.
+ */
+export function dragRange(
+  start: string,
+  end: string,
+  mode: DragMode,
+  deltaDays: number,
+  unit: SnapUnit
+): { start: string; end: string } {
+  if (deltaDays === 0) return { start, end };
+
+  switch (mode) {
+    case 'move': {
+      const shift = daysBetween(start, snapDate(addDays(start, deltaDays), unit));
+      return { start: addDays(start, shift), end: addDays(end, shift) };
+    }
+    case 'resize-left': {
+      const newStart = snapDate(addDays(start, deltaDays), unit);
+      return { start: newStart > end ? end : newStart, end };
+    }
+    case 'resize-right': {
+      const newEnd = snapDate(addDays(end, deltaDays), unit);
+      return { start, end: newEnd < start ? start : newEnd };
+    }
+  }
+}
+
+/**
+ * Left edge of the viewport as a continuous day number
+ */
+function startDays(viewport: TimelineViewport): number {
+  return daysBetween(ORIGIN, viewport.start) + viewport.dayOffset;
+}
+
+/**
+ * Viewport whose left edge lies at a continuous day number
+ */
+function viewportAt(days: number, pixelsPerDay: number): TimelineViewport {
+  const whole = Math.floor(days);
+  return { start: addDays(ORIGIN, whole), dayOffset: days - whole, pixelsPerDay };
+}
+
+/**
+ * Moves the viewport by a number of pixels (positive = later dates)
+ */
+export function panViewport(viewport: TimelineViewport, deltaPx: number): TimelineViewport {
+  return viewportAt(startDays(viewport) + deltaPx / viewport.pixelsPerDay, viewport.pixelsPerDay);
+}
+
+/**
+ * Zooms by a factor while the date under anchorPx (pixels from the left edge) stays in place
+ */
+export function zoomViewport(viewport: TimelineViewport, factor: number, anchorPx: number): TimelineViewport {
+  const pixelsPerDay = clampPixelsPerDay(viewport.pixelsPerDay * factor);
+  const anchorDays = startDays(viewport) + anchorPx / viewport.pixelsPerDay;
+  return viewportAt(anchorDays - anchorPx / pixelsPerDay, pixelsPerDay);
+}
+
+/**
+ * Two-finger pinch: zooms by the change in finger distance around the initial
+ * midpoint and pans by how far the midpoint moved (pixels from the left edge)
+ */
+export function pinchViewport(
+  initial: TimelineViewport,
+  initialDistance: number,
+  initialMidPx: number,
+  distance: number,
+  midPx: number
+): TimelineViewport {
+  const zoomed = zoomViewport(initial, distance / Math.max(initialDistance, 1), initialMidPx);
+  return panViewport(zoomed, initialMidPx - midPx);
+}
+
+/**
+ * Shows the range from start to end (exclusive) across widthPx pixels
+ */
+export function fitViewport(start: string, end: string, widthPx: number): TimelineViewport {
+  const pixelsPerDay = clampPixelsPerDay(widthPx / Math.max(daysBetween(start, end), 1));
+  return { start, dayOffset: 0, pixelsPerDay };
+}
+
+/**
+ * Keeps the zoom and puts the date at offsetPx pixels from the left edge
+ */
+export function viewportWithDateAt(viewport: TimelineViewport, date: string, offsetPx: number): TimelineViewport {
+  return viewportAt(daysBetween(ORIGIN, date) - offsetPx / viewport.pixelsPerDay, viewport.pixelsPerDay);
+}
+
+/**
+ * X position of a date relative to the left edge of the viewport
+ */
+export function dateOffsetPx(viewport: TimelineViewport, date: string): number {
+  return (daysBetween(viewport.start, date) - viewport.dayOffset) * viewport.pixelsPerDay;
+}
+
+/**
+ * Date at a pixel offset from the left edge of the viewport
+ */
+export function dateAtPx(viewport: TimelineViewport, px: number): string {
+  return addDays(viewport.start, Math.floor(px / viewport.pixelsPerDay + viewport.dayOffset));
+}
@@ -0,0 +1,113 @@
+// Vertical layout of the timeline and the visible window used for virtualization
+
+import { WorkPackage } from '../types';
+import { flattenSubPackages } from './wbs';
+
+// Sophisticated spacing system - complex visual hierarchy
+export const BASE_ROW_HEIGHT = 70; // Base height for AP with more breathing room
+export const HEADER_HEIGHT = 90;
+export const BAR_HEIGHT = 36;
+export const SUBBAR_HEIGHT = 28;
+export const UAP_SPACING = 10; // Generous spacing between UAPs
+export const ROW_PADDING = 35; // Padding at bottom of each row
+export const UAP_TOP = 50; // Offset of the first UAP below the top of its row
+export const MILESTONE_SPACING = 50; // Milestones are stacked below the last row
+export const AP_BAR_TOP = 8; // Offset of the AP bar below the top of its row
+const LINE_PADDING = 3; // Air above and below a bar in its grid line (lines never overlap)
+const MILESTONE_LINE_HEIGHT = 36;
+
+export interface RowPosition {
+  y: number;
+  height: number;
+}
+
+// Horizontal strip of one item: a row of the tree grid and its hover highlight on the timeline
+export interface ItemLine {
+  top: number;
+  height: number;
+}
+
+export interface RowLayout {
+  rows: RowPosition[];
+  totalHeight: number; // Bottom of the last row (including the header)
+}
+
+/**
+ * Row height grows with the number of visible UAPs at any depth (Apple-style
+ * precise spacing); a collapsed AP only keeps its own bar
+ */
+export function rowHeight(wp: WorkPackage, collapsedIds: ReadonlySet<string> = new Set()): number {
+  const uapCount = collapsedIds.has(wp.id) ? 0 : flattenSubPackages(wp.subPackages, collapsedIds).length;
+  if (uapCount === 0) return BASE_ROW_HEIGHT;
+  return BASE_ROW_HEIGHT + uapCount * (SUBBAR_HEIGHT + UAP_SPACING) + ROW_PADDING;
+}
+
+/**
+ * Cumulative Y positions of all AP rows below the header (collapsed APs and
+ * UAPs hide what is below them)
+ */
+export function computeRowLayout(
+  workPackages: WorkPackage[],
+  collapsedIds: ReadonlySet<string> = new Set()
+): RowLayout {
+  const rows: RowPosition[] = [];
+  let y = HEADER_HEIGHT;
+  for (const wp of workPackages) {
+    const height = rowHeight(wp, collapsedIds);
+    rows.push({ y, height });
+    y += height;
+  }
+  return { rows, totalHeight: y };
+}
+
+export function uapTop(row: RowPosition, uapIndex: number): number {
+  return row.y + UAP_TOP + uapIndex * (SUBBAR_HEIGHT + UAP_SPACING);
+}
+
+export function milestoneTop(layout: RowLayout, msIndex: number): number {
+  return layout.totalHeight + MILESTONE_SPACING + msIndex * MILESTONE_SPACING;
+}
+
+export function apLine(row: RowPosition): ItemLine {
+  return { top: row.y + AP_BAR_TOP - LINE_PADDING, height: BAR_HEIGHT + 2 * LINE_PADDING };
+}
+
+export function uapLine(row: RowPosition, uapIndex: number): ItemLine {
+  return { top: uapTop(row, uapIndex) - LINE_PADDING, height: SUBBAR_HEIGHT + 2 * LINE_PADDING };
+}
+
+export function milestoneLine(layout: RowLayout, msIndex: number): ItemLine {
+  return { top: milestoneTop(layout, msIndex) - MILESTONE_LINE_HEIGHT / 2, height: MILESTONE_LINE_HEIGHT };
+}
+
+/**
+ * Rows overlapping the band from top to bottom (SVG coordinates), found by
+ * binary search. Returns the index range [first, last).
+ */
+export function visibleRowRange(rows: RowPosition[], top: number, bottom: number): { first: number; last: number } {
+  // First row whose bottom edge is below top
+  let low = 0;
+  let high = rows.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (rows[mid].y + rows[mid].height <= top) low = mid + 1;
+    else high = mid;
+  }
+  const first = low;
+
+  // First row that starts at or below bottom
+  high = rows.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (rows[mid].y < bottom) low = mid + 1;
+    else high = mid;
+  }
+  return { first, last: low };
+}
+
+/**
+ * Whether the span from a to b (in either order) overlaps the range from min to max
+ */
+export function spanVisible(a: number, b: number, min: number, max: number): boolean {
+  return Math.max(a, b) >= min && Math.min(a, b) <= max;
+}
@@ -0,0 +1,55 @@
+// Per-project timeline viewport, stored next to the project data
+
+import { Project, TimelineViewport } from '../types';
+import { minDate } from './dateUtils';
+import { isIsoDate } from './schema';
+import { ProjectStore } from './storage';
+import { DEFAULT_PIXELS_PER_DAY, clampPixelsPerDay } from './timeScale';
+import { allSubPackages } from './wbs';
+
+const VIEWPORT_KEY_PREFIX = 'projekt-zeitplan-viewport:';
+
+function viewportKey(projectId: string): string {
+  return `${VIEWPORT_KEY_PREFIX}${projectId}`;
+}
+
+/**
+ * Viewport for a project without a stored one: starts at the earliest
+ * date in the project (today for an empty project)
+ */
+export function defaultViewport(project: Project): TimelineViewport {
+  const dates = [
+    ...project.workPackages.map(wp => wp.start),
+    ...project.workPackages.flatMap(wp => allSubPackages(wp.subPackages).map(sp => sp.start)),
+    ...project.milestones.map(ms => ms.date),
+  ];
+  return { start: minDate(dates), dayOffset: 0, pixelsPerDay: DEFAULT_PIXELS_PER_DAY };
+}
+
+/**
+ * Reads the stored viewport of a project (null if missing or unreadable).
+ * Viewports stored before continuous zoom only have a start date.
+ */
+export async function loadViewport(store: ProjectStore, projectId: string): Promise<TimelineViewport | null> {
+  try {
+    const parsed = JSON.parse((await store.getItem(viewportKey(projectId))) ?? 'null');
+    if (!isIsoDate(parsed?.start)) return null;
+    const { dayOffset, pixelsPerDay } = parsed;
+    return {
+      start: parsed.start,
+      dayOffset: typeof dayOffset === 'number' && dayOffset >= 0 && dayOffset < 1 ? dayOffset : 0,
+      pixelsPerDay:
+        typeof pixelsPerDay === 'number' && pixelsPerDay > 0 ? clampPixelsPerDay(pixelsPerDay) : DEFAULT_PIXELS_PER_DAY,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function saveViewport(store: ProjectStore, projectId: string, viewport: TimelineViewport): Promise<void> {
+  return store.setItem(viewportKey(projectId), JSON.stringify(viewport));
+}
+
+export function deleteViewport(store: ProjectStore, projectId: string): Promise<void> {
+  return store.removeItem(viewportKey(projectId));
+}
@@ -0,0 +1,378 @@
+// Work breakdown structure: UAPs nested to any depth, rollup, WBS codes, indent/outdent and reordering
+
+import { Project, WorkPackage, SubPackage, SubPackageStatus } from '../types';
+import { minDate, maxDate } from './dateUtils';
+import { removeDependenciesFor } from './dependencyUtils';
+
+// One UAP in tree order with its depth (1 = directly below the AP)
+export interface SubPackageLine {
+  uap: SubPackage;
+  depth: number;
+}
+
+const NONE: ReadonlySet<string> = new Set();
+
+/**
+ * Whether a UAP has UAPs below it (its dates and status are rolled up from them)
+ */
+export function isSummary(sp: SubPackage): boolean {
+  return (sp.children?.length ?? 0) > 0;
+}
+
+/**
+ * All UAPs below a list in tree order (pre-order). The children of
+ * collapsed UAPs are skipped.
+ */
+export function flattenSubPackages(
+  subPackages: SubPackage[],
+  collapsedIds: ReadonlySet<string> = NONE,
+  depth = 1
+): SubPackageLine[] {
+  return subPackages.flatMap(uap => [
+    { uap, depth },
+    ...(isSummary(uap) && !collapsedIds.has(uap.id) ? flattenSubPackages(uap.children!, collapsedIds, depth + 1) : []),
+  ]);
+}
+
+/**
+ * All UAPs below a list, summaries included
+ */
+export function allSubPackages(subPackages: SubPackage[]): SubPackage[] {
+  return flattenSubPackages(subPackages).map(line => line.uap);
+}
+
+/**
+ * UAPs without children: the ones that carry their own dates, progress and dependencies
+ */
+export function leafSubPackages(subPackages: SubPackage[]): SubPackage[] {
+  return allSubPackages(subPackages).filter(sp => !isSummary(sp));
+}
+
+export function findSubPackage(subPackages: SubPackage[], id: string): SubPackage | undefined {
+  return allSubPackages(subPackages).find(sp => sp.id === id);
+}
+
+/**
+ * AP that contains a UAP at any depth
+ */
+export function workPackageOf(workPackages: WorkPackage[], uapId: string): WorkPackage | undefined {
+  return workPackages.find(wp => findSubPackage(wp.subPackages, uapId) !== undefined);
+}
+
+/**
+ * Applies a change to every UAP (parents before their children)
+ */
+export function mapSubPackages(subPackages: SubPackage[], update: (sp: SubPackage) => SubPackage): SubPackage[] {
+  return subPackages.map(sp => {
+    const updated = update(sp);
+    return isSummary(updated) ? { ...updated, children: mapSubPackages(updated.children!, update) } : updated;
+  });
+}
+
+/**
+ * Removes UAPs (with everything below them) at any depth
+ */
+export function removeSubPackages(subPackages: SubPackage[], ids: ReadonlySet<string>): SubPackage[] {
+  return subPackages
+    .filter(sp => !ids.has(sp.id))
+    .map(sp => (isSummary(sp) ? { ...sp, children: removeSubPackages(sp.children!, ids) } : sp));
+}
+
+/**
+ * UAP ids covered by a selection: selected UAPs and everything below a
+ * selected AP or UAP
+ */
+export function coveredSubPackageIds(subPackages: SubPackage[], ids: ReadonlySet<string>, covered = false): string[] {
+  return subPackages.flatMap(sp => {
+    const hit = covered || ids.has(sp.id);
+    return [...(hit ? [sp.id] : []), ...coveredSubPackageIds(sp.children ?? [], ids, hit)];
+  });
+}
+
+/**
+ * Selected APs and UAPs in tree order, without those below another selected item
+ */
+export function outermostIds(workPackages: WorkPackage[], ids: ReadonlySet<string>): string[] {
+  const visit = (subPackages: SubPackage[]): string[] =>
+    subPackages.flatMap(sp => (ids.has(sp.id) ? [sp.id] : visit(sp.children ?? [])));
+  return workPackages.flatMap(wp => (ids.has(wp.id) ? [wp.id] : visit(wp.subPackages)));
+}
+
+/**
+ * Status of a summary: done when everything is done, blocked as soon as
+ * anything is blocked, open while nothing has started
+ */
+export function rollupStatus(children: SubPackage[]): SubPackageStatus {
+  if (children.every(sp => sp.status === 'done')) return 'done';
+  if (children.some(sp => sp.status === 'blocked')) return 'blocked';
+  if (children.every(sp => sp.status === 'open' && sp.percentComplete === 0)) return 'open';
+  return 'in-progress';
+}
+
+/**
+ * Rolls up dates and status of all summaries, bottom-up. Leaves are returned
+ * unchanged; a UAP whose last child was removed keeps its dates and becomes a leaf.
+ */
+export function rollupSubPackages(subPackages: SubPackage[]): SubPackage[] {
+  return subPackages.map(sp => {
+    if (sp.children === undefined) return sp;
+    if (sp.children.length === 0) {
+      const { children: _, ...leaf } = sp;
+      return leaf;
+    }
+    const children = rollupSubPackages(sp.children);
+    return {
+      ...sp,
+      children,
+      start: minDate(children.map(child => child.start)),
+      end: maxDate(children.map(child => child.end)),
+      status: rollupStatus(children),
+    };
+  });
+}
+
+/**
+ * WBS codes of all APs and UAPs (1, 1.2, 1.2.3, ...), from the tree order
+ */
+export function wbsCodes(workPackages: WorkPackage[]): Map<string, string> {
+  const codes = new Map<string, string>();
+  const visit = (subPackages: SubPackage[], prefix: string) => {
+    subPackages.forEach((sp, index) => {
+      const code = `${prefix}.${index + 1}`;
+      codes.set(sp.id, code);
+      visit(sp.children ?? [], code);
+    });
+  };
+  workPackages.forEach((wp, index) => {
+    codes.set(wp.id, String(index + 1));
+    visit(wp.subPackages, String(index + 1));
+  });
+  return codes;
+}
+
+// Summary dates and AP dates after a structural change (an AP without UAPs becomes manual)
+function rollupWorkPackage(wp: WorkPackage): WorkPackage {
+  const subPackages = rollupSubPackages(wp.subPackages);
+  if (subPackages.length === 0) return { ...wp, subPackages, mode: 'manual' };
+  return {
+    ...wp,
+    mode: 'auto',
+    subPackages,
+    start: minDate(subPackages.map(sp => sp.start)),
+    end: maxDate(subPackages.map(sp => sp.end)),
+  };
+}
+
+// Position of a UAP: the list that holds it, its index there and its parent UAP (none at depth 1)
+interface Location {
+  siblings: SubPackage[];
+  index: number;
+  parent?: SubPackage;
+}
+
+function locate(subPackages: SubPackage[], id: string, parent?: SubPackage): Location | undefined {
+  const index = subPackages.findIndex(sp => sp.id === id);
+  if (index !== -1) return { siblings: subPackages, index, parent };
+  for (const sp of subPackages) {
+    const found = locate(sp.children ?? [], id, sp);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+// Replaces the list of children of a parent UAP (or the top-level list of the AP)
+function withSiblings(wp: WorkPackage, parentId: string | undefined, siblings: SubPackage[]): WorkPackage {
+  if (parentId === undefined) return { ...wp, subPackages: siblings };
+  return { ...wp, subPackages: mapSubPackages(wp.subPackages, sp => (sp.id === parentId ? { ...sp, children: siblings } : sp)) };
+}
+
+/**
+ * Moves an item one level down: a UAP becomes the last child of the UAP
+ * above it, an AP becomes the last UAP of the AP above it (its UAPs move
+ * along). A UAP that becomes a summary loses its dependencies. Returns null
+ * if there is nothing above to move into.
+ */
+export function indentItem(project: Project, id: string): Project | null {
+  const apIndex = project.workPackages.findIndex(wp => wp.id === id);
+  if (apIndex !== -1) {
+    if (apIndex === 0) return null;
+    const ap = project.workPackages[apIndex];
+    const uap: SubPackage = {
+      id: ap.id,
+      title: ap.title,
+      start: ap.start,
+      end: ap.end,
+      status: 'open',
+      percentComplete: 0,
+      ...(ap.subPackages.length > 0 && { children: ap.subPackages }),
+    };
+    const above = project.workPackages[apIndex - 1];
+    return {
+      ...project,
+      workPackages: project.workPackages
+        .filter(wp => wp.id !== id)
+        .map(wp => (wp.id === above.id ? rollupWorkPackage({ ...wp, subPackages: [...wp.subPackages, uap] }) : wp)),
+    };
+  }
+
+  const wp = workPackageOf(project.workPackages, id);
+  const location = wp && locate(wp.subPackages, id);
+  if (!wp || !location || location.index === 0) return null;
+
+  const { siblings, index, parent } = location;
+  const moved = siblings[index];
+  const newParent = siblings[index - 1];
+  const reordered = siblings
+    .filter(sp => sp.id !== id)
+    .map(sp => (sp.id === newParent.id ? { ...sp, children: [...(sp.children ?? []), moved] } : sp));
+  return {
+    ...project,
+    workPackages: project.workPackages.map(ap =>
+      ap.id === wp.id ? rollupWorkPackage(withSiblings(ap, parent?.id, reordered)) : ap
+    ),
+    dependencies: isSummary(newParent) ? project.dependencies : removeDependenciesFor(project.dependencies, [newParent.id]),
+  };
+}
+
+/**
+ * Moves a UAP one level up, right behind its former parent. A UAP directly
+ * below an AP becomes an AP of its own (its UAPs move along; as a plain AP
+ * it loses status, progress and dependencies). Returns null for APs.
+ */
+export function outdentItem(project: Project, id: string): Project | null {
+  const wp = workPackageOf(project.workPackages, id);
+  const location = wp && locate(wp.subPackages, id);
+  if (!wp || !location) return null;
+
+  const { siblings, index, parent } = location;
+  const moved = siblings[index];
+  const remaining = siblings.filter(sp => sp.id !== id);
+
+  if (!parent) {
+    const children = moved.children ?? [];
+    const ap: WorkPackage = rollupWorkPackage({
+      id: moved.id,
+      title: moved.title,
+      start: moved.start,
+      end: moved.end,
+      mode: children.length > 0 ? 'auto' : 'manual',
+      subPackages: children,
+    });
+    const apIndex = project.workPackages.findIndex(item => item.id === wp.id);
+    const workPackages = project.workPackages.map(item =>
+      item.id === wp.id ? rollupWorkPackage({ ...item, subPackages: remaining }) : item
+    );
+    workPackages.splice(apIndex + 1, 0, ap);
+    return {
+      ...project,
+      workPackages,
+      dependencies: isSummary(moved) ? project.dependencies : removeDependenciesFor(project.dependencies, [id]),
+    };
+  }
+
+  // Behind the former parent in the grandparent's list
+  const grandparent = locate(wp.subPackages, parent.id)!;
+  const parentSiblings = grandparent.siblings.flatMap(sp =>
+    sp.id === parent.id ? [{ ...sp, children: remaining }, moved] : [sp]
+  );
+  return {
+    ...project,
+    workPackages: project.workPackages.map(ap =>
+      ap.id === wp.id ? rollupWorkPackage(withSiblings(ap, grandparent.parent?.id, parentSiblings)) : ap
+    ),
+  };
+}
+
+// Where a dragged item lands relative to the item below the pointer ('inside' = last UAP of an AP)
+export type DropPosition = 'before' | 'after' | 'inside';
+
+// Same nesting and order of all APs and UAPs
+function sameOutline(a: WorkPackage[], b: WorkPackage[]): boolean {
+  const before = wbsCodes(a);
+  const after = wbsCodes(b);
+  return before.size === after.size && [...before].every(([id, code]) => after.get(id) === code);
+}
+
+// Moves an entry of a flat list before or after another entry (null if either is missing)
+function moveInList<T extends { id: string }>(list: T[], id: string, targetId: string, position: 'before' | 'after'): T[] | null {
+  const item = list.find(entry => entry.id === id);
+  if (!item || id === targetId || !list.some(entry => entry.id === targetId)) return null;
+  const rest = list.filter(entry => entry.id !== id);
+  const index = rest.findIndex(entry => entry.id === targetId) + (position === 'after' ? 1 : 0);
+  const moved = [...rest.slice(0, index), item, ...rest.slice(index)];
+  return moved.every((entry, i) => entry === list[i]) ? null : moved;
+}
+
+/**
+ * Moves an item before or after another item of the same kind: APs among APs,
+ * milestones among milestones. A UAP (with its UAPs) can go next to any UAP
+ * outside its own subtree or inside an AP, even a different one; both APs are
+ * rolled up. Returns null if the drop is not possible or changes nothing.
+ */
+export function moveTreeItem(project: Project, id: string, targetId: string, position: DropPosition): Project | null {
+  if (project.workPackages.some(wp => wp.id === id)) {
+    const workPackages = position === 'inside' ? null : moveInList(project.workPackages, id, targetId, position);
+    return workPackages && { ...project, workPackages };
+  }
+  if (project.milestones.some(ms => ms.id === id)) {
+    const milestones = position === 'inside' ? null : moveInList(project.milestones, id, targetId, position);
+    return milestones && { ...project, milestones };
+  }
+
+  const source = workPackageOf(project.workPackages, id);
+  if (!source) return null;
+  const moved = findSubPackage(source.subPackages, id)!;
+  if (findSubPackage([moved], targetId)) return null;
+
+  const removed = project.workPackages.map(wp =>
+    wp.id === source.id ? { ...wp, subPackages: removeSubPackages(wp.subPackages, new Set([id])) } : wp
+  );
+  let targetApId: string;
+  let inserted: WorkPackage[];
+  if (position === 'inside') {
+    if (!removed.some(wp => wp.id === targetId)) return null;
+    targetApId = targetId;
+    inserted = removed.map(wp => (wp.id === targetId ? { ...wp, subPackages: [...wp.subPackages, moved] } : wp));
+  } else {
+    const target = workPackageOf(removed, targetId);
+    if (!target) return null;
+    const { siblings, index, parent } = locate(target.subPackages, targetId)!;
+    const at = index + (position === 'after' ? 1 : 0);
+    targetApId = target.id;
+    inserted = removed.map(wp =>
+      wp.id === target.id ? withSiblings(wp, parent?.id, [...siblings.slice(0, at), moved, ...siblings.slice(at)]) : wp
+    );
+  }
+
+  const workPackages = inserted.map(wp => (wp.id === source.id || wp.id === targetApId ? rollupWorkPackage(wp) : wp));
+  return sameOutline(project.workPackages, workPackages) ? null : { ...project, workPackages };
+}
+
+/**
+ * Moves an item one place up (-1) or down (1) among its siblings. A UAP
+ * directly below an AP moves on into the neighbouring AP at the edge of its
+ * list; nested UAPs stay below their parent.
+ */
+export function moveTreeItemBy(project: Project, id: string, direction: -1 | 1): Project | null {
+  const position = direction < 0 ? 'before' : 'after';
+  const list: { id: string }[] | undefined = [project.workPackages, project.milestones].find(items =>
+    items.some(item => item.id === id)
+  );
+  if (list) {
+    const other = list[list.findIndex(item => item.id === id) + direction];
+    return other ? moveTreeItem(project, id, other.id, position) : null;
+  }
+
+  const wp = workPackageOf(project.workPackages, id);
+  const location = wp && locate(wp.subPackages, id);
+  if (!wp || !location) return null;
+  const sibling = location.siblings[location.index + direction];
+  if (sibling) return moveTreeItem(project, id, sibling.id, position);
+  if (location.parent) return null;
+
+  const nextAp = project.workPackages[project.workPackages.indexOf(wp) + direction];
+  if (!nextAp) return null;
+  return direction > 0 && nextAp.subPackages.length > 0
+    ? moveTreeItem(project, id, nextAp.subPackages[0].id, 'before')
+    : moveTreeItem(project, id, nextAp.id, 'inside');
+}
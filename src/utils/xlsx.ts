@@ -0,0 +1,442 @@
+// Excel workbook (XLSX) export: task table and a Gantt chart drawn with filled cells
+
+import { Project, SubPackage } from '../types';
+import { addDays, minDate, maxDate } from './dateUtils';
+import { isWorkingDay, workingDaysBetween } from './calendar';
+import { TickUnit, TICK_UNITS, unitTicks, nextUnit, formatTickLabel } from './timeScale';
+import { wbsCodes } from './wbs';
+import { STATUS_LABELS, subPackageProgress, workPackageProgress } from './progress';
+import { escapeXml } from './xml';
+import { ZipEntry, createZip } from './zip';
+
+// Day 0 of Excel's date serial numbers (1900 date system)
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+// Beyond this many columns the next coarser unit is used; a daily chart over years is unreadable
+const MAX_GANTT_COLUMNS = 1000;
+
+// Same fallback colors as the timeline cards
+const BAR_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#06B6D4'];
+const AP_COLOR = '#64748B';
+const MILESTONE_COLOR = '#374151';
+const NON_WORKING_COLOR = '#F3F4F6';
+const BORDER_COLOR = '#D1D5DB';
+
+const DATE_FORMAT_ID = 164; // Custom format dd.mm.yyyy
+const PERCENT_FORMAT_ID = 9; // Built-in 0%
+
+type ItemKind = 'ap' | 'uap' | 'ms';
+
+const KIND_LABELS: Record<ItemKind, string> = { ap: 'Arbeitspaket', uap: 'Unterarbeitspaket', ms: 'Meilenstein' };
+
+// One row of both sheets
+interface SheetItem {
+  kind: ItemKind;
+  code: string;
+  title: string;
+  level: number; // Outline depth, 0 for APs and milestones
+  start: string;
+  end: string;
+  color: string; // Bar color as #RRGGBB
+  status?: string;
+  progress: number | null; // Percent
+  category?: string;
+  assignees: string[];
+}
+
+interface CellStyle {
+  bold?: boolean;
+  fontColor?: string;
+  fill?: string;
+  numFmt?: number;
+  indent?: number;
+  center?: boolean;
+  rotate?: boolean; // Vertical text for narrow period columns
+  border?: boolean; // Thin line below (header row)
+}
+
+type Cell = { value?: string | number; style: number } | null; // No value = styled empty cell
+
+interface SheetOptions {
+  rows: Cell[][];
+  widths: number[];
+  frozenColumns: number;
+  headerHeight?: number;
+  autoFilter?: boolean;
+}
+
+/**
+ * Hex color as Excel ARGB; named colors are not supported (undefined)
+ */
+function argb(color: string | undefined): string | undefined {
+  const match = /^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/.exec(color?.trim() ?? '');
+  if (!match) return undefined;
+  const hex = match[1].length === 3 ? match[1].replace(/./g, digit => digit + digit) : match[1];
+  return `FF${hex.toUpperCase()}`;
+}
+
+/**
+ * Column letters of a zero-based column index (0 = A, 26 = AA)
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Serial number of a date, counted in UTC so time zones that skipped a day
+ * (Pacific/Kiritimati, Samoa) do not shift it
+ */
+function excelDate(iso: string): number {
+  const [year, month, day] = iso.split('-').map(Number);
+  return Math.round((Date.UTC(year, month - 1, day) - EXCEL_EPOCH) / 86400000);
+}
+
+/**
+ * APs, UAPs (any depth) and milestones in outline order
+ */
+function sheetItems(project: Project): SheetItem[] {
+  const { calendar } = project.settings;
+  const codes = wbsCodes(project.workPackages);
+  const items: SheetItem[] = [];
+
+  for (const wp of project.workPackages) {
+    items.push({
+      kind: 'ap',
+      code: codes.get(wp.id)!,
+      title: wp.title,
+      level: 0,
+      start: wp.start,
+      end: wp.end,
+      color: AP_COLOR,
+      progress: workPackageProgress(wp, calendar),
+      assignees: [],
+    });
+    let index = 0;
+    const addSubPackages = (subPackages: SubPackage[], level: number) => {
+      for (const sp of subPackages) {
+        items.push({
+          kind: 'uap',
+          code: codes.get(sp.id)!,
+          title: sp.title,
+          level,
+          start: sp.start,
+          end: sp.end,
+          color: argb(sp.color) ? sp.color!.trim() : BAR_COLORS[index % BAR_COLORS.length],
+          status: STATUS_LABELS[sp.status],
+          progress: subPackageProgress(sp, calendar),
+          category: sp.category,
+          assignees: sp.assignedTo ?? [],
+        });
+        index++;
+        addSubPackages(sp.children ?? [], level + 1);
+      }
+    };
+    addSubPackages(wp.subPackages, 1);
+  }
+
+  for (const ms of project.milestones) {
+    items.push({
+      kind: 'ms',
+      code: '',
+      title: ms.title,
+      level: 0,
+      start: ms.date,
+      end: ms.date,
+      color: MILESTONE_COLOR,
+      progress: null,
+      assignees: [],
+    });
+  }
+  return items;
+}
+
+/**
+ * Collects fonts, fills and cell formats; equal styles share one index
+ */
+function createStyles() {
+  const fonts = ['<font><sz val="11"/><name val="Calibri"/></font>'];
+  const fills = ['<fill><patternFill patternType="none"/></fill>', '<fill><patternFill patternType="gray125"/></fill>'];
+  const cellFormats = ['<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'];
+
+  const indexIn = (list: string[], xml: string) => {
+    const index = list.indexOf(xml);
+    if (index !== -1) return index;
+    list.push(xml);
+    return list.length - 1;
+  };
+
+  const id = (style: CellStyle): number => {
+    const fontColor = argb(style.fontColor);
+    const fontId = indexIn(
+      fonts,
+      `<font>${style.bold ? '<b/>' : ''}${fontColor ? `<color rgb="${fontColor}"/>` : ''}<sz val="11"/><name val="Calibri"/></font>`
+    );
+    const fill = argb(style.fill);
+    const fillId = fill
+      ? indexIn(fills, `<fill><patternFill patternType="solid"><fgColor rgb="${fill}"/><bgColor indexed="64"/></patternFill></fill>`)
+      : 0;
+    const borderId = style.border ? 1 : 0;
+    const numFmtId = style.numFmt ?? 0;
+    const alignment = [
+      style.indent ? `horizontal="left" indent="${style.indent}"` : '',
+      style.center ? 'horizontal="center"' : '',
+      style.rotate ? 'textRotation="90"' : '',
+    ].filter(Boolean);
+
+    const attributes = [
+      `numFmtId="${numFmtId}" fontId="${fontId}" fillId="${fillId}" borderId="${borderId}" xfId="0"`,
+      numFmtId ? 'applyNumberFormat="1"' : '',
+      fontId ? 'applyFont="1"' : '',
+      fillId ? 'applyFill="1"' : '',
+      borderId ? 'applyBorder="1"' : '',
+      alignment.length > 0 ? 'applyAlignment="1"' : '',
+    ].filter(Boolean);
+    const xf =
+      alignment.length > 0
+        ? `<xf ${attributes.join(' ')}><alignment ${alignment.join(' ')}/></xf>`
+        : `<xf ${attributes.join(' ')}/>`;
+    return indexIn(cellFormats, xf);
+  };
+
+  const xml = () =>
+    [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+      `<numFmts count="1"><numFmt numFmtId="${DATE_FORMAT_ID}" formatCode="dd.mm.yyyy"/></numFmts>`,
+      `<fonts count="${fonts.length}">${fonts.join('')}</fonts>`,
+      `<fills count="${fills.length}">${fills.join('')}</fills>`,
+      '<borders count="2">',
+      '<border><left/><right/><top/><bottom/><diagonal/></border>',
+      `<border><left/><right/><top/><bottom style="thin"><color rgb="${argb(BORDER_COLOR)}"/></bottom><diagonal/></border>`,
+      '</borders>',
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+      `<cellXfs count="${cellFormats.length}">${cellFormats.join('')}</cellXfs>`,
+      '<cellStyles count="1"><cellStyle name="Standard" xfId="0" builtinId="0"/></cellStyles>',
+      '</styleSheet>',
+    ].join('');
+
+  return { id, xml };
+}
+
+/**
+ * Text for XML content: control characters are not allowed in XML 1.0
+ */
+function cellText(text: string): string {
+  return escapeXml(text.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, ''));
+}
+
+function cellXml(cell: Cell, ref: string): string {
+  if (!cell) return '';
+  const style = cell.style ? ` s="${cell.style}"` : '';
+  if (cell.value === undefined) return `<c r="${ref}"${style}/>`;
+  if (typeof cell.value === 'number') return `<c r="${ref}"${style}><v>${cell.value}</v></c>`;
+  return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${cellText(cell.value)}</t></is></c>`;
+}
+
+/**
+ * Worksheet with a frozen header row (and leading columns) and column widths in characters
+ */
+function sheetXml({ rows, widths, frozenColumns, headerHeight, autoFilter }: SheetOptions): string {
+  const lastColumn = columnName(Math.max(widths.length, 1) - 1);
+  const topLeft = `${columnName(frozenColumns)}2`;
+  const pane = frozenColumns
+    ? `<pane xSplit="${frozenColumns}" ySplit="1" topLeftCell="${topLeft}" activePane="bottomRight" state="frozen"/>`
+    : `<pane ySplit="1" topLeftCell="${topLeft}" activePane="bottomLeft" state="frozen"/>`;
+  const cols = widths.map(
+    (width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`
+  );
+  const rowXml = rows.map((row, rowIndex) => {
+    const height = rowIndex === 0 && headerHeight ? ` ht="${headerHeight}" customHeight="1"` : '';
+    const cells = row.map((cell, column) => cellXml(cell, `${columnName(column)}${rowIndex + 1}`)).join('');
+    return `<row r="${rowIndex + 1}"${height}>${cells}</row>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+    `<dimension ref="A1:${lastColumn}${Math.max(rows.length, 1)}"/>`,
+    `<sheetViews><sheetView workbookViewId="0">${pane}</sheetView></sheetViews>`,
+    '<sheetFormatPr defaultRowHeight="15"/>',
+    `<cols>${cols.join('')}</cols>`,
+    `<sheetData>${rowXml.join('')}</sheetData>`,
+    autoFilter && rows.length > 1 ? `<autoFilter ref="A1:${lastColumn}${rows.length}"/>` : '',
+    '</worksheet>',
+  ].join('');
+}
+
+/**
+ * Task table: one row per AP, UAP and milestone with real date and percent cells
+ */
+function taskSheet(project: Project, items: SheetItem[], styles: ReturnType<typeof createStyles>): string {
+  const { calendar } = project.settings;
+  const header = styles.id({ bold: true, border: true });
+  const plain = styles.id({});
+  const date = styles.id({ numFmt: DATE_FORMAT_ID });
+  const percent = styles.id({ numFmt: PERCENT_FORMAT_ID });
+
+  const rows: Cell[][] = [
+    ['PSP', 'Titel', 'Typ', 'Start', 'Ende', 'Arbeitstage', 'Status', 'Fortschritt', 'Kategorie', 'Zuständig'].map(
+      value => ({ value, style: header })
+    ),
+  ];
+  for (const item of items) {
+    const bold = item.kind === 'ap';
+    rows.push([
+      { value: item.code, style: bold ? styles.id({ bold }) : plain },
+      { value: item.title, style: styles.id({ bold, indent: item.level || undefined }) },
+      { value: KIND_LABELS[item.kind], style: plain },
+      { value: excelDate(item.start), style: date },
+      { value: excelDate(item.end), style: date },
+      { value: item.kind === 'ms' ? 0 : workingDaysBetween(item.start, item.end, calendar), style: plain },
+      item.status ? { value: item.status, style: plain } : null,
+      item.progress !== null ? { value: item.progress / 100, style: percent } : null,
+      item.category ? { value: item.category, style: plain } : null,
+      item.assignees.length > 0 ? { value: item.assignees.join(', '), style: plain } : null,
+    ]);
+  }
+
+  return sheetXml({ rows, widths: [8, 40, 18, 12, 12, 12, 12, 12, 18, 24], frozenColumns: 0, autoFilter: true });
+}
+
+/**
+ * Finest unit from the requested one on whose columns stay within MAX_GANTT_COLUMNS
+ */
+function ganttUnit(from: string, to: string, unit: TickUnit): TickUnit {
+  const candidates = TICK_UNITS.slice(TICK_UNITS.indexOf(unit));
+  return candidates.find(candidate => unitTicks(from, to, candidate).length <= MAX_GANTT_COLUMNS) ?? 'quarter';
+}
+
+/**
+ * Gantt chart: one column per period, cells filled in the bar color where an
+ * item overlaps the period, milestones marked with a diamond. Non-working days
+ * are shaded in the daily view.
+ */
+function ganttSheet(project: Project, items: SheetItem[], unit: TickUnit, styles: ReturnType<typeof createStyles>): string {
+  const { calendar } = project.settings;
+  // End dates are exclusive: the last day of a bar is the day before its end
+  const days = items.flatMap(item => (item.end > item.start ? [item.start, addDays(item.end, -1)] : [item.start]));
+  const from = minDate(days);
+  const to = maxDate(days);
+  const periodUnit = ganttUnit(from, to, unit);
+  const periods = items.length > 0 ? unitTicks(from, to, periodUnit) : [];
+  const periodEnds = periods.map(period => nextUnit(period, periodUnit));
+
+  const header = styles.id({ bold: true, border: true });
+  const periodHeader = styles.id({ border: true, rotate: true, center: true });
+  const nonWorking = styles.id({ fill: NON_WORKING_COLOR });
+  const milestone = styles.id({ bold: true, center: true, fontColor: MILESTONE_COLOR });
+
+  const rows: Cell[][] = [
+    [
+      { value: 'PSP', style: header },
+      { value: 'Titel', style: header },
+      ...periods.map(period => ({ value: formatTickLabel(period, periodUnit), style: periodHeader })),
+    ],
+  ];
+  for (const item of items) {
+    const bold = item.kind === 'ap';
+    const bar = styles.id({ fill: item.color });
+    const cells: Cell[] = periods.map((period, index) => {
+      const periodEnd = periodEnds[index];
+      if (item.kind === 'ms') {
+        if (item.start >= period && item.start < periodEnd) return { value: '◆', style: milestone };
+      } else if (item.end > item.start ? item.start < periodEnd && item.end > period : item.start >= period && item.start < periodEnd) {
+        return { style: bar };
+      }
+      return periodUnit === 'day' && !isWorkingDay(period, calendar) ? { style: nonWorking } : null;
+    });
+    rows.push([
+      { value: item.code, style: styles.id({ bold }) },
+      { value: item.title, style: styles.id({ bold, indent: item.level || undefined }) },
+      ...cells,
+    ]);
+  }
+
+  const periodWidth = periodUnit === 'day' ? 3 : 4.5;
+  return sheetXml({
+    rows,
+    widths: [8, 36, ...periods.map(() => periodWidth)],
+    frozenColumns: 2,
+    headerHeight: 60,
+  });
+}
+
+/**
+ * Files of the workbook: sheet "Vorgänge" with the task table and sheet
+ * "Gantt" with periods of the given unit (coarser if the project is too long)
+ */
+export function xlsxEntries(project: Project, unit: TickUnit): ZipEntry[] {
+  const items = sheetItems(project);
+  const styles = createStyles();
+  const sheets = [
+    { name: 'Vorgänge', xml: taskSheet(project, items, styles) },
+    { name: 'Gantt', xml: ganttSheet(project, items, unit, styles) },
+  ];
+  const spreadsheetType = 'application/vnd.openxmlformats-officedocument.spreadsheetml';
+  const relationshipType = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+  return [
+    {
+      name: '[Content_Types].xml',
+      content: [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+        '<Default Extension="xml" ContentType="application/xml"/>',
+        `<Override PartName="/xl/workbook.xml" ContentType="${spreadsheetType}.sheet.main+xml"/>`,
+        `<Override PartName="/xl/styles.xml" ContentType="${spreadsheetType}.styles+xml"/>`,
+        ...sheets.map(
+          (_, index) =>
+            `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="${spreadsheetType}.worksheet+xml"/>`
+        ),
+        '</Types>',
+      ].join(''),
+    },
+    {
+      name: '_rels/.rels',
+      content: [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+        `<Relationship Id="rId1" Type="${relationshipType}/officeDocument" Target="xl/workbook.xml"/>`,
+        '</Relationships>',
+      ].join(''),
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="${relationshipType}">`,
+        '<sheets>',
+        ...sheets.map((sheet, index) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`),
+        '</sheets>',
+        '</workbook>',
+      ].join(''),
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+        ...sheets.map(
+          (_, index) =>
+            `<Relationship Id="rId${index + 1}" Type="${relationshipType}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+        ),
+        `<Relationship Id="rId${sheets.length + 1}" Type="${relationshipType}/styles" Target="styles.xml"/>`,
+        '</Relationships>',
+      ].join(''),
+    },
+    { name: 'xl/styles.xml', content: styles.xml() },
+    ...sheets.map((sheet, index) => ({ name: `xl/worksheets/sheet${index + 1}.xml`, content: sheet.xml })),
+  ];
+}
+
+/**
+ * Excel workbook of the project (see xlsxEntries) as file bytes
+ */
+export function exportToXlsx(project: Project, unit: TickUnit): Uint8Array {
+  return createZip(xlsxEntries(project, unit));
+}
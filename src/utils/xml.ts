@@ -0,0 +1,116 @@
+// Minimal XML reading and writing for file exchange formats (no external libraries)
+
+export interface XmlElement {
+  name: string; // Local name without namespace prefix
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Concatenated text content of the element itself (not of its children)
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * Escapes text for element content and attribute values
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+/**
+ * Parses an XML document into its root element. Comments, processing
+ * instructions and the doctype are skipped; throws on malformed markup.
+ */
+export function parseXml(source: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let pos = 0;
+
+  const invalid = (message: string) => new Error(`Ungültiges XML: ${message}`);
+
+  while (pos < source.length) {
+    const open = source.indexOf('<', pos);
+    const textEnd = open === -1 ? source.length : open;
+    if (stack.length > 0 && textEnd > pos) {
+      stack[stack.length - 1].text += decodeEntities(source.slice(pos, textEnd));
+    }
+    if (open === -1) break;
+
+    if (source.startsWith('<!--', open)) {
+      pos = source.indexOf('-->', open);
+      if (pos === -1) throw invalid('Kommentar nicht geschlossen');
+      pos += 3;
+    } else if (source.startsWith('<![CDATA[', open)) {
+      const end = source.indexOf(']]>', open);
+      if (end === -1) throw invalid('CDATA nicht geschlossen');
+      if (stack.length > 0) stack[stack.length - 1].text += source.slice(open + 9, end);
+      pos = end + 3;
+    } else if (source.startsWith('<?', open) || source.startsWith('<!', open)) {
+      pos = source.indexOf('>', open);
+      if (pos === -1) throw invalid('Deklaration nicht geschlossen');
+      pos += 1;
+    } else if (source.startsWith('</', open)) {
+      const end = source.indexOf('>', open);
+      if (end === -1) throw invalid('End-Tag nicht geschlossen');
+      const name = localName(source.slice(open + 2, end).trim());
+      const element = stack.pop();
+      if (!element || element.name !== name) throw invalid(`unerwartetes </${name}>`);
+      pos = end + 1;
+    } else {
+      const match = /^<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(source.slice(open, open + 4096));
+      if (!match) throw invalid(`ungültiges Tag an Position ${open}`);
+      const [tag, name, attributeText, selfClosing] = match;
+      const element: XmlElement = { name: localName(name), attributes: {}, children: [], text: '' };
+      for (const [, key, double, single] of attributeText.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        element.attributes[key] = decodeEntities(double ?? single ?? '');
+      }
+      const parent = stack[stack.length - 1];
+      if (parent) parent.children.push(element);
+      else if (root) throw invalid('mehrere Wurzelelemente');
+      else root = element;
+      if (!selfClosing) stack.push(element);
+      pos = open + tag.length;
+    }
+  }
+
+  if (stack.length > 0) throw invalid(`<${stack[stack.length - 1].name}> nicht geschlossen`);
+  if (!root) throw invalid('kein Wurzelelement');
+  return root;
+}
+
+/**
+ * First child element with the given name
+ */
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find(child => child.name === name);
+}
+
+/**
+ * All child elements with the given name
+ */
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(child => child.name === name);
+}
+
+/**
+ * Trimmed text of the first child element with the given name (undefined if missing)
+ */
+export function childText(element: XmlElement, name: string): string | undefined {
+  return childElement(element, name)?.text.trim();
+}
@@ -0,0 +1,108 @@
+// ZIP archive writing for Office Open XML files (no external libraries)
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, forward slashes
+  content: string | Uint8Array; // Text is stored as UTF-8
+}
+
+// Files are stored uncompressed with a fixed timestamp (1980-01-01), so the same input gives the same bytes
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1; // Year 0 (1980), month 1, day 1
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 checksum (IEEE polynomial) as used by ZIP
+ */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Packs the entries into a ZIP archive (stored, no compression)
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const files = entries.map(entry => {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.content === 'string' ? encoder.encode(entry.content) : entry.content;
+    return { name, data, crc: crc32(data) };
+  });
+
+  const localSize = files.reduce((sum, file) => sum + 30 + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.name.length, 0);
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+  let pos = 0;
+
+  const u16 = (value: number) => {
+    view.setUint16(pos, value, true);
+    pos += 2;
+  };
+  const u32 = (value: number) => {
+    view.setUint32(pos, value, true);
+    pos += 4;
+  };
+  const raw = (data: Uint8Array) => {
+    bytes.set(data, pos);
+    pos += data.length;
+  };
+  // Version, flags (bit 11 = UTF-8 names), method (0 = stored), time, date, checksum, sizes
+  const commonHeader = (file: (typeof files)[number]) => {
+    u16(20);
+    u16(0x0800);
+    u16(0);
+    u16(DOS_TIME);
+    u16(DOS_DATE);
+    u32(file.crc);
+    u32(file.data.length);
+    u32(file.data.length);
+    u16(file.name.length);
+  };
+
+  const offsets: number[] = [];
+  for (const file of files) {
+    offsets.push(pos);
+    u32(0x04034b50);
+    commonHeader(file);
+    u16(0); // Extra field length
+    raw(file.name);
+    raw(file.data);
+  }
+
+  const centralStart = pos;
+  files.forEach((file, index) => {
+    u32(0x02014b50);
+    u16(20); // Version made by
+    commonHeader(file);
+    u16(0); // Extra field length
+    u16(0); // Comment length
+    u16(0); // Disk number
+    u16(0); // Internal attributes
+    u32(0); // External attributes
+    u32(offsets[index]);
+    raw(file.name);
+  });
+
+  const centralEnd = pos;
+  u32(0x06054b50);
+  u16(0); // Disk number
+  u16(0); // Disk with the central directory
+  u16(files.length);
+  u16(files.length);
+  u32(centralEnd - centralStart); // Size of the central directory
+  u32(centralStart);
+  u16(0); // Comment length
+
+  return bytes;
+}